@@ -11,13 +11,27 @@ import { ClaudeProcessManager } from './services/claude-process-manager.js';
 import { StreamManager } from './services/stream-manager.js';
 import { ClaudeHistoryReader } from './services/claude-history-reader.js';
 import { PermissionTracker } from './services/permission-tracker.js';
+import { PermissionAuditService } from './services/permission-audit-service.js';
+import { PermissionRuleEvaluator } from './services/permission-rule-evaluator.js';
 import { MCPConfigGenerator } from './services/mcp-config-generator.js';
 import { FileSystemService } from './services/file-system-service.js';
 import { ConfigService } from './services/config-service.js';
 import { SessionInfoService } from './services/session-info-service.js';
 import { ConversationStatusManager } from './services/conversation-status-manager.js';
 import { WorkingDirectoriesService } from './services/working-directories-service.js';
+import { ConversationForkService } from './services/conversation-fork-service.js';
+import { ConversationSearchService } from './services/conversation-search-service.js';
 import { ToolMetricsService } from './services/ToolMetricsService.js';
+import { UsageService } from './services/usage-service.js';
+import { BudgetService } from './services/budget-service.js';
+import { SessionRecoveryService } from './services/session-recovery-service.js';
+import { SchedulerService } from './services/scheduler-service.js';
+import { PromptTemplateService } from './services/prompt-template-service.js';
+import { SessionStatusFeed } from './services/session-status-feed.js';
+import { CheckpointService } from './services/checkpoint-service.js';
+import { WorktreeService } from './services/worktree-service.js';
+import { ConversationExportService } from './services/conversation-export-service.js';
+import { ConversationImportService } from './services/conversation-import-service.js';
 import { NotificationService } from './services/notification-service.js';
 import { WebPushService } from './services/web-push-service.js';
 import { geminiService } from './services/gemini-service.js';
@@ -25,15 +39,24 @@ import { ClaudeRouterService } from './services/claude-router-service.js';
 import { 
   StreamEvent,
   CUIError,
-  PermissionRequest
+  PermissionRequest,
+  FollowUpMessage
 } from './types/index.js';
 import { createLogger, type Logger } from './services/logger.js';
 import { createConversationRoutes } from './routes/conversation.routes.js';
 import { createSystemRoutes } from './routes/system.routes.js';
+import { createCommandRoutes } from './routes/commands.routes.js';
 import { createPermissionRoutes } from './routes/permission.routes.js';
+import { createPermissionHistoryRoutes } from './routes/permission-history.routes.js';
+import { createConversationSearchRoutes } from './routes/conversation-search.routes.js';
+import { createUsageRoutes } from './routes/usage.routes.js';
+import { createCheckpointRoutes } from './routes/checkpoint.routes.js';
+import { createSchedulerRoutes } from './routes/scheduler.routes.js';
+import { createPromptTemplateRoutes } from './routes/prompt-templates.routes.js';
 import { createFileSystemRoutes } from './routes/filesystem.routes.js';
 import { createLogRoutes } from './routes/log.routes.js';
 import { createStreamingRoutes } from './routes/streaming.routes.js';
+import { createWebSocketServer, closeWebSocketServer } from './routes/websocket.routes.js';
 import { createWorkingDirectoriesRoutes } from './routes/working-directories.routes.js';
 import { createConfigRoutes } from './routes/config.routes.js';
 import { createGeminiRoutes } from './routes/gemini.routes.js';
@@ -53,11 +76,13 @@ let ViteExpress: typeof import('vite-express') | undefined;
 export class CUIServer {
   private app: Express;
   private server?: import('http').Server;
+  private webSocketServer?: import('ws').WebSocketServer;
   private processManager: ClaudeProcessManager;
   private streamManager: StreamManager;
   private historyReader: ClaudeHistoryReader;
   private statusTracker: ConversationStatusManager;
   private permissionTracker: PermissionTracker;
+  private permissionAuditService: PermissionAuditService;
   private mcpConfigGenerator: MCPConfigGenerator;
   private fileSystemService: FileSystemService;
   private configService: ConfigService;
@@ -65,6 +90,18 @@ export class CUIServer {
   private conversationStatusManager: ConversationStatusManager;
   private workingDirectoriesService: WorkingDirectoriesService;
   private toolMetricsService: ToolMetricsService;
+  private conversationForkService: ConversationForkService;
+  private conversationSearchService: ConversationSearchService;
+  private usageService: UsageService;
+  private budgetService: BudgetService;
+  private sessionRecoveryService: SessionRecoveryService;
+  private schedulerService: SchedulerService;
+  private promptTemplateService: PromptTemplateService;
+  private sessionStatusFeed: SessionStatusFeed;
+  private checkpointService: CheckpointService;
+  private worktreeService: WorktreeService;
+  private conversationExportService: ConversationExportService;
+  private conversationImportService: ConversationImportService;
   private notificationService: NotificationService;
   private webPushService: WebPushService;
   private routerService?: ClaudeRouterService;
@@ -106,16 +143,33 @@ export class CUIServer {
     this.processManager = new ClaudeProcessManager(this.historyReader, this.statusTracker, "C:\\Users\\Varun israni\\AppData\\Roaming\\npm\\claude.cmd", undefined, this.toolMetricsService, this.sessionInfoService, this.fileSystemService);
     this.streamManager = new StreamManager();
     this.permissionTracker = new PermissionTracker();
+    this.permissionAuditService = new PermissionAuditService(this.sessionInfoService);
     this.mcpConfigGenerator = new MCPConfigGenerator(this.fileSystemService);
     this.workingDirectoriesService = new WorkingDirectoriesService(this.historyReader, this.logger);
+    this.conversationForkService = new ConversationForkService(this.historyReader, this.sessionInfoService);
+    this.conversationSearchService = new ConversationSearchService(this.sessionInfoService, this.historyReader);
+    this.usageService = new UsageService(this.sessionInfoService, this.historyReader);
+    this.budgetService = new BudgetService(this.usageService, this.sessionInfoService);
+    this.sessionRecoveryService = new SessionRecoveryService(this.sessionInfoService, this.historyReader, this.processManager);
+    this.sessionStatusFeed = new SessionStatusFeed(this.streamManager, this.usageService);
+    this.checkpointService = new CheckpointService(this.sessionInfoService, this.processManager);
+    this.worktreeService = new WorktreeService(this.sessionInfoService, this.conversationStatusManager);
+    this.conversationExportService = new ConversationExportService(this.historyReader, this.sessionInfoService);
+    this.conversationImportService = new ConversationImportService(this.historyReader, this.sessionInfoService);
     this.notificationService = new NotificationService();
+    this.schedulerService = new SchedulerService(this.sessionInfoService, this.processManager, this.notificationService);
+    this.promptTemplateService = new PromptTemplateService();
     this.webPushService = WebPushService.getInstance();
     
     // Wire up notification service
     this.processManager.setNotificationService(this.notificationService);
+    this.processManager.setBudgetService(this.budgetService);
+    this.processManager.setMCPConfigGenerator(this.mcpConfigGenerator);
     this.permissionTracker.setNotificationService(this.notificationService);
     this.permissionTracker.setConversationStatusManager(this.conversationStatusManager);
     this.permissionTracker.setHistoryReader(this.historyReader);
+    this.permissionTracker.setAuditService(this.permissionAuditService);
+    this.permissionTracker.setRuleEvaluator(new PermissionRuleEvaluator());
     
     this.logger.debug('Services initialized successfully');
     
@@ -163,6 +217,18 @@ export class CUIServer {
       await this.sessionInfoService.initialize();
       this.logger.debug('Session info service initialized successfully');
 
+      // Permission audit log, search index, usage records, active sessions, checkpoints and scheduled jobs share the session info database
+      await this.permissionAuditService.initialize();
+      await this.conversationSearchService.initialize();
+      await this.usageService.initialize();
+      await this.sessionRecoveryService.initialize();
+      await this.checkpointService.initialize();
+      await this.schedulerService.initialize();
+      // Build the search index in the background so the first search doesn't pay for it
+      this.conversationSearchService.refresh().catch(error => {
+        this.logger.warn('Initial conversation search index refresh failed', { error });
+      });
+
       this.logger.debug('Initializing Gemini service');
       await geminiService.initialize();
       this.logger.debug('Gemini service initialized successfully');
@@ -170,6 +236,8 @@ export class CUIServer {
       // Initialize router service if configured
       await this.initializeOrReloadRouter(config);
 
+      this.processManager.setMaxConcurrentProcesses(config.processes?.maxConcurrent ?? 0);
+
       // Apply overrides if provided (for tests and CLI options)
       this.port = this.configOverrides?.port ?? config.server.port;
       this.host = this.configOverrides?.host ?? config.server.host;
@@ -188,6 +256,7 @@ export class CUIServer {
       
       // Generate MCP config before starting server
       try {
+        this.mcpConfigGenerator.setUserServers(config.mcp?.servers ?? []);
         const mcpConfigPath = await this.mcpConfigGenerator.generateConfig(this.port);
         this.processManager.setMCPConfigPath(mcpConfigPath);
         this.logger.debug('MCP config generated and set', { path: mcpConfigPath });
@@ -221,8 +290,14 @@ export class CUIServer {
         logger: this.logger
       });
 
-      // Subscribe to configuration changes to hot-reload router when needed
+      // Subscribe to configuration changes to hot-reload router and process limit when needed
       this.configService.onChange(async (newConfig) => {
+        this.processManager.setMaxConcurrentProcesses(newConfig.processes?.maxConcurrent ?? 0);
+        try {
+          this.mcpConfigGenerator.setUserServers(newConfig.mcp?.servers ?? []);
+        } catch (error) {
+          this.logger.error('Failed to update MCP config after config change', error);
+        }
         try {
           await this.initializeOrReloadRouter(newConfig);
         } catch (error) {
@@ -315,6 +390,31 @@ export class CUIServer {
           });
         }
       });
+
+      if (this.server) {
+        this.webSocketServer = createWebSocketServer(this.server, {
+          streamManager: this.streamManager,
+          processManager: this.processManager,
+          permissionTracker: this.permissionTracker,
+          historyReader: this.historyReader,
+          sessionInfoService: this.sessionInfoService,
+          conversationStatusManager: this.conversationStatusManager,
+          worktreeService: this.worktreeService
+        }, {
+          tokenOverride: this.configOverrides?.token,
+          skipAuth: this.configOverrides?.skipAuthToken
+        });
+      }
+
+      // Resumed conversations need the server up for their permission requests
+      if (this.configService.getConfig().processes?.autoResumeInterrupted) {
+        this.sessionRecoveryService.resumeAll().catch(error => {
+          this.logger.error('Failed to resume interrupted sessions', error);
+        });
+      }
+
+      // Scheduled runs need the server up for their permission requests too
+      this.schedulerService.start();
       
     } catch (error) {
       this.logger.error('Failed to start server:', error, {
@@ -355,6 +455,10 @@ export class CUIServer {
       }
     }
     
+    // Keep running conversations resumable after the restart
+    this.sessionRecoveryService.suspend();
+    this.schedulerService.stop();
+
     // Stop all active Claude processes
     const activeSessions = this.processManager.getActiveSessions();
     if (activeSessions.length > 0) {
@@ -378,6 +482,9 @@ export class CUIServer {
     // Disconnect all streaming clients
     this.logger.debug('Disconnecting all streaming clients');
     this.streamManager.disconnectAll();
+    if (this.webSocketServer) {
+      closeWebSocketServer(this.webSocketServer);
+    }
     
     // Clean up MCP config
     this.logger.debug('Cleaning up MCP config');
@@ -476,13 +583,25 @@ export class CUIServer {
     }
     
     // API routes
+    this.app.use('/api/system/commands', createCommandRoutes());
+    this.app.use('/api/permissions/history', createPermissionHistoryRoutes(this.permissionAuditService));
+    this.app.use('/api/scheduled-jobs', createSchedulerRoutes(this.schedulerService));
+    this.app.use('/api/prompt-templates', createPromptTemplateRoutes(this.promptTemplateService));
+    this.app.use('/api/conversations/search', createConversationSearchRoutes(this.conversationSearchService));
+    this.app.use('/api/usage', createUsageRoutes(this.usageService, this.budgetService));
+    this.app.use('/api/checkpoints', createCheckpointRoutes(this.checkpointService));
     this.app.use('/api/conversations', createConversationRoutes(
       this.processManager,
       this.historyReader,
       this.statusTracker,
       this.sessionInfoService,
       this.conversationStatusManager,
-      this.toolMetricsService
+      this.toolMetricsService,
+      this.conversationForkService,
+      this.sessionRecoveryService,
+      this.worktreeService,
+      this.conversationExportService,
+      this.conversationImportService
     ));
     this.app.use('/api/filesystem', createFileSystemRoutes(this.fileSystemService));
     this.app.use('/api/logs', createLogRoutes());
@@ -510,6 +629,12 @@ export class CUIServer {
     
     // Set up tool metrics service to listen to claude messages
     this.toolMetricsService.listenToClaudeMessages(this.processManager);
+    this.usageService.listenToClaudeMessages(this.processManager);
+    this.sessionRecoveryService.listenToProcessManager();
+    this.schedulerService.listenToProcessManager();
+    this.checkpointService.listenToProcessManager();
+    this.processManager.setBeforeTurnHook(turn => this.checkpointService.beforeTurn(turn));
+    this.sessionStatusFeed.listen(this.processManager, this.conversationStatusManager, this.permissionTracker);
     
     // Forward Claude messages to stream
     this.processManager.on('claude-message', ({ streamingId, message }) => {
@@ -541,7 +666,7 @@ export class CUIServer {
     });
 
     // Handle process closure
-    this.processManager.on('process-closed', ({ streamingId, code }) => {
+    this.processManager.on('process-closed', ({ streamingId, code, interrupted }) => {
       this.logger.debug('Received process-closed event, closing StreamManager session', {
         streamingId,
         exitCode: code,
@@ -568,6 +693,15 @@ export class CUIServer {
         // Session completion notification removed
       }
 
+      // Lets clients tell a session the user can redirect from one that completed
+      if (interrupted) {
+        this.streamManager.broadcast(streamingId, {
+          type: 'interrupted',
+          streamingId,
+          timestamp: new Date().toISOString()
+        });
+      }
+
       this.streamManager.closeSession(streamingId);
     });
 
@@ -600,6 +734,37 @@ export class CUIServer {
       
       this.streamManager.broadcast(streamingId, errorEvent);
     });
+
+    // Let clients show follow-up messages as pending until Claude reads them
+    this.processManager.on('follow-up-queued', (followUp: FollowUpMessage) => {
+      this.streamManager.broadcast(followUp.streamingId, {
+        type: 'follow_up_queued',
+        data: followUp,
+        streamingId: followUp.streamingId,
+        timestamp: new Date().toISOString()
+      });
+    });
+    this.processManager.on('follow-up-sent', (followUp: FollowUpMessage) => {
+      this.streamManager.broadcast(followUp.streamingId, {
+        type: 'follow_up_sent',
+        data: followUp,
+        streamingId: followUp.streamingId,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Tell clients why a conversation is about to be stopped
+    this.processManager.on('budget-exceeded', ({ streamingId, reason }) => {
+      this.logger.debug('Received budget-exceeded event, forwarding to StreamManager', { streamingId, reason });
+
+      const errorEvent: StreamEvent = {
+        type: 'error' as const,
+        error: reason,
+        streamingId,
+        timestamp: new Date().toISOString()
+      };
+      this.streamManager.broadcast(streamingId, errorEvent);
+    });
     
     this.logger.debug('ProcessManager integration setup complete', {
       totalEventListeners: this.processManager.listenerCount('claude-message') + 
@@ -636,6 +801,20 @@ export class CUIServer {
       }
     });
     
+    // Let clients show requests that were decided by a permission rule
+    this.permissionTracker.on('permission_auto_decided', (request: PermissionRequest) => {
+      if (request.streamingId && request.streamingId !== 'unknown') {
+        const event: StreamEvent = {
+          type: 'permission_auto_decided',
+          data: request,
+          streamingId: request.streamingId,
+          timestamp: new Date().toISOString()
+        };
+
+        this.streamManager.broadcast(request.streamingId, event);
+      }
+    });
+    
     this.logger.debug('PermissionTracker integration setup complete');
   }
 
@@ -18,10 +18,15 @@ interface Permission {
   denyReason?: string;
 }
 
-interface PermissionsResponse {
-  permissions: Permission[];
+interface PermissionWaitResponse {
+  permission: Permission;
 }
 
+// Long-poll window per wait request and reconnect backoff bounds
+const LONG_POLL_TIMEOUT = 30 * 1000;
+const INITIAL_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
 // Get CUI server URL from environment
 const CUI_SERVER_URL = process.env.CUI_SERVER_URL || `http://localhost:${process.env.CUI_SERVER_PORT || '3001'}`;
 
@@ -98,19 +103,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     logger.debug('Permission request created', { permissionRequestId, streamingId: CUI_STREAMING_ID });
 
-    // Poll for permission decision
-    const POLL_INTERVAL = 1000; // 1 second
+    // Wait for the permission decision using long-poll requests
     const TIMEOUT = 60 * 60 * 1000; // 1 hour
     const startTime = Date.now();
+    let reconnectDelay = INITIAL_RECONNECT_DELAY;
 
-     
     while (true) {
       // Check timeout
-      if (Date.now() - startTime > TIMEOUT) {
+      const remaining = TIMEOUT - (Date.now() - startTime);
+      if (remaining <= 0) {
         logger.warn('Permission request timed out', { tool_name, permissionRequestId });
         const timeoutResponse = {
           behavior: 'deny',
-          message: 'Permission request timed out after 10 minutes after user did not respond',
+          message: 'Permission request timed out after 1 hour after user did not respond',
         };
         return {
           content: [{
@@ -120,30 +125,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      // Poll for permission status
-      const pollResponse = await fetch(
-        `${CUI_SERVER_URL}/api/permissions?streamingId=${CUI_STREAMING_ID}&status=pending`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (!pollResponse.ok) {
-        logger.error('Failed to poll permission status', { status: pollResponse.status });
-        throw new Error(`Failed to poll permission status: ${pollResponse.status}`);
-      }
-
-      const { permissions } = await pollResponse.json() as PermissionsResponse;
-      const permission = permissions.find((p) => p.id === permissionRequestId);
-
-      if (!permission) {
-        // Permission has been processed (no longer pending)
-        // Fetch all permissions to find our specific one
-        const allPermissionsResponse = await fetch(
-          `${CUI_SERVER_URL}/api/permissions?streamingId=${CUI_STREAMING_ID}`,
+      let waitResponse;
+      try {
+        waitResponse = await fetch(
+          `${CUI_SERVER_URL}/api/permissions/${permissionRequestId}/wait?timeout=${Math.min(LONG_POLL_TIMEOUT, remaining)}`,
           {
             method: 'GET',
             headers: {
@@ -151,46 +136,64 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             },
           }
         );
+      } catch (error) {
+        // Connection dropped or server restarting - back off and reconnect
+        logger.warn('Permission wait request failed, reconnecting', {
+          permissionRequestId,
+          reconnectDelay,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await new Promise(resolve => setTimeout(resolve, reconnectDelay));
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+        continue;
+      }
 
-        if (!allPermissionsResponse.ok) {
-          logger.error('Failed to fetch all permissions', { status: allPermissionsResponse.status });
-          throw new Error(`Failed to fetch all permissions: ${allPermissionsResponse.status}`);
-        }
-
-        const { permissions: allPermissions } = await allPermissionsResponse.json() as PermissionsResponse;
-        const processedPermission = allPermissions.find((p) => p.id === permissionRequestId);
-
-        if (processedPermission) {
-          if (processedPermission.status === 'approved') {
-            logger.debug('Permission approved', { tool_name, permissionRequestId });
-            const approvalResponse = {
-              behavior: 'allow',
-              updatedInput: processedPermission.modifiedInput || input,
-            };
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify(approvalResponse),
-              }],
-            };
-          } else if (processedPermission.status === 'denied') {
-            logger.debug('Permission denied', { tool_name, permissionRequestId });
-            const denyResponse = {
-              behavior: 'deny',
-              message: processedPermission.denyReason || 'The user doesnt want to proceed with this tool use.The tool use was rejected(eg.if it was a file edit, the new_string was NOT written to the file).STOP what you are doing and wait for the user to tell you how to proceed.',
-            };
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify(denyResponse),
-              }],
-            };
-          }
-        }
+      if (waitResponse.status === 404) {
+        logger.error('Permission request no longer exists', { permissionRequestId });
+        throw new Error('Permission request no longer exists');
+      }
+
+      if (!waitResponse.ok) {
+        logger.warn('Permission wait request returned an error, reconnecting', {
+          permissionRequestId,
+          status: waitResponse.status,
+          reconnectDelay,
+        });
+        await new Promise(resolve => setTimeout(resolve, reconnectDelay));
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+        continue;
+      }
+
+      reconnectDelay = INITIAL_RECONNECT_DELAY;
+      const { permission } = await waitResponse.json() as PermissionWaitResponse;
+
+      if (permission.status === 'approved') {
+        logger.debug('Permission approved', { tool_name, permissionRequestId });
+        const approvalResponse = {
+          behavior: 'allow',
+          updatedInput: permission.modifiedInput || input,
+        };
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(approvalResponse),
+          }],
+        };
+      } else if (permission.status === 'denied') {
+        logger.debug('Permission denied', { tool_name, permissionRequestId });
+        const denyResponse = {
+          behavior: 'deny',
+          message: permission.denyReason || 'The user doesnt want to proceed with this tool use.The tool use was rejected(eg.if it was a file edit, the new_string was NOT written to the file).STOP what you are doing and wait for the user to tell you how to proceed.',
+        };
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(denyResponse),
+          }],
+        };
       }
 
-      // Wait before next poll
-      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+      // Still pending after the long-poll window - wait again
     }
     
   } catch (error) {
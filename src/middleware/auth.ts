@@ -61,6 +61,25 @@ function recordFailedAttempt(ip: string): void {
   }
 }
 
+/**
+ * Check a Bearer token outside of the middleware, e.g. for WebSocket upgrades.
+ * Failed attempts count towards the same rate limit.
+ */
+export function verifyAuthToken(token: string | undefined, clientIp: string, tokenOverride?: string): boolean {
+  if (isRateLimited(clientIp)) {
+    logger.warn('Rate limit exceeded', { ip: clientIp });
+    return false;
+  }
+
+  const expectedToken = tokenOverride ?? ConfigService.getInstance().getConfig().authToken;
+  if (!token || token !== expectedToken) {
+    recordFailedAttempt(clientIp);
+    logger.warn('Invalid auth token', { ip: clientIp });
+    return false;
+  }
+  return true;
+}
+
 /**
  * Creates authentication middleware for API endpoints
  * @param tokenOverride - Optional token to use instead of config token
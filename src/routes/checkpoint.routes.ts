@@ -0,0 +1,131 @@
+import { Router, Request } from 'express';
+import { CheckpointsResponse, CUIError, DiscardHunkRequest, RevertCheckpointResponse, SessionChangesResponse } from '@/types/index.js';
+import { RequestWithRequestId } from '@/types/express.js';
+import { CheckpointService } from '@/services/checkpoint-service.js';
+import { createLogger } from '@/services/logger.js';
+
+type SessionQuery = { sessionId?: string; workingDirectory?: string };
+
+export function createCheckpointRoutes(checkpointService: CheckpointService): Router {
+  const router = Router();
+  const logger = createLogger('CheckpointRoutes');
+
+  // Checkpoints of a session, one per turn
+  router.get('/', async (req: Request<Record<string, never>, CheckpointsResponse, Record<string, never>, SessionQuery> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('List checkpoints request', {
+      requestId,
+      sessionId: req.query.sessionId
+    });
+
+    try {
+      if (!req.query.sessionId) {
+        throw new CUIError('MISSING_SESSION_ID', 'sessionId is required', 400);
+      }
+
+      const checkpoints = checkpointService.getCheckpoints(String(req.query.sessionId));
+      logger.debug('Checkpoints listed', {
+        requestId,
+        count: checkpoints.length
+      });
+      res.json({ checkpoints });
+    } catch (error) {
+      logger.debug('List checkpoints failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Changes of the working tree since the session started
+  router.get('/changes', async (req: Request<Record<string, never>, SessionChangesResponse, Record<string, never>, SessionQuery> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('Session changes request', {
+      requestId,
+      sessionId: req.query.sessionId
+    });
+
+    try {
+      if (!req.query.sessionId) {
+        throw new CUIError('MISSING_SESSION_ID', 'sessionId is required', 400);
+      }
+
+      const changes = await checkpointService.getChangesSinceStart(
+        String(req.query.sessionId),
+        req.query.workingDirectory !== undefined ? String(req.query.workingDirectory) : undefined
+      );
+      logger.debug('Session changes computed', {
+        requestId,
+        base: changes.base,
+        fileCount: changes.files.length
+      });
+      res.json(changes);
+    } catch (error) {
+      logger.debug('Session changes request failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Undo one hunk of the changes since the session started
+  router.post('/changes/discard', async (req: Request<Record<string, never>, SessionChangesResponse, DiscardHunkRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('Discard hunk request', {
+      requestId,
+      sessionId: req.body?.sessionId,
+      path: req.body?.path
+    });
+
+    try {
+      if (!req.body?.sessionId) {
+        throw new CUIError('MISSING_SESSION_ID', 'sessionId is required', 400);
+      }
+
+      const changes = await checkpointService.discardHunk(req.body);
+      logger.debug('Hunk discarded', {
+        requestId,
+        fileCount: changes.files.length
+      });
+      res.json(changes);
+    } catch (error) {
+      logger.debug('Discard hunk failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Restore the working tree to the state before a turn
+  router.post('/:checkpointId/revert', async (req: Request<{ checkpointId: string }, RevertCheckpointResponse> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { checkpointId } = req.params;
+    logger.debug('Revert checkpoint request', {
+      requestId,
+      checkpointId
+    });
+
+    try {
+      const result = await checkpointService.revert(checkpointId);
+      logger.debug('Checkpoint reverted', {
+        requestId,
+        checkpointId,
+        backupId: result.backup.id,
+        fileCount: result.files.length
+      });
+      res.json(result);
+    } catch (error) {
+      logger.debug('Revert checkpoint failed', {
+        requestId,
+        checkpointId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  return router;
+}
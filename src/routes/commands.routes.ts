@@ -0,0 +1,102 @@
+import { Router, Request } from 'express';
+import {
+  Command,
+  CommandsResponse,
+  SaveCommandRequest,
+  DeleteCommandQuery
+} from '@/types/index.js';
+import { RequestWithRequestId } from '@/types/express.js';
+import { createLogger } from '@/services/logger.js';
+import { getAvailableCommands, saveCustomCommand, deleteCustomCommand } from '@/services/commands-service.js';
+
+export function createCommandRoutes(): Router {
+  const router = Router();
+  const logger = createLogger('CommandRoutes');
+
+  // Get available commands
+  router.get('/', async (req: RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const workingDirectory = req.query.workingDirectory as string | undefined;
+    
+    logger.debug('Get commands request', { requestId, workingDirectory });
+    
+    try {
+      const commands = getAvailableCommands(workingDirectory);
+      
+      const response: CommandsResponse = {
+        commands
+      };
+      
+      logger.debug('Commands retrieved', {
+        requestId,
+        commandCount: commands.length,
+        workingDirectory
+      });
+      
+      res.json(response);
+    } catch (error) {
+      logger.debug('Get commands failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Create a custom command file in the user or project commands directory
+  router.post('/', (req: Request<Record<string, never>, Command, SaveCommandRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('Create command request', { requestId, name: req.body?.name, scope: req.body?.scope });
+
+    try {
+      const command = saveCustomCommand(req.body);
+      res.status(201).json(command);
+    } catch (error) {
+      logger.debug('Create command failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Replace a custom command, a different name in the body renames it
+  router.put('/:name', (req: Request<{ name: string }, Command, SaveCommandRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { name } = req.params;
+    logger.debug('Update command request', { requestId, name, newName: req.body?.name, scope: req.body?.scope });
+
+    try {
+      const command = saveCustomCommand({ ...req.body, name: req.body?.name ?? name }, name);
+      res.json(command);
+    } catch (error) {
+      logger.debug('Update command failed', {
+        requestId,
+        name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  router.delete('/:name', (req: Request<{ name: string }, { success: boolean }, Record<string, never>, DeleteCommandQuery> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { name } = req.params;
+    const { scope, workingDirectory } = req.query;
+    logger.debug('Delete command request', { requestId, name, scope, workingDirectory });
+
+    try {
+      deleteCustomCommand(name, scope, workingDirectory);
+      res.json({ success: true });
+    } catch (error) {
+      logger.debug('Delete command failed', {
+        requestId,
+        name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,64 @@
+import { Router, Request } from 'express';
+import { CUIError, ConversationSearchQuery, ConversationSearchResponse } from '@/types/index.js';
+import { RequestWithRequestId } from '@/types/express.js';
+import { ConversationSearchService } from '@/services/conversation-search-service.js';
+import { createLogger } from '@/services/logger.js';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+export function createConversationSearchRoutes(
+  searchService: ConversationSearchService
+): Router {
+  const router = Router();
+  const logger = createLogger('ConversationSearchRoutes');
+
+  // Full-text search across message text, tool inputs and tool outputs
+  router.get('/', async (req: Request<Record<string, never>, ConversationSearchResponse, Record<string, never>, ConversationSearchQuery> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('Conversation search request', {
+      requestId,
+      query: req.query
+    });
+
+    try {
+      // Query parser may turn numeric-looking searches into numbers
+      const q = req.query.q !== undefined ? String(req.query.q).trim() : '';
+      if (!q) {
+        throw new CUIError('MISSING_QUERY', 'q is required', 400);
+      }
+
+      const limit = req.query.limit ?? DEFAULT_SEARCH_LIMIT;
+      const offset = req.query.offset ?? 0;
+      if (typeof limit !== 'number' || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+        throw new CUIError('INVALID_LIMIT', `limit must be a number between 1 and ${MAX_SEARCH_LIMIT}`, 400);
+      }
+      if (typeof offset !== 'number' || offset < 0) {
+        throw new CUIError('INVALID_OFFSET', 'offset must be a non-negative number', 400);
+      }
+
+      const { results, total } = await searchService.search({
+        q,
+        projectPath: req.query.projectPath,
+        limit,
+        offset
+      });
+
+      logger.debug('Conversation search completed', {
+        requestId,
+        resultCount: results.length,
+        total
+      });
+
+      res.json({ results, total });
+    } catch (error) {
+      logger.debug('Conversation search failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -11,15 +11,317 @@ import {
   SessionUpdateResponse,
   ConversationMessage,
   ConversationSummary,
-  SessionInfo
+  SessionInfo,
+  ForkConversationRequest,
+  ConversationForkTreeResponse,
+  QueuedConversation,
+  QueuedConversationResponse,
+  QueuedConversationsResponse,
+  QueuedConversationStatus,
+  InterruptedSessionsResponse,
+  FollowUpMessage,
+  FollowUpMessageRequest,
+  MCPServerStatusResponse,
+  FinishWorktreeRequest,
+  FinishWorktreeResponse,
+  ConversationExportFormat,
+  ConversationExportQuery,
+  ConversationImportRequest,
+  ConversationImportResponse,
+  SystemInitMessage
 } from '@/types/index.js';
 import { RequestWithRequestId } from '@/types/express.js';
-import { ClaudeProcessManager } from '@/services/claude-process-manager.js';
+import { ClaudeProcessManager, type StartedConversation } from '@/services/claude-process-manager.js';
 import { ClaudeHistoryReader } from '@/services/claude-history-reader.js';
 import { SessionInfoService } from '@/services/session-info-service.js';
 import { ConversationStatusManager } from '@/services/conversation-status-manager.js';
 import { createLogger } from '@/services/logger.js';
 import { ToolMetricsService } from '@/services/ToolMetricsService.js';
+import { ConversationForkService } from '@/services/conversation-fork-service.js';
+import { SessionRecoveryService } from '@/services/session-recovery-service.js';
+import { WorktreeService, type Worktree } from '@/services/worktree-service.js';
+import { ConversationExportService } from '@/services/conversation-export-service.js';
+import { ConversationImportService } from '@/services/conversation-import-service.js';
+
+function toQueuedSummary(queued: QueuedConversation): ConversationSummary {
+  return {
+    sessionId: queued.queueId,
+    projectPath: queued.workingDirectory,
+    summary: queued.initialPrompt,
+    sessionInfo: {
+      custom_name: '',
+      created_at: queued.enqueuedAt,
+      updated_at: queued.enqueuedAt,
+      version: 4,
+      pinned: false,
+      archived: false,
+      continuation_session_id: '',
+      initial_commit_head: '',
+      permission_mode: 'default',
+      forked_from_session_id: '',
+      forked_from_message_uuid: '',
+      worktree_path: '',
+      worktree_branch: ''
+    },
+    createdAt: queued.enqueuedAt,
+    updatedAt: queued.enqueuedAt,
+    messageCount: 0,
+    totalDuration: 0,
+    model: queued.model || 'default',
+    status: 'queued',
+    queuePosition: queued.position
+  };
+}
+
+export interface ConversationStartServices {
+  processManager: ClaudeProcessManager;
+  historyReader: ClaudeHistoryReader;
+  sessionInfoService: SessionInfoService;
+  conversationStatusManager: ConversationStatusManager;
+  worktreeService: WorktreeService;
+}
+
+/**
+ * Validate a start request and start the conversation, or queue it when no process slot is free.
+ * Shared by the start endpoint and the WebSocket send_message control message.
+ */
+export async function startConversationFromRequest(
+  { processManager, historyReader, sessionInfoService, conversationStatusManager, worktreeService }: ConversationStartServices,
+  request: StartConversationRequest,
+  requestId?: string
+): Promise<StartConversationResponse | QueuedConversationResponse> {
+  const logger = createLogger('ConversationRoutes');
+  const isResume = !!request.resumedSessionId;
+
+  // Validate required fields
+  if (!request.workingDirectory) {
+    throw new CUIError('MISSING_WORKING_DIRECTORY', 'workingDirectory is required', 400);
+  }
+  if (!request.initialPrompt) {
+    throw new CUIError('MISSING_INITIAL_PROMPT', 'initialPrompt is required', 400);
+  }
+  
+  // Validate permissionMode if provided
+  if (request.permissionMode) {
+    const validModes = ['acceptEdits', 'bypassPermissions', 'default', 'plan'];
+    if (!validModes.includes(request.permissionMode)) {
+      throw new CUIError('INVALID_PERMISSION_MODE', `permissionMode must be one of: ${validModes.join(', ')}`, 400);
+    }
+  }
+  if (request.priority !== undefined && typeof request.priority !== 'number') {
+    throw new CUIError('INVALID_PRIORITY', 'priority must be a number', 400);
+  }
+  // The CLI looks sessions up by working directory, a resumed session has to stay where it ran
+  if (request.worktree && request.resumedSessionId) {
+    throw new CUIError('INVALID_WORKTREE', 'worktree cannot be combined with resumedSessionId', 400);
+  }
+  // Looked up before queueing so an unknown profile fails the request
+  const agentProfile = request.agentProfile ? processManager.getAgentProfile(request.agentProfile) : undefined;
+  
+  // If resuming, fetch previous messages and session info
+  let previousMessages: ConversationMessage[] = [];
+  let inheritedPermissionMode: string | undefined;
+  
+  if (request.resumedSessionId) {
+    try {
+      previousMessages = await historyReader.fetchConversation(request.resumedSessionId);
+      logger.debug('Fetched previous session messages', {
+        requestId,
+        originalSessionId: request.resumedSessionId,
+        messageCount: previousMessages.length
+      });
+    } catch (error) {
+      logger.warn('Failed to fetch previous session messages', {
+        requestId,
+        originalSessionId: request.resumedSessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      // Continue without previous messages - not a fatal error
+    }
+    
+    // Fetch permission mode from session info if not provided
+    if (!request.permissionMode) {
+      try {
+        const sessionInfo = await sessionInfoService.getSessionInfo(request.resumedSessionId);
+        inheritedPermissionMode = sessionInfo.permission_mode;
+        logger.debug('Retrieved permission mode from session info', {
+          requestId,
+          originalSessionId: request.resumedSessionId,
+          permissionMode: inheritedPermissionMode
+        });
+      } catch (error) {
+        logger.warn('Failed to fetch permission mode from session info', {
+          requestId,
+          originalSessionId: request.resumedSessionId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        // Continue without permission mode - will use default
+      }
+    }
+  }
+  
+  // Created up front so that a queued conversation starts in it too
+  let worktree: Worktree | undefined;
+  if (request.worktree) {
+    worktree = await worktreeService.createWorktree(request.workingDirectory, request.initialPrompt);
+    logger.debug('Created worktree for conversation', {
+      requestId,
+      worktreePath: worktree.path,
+      branch: worktree.branch
+    });
+  }
+
+  // Prepare config with previous messages if resuming
+  const conversationConfig = {
+    ...request,
+    workingDirectory: worktree?.workingDirectory ?? request.workingDirectory,
+    previousMessages: previousMessages.length > 0 ? previousMessages : undefined,
+    // Resolved here as well so the session remembers the permission mode of its profile
+    permissionMode: request.permissionMode || agentProfile?.permissionMode || inheritedPermissionMode
+  };
+  
+  // Bookkeeping once the CLI reported its session, right away or when the queue starts it
+  const onStarted = async ({ streamingId, systemInit }: { streamingId: string; systemInit: SystemInitMessage }): Promise<void> => {
+    // Update original session with continuation session ID if resuming
+    if (request.resumedSessionId) {
+      try {
+        const resumedInfo = await sessionInfoService.updateSessionInfo(request.resumedSessionId, {
+          continuation_session_id: systemInit.session_id
+        });
+        // The continuation runs in the worktree of the session it resumes
+        if (resumedInfo?.worktree_path) {
+          await sessionInfoService.updateSessionInfo(systemInit.session_id, {
+            worktree_path: resumedInfo.worktree_path,
+            worktree_branch: resumedInfo.worktree_branch
+          });
+        }
+        logger.debug('Updated original session with continuation ID', {
+          originalSessionId: request.resumedSessionId,
+          continuationSessionId: systemInit.session_id
+        });
+      } catch (error) {
+        logger.warn('Failed to update original session with continuation ID', {
+          originalSessionId: request.resumedSessionId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    
+      // Register the resumed session with conversation status manager including previous messages
+      try {
+        conversationStatusManager.registerActiveSession(
+          streamingId,
+          systemInit.session_id,
+          {
+            initialPrompt: request.initialPrompt,
+            workingDirectory: systemInit.cwd,
+            model: systemInit.model,
+            inheritedMessages: previousMessages.length > 0 ? previousMessages : undefined
+          }
+        );
+        logger.debug('Registered resumed session with inherited messages', {
+          requestId,
+          newSessionId: systemInit.session_id,
+          streamingId,
+          inheritedMessageCount: previousMessages.length
+        });
+      } catch (error) {
+        logger.warn('Failed to register resumed session with status manager', {
+          requestId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  
+    // Store permission mode in session info if provided
+    if (conversationConfig.permissionMode) {
+      try {
+        await sessionInfoService.updateSessionInfo(systemInit.session_id, {
+          permission_mode: conversationConfig.permissionMode
+        });
+        logger.debug('Stored permission mode in session info', {
+          sessionId: systemInit.session_id,
+          permissionMode: conversationConfig.permissionMode
+        });
+      } catch (error) {
+        logger.warn('Failed to store permission mode in session info', {
+          sessionId: systemInit.session_id,
+          permissionMode: conversationConfig.permissionMode,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (worktree) {
+      try {
+        await sessionInfoService.updateSessionInfo(systemInit.session_id, {
+          worktree_path: worktree.path,
+          worktree_branch: worktree.branch
+        });
+      } catch (error) {
+        logger.warn('Failed to store worktree in session info', {
+          sessionId: systemInit.session_id,
+          worktreePath: worktree.path,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    logger.debug('Conversation started successfully', {
+      requestId,
+      isResume,
+      resumedSessionId: request.resumedSessionId,
+      streamingId,
+      sessionId: systemInit.session_id,
+      model: systemInit.model,
+      cwd: systemInit.cwd,
+      previousMessageCount: previousMessages.length
+    });
+  };
+
+  const removeWorktree = async (): Promise<void> => {
+    if (!worktree) return;
+    await worktreeService.removeWorktree(worktree).catch(removeError => {
+      logger.warn('Failed to remove worktree of conversation that did not start', {
+        worktreePath: worktree?.path,
+        error: removeError instanceof Error ? removeError.message : String(removeError)
+      });
+    });
+  };
+
+  if (!processManager.canStartConversation()) {
+    const queued = processManager.enqueueConversation(conversationConfig, { priority: request.priority }, onStarted, removeWorktree);
+    logger.debug('Conversation queued', {
+      requestId,
+      queueId: queued.queueId,
+      queuePosition: queued.position
+    });
+    return { queued: true, queueId: queued.queueId, queuePosition: queued.position };
+  }
+
+  let started: StartedConversation;
+  try {
+    started = await processManager.startConversation(conversationConfig);
+  } catch (error) {
+    await removeWorktree();
+    throw error;
+  }
+  const { streamingId, systemInit } = started;
+  await onStarted({ streamingId, systemInit });
+
+  return {
+    streamingId,
+    streamUrl: `/api/stream/${streamingId}`,
+    // System init fields
+    sessionId: systemInit.session_id,
+    cwd: systemInit.cwd,
+    tools: systemInit.tools,
+    mcpServers: systemInit.mcp_servers,
+    model: systemInit.model,
+    permissionMode: systemInit.permissionMode,
+    apiKeySource: systemInit.apiKeySource,
+    worktreeBranch: worktree?.branch
+  };
+}
 
 export function createConversationRoutes(
   processManager: ClaudeProcessManager,
@@ -27,13 +329,18 @@ export function createConversationRoutes(
   statusTracker: ConversationStatusManager,
   sessionInfoService: SessionInfoService,
   conversationStatusManager: ConversationStatusManager,
-  toolMetricsService: ToolMetricsService
+  toolMetricsService: ToolMetricsService,
+  forkService: ConversationForkService,
+  sessionRecoveryService: SessionRecoveryService,
+  worktreeService: WorktreeService,
+  exportService: ConversationExportService,
+  importService: ConversationImportService
 ): Router {
   const router = Router();
   const logger = createLogger('ConversationRoutes');
 
   // Start new conversation (also handles resume if resumedSessionId is provided)
-  router.post('/start', async (req: Request<Record<string, never>, StartConversationResponse, StartConversationRequest> & RequestWithRequestId, res, next) => {
+  router.post('/start', async (req: Request<Record<string, never>, StartConversationResponse | QueuedConversationResponse, StartConversationRequest> & RequestWithRequestId, res, next) => {
     const requestId = req.requestId;
     const isResume = !!req.body.resumedSessionId;
     
@@ -48,91 +355,84 @@ export function createConversationRoutes(
     });
     
     try {
-      // Validate required fields
-      if (!req.body.workingDirectory) {
-        throw new CUIError('MISSING_WORKING_DIRECTORY', 'workingDirectory is required', 400);
+      const response = await startConversationFromRequest(
+        { processManager, historyReader, sessionInfoService, conversationStatusManager, worktreeService },
+        req.body,
+        requestId
+      );
+      if ('queued' in response) {
+        res.status(202);
+      }
+      res.json(response);
+    } catch (error) {
+      logger.debug('Start conversation failed', {
+        requestId,
+        isResume,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+
+  // Fork a conversation: start a new branch seeded with the history up to a message
+  router.post('/:sessionId/fork', async (req: Request<{ sessionId: string }, StartConversationResponse | QueuedConversationResponse, ForkConversationRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { sessionId } = req.params;
+
+    logger.debug('Fork conversation request', {
+      requestId,
+      sessionId,
+      messageUuid: req.body.messageUuid,
+      initialPrompt: req.body.initialPrompt ? `${req.body.initialPrompt.substring(0, 50)}...` : undefined
+    });
+
+    try {
+      if (!req.body.messageUuid) {
+        throw new CUIError('MISSING_MESSAGE_UUID', 'messageUuid is required', 400);
       }
       if (!req.body.initialPrompt) {
         throw new CUIError('MISSING_INITIAL_PROMPT', 'initialPrompt is required', 400);
       }
-      
-      // Validate permissionMode if provided
       if (req.body.permissionMode) {
         const validModes = ['acceptEdits', 'bypassPermissions', 'default', 'plan'];
         if (!validModes.includes(req.body.permissionMode)) {
           throw new CUIError('INVALID_PERMISSION_MODE', `permissionMode must be one of: ${validModes.join(', ')}`, 400);
         }
       }
-      
-      // If resuming, fetch previous messages and session info
-      let previousMessages: ConversationMessage[] = [];
-      let inheritedPermissionMode: string | undefined;
-      
-      if (req.body.resumedSessionId) {
-        try {
-          previousMessages = await historyReader.fetchConversation(req.body.resumedSessionId);
-          logger.debug('Fetched previous session messages', {
-            requestId,
-            originalSessionId: req.body.resumedSessionId,
-            messageCount: previousMessages.length
-          });
-        } catch (error) {
-          logger.warn('Failed to fetch previous session messages', {
-            requestId,
-            originalSessionId: req.body.resumedSessionId,
-            error: error instanceof Error ? error.message : String(error)
-          });
-          // Continue without previous messages - not a fatal error
-        }
-        
-        // Fetch permission mode from session info if not provided
-        if (!req.body.permissionMode) {
-          try {
-            const sessionInfo = await sessionInfoService.getSessionInfo(req.body.resumedSessionId);
-            inheritedPermissionMode = sessionInfo.permission_mode;
-            logger.debug('Retrieved permission mode from session info', {
-              requestId,
-              originalSessionId: req.body.resumedSessionId,
-              permissionMode: inheritedPermissionMode
-            });
-          } catch (error) {
-            logger.warn('Failed to fetch permission mode from session info', {
-              requestId,
-              originalSessionId: req.body.resumedSessionId,
-              error: error instanceof Error ? error.message : String(error)
-            });
-            // Continue without permission mode - will use default
-          }
-        }
-      }
-      
-      // Prepare config with previous messages if resuming
-      const conversationConfig = {
-        ...req.body,
-        previousMessages: previousMessages.length > 0 ? previousMessages : undefined,
-        permissionMode: req.body.permissionMode || inheritedPermissionMode
+
+      const seed = await historyReader.createForkSeed(sessionId, req.body.messageUuid);
+      const sourceSessionInfo = await sessionInfoService.getSessionInfo(sessionId);
+      const permissionMode = req.body.permissionMode || sourceSessionInfo.permission_mode;
+
+      // The seed session is the first session of the new branch and carries the fork relationship
+      await sessionInfoService.updateSessionInfo(seed.sessionId, {
+        forked_from_session_id: sessionId,
+        forked_from_message_uuid: req.body.messageUuid,
+        initial_commit_head: sourceSessionInfo.initial_commit_head,
+        permission_mode: permissionMode
+      });
+
+      const forkConfig = {
+        initialPrompt: req.body.initialPrompt,
+        model: req.body.model,
+        allowedTools: req.body.allowedTools,
+        disallowedTools: req.body.disallowedTools,
+        systemPrompt: req.body.systemPrompt,
+        workingDirectory: seed.projectPath,
+        resumedSessionId: seed.sessionId,
+        previousMessages: seed.messages.length > 0 ? seed.messages : undefined,
+        permissionMode
       };
-      
-      const { streamingId, systemInit } = await processManager.startConversation(conversationConfig);
-      
-      // Update original session with continuation session ID if resuming
-      if (req.body.resumedSessionId) {
-        try {
-          await sessionInfoService.updateSessionInfo(req.body.resumedSessionId, {
-            continuation_session_id: systemInit.session_id
-          });
-          logger.debug('Updated original session with continuation ID', {
-            originalSessionId: req.body.resumedSessionId,
-            continuationSessionId: systemInit.session_id
-          });
-        } catch (error) {
-          logger.warn('Failed to update original session with continuation ID', {
-            originalSessionId: req.body.resumedSessionId,
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
-        
-        // Register the resumed session with conversation status manager including previous messages
+
+      const onStarted = async ({ streamingId, systemInit }: { streamingId: string; systemInit: SystemInitMessage }): Promise<void> => {
+        await sessionInfoService.updateSessionInfo(seed.sessionId, {
+          continuation_session_id: systemInit.session_id
+        });
+        await sessionInfoService.updateSessionInfo(systemInit.session_id, {
+          permission_mode: permissionMode
+        });
+
         try {
           conversationStatusManager.registerActiveSession(
             streamingId,
@@ -141,57 +441,215 @@ export function createConversationRoutes(
               initialPrompt: req.body.initialPrompt,
               workingDirectory: systemInit.cwd,
               model: systemInit.model,
-              inheritedMessages: previousMessages.length > 0 ? previousMessages : undefined
+              inheritedMessages: seed.messages.length > 0 ? seed.messages : undefined
             }
           );
-          logger.debug('Registered resumed session with inherited messages', {
-            requestId,
-            newSessionId: systemInit.session_id,
-            streamingId,
-            inheritedMessageCount: previousMessages.length
-          });
         } catch (error) {
-          logger.warn('Failed to register resumed session with status manager', {
+          logger.warn('Failed to register forked session with status manager', {
             requestId,
             error: error instanceof Error ? error.message : String(error)
           });
         }
-      }
-      
-      // Store permission mode in session info if provided
-      if (conversationConfig.permissionMode) {
+
+        logger.info('Conversation forked successfully', {
+          requestId,
+          sourceSessionId: sessionId,
+          messageUuid: req.body.messageUuid,
+          seedSessionId: seed.sessionId,
+          sessionId: systemInit.session_id,
+          streamingId,
+          inheritedMessageCount: seed.messages.length
+        });
+      };
+
+      // Without a conversation resuming it, the seed would show up as a conversation of its own
+      const removeSeed = async (): Promise<void> => {
         try {
-          await sessionInfoService.updateSessionInfo(systemInit.session_id, {
-            permission_mode: conversationConfig.permissionMode
-          });
-          logger.debug('Stored permission mode in session info', {
-            sessionId: systemInit.session_id,
-            permissionMode: conversationConfig.permissionMode
-          });
-        } catch (error) {
-          logger.warn('Failed to store permission mode in session info', {
-            sessionId: systemInit.session_id,
-            permissionMode: conversationConfig.permissionMode,
-            error: error instanceof Error ? error.message : String(error)
+          await historyReader.removeForkSeed(seed.sessionId);
+          await sessionInfoService.deleteSession(seed.sessionId);
+        } catch (removeError) {
+          logger.warn('Failed to remove seed of fork that did not start', {
+            seedSessionId: seed.sessionId,
+            error: removeError instanceof Error ? removeError.message : String(removeError)
           });
         }
+      };
+
+      if (!processManager.canStartConversation()) {
+        const queued = processManager.enqueueConversation(forkConfig, { priority: req.body.priority }, onStarted, removeSeed);
+        logger.debug('Fork queued', {
+          requestId,
+          sourceSessionId: sessionId,
+          queueId: queued.queueId,
+          queuePosition: queued.position
+        });
+        res.status(202).json({ queued: true, queueId: queued.queueId, queuePosition: queued.position });
+        return;
       }
-      
-      logger.debug('Conversation started successfully', {
-        requestId,
-        isResume,
-        resumedSessionId: req.body.resumedSessionId,
+
+      let started: StartedConversation;
+      try {
+        started = await processManager.startConversation(forkConfig);
+      } catch (error) {
+        await removeSeed();
+        throw error;
+      }
+      const { streamingId, systemInit } = started;
+      await onStarted({ streamingId, systemInit });
+
+      res.json({
         streamingId,
+        streamUrl: `/api/stream/${streamingId}`,
         sessionId: systemInit.session_id,
-        model: systemInit.model,
         cwd: systemInit.cwd,
-        previousMessageCount: previousMessages.length
+        tools: systemInit.tools,
+        mcpServers: systemInit.mcp_servers,
+        model: systemInit.model,
+        permissionMode: systemInit.permissionMode,
+        apiKeySource: systemInit.apiKeySource
+      });
+    } catch (error) {
+      logger.debug('Fork conversation failed', {
+        requestId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
       });
+      next(error);
+    }
+  });
 
-      res.json({ 
+  // Get the branch tree of forks the conversation belongs to
+  router.get('/:sessionId/forks', async (req: RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { sessionId } = req.params;
+
+    logger.debug('Get conversation forks request', {
+      requestId,
+      sessionId
+    });
+
+    try {
+      const root = await forkService.getForkTree(sessionId);
+      const response: ConversationForkTreeResponse = {
+        root,
+        currentSessionId: sessionId
+      };
+      res.json(response);
+    } catch (error) {
+      logger.debug('Get conversation forks failed', {
+        requestId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Conversations waiting for a free process slot
+  router.get('/queue', (req: Request<Record<string, never>, QueuedConversationsResponse> & RequestWithRequestId, res, next) => {
+    logger.debug('Get conversation queue request', { requestId: req.requestId });
+
+    try {
+      res.json({
+        queue: processManager.getQueuedConversations(),
+        maxConcurrent: processManager.getMaxConcurrentProcesses(),
+        running: processManager.getActiveSessions().length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Status of a queue entry, also after it has started
+  router.get('/queue/:queueId', (req: Request<{ queueId: string }, QueuedConversationStatus> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { queueId } = req.params;
+
+    logger.debug('Get queued conversation status request', {
+      requestId,
+      queueId
+    });
+
+    try {
+      const status = processManager.getQueuedConversationStatus(queueId);
+      if (!status) {
+        throw new CUIError('QUEUE_ENTRY_NOT_FOUND', 'Queued conversation not found', 404);
+      }
+      res.json(status);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Cancel a queued conversation before it starts
+  router.post('/queue/:queueId/cancel', (req: RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { queueId } = req.params;
+
+    logger.debug('Cancel queued conversation request', {
+      requestId,
+      queueId
+    });
+
+    try {
+      const success = processManager.cancelQueuedConversation(queueId);
+
+      logger.debug('Cancel queued conversation result', {
+        requestId,
+        queueId,
+        success
+      });
+
+      res.json({ success });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Conversations that were running when the server last stopped
+  router.get('/interrupted', (req: Request<Record<string, never>, InterruptedSessionsResponse> & RequestWithRequestId, res, next) => {
+    logger.debug('Get interrupted sessions request', { requestId: req.requestId });
+
+    try {
+      res.json({ sessions: sessionRecoveryService.getInterruptedSessions() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Resume an interrupted conversation with --resume
+  router.post('/interrupted/:sessionId/resume', async (req: Request<{ sessionId: string }, StartConversationResponse | QueuedConversationResponse> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { sessionId } = req.params;
+
+    logger.debug('Resume interrupted session request', {
+      requestId,
+      sessionId
+    });
+
+    try {
+      const result = await sessionRecoveryService.resume(sessionId);
+      if ('queued' in result) {
+        logger.debug('Interrupted session queued', {
+          requestId,
+          sessionId,
+          queueId: result.queued.queueId
+        });
+        res.status(202).json({ queued: true, queueId: result.queued.queueId, queuePosition: result.queued.position });
+        return;
+      }
+
+      const { streamingId, systemInit } = result;
+      logger.debug('Interrupted session resumed', {
+        requestId,
+        sessionId,
+        newSessionId: systemInit.session_id,
+        streamingId
+      });
+
+      res.json({
         streamingId,
         streamUrl: `/api/stream/${streamingId}`,
-        // System init fields
         sessionId: systemInit.session_id,
         cwd: systemInit.cwd,
         tools: systemInit.tools,
@@ -201,15 +659,32 @@ export function createConversationRoutes(
         apiKeySource: systemInit.apiKeySource
       });
     } catch (error) {
-      logger.debug('Start conversation failed', {
+      logger.debug('Resume interrupted session failed', {
         requestId,
-        isResume,
+        sessionId,
         error: error instanceof Error ? error.message : String(error)
       });
       next(error);
     }
   });
 
+  // Forget an interrupted conversation without resuming it
+  router.post('/interrupted/:sessionId/dismiss', (req: RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { sessionId } = req.params;
+
+    logger.debug('Dismiss interrupted session request', {
+      requestId,
+      sessionId
+    });
+
+    try {
+      const success = sessionRecoveryService.dismiss(sessionId);
+      res.json({ success });
+    } catch (error) {
+      next(error);
+    }
+  });
 
   // List conversations
   router.get('/', async (req: Request<Record<string, never>, { conversations: ConversationSummary[]; total: number }, Record<string, never>, ConversationListQuery> & RequestWithRequestId, res, next) => {
@@ -223,8 +698,12 @@ export function createConversationRoutes(
       const result = await historyReader.listConversations(req.query);
       
       // Update status for each conversation based on active streams
+      const interruptedSessionIds = sessionRecoveryService.getInterruptedSessionIds();
       const conversationsWithStatus = result.conversations.map(conversation => {
-        const status = statusTracker.getConversationStatus(conversation.sessionId);
+        const activeStatus = statusTracker.getConversationStatus(conversation.sessionId);
+        const status = activeStatus === 'completed' && interruptedSessionIds.has(conversation.sessionId)
+          ? 'interrupted' as const
+          : activeStatus;
         const baseConversation = {
           ...conversation,
           status
@@ -264,9 +743,19 @@ export function createConversationRoutes(
         });
       }
 
+      // Queued conversations have no session yet, list them on top of the first page
+      const showQueue = !req.query.offset && !req.query.archived && !req.query.hasContinuation;
+      const queuedConversations = showQueue
+        ? processManager.getQueuedConversations()
+          .filter(queued => !req.query.projectPath || queued.workingDirectory === req.query.projectPath)
+          .map(toQueuedSummary)
+        : [];
+      allConversations.unshift(...queuedConversations);
+
       logger.debug('Conversations listed successfully', {
         requestId,
         conversationCount: allConversations.length,
+        queuedConversations: queuedConversations.length,
         historyConversations: conversationsWithStatus.length,
         conversationsNotInHistory: conversationsNotInHistory.length,
         totalFound: result.total,
@@ -275,7 +764,7 @@ export function createConversationRoutes(
       
       res.json({
         conversations: allConversations,
-        total: result.total + conversationsNotInHistory.length // Update total to include conversations not in history
+        total: result.total + conversationsNotInHistory.length + queuedConversations.length // Update total to include conversations not in history
       });
     } catch (error) {
       logger.debug('List conversations failed', {
@@ -393,6 +882,185 @@ export function createConversationRoutes(
     }
   });
 
+  // Interrupt the current turn, the session stays resumable with a new instruction
+  router.post('/:streamingId/interrupt', async (req: RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { streamingId } = req.params;
+
+    logger.debug('Interrupt conversation request', {
+      requestId,
+      streamingId
+    });
+
+    try {
+      const success = await processManager.interruptConversation(streamingId);
+
+      logger.debug('Interrupt conversation result', {
+        requestId,
+        streamingId,
+        success
+      });
+
+      res.json({ success });
+    } catch (error) {
+      logger.debug('Interrupt conversation failed', {
+        requestId,
+        streamingId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Send a follow-up message into a running conversation
+  router.post('/:streamingId/messages', (req: Request<{ streamingId: string }, FollowUpMessage, FollowUpMessageRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { streamingId } = req.params;
+
+    logger.debug('Follow-up message request', {
+      requestId,
+      streamingId,
+      messageLength: req.body?.message?.length
+    });
+
+    try {
+      if (typeof req.body?.message !== 'string' || !req.body.message.trim()) {
+        throw new CUIError('MISSING_MESSAGE', 'message is required', 400);
+      }
+
+      const followUp = processManager.sendFollowUpMessage(streamingId, req.body.message);
+      res.status(202).json(followUp);
+    } catch (error) {
+      logger.debug('Follow-up message failed', {
+        requestId,
+        streamingId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Connection status of the MCP servers of a running conversation
+  router.get('/:streamingId/mcp-servers', (req: Request<{ streamingId: string }, MCPServerStatusResponse> & RequestWithRequestId, res, next) => {
+    const { streamingId } = req.params;
+    logger.debug('MCP server status request', { requestId: req.requestId, streamingId });
+
+    try {
+      const servers = processManager.getMCPServerStatus(streamingId);
+      if (!servers) {
+        throw new CUIError('CONVERSATION_NOT_FOUND', 'Conversation is not running', 404);
+      }
+      res.json({ servers });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Merge or discard the worktree a session ran in, and remove it
+  router.post('/:sessionId/worktree/finish', async (req: Request<{ sessionId: string }, FinishWorktreeResponse, FinishWorktreeRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { sessionId } = req.params;
+
+    logger.debug('Finish worktree request', {
+      requestId,
+      sessionId,
+      action: req.body?.action
+    });
+
+    try {
+      if (req.body?.action !== 'merge' && req.body?.action !== 'discard') {
+        throw new CUIError('INVALID_ACTION', 'action must be either "merge" or "discard"', 400);
+      }
+
+      const result = await worktreeService.finishWorktree(sessionId, req.body.action);
+      logger.info('Worktree finished', {
+        requestId,
+        sessionId,
+        action: result.action,
+        branch: result.branch,
+        mergedInto: result.mergedInto
+      });
+      res.json(result);
+    } catch (error) {
+      logger.debug('Finish worktree failed', {
+        requestId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Download a conversation as Markdown, standalone HTML or a JSON bundle
+  router.get('/:sessionId/export', async (req: Request<{ sessionId: string }, string, Record<string, never>, ConversationExportQuery> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { sessionId } = req.params;
+
+    logger.debug('Export conversation request', {
+      requestId,
+      sessionId,
+      format: req.query.format
+    });
+
+    try {
+      const format: ConversationExportFormat = req.query.format ?? 'md';
+      if (!['md', 'html', 'json'].includes(format)) {
+        throw new CUIError('INVALID_FORMAT', 'format must be one of md, html or json', 400);
+      }
+
+      const exported = await exportService.exportConversation(sessionId, format);
+      logger.debug('Conversation exported', {
+        requestId,
+        sessionId,
+        format,
+        size: exported.content.length
+      });
+
+      res.setHeader('Content-Type', exported.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`);
+      res.send(exported.content);
+    } catch (error) {
+      logger.debug('Export conversation failed', {
+        requestId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Import a session file or JSON export, e.g. one handed over from another machine
+  router.post('/import', async (req: Request<Record<string, never>, ConversationImportResponse, ConversationImportRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+
+    logger.debug('Import conversation request', {
+      requestId,
+      size: typeof req.body.content === 'string' ? req.body.content.length : undefined,
+      projectPath: req.body.projectPath,
+      overwrite: req.body.overwrite
+    });
+
+    try {
+      if (typeof req.body.content !== 'string' || !req.body.content) {
+        throw new CUIError('MISSING_CONTENT', 'content is required', 400);
+      }
+
+      const imported = await importService.importConversation(req.body);
+      logger.debug('Conversation imported', {
+        requestId,
+        ...imported
+      });
+
+      res.json(imported);
+    } catch (error) {
+      logger.debug('Import conversation failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
   // Rename session (update custom name)
   router.put('/:sessionId/rename', async (req: Request<{ sessionId: string }, SessionRenameResponse, SessionRenameRequest> & RequestWithRequestId, res, next) => {
     const requestId = req.requestId;
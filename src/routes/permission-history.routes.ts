@@ -0,0 +1,72 @@
+import { Router, Request } from 'express';
+import { CUIError, PermissionHistoryQuery, PermissionHistoryResponse } from '@/types/index.js';
+import { RequestWithRequestId } from '@/types/express.js';
+import { PermissionAuditService } from '@/services/permission-audit-service.js';
+import { createLogger } from '@/services/logger.js';
+
+export function createPermissionHistoryRoutes(
+  auditService: PermissionAuditService
+): Router {
+  const router = Router();
+  const logger = createLogger('PermissionHistoryRoutes');
+
+  // List recorded permission decisions, optionally exported as a file
+  router.get('/', async (req: Request<Record<string, never>, unknown, Record<string, never>, PermissionHistoryQuery> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('Permission history request', {
+      requestId,
+      query: req.query
+    });
+
+    try {
+      const { format, status } = req.query;
+
+      if (format && !['json', 'csv'].includes(format)) {
+        throw new CUIError('INVALID_FORMAT', 'format must be either "json" or "csv"', 400);
+      }
+      if (status && !['approved', 'denied'].includes(status)) {
+        throw new CUIError('INVALID_STATUS', 'status must be either "approved" or "denied"', 400);
+      }
+
+      // Query parser may turn numeric-looking ids into numbers
+      const query: PermissionHistoryQuery = {
+        ...req.query,
+        sessionId: req.query.sessionId !== undefined ? String(req.query.sessionId) : undefined,
+        streamingId: req.query.streamingId !== undefined ? String(req.query.streamingId) : undefined,
+        // Exports contain every matching entry unless a limit is given
+        limit: req.query.limit ?? (format ? undefined : 100),
+        offset: req.query.offset ?? 0
+      };
+
+      const { entries, total } = auditService.getHistory(query);
+
+      logger.debug('Permission history retrieved', {
+        requestId,
+        count: entries.length,
+        total,
+        format
+      });
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="permission-history.csv"');
+        res.send(auditService.toCsv(entries));
+        return;
+      }
+
+      const response: PermissionHistoryResponse = { entries, total };
+      if (format === 'json') {
+        res.setHeader('Content-Disposition', 'attachment; filename="permission-history.json"');
+      }
+      res.json(response);
+    } catch (error) {
+      logger.debug('Permission history request failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -4,6 +4,73 @@ import { RequestWithRequestId } from '@/types/express.js';
 import { PermissionTracker } from '@/services/permission-tracker.js';
 import { createLogger } from '@/services/logger.js';
 
+const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+const MAX_WAIT_TIMEOUT_MS = 60000;
+
+/**
+ * Validate and apply a decision on a pending permission request.
+ * Shared by the decision endpoint and the WebSocket control messages.
+ */
+export function applyPermissionDecision(
+  permissionTracker: PermissionTracker,
+  requestId: string,
+  decisionRequest: PermissionDecisionRequest
+): PermissionDecisionResponse {
+  // Validate the decision
+  if (!decisionRequest.action || !['approve', 'deny'].includes(decisionRequest.action)) {
+    throw new CUIError('INVALID_ACTION', 'Action must be either "approve" or "deny"', 400);
+  }
+  const scope = decisionRequest.scope || 'once';
+  if (!['once', 'tool', 'command'].includes(scope)) {
+    throw new CUIError('INVALID_SCOPE', 'Scope must be one of: once, tool, command', 400);
+  }
+  if (scope !== 'once' && decisionRequest.action !== 'approve') {
+    throw new CUIError('INVALID_SCOPE', 'Only approvals can apply to the rest of the session', 400);
+  }
+  
+  // Get the permission request to validate it exists and is pending
+  const permissions = permissionTracker.getPermissionRequests({ status: 'pending' });
+  const permission = permissions.find(p => p.id === requestId);
+  
+  if (!permission) {
+    throw new CUIError('PERMISSION_NOT_FOUND', 'Permission request not found or not pending', 404);
+  }
+  if (scope === 'command' && typeof permission.toolInput?.command !== 'string') {
+    throw new CUIError('INVALID_SCOPE', `Tool ${permission.toolName} has no command to allow`, 400);
+  }
+  
+  // Update permission status. Who decided is not taken from the request, callers could claim
+  // anything, so the audit log records decisions made here as the user's
+  let updated: boolean;
+  if (decisionRequest.action === 'approve') {
+    updated = permissionTracker.updatePermissionStatus(
+      requestId, 
+      'approved', 
+      { modifiedInput: decisionRequest.modifiedInput }
+    );
+  } else {
+    updated = permissionTracker.updatePermissionStatus(
+      requestId, 
+      'denied', 
+      { denyReason: decisionRequest.denyReason }
+    );
+  }
+  
+  if (!updated) {
+    throw new CUIError('UPDATE_FAILED', 'Failed to update permission status', 500);
+  }
+
+  // Remember the approval for later matching requests in this session
+  if (scope !== 'once') {
+    permissionTracker.addSessionGrant(permission, scope);
+  }
+
+  return {
+    success: true,
+    message: `Permission ${decisionRequest.action === 'approve' ? 'approved' : 'denied'} successfully`
+  };
+}
+
 export function createPermissionRoutes(
   permissionTracker: PermissionTracker
 ): Router {
@@ -74,6 +141,53 @@ export function createPermissionRoutes(
     }
   });
 
+  // Long-poll endpoint - called by MCP server to block until a decision is made
+  router.get('/:requestId/wait', async (req: RequestWithRequestId, res, next) => {
+    const requestIdHeader = req.requestId;
+    const { requestId } = req.params;
+    const requestedTimeout = Number(req.query.timeout);
+    const timeout = Number.isFinite(requestedTimeout) && requestedTimeout > 0
+      ? Math.min(requestedTimeout, MAX_WAIT_TIMEOUT_MS)
+      : DEFAULT_WAIT_TIMEOUT_MS;
+
+    logger.debug('Wait for permission decision request', {
+      requestId: requestIdHeader,
+      permissionRequestId: requestId,
+      timeout
+    });
+
+    // Stop waiting if the caller goes away before a decision arrives
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+
+    try {
+      const permission = await permissionTracker.waitForDecision(requestId, timeout, abortController.signal);
+
+      if (!permission) {
+        throw new CUIError('PERMISSION_NOT_FOUND', 'Permission request not found', 404);
+      }
+
+      if (res.writableEnded || res.destroyed) {
+        return;
+      }
+
+      logger.debug('Wait for permission decision finished', {
+        requestId: requestIdHeader,
+        permissionRequestId: requestId,
+        status: permission.status
+      });
+
+      res.json({ permission });
+    } catch (error) {
+      logger.debug('Wait for permission decision failed', {
+        requestId: requestIdHeader,
+        permissionRequestId: requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
   // Permission decision endpoint - called by frontend to approve/deny permissions
   router.post('/:requestId/decision', async (req: RequestWithRequestId, res, next) => {
     const requestIdHeader = req.requestId;
@@ -87,38 +201,7 @@ export function createPermissionRoutes(
     });
     
     try {
-      // Validate request body
-      if (!decisionRequest.action || !['approve', 'deny'].includes(decisionRequest.action)) {
-        throw new CUIError('INVALID_ACTION', 'Action must be either "approve" or "deny"', 400);
-      }
-      
-      // Get the permission request to validate it exists and is pending
-      const permissions = permissionTracker.getPermissionRequests({ status: 'pending' });
-      const permission = permissions.find(p => p.id === requestId);
-      
-      if (!permission) {
-        throw new CUIError('PERMISSION_NOT_FOUND', 'Permission request not found or not pending', 404);
-      }
-      
-      // Update permission status
-      let updated: boolean;
-      if (decisionRequest.action === 'approve') {
-        updated = permissionTracker.updatePermissionStatus(
-          requestId, 
-          'approved', 
-          { modifiedInput: decisionRequest.modifiedInput }
-        );
-      } else {
-        updated = permissionTracker.updatePermissionStatus(
-          requestId, 
-          'denied', 
-          { denyReason: decisionRequest.denyReason }
-        );
-      }
-      
-      if (!updated) {
-        throw new CUIError('UPDATE_FAILED', 'Failed to update permission status', 500);
-      }
+      const response = applyPermissionDecision(permissionTracker, requestId, decisionRequest);
       
       logger.debug('Permission decision processed', {
         requestId: requestIdHeader,
@@ -126,11 +209,6 @@ export function createPermissionRoutes(
         action: decisionRequest.action
       });
       
-      const response: PermissionDecisionResponse = {
-        success: true,
-        message: `Permission ${decisionRequest.action === 'approve' ? 'approved' : 'denied'} successfully`
-      };
-      
       res.json(response);
     } catch (error) {
       logger.debug('Permission decision failed', {
@@ -0,0 +1,60 @@
+import { Router, Request } from 'express';
+import {
+  CUIError,
+  PromptTemplatesResponse,
+  RenderPromptRequest,
+  RenderPromptResponse
+} from '@/types/index.js';
+import { RequestWithRequestId } from '@/types/express.js';
+import { PromptTemplateService } from '@/services/prompt-template-service.js';
+import { createLogger } from '@/services/logger.js';
+
+export function createPromptTemplateRoutes(
+  promptTemplateService: PromptTemplateService
+): Router {
+  const router = Router();
+  const logger = createLogger('PromptTemplateRoutes');
+
+  // Templates available in a working directory, editing happens through the config
+  router.get('/', (req: Request<Record<string, never>, PromptTemplatesResponse, Record<string, never>, { workingDirectory?: string }> & RequestWithRequestId, res, next) => {
+    const workingDirectory = req.query.workingDirectory;
+    logger.debug('List prompt templates request', { requestId: req.requestId, workingDirectory });
+
+    try {
+      res.json({ templates: promptTemplateService.getTemplates(workingDirectory) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Resolve the variables of a prompt before it is sent
+  router.post('/render', async (req: Request<Record<string, never>, RenderPromptResponse, RenderPromptRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { template, workingDirectory, variables, required } = req.body;
+    logger.debug('Render prompt request', {
+      requestId,
+      workingDirectory,
+      variables: variables ? Object.keys(variables) : []
+    });
+
+    try {
+      if (typeof template !== 'string') {
+        throw new CUIError('MISSING_TEMPLATE', 'template is required', 400);
+      }
+      if (required !== undefined && (!Array.isArray(required) || !required.every(name => typeof name === 'string'))) {
+        throw new CUIError('INVALID_REQUIRED_VARIABLES', 'required must be a list of variable names', 400);
+      }
+
+      const prompt = await promptTemplateService.renderPrompt(template, workingDirectory, variables, required);
+      res.json({ prompt });
+    } catch (error) {
+      logger.debug('Render prompt failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,124 @@
+import { Router, Request } from 'express';
+import {
+  ScheduledJob,
+  ScheduledJobRequest,
+  ScheduledJobRun,
+  ScheduledJobRunsResponse,
+  ScheduledJobsResponse,
+  ScheduledJobUpdateRequest
+} from '@/types/index.js';
+import { RequestWithRequestId } from '@/types/express.js';
+import { SchedulerService } from '@/services/scheduler-service.js';
+import { createLogger } from '@/services/logger.js';
+
+export function createSchedulerRoutes(
+  schedulerService: SchedulerService
+): Router {
+  const router = Router();
+  const logger = createLogger('SchedulerRoutes');
+
+  // List scheduled jobs with their next and last run
+  router.get('/', (req: Request<Record<string, never>, ScheduledJobsResponse> & RequestWithRequestId, res, next) => {
+    logger.debug('List scheduled jobs request', { requestId: req.requestId });
+
+    try {
+      res.json({ jobs: schedulerService.listJobs() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/', (req: Request<Record<string, never>, ScheduledJob, ScheduledJobRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('Create scheduled job request', {
+      requestId,
+      name: req.body.name,
+      cron: req.body.cron,
+      workingDirectory: req.body.workingDirectory
+    });
+
+    try {
+      const job = schedulerService.createJob(req.body);
+      res.status(201).json(job);
+    } catch (error) {
+      logger.debug('Create scheduled job failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  router.put('/:jobId', (req: Request<{ jobId: string }, ScheduledJob, ScheduledJobUpdateRequest> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { jobId } = req.params;
+    logger.debug('Update scheduled job request', {
+      requestId,
+      jobId,
+      updates: Object.keys(req.body)
+    });
+
+    try {
+      res.json(schedulerService.updateJob(jobId, req.body));
+    } catch (error) {
+      logger.debug('Update scheduled job failed', {
+        requestId,
+        jobId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  router.delete('/:jobId', (req: Request<{ jobId: string }> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { jobId } = req.params;
+    logger.debug('Delete scheduled job request', { requestId, jobId });
+
+    try {
+      schedulerService.deleteJob(jobId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Run a job right away, independent of its schedule
+  router.post('/:jobId/run', async (req: Request<{ jobId: string }, ScheduledJobRun> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    const { jobId } = req.params;
+    logger.debug('Run scheduled job request', { requestId, jobId });
+
+    try {
+      const run = await schedulerService.runJob(jobId);
+      logger.debug('Scheduled job run started', {
+        requestId,
+        jobId,
+        runId: run.id,
+        status: run.status
+      });
+      res.status(202).json(run);
+    } catch (error) {
+      logger.debug('Run scheduled job failed', {
+        requestId,
+        jobId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  router.get('/:jobId/runs', (req: Request<{ jobId: string }, ScheduledJobRunsResponse, Record<string, never>, { limit?: string }> & RequestWithRequestId, res, next) => {
+    const { jobId } = req.params;
+    logger.debug('Scheduled job runs request', { requestId: req.requestId, jobId });
+
+    try {
+      const limit = req.query.limit ? Math.max(1, Math.min(500, parseInt(req.query.limit, 10) || 50)) : 50;
+      res.json({ runs: schedulerService.getRuns(jobId, limit) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
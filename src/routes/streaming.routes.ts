@@ -7,20 +7,26 @@ export function createStreamingRoutes(streamManager: StreamManager): Router {
   const router = Router();
   const logger = createLogger('StreamingRoutes');
 
+  // Events of one conversation, or with streamingId "all" the status feed of every session (see SessionStatusFeed)
   router.get('/:streamingId', (req: RequestWithRequestId, res) => {
     const { streamingId } = req.params;
     const requestId = req.requestId;
     
+    // EventSource sends Last-Event-ID on reconnect, the query parameter serves clients that cannot set headers
+    const lastEventIdValue = req.headers['last-event-id'] ?? req.query.lastEventId;
+    const lastEventId = lastEventIdValue !== undefined ? Number(lastEventIdValue) : undefined;
+
     logger.debug('Stream connection request', {
       requestId,
       streamingId,
+      lastEventId,
       headers: {
         'accept': req.headers.accept,
         'user-agent': req.headers['user-agent']
       }
     });
     
-    streamManager.addClient(streamingId, res);
+    streamManager.addClient(streamingId, res, Number.isInteger(lastEventId) ? lastEventId : undefined);
     
     // Log when stream closes
     res.on('close', () => {
@@ -1,10 +1,9 @@
 import { Router } from 'express';
-import { SystemStatusResponse, CUIError, CommandsResponse } from '@/types/index.js';
+import { SystemStatusResponse, CUIError } from '@/types/index.js';
 import { RequestWithRequestId } from '@/types/express.js';
 import { ClaudeProcessManager } from '@/services/claude-process-manager.js';
 import { ClaudeHistoryReader } from '@/services/claude-history-reader.js';
 import { createLogger, type Logger } from '@/services/logger.js';
-import { getAvailableCommands } from '@/services/commands-service.js';
 import { ConfigService } from '@/services/config-service.js';
 import { execSync } from 'child_process';
 
@@ -48,36 +47,6 @@ export function createSystemRoutes(
     }
   });
 
-  // Get available commands
-  router.get('/commands', async (req: RequestWithRequestId, res, next) => {
-    const requestId = req.requestId;
-    const workingDirectory = req.query.workingDirectory as string | undefined;
-    
-    logger.debug('Get commands request', { requestId, workingDirectory });
-    
-    try {
-      const commands = getAvailableCommands(workingDirectory);
-      
-      const response: CommandsResponse = {
-        commands
-      };
-      
-      logger.debug('Commands retrieved', {
-        requestId,
-        commandCount: commands.length,
-        workingDirectory
-      });
-      
-      res.json(response);
-    } catch (error) {
-      logger.debug('Get commands failed', {
-        requestId,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      next(error);
-    }
-  });
-
   return router;
 }
 
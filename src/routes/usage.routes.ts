@@ -0,0 +1,100 @@
+import { Router, Request } from 'express';
+import { BudgetStatusResponse, CUIError, UsageGroupBy, UsagePricesResponse, UsageQuery, UsageResponse } from '@/types/index.js';
+import { RequestWithRequestId } from '@/types/express.js';
+import { UsageService } from '@/services/usage-service.js';
+import { BudgetService } from '@/services/budget-service.js';
+import { createLogger } from '@/services/logger.js';
+
+const GROUP_BY_VALUES: UsageGroupBy[] = ['session', 'project', 'model', 'day'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function createUsageRoutes(
+  usageService: UsageService,
+  budgetService: BudgetService
+): Router {
+  const router = Router();
+  const logger = createLogger('UsageRoutes');
+
+  // Aggregated token usage and cost
+  router.get('/', async (req: Request<Record<string, never>, UsageResponse, Record<string, never>, UsageQuery> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('Usage request', {
+      requestId,
+      query: req.query
+    });
+
+    try {
+      const { groupBy, from, to } = req.query;
+
+      if (groupBy && !GROUP_BY_VALUES.includes(groupBy)) {
+        throw new CUIError('INVALID_GROUP_BY', `groupBy must be one of: ${GROUP_BY_VALUES.join(', ')}`, 400);
+      }
+      for (const [name, value] of [['from', from], ['to', to]] as const) {
+        if (value !== undefined && !DAY_PATTERN.test(String(value))) {
+          throw new CUIError('INVALID_DATE', `${name} must be a date in YYYY-MM-DD format`, 400);
+        }
+      }
+
+      // Query parser may turn numeric-looking ids into numbers
+      const usage = await usageService.getUsage({
+        groupBy,
+        from,
+        to,
+        projectPath: req.query.projectPath !== undefined ? String(req.query.projectPath) : undefined,
+        sessionId: req.query.sessionId !== undefined ? String(req.query.sessionId) : undefined
+      });
+
+      logger.debug('Usage retrieved', {
+        requestId,
+        groupBy: usage.groupBy,
+        bucketCount: usage.buckets.length,
+        costUsd: usage.totals.costUsd
+      });
+
+      res.json(usage);
+    } catch (error) {
+      logger.debug('Usage request failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  // Effective price table used for cost calculation
+  router.get('/prices', (req: Request<Record<string, never>, UsagePricesResponse> & RequestWithRequestId, res, next) => {
+    logger.debug('Usage prices request', { requestId: req.requestId });
+
+    try {
+      res.json({ prices: usageService.getPrices() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Configured budgets with today's usage
+  router.get('/budgets', async (req: Request<Record<string, never>, BudgetStatusResponse> & RequestWithRequestId, res, next) => {
+    const requestId = req.requestId;
+    logger.debug('Budget status request', { requestId });
+
+    try {
+      const budgets = await budgetService.getBudgetStatus();
+
+      logger.debug('Budget status retrieved', {
+        requestId,
+        budgetCount: budgets.length,
+        exceededCount: budgets.filter(budget => budget.exceeded).length
+      });
+
+      res.json({ budgets });
+    } catch (error) {
+      logger.debug('Budget status request failed', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      next(error);
+    }
+  });
+
+  return router;
+}
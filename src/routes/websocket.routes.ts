@@ -0,0 +1,245 @@
+import type { IncomingMessage, Server } from 'http';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { CUIError, StreamEvent, WebSocketClientMessage, WebSocketServerMessage } from '@/types/index.js';
+import { StreamManager } from '@/services/stream-manager.js';
+import { PermissionTracker } from '@/services/permission-tracker.js';
+import { verifyAuthToken } from '@/middleware/auth.js';
+import { createLogger } from '@/services/logger.js';
+import { applyPermissionDecision } from './permission.routes.js';
+import { startConversationFromRequest, type ConversationStartServices } from './conversation.routes.js';
+
+const WEBSOCKET_PATH = '/api/ws';
+
+// Sockets that miss a pong for a whole interval are terminated
+const PING_INTERVAL_MS = 30000;
+
+function parseMessage(data: RawData): WebSocketClientMessage | undefined {
+  try {
+    const message = JSON.parse(data.toString());
+    return message && typeof message === 'object' ? message : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export interface WebSocketServices extends ConversationStartServices {
+  streamManager: StreamManager;
+  permissionTracker: PermissionTracker;
+}
+
+export interface WebSocketOptions {
+  tokenOverride?: string;
+  skipAuth?: boolean;
+}
+
+/**
+ * Attach the WebSocket endpoint to the HTTP server. One socket carries events of any number of
+ * streaming sessions, subscribed by streamingId, and accepts the control actions of the REST API.
+ *
+ * Browsers cannot set headers on WebSocket connections, so the auth token is also accepted
+ * as the token query parameter.
+ */
+export function createWebSocketServer(
+  server: Server,
+  services: WebSocketServices,
+  options: WebSocketOptions = {}
+): WebSocketServer {
+  const logger = createLogger('WebSocketRoutes');
+  const { streamManager, processManager, permissionTracker } = services;
+  const wss = new WebSocketServer({ noServer: true });
+  const subscriptions = new Map<WebSocket, Set<string>>();
+  const aliveSockets = new WeakSet<WebSocket>();
+
+  const send = (ws: WebSocket, message: WebSocketServerMessage): void => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const isAuthorized = (req: IncomingMessage, url: URL): boolean => {
+    // Same exemptions as the HTTP auth middleware
+    if (options.skipAuth || (process.env.NODE_ENV === 'test' && !process.env.ENABLE_AUTH_IN_TESTS)) {
+      return true;
+    }
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : url.searchParams.get('token') ?? undefined;
+    return verifyAuthToken(token, req.socket.remoteAddress || 'unknown', options.tokenOverride);
+  };
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    // Other upgrades, like the Vite HMR socket in development, are not ours
+    if (url.pathname !== WEBSOCKET_PATH) {
+      return;
+    }
+
+    if (!isAuthorized(req, url)) {
+      logger.debug('Rejected unauthorized WebSocket upgrade');
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      wss.emit('connection', ws, req);
+    });
+  });
+
+  const subscribe = (ws: WebSocket, streamingId: string, lastEventId?: number): void => {
+    send(ws, {
+      type: 'subscribed',
+      streamingId,
+      ...(lastEventId !== undefined && streamManager.isReplayIncomplete(streamingId, lastEventId) ? { replayIncomplete: true } : {})
+    });
+    if (lastEventId !== undefined) {
+      for (const { id, event } of streamManager.getEventsSince(streamingId, lastEventId)) {
+        send(ws, { type: 'event', streamingId, id, event });
+      }
+    }
+    subscriptions.get(ws)?.add(streamingId);
+  };
+
+  const handleMessage = async (ws: WebSocket, message: WebSocketClientMessage): Promise<void> => {
+    switch (message.type) {
+      case 'subscribe':
+        if (typeof message.streamingId !== 'string' || !message.streamingId) {
+          throw new CUIError('MISSING_STREAMING_ID', 'streamingId is required', 400);
+        }
+        subscribe(ws, message.streamingId, typeof message.lastEventId === 'number' ? message.lastEventId : undefined);
+        return;
+
+      case 'unsubscribe':
+        subscriptions.get(ws)?.delete(message.streamingId);
+        send(ws, { type: 'unsubscribed', streamingId: message.streamingId });
+        return;
+
+      case 'stop': {
+        if (typeof message.streamingId !== 'string' || !message.streamingId) {
+          throw new CUIError('MISSING_STREAMING_ID', 'streamingId is required', 400);
+        }
+        const success = await processManager.stopConversation(message.streamingId);
+        send(ws, { type: 'result', requestId: message.requestId, result: { success } });
+        return;
+      }
+
+      case 'interrupt': {
+        if (typeof message.streamingId !== 'string' || !message.streamingId) {
+          throw new CUIError('MISSING_STREAMING_ID', 'streamingId is required', 400);
+        }
+        const success = await processManager.interruptConversation(message.streamingId);
+        send(ws, { type: 'result', requestId: message.requestId, result: { success } });
+        return;
+      }
+
+      case 'permission_decision': {
+        if (!message.decision || typeof message.decision !== 'object') {
+          throw new CUIError('INVALID_ACTION', 'Action must be either "approve" or "deny"', 400);
+        }
+        const result = applyPermissionDecision(permissionTracker, message.permissionRequestId, message.decision);
+        send(ws, { type: 'result', requestId: message.requestId, result });
+        return;
+      }
+
+      case 'send_message': {
+        if (!message.request || typeof message.request !== 'object') {
+          throw new CUIError('MISSING_INITIAL_PROMPT', 'initialPrompt is required', 400);
+        }
+        const result = await startConversationFromRequest(services, message.request, message.requestId);
+        send(ws, { type: 'result', requestId: message.requestId, result });
+        return;
+      }
+
+      case 'follow_up': {
+        if (typeof message.message !== 'string' || !message.message.trim()) {
+          throw new CUIError('MISSING_MESSAGE', 'message is required', 400);
+        }
+        const result = processManager.sendFollowUpMessage(message.streamingId, message.message);
+        send(ws, { type: 'result', requestId: message.requestId, result });
+        return;
+      }
+
+      default:
+        throw new CUIError('INVALID_MESSAGE_TYPE', `Unknown message type: ${(message as { type?: unknown }).type}`, 400);
+    }
+  };
+
+  wss.on('connection', (ws: WebSocket) => {
+    subscriptions.set(ws, new Set());
+    aliveSockets.add(ws);
+    logger.debug('WebSocket client connected', { clientCount: subscriptions.size });
+
+    ws.on('pong', () => {
+      aliveSockets.add(ws);
+    });
+
+    ws.on('message', (data: RawData) => {
+      const message = parseMessage(data);
+      if (!message) {
+        send(ws, { type: 'error', code: 'INVALID_MESSAGE', error: 'Messages must be JSON objects' });
+        return;
+      }
+
+      logger.debug('WebSocket message received', { type: message.type, requestId: 'requestId' in message ? message.requestId : undefined });
+
+      handleMessage(ws, message).catch(error => {
+        logger.debug('WebSocket message failed', {
+          type: message.type,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        send(ws, {
+          type: 'error',
+          requestId: 'requestId' in message ? message.requestId : undefined,
+          code: error instanceof CUIError ? error.code : 'INTERNAL_ERROR',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    });
+
+    ws.on('close', () => {
+      subscriptions.delete(ws);
+      logger.debug('WebSocket client disconnected', { clientCount: subscriptions.size });
+    });
+
+    ws.on('error', (error) => {
+      logger.error('WebSocket error', error);
+    });
+  });
+
+  const onStreamEvent = ({ streamingId, id, event }: { streamingId: string; id: number; event: StreamEvent }): void => {
+    for (const [ws, streamingIds] of subscriptions) {
+      if (streamingIds.has(streamingId)) {
+        send(ws, { type: 'event', streamingId, id, event });
+      }
+    }
+  };
+  streamManager.on('stream-event', onStreamEvent);
+
+  const pingInterval = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!aliveSockets.has(ws)) {
+        ws.terminate();
+        continue;
+      }
+      aliveSockets.delete(ws);
+      ws.ping();
+    }
+  }, PING_INTERVAL_MS);
+  pingInterval.unref?.();
+
+  wss.on('close', () => {
+    clearInterval(pingInterval);
+    streamManager.off('stream-event', onStreamEvent);
+  });
+
+  return wss;
+}
+
+/**
+ * Drop all sockets and close the server, close() alone waits for clients to disconnect
+ */
+export function closeWebSocketServer(wss: WebSocketServer): void {
+  for (const ws of wss.clients) {
+    ws.terminate();
+  }
+  wss.close();
+}
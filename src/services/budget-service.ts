@@ -0,0 +1,151 @@
+import path from 'path';
+import type { BudgetLimit, BudgetScope, BudgetStatus, BudgetsConfig, UsageQuery } from '@/types/index.js';
+import { UsageService } from './usage-service.js';
+import { ConfigService } from './config-service.js';
+import { SessionInfoService } from './session-info-service.js';
+import { createLogger, type Logger } from './logger.js';
+
+export interface BudgetContext {
+  sessionId?: string;
+  workingDirectory?: string;
+}
+
+/**
+ * Checks token usage against the budgets from the CUI config. Day and working directory
+ * budgets cover the current UTC day, session budgets the whole conversation: every resume
+ * starts a new Claude session, so the sessions linked by continuations are added up.
+ */
+export class BudgetService {
+  private logger: Logger;
+  private usageService: UsageService;
+  private configService: ConfigService;
+  private sessionInfoService: SessionInfoService;
+
+  constructor(usageService: UsageService, sessionInfoService: SessionInfoService) {
+    this.logger = createLogger('BudgetService');
+    this.usageService = usageService;
+    this.sessionInfoService = sessionInfoService;
+    this.configService = ConfigService.getInstance();
+  }
+
+  /**
+   * Usage of the budgets that apply to a session and working directory. Without a context,
+   * the day budget and every working directory budget are returned.
+   */
+  async getBudgetStatus(context: BudgetContext = {}, options: { refresh?: boolean } = {}): Promise<BudgetStatus[]> {
+    const budgets = this.getConfiguredBudgets();
+    const today = new Date().toISOString().substring(0, 10);
+    const checks: Array<{ scope: BudgetScope; key: string; limit: BudgetLimit; query: UsageQuery }> = [];
+
+    if (budgets.session && context.sessionId) {
+      const sessionIds = await this.getResumeChain(context.sessionId);
+      checks.push({ scope: 'session', key: sessionIds[0], limit: budgets.session, query: { sessionIds } });
+    }
+    for (const [directory, limit] of Object.entries(budgets.workingDirectories ?? {})) {
+      const resolved = path.resolve(directory);
+      const applies = context.workingDirectory
+        ? path.resolve(context.workingDirectory) === resolved
+        : !context.sessionId;
+      if (!applies) {
+        continue;
+      }
+      checks.push({ scope: 'workingDirectory', key: resolved, limit, query: { projectPath: resolved, from: today, to: today } });
+    }
+    if (budgets.day) {
+      checks.push({ scope: 'day', key: today, limit: budgets.day, query: { from: today, to: today } });
+    }
+
+    const statuses: BudgetStatus[] = [];
+    for (const check of checks) {
+      const { totals } = await this.usageService.getUsage(check.query, options);
+      const tokens = totals.inputTokens + totals.cacheCreationInputTokens + totals.outputTokens;
+      statuses.push({
+        scope: check.scope,
+        key: check.key,
+        limit: check.limit,
+        costUsd: totals.costUsd,
+        tokens,
+        exceeded: this.isExceeded(check.limit, totals.costUsd, tokens)
+      });
+    }
+
+    return statuses;
+  }
+
+  /**
+   * First budget that a session or working directory has used up, if any
+   */
+  async findExceededBudget(context: BudgetContext, options: { refresh?: boolean } = {}): Promise<BudgetStatus | undefined> {
+    const statuses = await this.getBudgetStatus(context, options);
+    const exceeded = statuses.find(status => status.exceeded);
+    if (exceeded) {
+      this.logger.info('Budget exceeded', { ...context, scope: exceeded.scope, key: exceeded.key, costUsd: exceeded.costUsd, tokens: exceeded.tokens });
+    }
+    return exceeded;
+  }
+
+  /**
+   * Human readable explanation of a budget status, used in errors and notifications
+   */
+  describe(status: BudgetStatus): string {
+    const name = status.scope === 'session'
+      ? 'Session budget'
+      : status.scope === 'day'
+        ? 'Daily budget'
+        : `Daily budget for ${status.key}`;
+
+    const usage: string[] = [];
+    if (status.limit.maxCostUsd !== undefined) {
+      usage.push(`$${status.costUsd.toFixed(2)} of $${status.limit.maxCostUsd.toFixed(2)}`);
+    }
+    if (status.limit.maxTokens !== undefined) {
+      usage.push(`${status.tokens} of ${status.limit.maxTokens} tokens`);
+    }
+
+    return `${name} ${status.exceeded ? 'exceeded' : 'used'}: ${usage.join(', ')}`;
+  }
+
+  /**
+   * Sessions of the conversation a session belongs to, from the session it started with
+   * through every continuation
+   */
+  private async getResumeChain(sessionId: string): Promise<string[]> {
+    const sessionInfos = await this.sessionInfoService.getAllSessionInfo();
+    const previousSession = new Map<string, string>();
+    for (const [id, info] of Object.entries(sessionInfos)) {
+      if (info.continuation_session_id) {
+        previousSession.set(info.continuation_session_id, id);
+      }
+    }
+
+    // Guarding against cycles in corrupted data
+    let root = sessionId;
+    const seen = new Set<string>([root]);
+    while (previousSession.has(root) && !seen.has(previousSession.get(root)!)) {
+      root = previousSession.get(root)!;
+      seen.add(root);
+    }
+
+    const chain: string[] = [];
+    let current: string | undefined = root;
+    while (current && !chain.includes(current)) {
+      chain.push(current);
+      current = sessionInfos[current]?.continuation_session_id || undefined;
+    }
+    return chain;
+  }
+
+  private isExceeded(limit: BudgetLimit, costUsd: number, tokens: number): boolean {
+    return (limit.maxCostUsd !== undefined && costUsd >= limit.maxCostUsd) ||
+      (limit.maxTokens !== undefined && tokens >= limit.maxTokens);
+  }
+
+  private getConfiguredBudgets(): BudgetsConfig {
+    try {
+      return this.configService.getConfig().usage?.budgets ?? {};
+    } catch (error) {
+      this.logger.debug('Configuration unavailable, no budgets applied', { error });
+      return {};
+    }
+  }
+}
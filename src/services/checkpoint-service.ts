@@ -0,0 +1,410 @@
+import Database from 'better-sqlite3';
+import { copyFile, mkdtemp, rm, stat, unlink, utimes, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { CUIError, type Checkpoint, type CheckpointFileChange, type ConversationConfig, type DiscardHunkRequest, type RevertCheckpointResponse, type SessionChangesResponse } from '@/types/index.js';
+import { SessionInfoService } from './session-info-service.js';
+import { ClaudeProcessManager } from './claude-process-manager.js';
+import { createLogger, type Logger } from './logger.js';
+import { findRepositoryRoot, gitCommitEnv, runGit } from '@/utils/git.js';
+
+const CHECKPOINT_REF_PREFIX = 'refs/cui/checkpoints';
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+type CheckpointRow = {
+  id: string;
+  session_id: string;
+  streaming_id: string;
+  resumed_session_id: string | null;
+  repository: string;
+  commit_sha: string;
+  prompt: string;
+  created_at: string;
+};
+
+type RunningConversation = {
+  sessionId: string;
+  cwd: string;
+};
+
+type Snapshot = {
+  id: string;
+  repository: string;
+  commit: string;
+};
+
+const FILE_STATUSES: Record<string, CheckpointFileChange['status']> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  T: 'modified'
+};
+
+/**
+ * Snapshots the working tree of a conversation at the start of every turn, so that its
+ * changes can be reviewed and rolled back.
+ *
+ * A snapshot is a commit of the working tree, untracked files included, written through
+ * a temporary index and kept alive by a ref under refs/cui/checkpoints. The user's index,
+ * HEAD and stashes are never touched.
+ */
+export class CheckpointService {
+  private logger: Logger;
+  private sessionInfoService: SessionInfoService;
+  private processManager: ClaudeProcessManager;
+  private isInitialized = false;
+  private db!: Database.Database;
+  private running: Map<string, RunningConversation> = new Map(); // streamingId -> conversation
+  private pendingSnapshots: Map<string, Snapshot & { prompt: string }> = new Map(); // streamingId -> snapshot taken before its session id was known
+
+  constructor(sessionInfoService: SessionInfoService, processManager: ClaudeProcessManager) {
+    this.logger = createLogger('CheckpointService');
+    this.sessionInfoService = sessionInfoService;
+    this.processManager = processManager;
+  }
+
+  /**
+   * Create the checkpoints table. Must run after SessionInfoService.initialize()
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.db = this.sessionInfoService.getDatabase();
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS checkpoints (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          streaming_id TEXT NOT NULL,
+          resumed_session_id TEXT,
+          repository TEXT NOT NULL,
+          commit_sha TEXT NOT NULL,
+          prompt TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_checkpoints_session ON checkpoints(session_id);
+      `);
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize checkpoints table', error);
+      throw new Error(`Checkpoint service initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Record the snapshots taken before the first turn once the session id of the conversation is known
+   */
+  listenToProcessManager(): void {
+    this.processManager.on('conversation-started', ({ streamingId, sessionId, cwd, config }: { streamingId: string; sessionId: string; cwd: string; config: ConversationConfig & { resumedSessionId?: string } }) => {
+      this.running.set(streamingId, { sessionId, cwd: cwd || config.workingDirectory });
+      const snapshot = this.pendingSnapshots.get(streamingId);
+      this.pendingSnapshots.delete(streamingId);
+      if (!snapshot) {
+        return;
+      }
+      this.recordCheckpoint(snapshot, {
+        sessionId,
+        streamingId,
+        resumedSessionId: config.resumedSessionId,
+        prompt: snapshot.prompt
+      }).catch(error => {
+        this.logger.warn('Failed to create checkpoint', { streamingId, error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    this.processManager.on('process-closed', ({ streamingId }: { streamingId: string }) => {
+      this.running.delete(streamingId);
+      this.pendingSnapshots.delete(streamingId);
+    });
+    this.logger.debug('Started listening to process manager events');
+  }
+
+  /**
+   * Snapshot the working tree before a prompt or follow-up is handed to Claude, so that none
+   * of the turn's edits end up in it. Used as the process manager's before turn hook.
+   */
+  async beforeTurn(turn: { streamingId: string; workingDirectory: string; prompt: string }): Promise<void> {
+    const conversation = this.running.get(turn.streamingId);
+    try {
+      if (conversation) {
+        await this.createCheckpoint({
+          sessionId: conversation.sessionId,
+          streamingId: turn.streamingId,
+          workingDirectory: turn.workingDirectory,
+          prompt: turn.prompt
+        });
+        return;
+      }
+
+      // The first turn starts before Claude reports the session id
+      const snapshot = await this.takeSnapshot(turn.workingDirectory);
+      if (snapshot) {
+        this.pendingSnapshots.set(turn.streamingId, { ...snapshot, prompt: turn.prompt });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to create checkpoint', { streamingId: turn.streamingId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Snapshot the working tree. Resolves to undefined when the directory is not in a git repository.
+   */
+  async createCheckpoint(options: { sessionId: string; streamingId: string; workingDirectory: string; prompt: string; resumedSessionId?: string }): Promise<Checkpoint | undefined> {
+    const snapshot = await this.takeSnapshot(options.workingDirectory);
+    return snapshot && this.recordCheckpoint(snapshot, options);
+  }
+
+  private async takeSnapshot(workingDirectory: string): Promise<Snapshot | undefined> {
+    if (!this.isInitialized) {
+      return undefined;
+    }
+
+    const repository = await this.findRepository(workingDirectory);
+    if (!repository) {
+      this.logger.debug('Not checkpointing, working directory is not in a git repository', { workingDirectory });
+      return undefined;
+    }
+
+    const id = uuidv4();
+    const commit = await this.snapshot(repository, `CUI checkpoint ${id}`);
+    return { id, repository, commit };
+  }
+
+  private async recordCheckpoint(snapshot: Snapshot, options: { sessionId: string; streamingId: string; prompt: string; resumedSessionId?: string }): Promise<Checkpoint> {
+    const { id, repository, commit } = snapshot;
+    await this.git(repository, ['update-ref', `${CHECKPOINT_REF_PREFIX}/${id}`, commit]);
+
+    const row: CheckpointRow = {
+      id,
+      session_id: options.sessionId,
+      streaming_id: options.streamingId,
+      resumed_session_id: options.resumedSessionId ?? null,
+      repository,
+      commit_sha: commit,
+      prompt: options.prompt,
+      created_at: new Date().toISOString()
+    };
+    this.db.prepare(`
+      INSERT INTO checkpoints (id, session_id, streaming_id, resumed_session_id, repository, commit_sha, prompt, created_at)
+      VALUES (@id, @session_id, @streaming_id, @resumed_session_id, @repository, @commit_sha, @prompt, @created_at)
+    `).run(row);
+
+    this.logger.debug('Created checkpoint', { checkpointId: id, sessionId: options.sessionId, commit });
+    return this.toCheckpoint(row);
+  }
+
+  /**
+   * Checkpoints of a session in creation order, including those of the sessions it resumed
+   */
+  getCheckpoints(sessionId: string): Checkpoint[] {
+    return this.getCheckpointRows(sessionId).map(row => this.toCheckpoint(row));
+  }
+
+  /**
+   * Changes of the working tree since the session started
+   */
+  async getChangesSinceStart(sessionId: string, workingDirectory?: string): Promise<SessionChangesResponse> {
+    const { repository, base } = await this.getSessionBase(sessionId, workingDirectory);
+    const current = await this.snapshot(repository, 'CUI working tree');
+    const files = await this.diffFiles(repository, base, current);
+    const { stdout: diff } = await this.git(repository, ['diff', '--no-color', '--no-ext-diff', base, current]);
+    return { base, repository, files, diff };
+  }
+
+  /**
+   * Undo one hunk of the changes since the session started by reverse applying it with git.
+   * Fails when the file no longer contains the lines the hunk produced.
+   */
+  async discardHunk(request: DiscardHunkRequest): Promise<SessionChangesResponse> {
+    const { sessionId, workingDirectory, path: filePath, hunk } = request;
+    if (typeof filePath !== 'string' || !filePath || path.isAbsolute(filePath) || filePath.split(/[\\/]/).includes('..')) {
+      throw new CUIError('INVALID_PATH', 'path must be relative to the repository root', 400);
+    }
+    const validHunk = Array.isArray(hunk) && HUNK_HEADER.test(hunk[0] ?? '')
+      && hunk.every((line, index) => typeof line === 'string' && !line.includes('\n') && (index === 0 || /^[ +\-\\]/.test(line)));
+    if (!validHunk) {
+      throw new CUIError('INVALID_HUNK', 'hunk must be an @@ header followed by diff lines', 400);
+    }
+
+    const { repository, base } = await this.getSessionBase(sessionId, workingDirectory);
+    const current = await this.snapshot(repository, 'CUI working tree');
+    // The file's own diff header says whether it was added or deleted, reversing those deletes or recreates it
+    const { stdout: fileDiff } = await this.git(repository, [
+      '--literal-pathspecs', 'diff', '--no-color', '--no-ext-diff', '--no-renames', base, current, '--', filePath
+    ]);
+    const headerEnd = fileDiff.search(/^@@ /m);
+    if (headerEnd < 0 || fileDiff.match(/^diff --git /gm)?.length !== 1) {
+      throw new CUIError('NO_CHANGES', `No changes to discard in ${filePath}`, 404);
+    }
+
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'cui-discard-'));
+    const patchFile = path.join(tempDir, 'hunk.patch');
+    try {
+      await writeFile(patchFile, fileDiff.slice(0, headerEnd) + hunk.join('\n') + '\n');
+      await this.git(repository, ['apply', '--reverse', '--whitespace=nowarn', patchFile]);
+    } catch (error) {
+      this.logger.debug('Reverse applying hunk failed', {
+        sessionId,
+        path: filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new CUIError('HUNK_CONFLICT', 'The file changed since the diff was loaded, refresh and try again', 409);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+
+    this.logger.info('Discarded hunk', { sessionId, repository, path: filePath });
+    return this.getChangesSinceStart(sessionId, workingDirectory);
+  }
+
+  /**
+   * Restore the working tree to a checkpoint: files changed since are restored, files created
+   * since are deleted. The current state is checkpointed first so the revert can be undone.
+   */
+  async revert(checkpointId: string): Promise<RevertCheckpointResponse> {
+    const row = this.isInitialized
+      ? this.db.prepare('SELECT * FROM checkpoints WHERE id = ?').get(checkpointId) as CheckpointRow | undefined
+      : undefined;
+    if (!row) {
+      throw new CUIError('CHECKPOINT_NOT_FOUND', `Checkpoint ${checkpointId} not found`, 404);
+    }
+    if (this.isRepositoryBusy(row.repository)) {
+      throw new CUIError('CONVERSATION_RUNNING', 'Stop the conversations running in this repository before reverting', 409);
+    }
+
+    const backup = await this.createCheckpoint({
+      sessionId: row.session_id,
+      streamingId: row.streaming_id,
+      workingDirectory: row.repository,
+      prompt: `Before reverting to checkpoint ${checkpointId}`
+    });
+    if (!backup) {
+      throw new CUIError('NOT_A_GIT_REPOSITORY', `${row.repository} is no longer a git repository`, 409);
+    }
+
+    // Compared from the current state to the checkpoint, so files created since show as deleted
+    const files = await this.diffFiles(row.repository, backup.commit, row.commit_sha);
+    const restored = files.filter(file => file.status !== 'deleted').map(file => file.path);
+    for (const file of files.filter(change => change.status === 'deleted')) {
+      await unlink(path.join(row.repository, file.path)).catch(error => {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      });
+    }
+    if (restored.length > 0) {
+      // --worktree leaves the index alone, the user's staged changes stay as they are
+      await this.git(row.repository, ['restore', `--source=${row.commit_sha}`, '--worktree', '--', ...restored]);
+    }
+
+    this.logger.info('Reverted working tree to checkpoint', { checkpointId, backupId: backup.id, fileCount: files.length });
+    return { checkpoint: this.toCheckpoint(row), backup, files };
+  }
+
+  /**
+   * Repository of a session and the commit its changes are compared against. Sessions without
+   * checkpoints fall back to the commit that was HEAD when they started.
+   */
+  private async getSessionBase(sessionId: string, workingDirectory?: string): Promise<{ repository: string; base: string }> {
+    const [first] = this.getCheckpointRows(sessionId);
+    let repository: string | undefined = first?.repository;
+    let base: string | undefined = first?.commit_sha;
+
+    if (!first) {
+      const sessionInfo = await this.sessionInfoService.getSessionInfo(sessionId);
+      repository = workingDirectory ? await this.findRepository(workingDirectory) : undefined;
+      base = sessionInfo.initial_commit_head || undefined;
+    }
+    if (!repository || !base) {
+      throw new CUIError('NO_CHECKPOINT', `No git snapshot of session ${sessionId}`, 404);
+    }
+    return { repository, base };
+  }
+
+  private getCheckpointRows(sessionId: string): CheckpointRow[] {
+    if (!this.isInitialized) {
+      return [];
+    }
+    return this.db.prepare(`
+      WITH RECURSIVE chain(id) AS (
+        SELECT ?
+        UNION
+        SELECT c.resumed_session_id FROM checkpoints c JOIN chain ON c.session_id = chain.id
+        WHERE c.resumed_session_id IS NOT NULL
+      )
+      SELECT * FROM checkpoints WHERE session_id IN (SELECT id FROM chain) ORDER BY created_at, rowid
+    `).all(sessionId) as CheckpointRow[];
+  }
+
+  private isRepositoryBusy(repository: string): boolean {
+    for (const conversation of this.running.values()) {
+      const relative = path.relative(repository, conversation.cwd);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Commit the working tree, untracked files included, without touching the real index
+   */
+  private async snapshot(repository: string, message: string): Promise<string> {
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'cui-checkpoint-'));
+    const indexFile = path.join(tempDir, 'index');
+    try {
+      // Starting from the real index spares hashing files that did not change
+      const { stdout: realIndex } = await this.git(repository, ['rev-parse', '--path-format=absolute', '--git-path', 'index']);
+      if (existsSync(realIndex.trim())) {
+        await copyFile(realIndex.trim(), indexFile);
+        // Git rehashes entries not older than the index file, a fresh mtime would hide recent edits
+        const { atime, mtime } = await stat(realIndex.trim());
+        await utimes(indexFile, atime, mtime);
+      }
+
+      const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+      await this.git(repository, ['add', '--all', '--', '.'], env);
+      const { stdout: tree } = await this.git(repository, ['write-tree'], env);
+
+      const head = await this.git(repository, ['rev-parse', '--verify', '--quiet', 'HEAD']).catch(() => undefined);
+      const parentArgs = head ? ['-p', head.stdout.trim()] : [];
+      const { stdout: commit } = await this.git(repository, ['commit-tree', tree.trim(), ...parentArgs, '-m', message], gitCommitEnv());
+      return commit.trim();
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private async diffFiles(repository: string, from: string, to: string): Promise<CheckpointFileChange[]> {
+    const { stdout } = await this.git(repository, ['diff', '--name-status', '--no-renames', '-z', from, to]);
+    const fields = stdout.split('\0').filter(field => field.length > 0);
+    const files: CheckpointFileChange[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      files.push({ path: fields[i + 1], status: FILE_STATUSES[fields[i]] ?? 'modified' });
+    }
+    return files;
+  }
+
+  private findRepository(workingDirectory: string): Promise<string | undefined> {
+    return findRepositoryRoot(workingDirectory);
+  }
+
+  private git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<{ stdout: string; stderr: string }> {
+    return runGit(cwd, args, env);
+  }
+
+  private toCheckpoint(row: CheckpointRow): Checkpoint {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      streamingId: row.streaming_id,
+      commit: row.commit_sha,
+      prompt: row.prompt,
+      createdAt: row.created_at
+    };
+  }
+}
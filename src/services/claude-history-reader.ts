@@ -1,6 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
 import { ConversationSummary, ConversationMessage, ConversationListQuery, CUIError } from '@/types/index.js';
 import { createLogger, type Logger } from './logger.js';
 import { SessionInfoService } from './session-info-service.js';
@@ -10,7 +11,7 @@ import { MessageFilter } from './message-filter.js';
 import Anthropic from '@anthropic-ai/sdk';
 
 // Import RawJsonEntry from ConversationCache to avoid duplication
-type RawJsonEntry = {
+export type RawJsonEntry = {
   type: string;
   uuid?: string;
   sessionId?: string;
@@ -90,7 +91,11 @@ export class ClaudeHistoryReader {
               archived: false,
               continuation_session_id: '',
               initial_commit_head: '',
-              permission_mode: 'default'
+              permission_mode: 'default',
+              forked_from_session_id: '',
+              forked_from_message_uuid: '',
+              worktree_path: '',
+              worktree_branch: ''
             };
           }
 
@@ -200,6 +205,189 @@ export class ClaudeHistoryReader {
     }
   }
 
+  /**
+   * Get the JSONL files whose modification time differs from the given ones, together
+   * with their entries, plus the files that no longer exist. Entries come from the
+   * conversation cache when it already holds the current version of a file.
+   */
+  async getChangedFiles(knownModTimes: Map<string, number>): Promise<{
+    changed: Array<{ filePath: string; mtime: number; entries: RawJsonEntry[] }>;
+    removed: string[];
+  }> {
+    const currentModTimes = await this.getFileModificationTimes();
+    const changed: Array<{ filePath: string; mtime: number; entries: RawJsonEntry[] }> = [];
+
+    for (const [filePath, mtime] of currentModTimes) {
+      if (knownModTimes.get(filePath) === mtime) {
+        continue;
+      }
+      let entries = this.conversationCache.getFileEntries(filePath, mtime);
+      if (!entries) {
+        entries = await this.parseJsonlFile(filePath);
+        this.conversationCache.updateFileCache(filePath, entries, mtime, this.extractSourceProject(filePath));
+      }
+      changed.push({ filePath, mtime, entries });
+    }
+
+    const removed = Array.from(knownModTimes.keys()).filter(filePath => !currentModTimes.has(filePath));
+    return { changed, removed };
+  }
+
+  /**
+   * Create a new session containing the history of a conversation up to (and including)
+   * the given message. The seed session is written next to the source session file so
+   * that Claude CLI can resume it from the same working directory.
+   */
+  async createForkSeed(sessionId: string, messageUuid: string): Promise<{
+    sessionId: string;
+    projectPath: string;
+    messages: ConversationMessage[];
+  }> {
+    const modTimes = await this.getFileModificationTimes();
+    const filePaths = Array.from(modTimes.keys());
+    // Claude names session files after the session, fall back to scanning every file
+    const preferred = filePaths.filter(filePath => path.basename(filePath, '.jsonl') === sessionId);
+
+    let sourceFile: string | undefined;
+    let entries: RawJsonEntry[] = [];
+    for (const filePath of preferred.length > 0 ? preferred : filePaths) {
+      const fileEntries = (await this.parseJsonlFile(filePath)).filter(entry => entry.sessionId === sessionId);
+      if (fileEntries.some(entry => entry.uuid === messageUuid)) {
+        sourceFile = filePath;
+        entries = fileEntries;
+        break;
+      }
+    }
+
+    if (!sourceFile) {
+      throw new CUIError('MESSAGE_NOT_FOUND', `Message ${messageUuid} not found in conversation ${sessionId}`, 404);
+    }
+
+    const entryMap = new Map<string, RawJsonEntry>();
+    entries.forEach(entry => {
+      if (entry.uuid) entryMap.set(entry.uuid, entry);
+    });
+
+    // Walk from the fork point back to the head of the conversation
+    const seedEntries: RawJsonEntry[] = [];
+    const visited = new Set<string>();
+    let current = entryMap.get(messageUuid);
+    while (current && current.uuid && !visited.has(current.uuid)) {
+      visited.add(current.uuid);
+      seedEntries.unshift(current);
+      current = current.parentUuid ? entryMap.get(current.parentUuid) : undefined;
+    }
+
+    // Keep following the chain until every tool use in the seed has its result,
+    // otherwise the resumed conversation would contain a dangling tool_use block
+    const pendingToolUses = this.getPendingToolUseIds(seedEntries);
+    while (pendingToolUses.size > 0) {
+      const last = seedEntries[seedEntries.length - 1];
+      const next = entries
+        .filter(entry => entry.parentUuid === last.uuid && entry.uuid && !visited.has(entry.uuid))
+        .sort((a, b) => new Date(a.timestamp || '').getTime() - new Date(b.timestamp || '').getTime())[0];
+      if (!next) {
+        break;
+      }
+      visited.add(next.uuid!);
+      seedEntries.push(next);
+      this.updatePendingToolUseIds(pendingToolUses, next);
+    }
+
+    const seedSessionId = uuidv4();
+    const seedFile = path.join(path.dirname(sourceFile), `${seedSessionId}.jsonl`);
+    const content = seedEntries
+      .map(entry => JSON.stringify({ ...entry, sessionId: seedSessionId }))
+      .join('\n') + '\n';
+
+    try {
+      await fs.writeFile(seedFile, content, 'utf-8');
+    } catch (error) {
+      throw new CUIError('FORK_FAILED', `Failed to write forked conversation: ${error}`, 500);
+    }
+
+    this.logger.info('Created fork seed session', {
+      sourceSessionId: sessionId,
+      messageUuid,
+      seedSessionId,
+      messageCount: seedEntries.length
+    });
+
+    const messages = this.messageFilter.filterMessages(
+      seedEntries.map(entry => this.parseMessage({ ...entry, sessionId: seedSessionId }))
+    );
+    const firstWithCwd = seedEntries.find(entry => entry.cwd);
+
+    return {
+      sessionId: seedSessionId,
+      projectPath: firstWithCwd?.cwd || this.decodeProjectPath(this.extractSourceProject(sourceFile)),
+      messages
+    };
+  }
+
+  /**
+   * Delete the session file written by createForkSeed, used when the fork fails to start
+   */
+  async removeForkSeed(seedSessionId: string): Promise<void> {
+    const seedFiles = Array.from((await this.getFileModificationTimes()).keys())
+      .filter(filePath => path.basename(filePath, '.jsonl') === seedSessionId);
+    await Promise.all(seedFiles.map(filePath => fs.unlink(filePath)));
+    this.logger.info('Removed fork seed session', { seedSessionId, fileCount: seedFiles.length });
+  }
+
+  /**
+   * Write the entries of a session to the projects directory Claude uses for its working directory,
+   * so the session can be listed and resumed like one that was started on this machine
+   */
+  async writeSession(sessionId: string, projectPath: string, entries: RawJsonEntry[], overwrite = false): Promise<string> {
+    const existing = Array.from((await this.getFileModificationTimes()).keys())
+      .filter(filePath => path.basename(filePath, '.jsonl') === sessionId);
+    if (existing.length > 0 && !overwrite) {
+      throw new CUIError('CONVERSATION_EXISTS', `Conversation ${sessionId} already exists`, 409);
+    }
+
+    const sessionFile = path.join(this.claudeHomePath, 'projects', this.encodeProjectPath(projectPath), `${sessionId}.jsonl`);
+    const content = entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+
+    try {
+      // Replaced sessions may live in the directory of their previous project path
+      await Promise.all(existing.filter(filePath => filePath !== sessionFile).map(filePath => fs.unlink(filePath)));
+      await fs.mkdir(path.dirname(sessionFile), { recursive: true });
+      await fs.writeFile(sessionFile, content, 'utf-8');
+    } catch (error) {
+      throw new CUIError('IMPORT_FAILED', `Failed to write conversation: ${error}`, 500);
+    }
+
+    this.logger.info('Wrote session file', {
+      sessionId,
+      sessionFile,
+      entryCount: entries.length,
+      replaced: existing.length > 0
+    });
+
+    return sessionFile;
+  }
+
+  private getPendingToolUseIds(entries: RawJsonEntry[]): Set<string> {
+    const pending = new Set<string>();
+    entries.forEach(entry => this.updatePendingToolUseIds(pending, entry));
+    return pending;
+  }
+
+  private updatePendingToolUseIds(pending: Set<string>, entry: RawJsonEntry): void {
+    const content = entry.message?.content;
+    if (!Array.isArray(content)) {
+      return;
+    }
+    for (const block of content) {
+      if (block.type === 'tool_use') {
+        pending.add(block.id);
+      } else if (block.type === 'tool_result') {
+        pending.delete(block.tool_use_id);
+      }
+    }
+  }
+
   /**
    * Get file modification times for all JSONL files
    */
@@ -657,4 +845,9 @@ export class ClaudeHistoryReader {
     return encoded.replace(/-/g, '/');
   }
 
+  private encodeProjectPath(projectPath: string): string {
+    // Reverse of decodeProjectPath, Claude also replaces every other non-alphanumeric character
+    return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
+  }
+
 }
\ No newline at end of file
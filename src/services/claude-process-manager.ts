@@ -1,5 +1,5 @@
 import { ChildProcess, spawn } from 'child_process';
-import { ConversationConfig, CUIError, SystemInitMessage, StreamEvent } from '@/types/index.js';
+import { AgentProfile, ConversationConfig, CUIError, FollowUpMessage, QueuedConversation, QueuedConversationStatus, SystemInitMessage, StreamEvent } from '@/types/index.js';
 import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
 import { existsSync, readFileSync } from 'fs';
@@ -13,8 +13,32 @@ import { ToolMetricsService } from './ToolMetricsService.js';
 import { SessionInfoService } from './session-info-service.js';
 import { FileSystemService } from './file-system-service.js';
 import { NotificationService } from './notification-service.js';
+import { BudgetService, type BudgetContext } from './budget-service.js';
 import path from 'path';
 import { ClaudeRouterService } from './claude-router-service.js';
+import { ConfigService } from './config-service.js';
+import type { MCPConfigGenerator } from './mcp-config-generator.js';
+
+type StartConversationConfig = ConversationConfig & { resumedSessionId?: string };
+
+export type StartedConversation = { streamingId: string; systemInit: SystemInitMessage };
+
+export type BeforeTurnHook = (turn: { streamingId: string; workingDirectory: string; prompt: string }) => Promise<void>;
+
+interface QueueEntry {
+  id: string;
+  config: StartConversationConfig;
+  priority: number;
+  enqueuedAt: Date;
+  onStart: (started: StartedConversation) => Promise<void> | void;
+  onDropped?: () => Promise<void> | void; // Cancelled or failed to start, for cleaning up what was prepared for it
+}
+
+// Outcomes of queue entries kept for clients that poll a queue entry after it left the queue
+const MAX_QUEUE_OUTCOMES = 200;
+
+// Time an interrupted CLI gets to finish the turn and flush its history before it is stopped
+const INTERRUPT_TIMEOUT_MS = 10000;
 
 // Get the directory of this module
 const __filename = fileURLToPath(import.meta.url);
@@ -28,11 +52,14 @@ export class ClaudeProcessManager extends EventEmitter {
   private outputBuffers: Map<string, string> = new Map();
   private timeouts: Map<string, NodeJS.Timeout[]> = new Map();
   private conversationConfigs: Map<string, ConversationConfig> = new Map();
+  private workingDirectories: Map<string, string> = new Map(); // streamingId -> directory the process was spawned in
   private claudeExecutablePath: string;
   private logger: Logger;
   private envOverrides: Record<string, string | undefined>;
   private historyReader: ClaudeHistoryReader;
   private mcpConfigPath?: string;
+  private mcpConfigGenerator?: MCPConfigGenerator;
+  private mcpServerStatus: Map<string, SystemInitMessage['mcp_servers']> = new Map(); // streamingId -> MCP servers reported at startup
   private statusTracker: ConversationStatusManager;
   private conversationStatusManager?: ConversationStatusManager;
   private toolMetricsService?: ToolMetricsService;
@@ -40,6 +67,15 @@ export class ClaudeProcessManager extends EventEmitter {
   private fileSystemService?: FileSystemService;
   private notificationService?: NotificationService;
   private routerService?: ClaudeRouterService;
+  private budgetService?: BudgetService;
+  private budgetStops: Set<string> = new Set(); // streamingIds being stopped for exceeding a budget
+  private beforeTurnHook?: BeforeTurnHook;
+  private maxConcurrentProcesses = 0; // 0 means no limit
+  private startingCount = 0; // startConversation calls that have not spawned or failed yet
+  private queue: QueueEntry[] = []; // Sorted by priority (descending), then enqueue order
+  private queueOutcomes: Map<string, QueuedConversationStatus> = new Map();
+  private followUps: Map<string, FollowUpMessage[]> = new Map(); // streamingId -> messages waiting for the current turn to end
+  private interrupts: Set<string> = new Set(); // streamingIds interrupted by the user
 
   constructor(historyReader: ClaudeHistoryReader, statusTracker: ConversationStatusManager, claudeExecutablePath?: string, envOverrides?: Record<string, string | undefined>, toolMetricsService?: ToolMetricsService, sessionInfoService?: SessionInfoService, fileSystemService?: FileSystemService) {
     super();
@@ -109,6 +145,14 @@ export class ClaudeProcessManager extends EventEmitter {
     this.logger.debug('MCP config path set', { path });
   }
 
+  /**
+   * Set the generator that provides MCP configs for working directories with their own servers
+   */
+  setMCPConfigGenerator(generator: MCPConfigGenerator): void {
+    this.mcpConfigGenerator = generator;
+    this.logger.debug('MCP config generator set');
+  }
+
   /**
    * Set the optimistic conversation service
    */
@@ -125,12 +169,157 @@ export class ClaudeProcessManager extends EventEmitter {
     this.logger.debug('Notification service set');
   }
 
+  /**
+   * Set the budget service used to refuse and stop conversations over budget
+   */
+  setBudgetService(service: BudgetService): void {
+    this.budgetService = service;
+    this.logger.debug('Budget service set');
+  }
+
+  /**
+   * Set a hook awaited before a prompt or follow-up is handed to Claude, while the working tree
+   * still holds what the user left in it
+   */
+  setBeforeTurnHook(hook: BeforeTurnHook): void {
+    this.beforeTurnHook = hook;
+    this.logger.debug('Before turn hook set');
+  }
+
+
+
+  /**
+   * Look up an agent profile from the config
+   */
+  getAgentProfile(name: string): AgentProfile {
+    const profile = ConfigService.getInstance().getConfig().agents?.profiles?.find(p => p.name === name);
+    if (!profile) {
+      throw new CUIError('AGENT_PROFILE_NOT_FOUND', `Agent profile not found: ${name}`, 400);
+    }
+    return profile;
+  }
+
+  /**
+   * Set the maximum number of Claude processes running at once, 0 for no limit
+   */
+  setMaxConcurrentProcesses(max: number): void {
+    this.maxConcurrentProcesses = max;
+    this.logger.debug('Max concurrent processes set', { max });
+    this.drainQueue();
+  }
+
+  getMaxConcurrentProcesses(): number {
+    return this.maxConcurrentProcesses;
+  }
+
+  /**
+   * Whether a conversation can start right away. Callers should queue it with
+   * enqueueConversation otherwise, so that queued conversations keep their turn.
+   */
+  canStartConversation(): boolean {
+    return this.queue.length === 0 && this.hasCapacity();
+  }
+
+  /**
+   * Queue a conversation until a process slot is free. onStart runs once it has started,
+   * onDropped when it is cancelled or fails to start.
+   */
+  enqueueConversation(
+    config: StartConversationConfig,
+    options: { priority?: number },
+    onStart: QueueEntry['onStart'],
+    onDropped?: QueueEntry['onDropped']
+  ): QueuedConversation {
+    const entry: QueueEntry = {
+      id: uuidv4(),
+      config,
+      priority: options.priority ?? 0,
+      enqueuedAt: new Date(),
+      onStart,
+      onDropped
+    };
+
+    // Insert after every entry of the same or higher priority
+    const index = this.queue.findIndex(queued => queued.priority < entry.priority);
+    if (index === -1) {
+      this.queue.push(entry);
+    } else {
+      this.queue.splice(index, 0, entry);
+    }
+
+    this.logger.info('Conversation queued', {
+      queueId: entry.id,
+      priority: entry.priority,
+      position: this.queue.indexOf(entry) + 1,
+      queueLength: this.queue.length,
+      running: this.processes.size
+    });
+    this.emit('queue-changed');
+
+    // The limit may have been raised since the caller checked
+    this.drainQueue();
+
+    return this.toQueuedConversation(entry);
+  }
+
+  /**
+   * Remove a conversation from the queue before it starts
+   */
+  cancelQueuedConversation(queueId: string): boolean {
+    const index = this.queue.findIndex(entry => entry.id === queueId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [entry] = this.queue.splice(index, 1);
+    this.recordQueueOutcome({ queueId, status: 'cancelled' });
+    this.logger.info('Queued conversation cancelled', { queueId });
+    this.emit('queue-changed');
+    this.dropQueueEntry(entry);
+    return true;
+  }
 
+  /**
+   * Conversations waiting for a process slot, in the order they will start
+   */
+  getQueuedConversations(): QueuedConversation[] {
+    return this.queue.map(entry => this.toQueuedConversation(entry));
+  }
+
+  /**
+   * Status of a queue entry, including entries that have left the queue since.
+   * Undefined for unknown entries.
+   */
+  getQueuedConversationStatus(queueId: string): QueuedConversationStatus | undefined {
+    const entry = this.queue.find(queued => queued.id === queueId);
+    if (entry) {
+      return { queueId, status: 'queued', position: this.queue.indexOf(entry) + 1 };
+    }
+    return this.queueOutcomes.get(queueId);
+  }
 
   /**
    * Start a new Claude conversation (or resume if resumedSessionId is provided)
    */
-  async startConversation(config: ConversationConfig & { resumedSessionId?: string }): Promise<{streamingId: string; systemInit: SystemInitMessage}> {
+  async startConversation(config: StartConversationConfig): Promise<StartedConversation> {
+    // Counted synchronously so a capacity check right after this call sees the new process
+    this.startingCount++;
+    try {
+      const started = await this.startConversationProcess(config);
+      this.emit('conversation-started', {
+        streamingId: started.streamingId,
+        sessionId: started.systemInit.session_id,
+        cwd: started.systemInit.cwd,
+        config
+      });
+      return started;
+    } finally {
+      this.startingCount--;
+      this.drainQueue();
+    }
+  }
+
+  private async startConversationProcess(config: StartConversationConfig): Promise<StartedConversation> {
     const isResume = !!config.resumedSessionId;
     
     this.logger.debug('Start conversation requested', { 
@@ -168,8 +357,17 @@ export class ClaudeProcessManager extends EventEmitter {
       });
     }
     
+    await this.assertWithinBudget({
+      sessionId: config.resumedSessionId,
+      workingDirectory: workingDirectory || config.workingDirectory
+    });
+
     const args = isResume && config.resumedSessionId
-      ? this.buildResumeArgs({ sessionId: config.resumedSessionId, message: config.initialPrompt, permissionMode: config.permissionMode })
+      ? this.buildResumeArgs({
+          sessionId: config.resumedSessionId,
+          permissionMode: config.permissionMode,
+          workingDirectory: workingDirectory || config.workingDirectory
+        })
       : this.buildStartArgs(config);
       
     const spawnConfig = {
@@ -244,6 +442,9 @@ export class ClaudeProcessManager extends EventEmitter {
       this.processes.delete(streamingId);
       this.outputBuffers.delete(streamingId);
       this.conversationConfigs.delete(streamingId);
+      this.workingDirectories.delete(streamingId);
+      this.followUps.delete(streamingId);
+      this.mcpServerStatus.delete(streamingId);
       
       this.logger.info('Stopped and cleaned up process', { streamingId });
       return true;
@@ -253,6 +454,90 @@ export class ClaudeProcessManager extends EventEmitter {
     }
   }
 
+  /**
+   * Interrupt the current turn like pressing Esc in the interactive CLI. Claude ends the turn,
+   * writes it to the session history and exits, so the session can be resumed with a new
+   * instruction. Resolves once the process closed.
+   */
+  async interruptConversation(streamingId: string): Promise<boolean> {
+    const process = this.processes.get(streamingId);
+    if (!process) {
+      this.logger.warn('No process found for conversation', { streamingId });
+      return false;
+    }
+
+    this.logger.debug('Interrupting conversation', { streamingId, pid: process.pid });
+    this.interrupts.add(streamingId);
+    // Queued messages were meant for the turn being interrupted
+    this.followUps.delete(streamingId);
+
+    const closed = new Promise<void>(resolve => {
+      const onClosed = ({ streamingId: closedStreamingId }: { streamingId: string }) => {
+        if (closedStreamingId === streamingId) {
+          this.off('process-closed', onClosed);
+          resolve();
+        }
+      };
+      this.on('process-closed', onClosed);
+    });
+
+    // stdin is already closed when the last turn ended and the process is exiting on its own
+    if (process.stdin && !process.stdin.writableEnded) {
+      const request = { type: 'control_request', request_id: uuidv4(), request: { subtype: 'interrupt' } };
+      process.stdin.write(JSON.stringify(request) + '\n');
+    }
+
+    let timeout: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+      timeout = setTimeout(() => resolve(true), INTERRUPT_TIMEOUT_MS);
+    });
+    if (await Promise.race([closed.then(() => false), timedOut])) {
+      this.logger.warn('Interrupted process did not exit in time, stopping it', { streamingId, pid: process.pid });
+      await this.stopConversation(streamingId);
+    }
+    clearTimeout(timeout);
+
+    this.logger.info('Interrupted conversation', { streamingId });
+    return true;
+  }
+
+  /**
+   * Queue a message for a running conversation. Claude reads it from stdin once the
+   * current turn ends, as typing ahead in the interactive CLI does.
+   */
+  sendFollowUpMessage(streamingId: string, message: string): FollowUpMessage {
+    const process = this.processes.get(streamingId);
+    // stdin is closed once the last turn ended without follow-ups, the process is about to exit
+    if (!process?.stdin || process.stdin.writableEnded) {
+      throw new CUIError('CONVERSATION_NOT_RUNNING', `Conversation ${streamingId} is not running`, 409);
+    }
+
+    const followUp: FollowUpMessage = {
+      id: uuidv4(),
+      streamingId,
+      message,
+      queuedAt: new Date().toISOString()
+    };
+    const queue = this.followUps.get(streamingId) || [];
+    queue.push(followUp);
+    this.followUps.set(streamingId, queue);
+
+    this.logger.debug('Queued follow-up message', { streamingId, followUpId: followUp.id, queueLength: queue.length });
+    this.emit('follow-up-queued', followUp);
+    return followUp;
+  }
+
+  getFollowUpMessages(streamingId: string): FollowUpMessage[] {
+    return [...(this.followUps.get(streamingId) || [])];
+  }
+
+  /**
+   * Connection status of the MCP servers, as reported when the conversation started
+   */
+  getMCPServerStatus(streamingId: string): SystemInitMessage['mcp_servers'] | undefined {
+    return this.mcpServerStatus.get(streamingId);
+  }
+
   /**
    * Get active sessions
    */
@@ -420,6 +705,7 @@ export class ClaudeProcessManager extends EventEmitter {
           toolCount: systemInitMessage.tools?.length || 0,
           mcpServerCount: systemInitMessage.mcp_servers?.length || 0
         });
+        this.mcpServerStatus.set(streamingId, systemInitMessage.mcp_servers);
 
         // Register active session immediately when we have the session_id
         // Include optimistic context if available
@@ -569,6 +855,13 @@ export class ClaudeProcessManager extends EventEmitter {
         exists: true
       });
 
+      this.workingDirectories.set(streamingId, normalizedCwd);
+
+      // Before spawning, Claude cannot have touched the working tree yet
+      if (config.initialPrompt) {
+        await this.runBeforeTurnHook({ streamingId, workingDirectory: normalizedCwd, prompt: config.initialPrompt });
+      }
+
       const envWithStreamingId = {
         ...cleanEnv,
         CUI_STREAMING_ID: streamingId,
@@ -691,6 +984,13 @@ export class ClaudeProcessManager extends EventEmitter {
       
       this.processes.set(streamingId, process);
       this.setupProcessHandlers(streamingId, process);
+
+      // With stream-json input the prompt is the first message on stdin
+      if (config.initialPrompt) {
+        this.writeUserMessage(streamingId, process, config.initialPrompt);
+      } else {
+        process.stdin?.end();
+      }
       
       // Handle spawn errors by listening for our custom event
       const spawnErrorPromise = new Promise<never>((_, reject) => {
@@ -768,6 +1068,9 @@ export class ClaudeProcessManager extends EventEmitter {
       this.processes.delete(streamingId);
       this.outputBuffers.delete(streamingId);
       this.conversationConfigs.delete(streamingId);
+      this.workingDirectories.delete(streamingId);
+      this.followUps.delete(streamingId);
+      this.mcpServerStatus.delete(streamingId);
       
       if (error instanceof CUIError) {
         throw error;
@@ -778,21 +1081,28 @@ export class ClaudeProcessManager extends EventEmitter {
 
   private buildBaseArgs(): string[] {
     return [
-      // Note: Removed -p flag to allow streaming conversation mode
-      // Using conversation mode instead of print mode for proper JSONL output
+      // Messages, the initial prompt included, are written to stdin as JSONL so that
+      // follow-up messages can be sent while the conversation runs
+      '-p',
+      '--input-format', 'stream-json'
     ];
   }
 
-  private buildResumeArgs(config: { sessionId: string; message: string; permissionMode?: string }): string[] {
+  private resolveMCPConfigPath(workingDirectory?: string): string | undefined {
+    if (this.mcpConfigPath && this.mcpConfigGenerator) {
+      return this.mcpConfigGenerator.getConfigPath(workingDirectory);
+    }
+    return this.mcpConfigPath;
+  }
+
+  private buildResumeArgs(config: { sessionId: string; permissionMode?: string; workingDirectory?: string }): string[] {
     this.logger.debug('Building Claude resume args', { 
-      sessionId: config.sessionId,
-      messagePreview: config.message.substring(0, 50) + (config.message.length > 50 ? '...' : '')
+      sessionId: config.sessionId
     });
     const args = this.buildBaseArgs();
     
     args.push(
       '--resume', config.sessionId, // Resume existing session
-      config.message, // Message to continue with
       '--output-format', 'stream-json', // JSONL output format
       '--verbose' // Required when using stream-json with print mode
     );
@@ -803,8 +1113,9 @@ export class ClaudeProcessManager extends EventEmitter {
     }
 
     // Add MCP config if available for resume
-    if (this.mcpConfigPath) {
-      args.push('--mcp-config', this.mcpConfigPath);
+    const mcpConfigPath = this.resolveMCPConfigPath(config.workingDirectory);
+    if (mcpConfigPath) {
+      args.push('--mcp-config', mcpConfigPath);
       // Add the permission prompt tool flag
       args.push('--permission-prompt-tool', 'mcp__cui-permissions__approval_prompt');
       // Allow the MCP permission tool
@@ -815,26 +1126,32 @@ export class ClaudeProcessManager extends EventEmitter {
     return args;
   }
 
-  private buildStartArgs(config: ConversationConfig): string[] {
+  private buildStartArgs(conversationConfig: ConversationConfig): string[] {
+    // Settings of the agent profile fill in whatever the conversation does not set itself
+    const profile = conversationConfig.agentProfile ? this.getAgentProfile(conversationConfig.agentProfile) : undefined;
+    const config: ConversationConfig = {
+      ...conversationConfig,
+      model: conversationConfig.model ?? profile?.model,
+      allowedTools: conversationConfig.allowedTools ?? profile?.allowedTools,
+      disallowedTools: conversationConfig.disallowedTools ?? profile?.disallowedTools,
+      systemPrompt: conversationConfig.systemPrompt ?? profile?.systemPrompt,
+      permissionMode: conversationConfig.permissionMode ?? profile?.permissionMode
+    };
+
     this.logger.debug('Building Claude start args', {
       hasInitialPrompt: !!config.initialPrompt,
       promptPreview: config.initialPrompt ? config.initialPrompt.substring(0, 50) + (config.initialPrompt.length > 50 ? '...' : '') : null,
       workingDirectory: config.workingDirectory,
-      model: config.model
+      model: config.model,
+      agentProfile: config.agentProfile
     });
     const args = this.buildBaseArgs();
 
-    // In conversation mode, we add the output format first
     args.push(
       '--output-format', 'stream-json', // JSONL output format
       '--verbose' // Required for stream-json format
     );
 
-    // Add initial prompt as a message argument in conversation mode
-    if (config.initialPrompt) {
-      args.push(config.initialPrompt);
-    }
-
     // Add working directory access
     // if (config.workingDirectory) {
     //   args.push('--add-dir', config.workingDirectory);
@@ -866,8 +1183,9 @@ export class ClaudeProcessManager extends EventEmitter {
     }
 
     // Add MCP config if available
-    if (this.mcpConfigPath) {
-      args.push('--mcp-config', this.mcpConfigPath);
+    const mcpConfigPath = this.resolveMCPConfigPath(config.workingDirectory);
+    if (mcpConfigPath) {
+      args.push('--mcp-config', mcpConfigPath);
     }
 
     this.logger.debug('Built Claude args', { args, hasMCPConfig: !!this.mcpConfigPath });
@@ -915,9 +1233,9 @@ export class ClaudeProcessManager extends EventEmitter {
       // Try to read and log the MCP config content
       try {
         const mcpConfigContent = readFileSync(mcpConfigPath, 'utf-8');
-        this.logger.debug('MCP config content', { 
+        this.logger.debug('MCP config content', {
           streamingId,
-          mcpConfig: JSON.parse(mcpConfigContent) 
+          servers: Object.keys(JSON.parse(mcpConfigContent).mcpServers ?? {})
         });
       } catch (error) {
         this.logger.error('Failed to read MCP config', { streamingId, error });
@@ -939,7 +1257,7 @@ export class ClaudeProcessManager extends EventEmitter {
     try {
       this.logger.debug('Configuring spawn parameters', {
         streamingId,
-        stdin: 'inherit',
+        stdin: 'pipe',
         stdout: 'pipe',
         stderr: 'pipe',
         shell: process.platform === 'win32'
@@ -1009,13 +1327,13 @@ export class ClaudeProcessManager extends EventEmitter {
         envKeys: Object.keys(env).slice(0, 10), // Show first 10 env keys
         envCount: Object.keys(env).length,
         needsShell,
-        stdioConfig: { stdin: 'inherit', stdout: 'pipe', stderr: 'pipe' }
+        stdioConfig: { stdin: 'pipe', stdout: 'pipe', stderr: 'pipe' }
       });
 
       const claudeProcess = spawn(finalExecutablePath, args, {
         cwd,
         env,
-        stdio: ['inherit', 'pipe', 'pipe'], // stdin inherited, stdout/stderr piped for capture
+        stdio: ['pipe', 'pipe', 'pipe'], // stdin carries user messages, stdout/stderr piped for capture
         shell: needsShell
       });
       
@@ -1165,7 +1483,7 @@ export class ClaudeProcessManager extends EventEmitter {
             const altProcess = spawn(executablePath, args, {
               cwd,
               env,
-              stdio: ['inherit', 'pipe', 'pipe']
+              stdio: ['pipe', 'pipe', 'pipe']
             });
 
             // Wait a bit for the alternative approach
@@ -1281,6 +1599,11 @@ export class ClaudeProcessManager extends EventEmitter {
       this.logger.warn('No stderr stream available', { streamingId });
     }
 
+    // Writes after the process exited fail with EPIPE, the close handler reports the exit
+    process.stdin?.on('error', (error) => {
+      this.logger.warn('Failed to write to process stdin', { streamingId, error: error.message });
+    });
+
     // Handle process termination
     process.on('close', (code, _signal) => {
       this.handleProcessClose(streamingId, code);
@@ -1306,6 +1629,12 @@ export class ClaudeProcessManager extends EventEmitter {
   }
 
   private handleClaudeMessage(streamingId: string, message: StreamEvent): void {
+    // Acknowledgements of control requests like interrupt are not conversation messages
+    if ((message as { type?: string })?.type === 'control_response') {
+      this.logger.debug('Received control response', { streamingId });
+      return;
+    }
+
     this.logger.debug('Handling Claude message', { 
       streamingId, 
       messageType: message?.type,
@@ -1313,6 +1642,120 @@ export class ClaudeProcessManager extends EventEmitter {
       isResult: message?.type === 'result'
     });
     this.emit('claude-message', { streamingId, message });
+
+    // A result ends the turn, Claude reads the next message or exits once stdin closes
+    if (message?.type === 'result') {
+      this.deliverNextFollowUp(streamingId).catch((error: Error) => {
+        this.logger.error('Failed to deliver follow-up message', error, { streamingId });
+      });
+    }
+
+    // Usage of the message has been recorded by the listeners above
+    if (message?.type === 'assistant' && this.budgetService) {
+      this.enforceBudget(streamingId, message.session_id).catch((error: Error) => {
+        this.logger.error('Failed to check budget', error, { streamingId });
+      });
+    }
+  }
+
+  /**
+   * Refuse to start or resume a conversation when a budget that applies to it is used up
+   */
+  private async assertWithinBudget(context: BudgetContext): Promise<void> {
+    if (!this.budgetService) {
+      return;
+    }
+
+    const exceeded = await this.budgetService.findExceededBudget(context);
+    if (!exceeded) {
+      return;
+    }
+
+    const reason = this.budgetService.describe(exceeded);
+    this.notificationService?.sendBudgetExceededNotification('', context.sessionId || 'unknown', reason)
+      .catch((error: Error) => {
+        this.logger.error('Failed to send budget notification', error);
+      });
+    throw new CUIError('BUDGET_EXCEEDED', reason, 402);
+  }
+
+  /**
+   * Stop a running conversation once it crosses a budget
+   */
+  private async enforceBudget(streamingId: string, sessionId: string): Promise<void> {
+    if (!this.budgetService || this.budgetStops.has(streamingId) || !this.processes.has(streamingId)) {
+      return;
+    }
+
+    // Live usage is recorded as messages arrive, no need to re-read history files
+    const exceeded = await this.budgetService.findExceededBudget(
+      { sessionId, workingDirectory: this.conversationConfigs.get(streamingId)?.workingDirectory },
+      { refresh: false }
+    );
+    if (!exceeded || this.budgetStops.has(streamingId)) {
+      return;
+    }
+
+    const reason = this.budgetService.describe(exceeded);
+    this.logger.warn('Stopping conversation over budget', { streamingId, sessionId, reason });
+    this.budgetStops.add(streamingId);
+    this.emit('budget-exceeded', { streamingId, sessionId, reason });
+    this.notificationService?.sendBudgetExceededNotification(streamingId, sessionId, reason)
+      .catch((error: Error) => {
+        this.logger.error('Failed to send budget notification', error, { streamingId });
+      });
+
+    try {
+      await this.stopConversation(streamingId);
+    } finally {
+      this.budgetStops.delete(streamingId);
+    }
+  }
+
+  private writeUserMessage(streamingId: string, process: ChildProcess, text: string): void {
+    const message = {
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'text', text }] }
+    };
+    this.logger.debug('Writing user message to stdin', { streamingId, messageLength: text.length });
+    process.stdin?.write(JSON.stringify(message) + '\n');
+  }
+
+  private async deliverNextFollowUp(streamingId: string): Promise<void> {
+    const process = this.processes.get(streamingId);
+    if (!process?.stdin || process.stdin.writableEnded) {
+      return;
+    }
+
+    const followUp = this.followUps.get(streamingId)?.shift();
+    if (!followUp) {
+      process.stdin.end();
+      return;
+    }
+
+    const workingDirectory = this.workingDirectories.get(streamingId);
+    if (workingDirectory) {
+      await this.runBeforeTurnHook({ streamingId, workingDirectory, prompt: followUp.message });
+    }
+    // The process may have been stopped while the hook ran
+    if (this.processes.get(streamingId) !== process || !process.stdin || process.stdin.writableEnded) {
+      return;
+    }
+
+    this.writeUserMessage(streamingId, process, followUp.message);
+    this.emit('follow-up-sent', followUp);
+  }
+
+  private async runBeforeTurnHook(turn: Parameters<BeforeTurnHook>[0]): Promise<void> {
+    if (!this.beforeTurnHook) {
+      return;
+    }
+    try {
+      await this.beforeTurnHook(turn);
+    } catch (error) {
+      // The turn goes ahead, the hook only records what the working tree looked like
+      this.logger.warn('Before turn hook failed', { streamingId: turn.streamingId, error: error instanceof Error ? error.message : String(error) });
+    }
   }
 
   private handleProcessClose(streamingId: string, code: number | null): void {
@@ -1326,8 +1769,13 @@ export class ClaudeProcessManager extends EventEmitter {
     
     this.processes.delete(streamingId);
     this.outputBuffers.delete(streamingId);
+    this.followUps.delete(streamingId);
+    this.mcpServerStatus.delete(streamingId);
+    // Only reported once, close and exit both end up here
+    const interrupted = this.interrupts.delete(streamingId);
     const config = this.conversationConfigs.get(streamingId);
     this.conversationConfigs.delete(streamingId);
+    this.workingDirectories.delete(streamingId);
     
     // Send notification if service is available
     if (this.notificationService && config) {
@@ -1350,7 +1798,75 @@ export class ClaudeProcessManager extends EventEmitter {
         });
     }
     
-    this.emit('process-closed', { streamingId, code });
+    this.emit('process-closed', { streamingId, code, interrupted });
+    this.drainQueue();
+  }
+
+  private hasCapacity(): boolean {
+    // Processes that already spawned but whose start call has not returned are counted twice,
+    // which only delays the queue until that call returns and drains it again
+    return this.maxConcurrentProcesses <= 0 ||
+      this.processes.size + this.startingCount < this.maxConcurrentProcesses;
+  }
+
+  /**
+   * Start queued conversations while there are free process slots
+   */
+  private drainQueue(): void {
+    while (this.queue.length > 0 && this.hasCapacity()) {
+      const entry = this.queue.shift()!;
+      this.logger.info('Starting queued conversation', {
+        queueId: entry.id,
+        waitedMs: Date.now() - entry.enqueuedAt.getTime(),
+        remaining: this.queue.length
+      });
+      this.emit('queue-changed');
+
+      this.startConversation(entry.config)
+        .then(async (started) => {
+          this.recordQueueOutcome({ queueId: entry.id, status: 'started', streamingId: started.streamingId, sessionId: started.systemInit.session_id });
+          this.emit('queued-conversation-started', { queueId: entry.id, streamingId: started.streamingId, sessionId: started.systemInit.session_id });
+          await entry.onStart(started);
+        })
+        .catch((error: Error) => {
+          this.logger.error('Failed to start queued conversation', error, { queueId: entry.id });
+          // Errors of onStart arrive here too, the conversation is running then
+          if (!this.queueOutcomes.has(entry.id)) {
+            this.recordQueueOutcome({ queueId: entry.id, status: 'failed', error: error.message });
+            this.dropQueueEntry(entry);
+          }
+          this.emit('queued-conversation-failed', { queueId: entry.id, error: error.message });
+        });
+    }
+  }
+
+  private dropQueueEntry(entry: QueueEntry): void {
+    Promise.resolve()
+      .then(() => entry.onDropped?.())
+      .catch((error: Error) => {
+        this.logger.error('Failed to clean up dropped queued conversation', error, { queueId: entry.id });
+      });
+  }
+
+  private recordQueueOutcome(outcome: QueuedConversationStatus): void {
+    this.queueOutcomes.set(outcome.queueId, outcome);
+    if (this.queueOutcomes.size > MAX_QUEUE_OUTCOMES) {
+      // Maps iterate in insertion order, drop the oldest outcome
+      this.queueOutcomes.delete(this.queueOutcomes.keys().next().value!);
+    }
+  }
+
+  private toQueuedConversation(entry: QueueEntry): QueuedConversation {
+    return {
+      queueId: entry.id,
+      position: this.queue.indexOf(entry) + 1,
+      priority: entry.priority,
+      enqueuedAt: entry.enqueuedAt.toISOString(),
+      workingDirectory: entry.config.workingDirectory,
+      initialPrompt: entry.config.initialPrompt,
+      model: entry.config.model,
+      resumedSessionId: entry.config.resumedSessionId
+    };
   }
 
   private handleProcessError(streamingId: string, error: Error | Buffer): void {
@@ -1,16 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { CUIError, type Command, type CommandScope, type SaveCommandRequest } from '@/types/index.js';
 import { createLogger } from './logger.js';
 
-export interface Command {
-  name: string;
-  type: 'builtin' | 'custom';
-  description?: string;
-}
+type Frontmatter = Record<string, string | string[]>;
 
 const logger = createLogger('CommandsService');
 
+// File and directory names of a command, no leading dot so a name cannot leave the commands directory
+const NAME_SEGMENT_PATTERN = /^[A-Za-z0-9_-][\w.-]*$/;
+
 /**
  * Get hardcoded builtin commands
  */
@@ -25,53 +25,181 @@ export function getBuiltinCommands(): Command[] {
   ];
 }
 
+/**
+ * Split a command file into its frontmatter and body. Supports the subset of YAML
+ * used by command files: scalars, quoted strings and block lists. Inline lists are
+ * kept as text since argument hints like [message] are written that way.
+ */
+export function parseCommandFile(raw: string): { frontmatter: Frontmatter; content: string } {
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)([\s\S]*)$/);
+  if (!match) {
+    return { frontmatter: {}, content: raw };
+  }
+
+  const frontmatter: Frontmatter = {};
+  let listKey: string | undefined;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (frontmatter[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) continue;
+    const [, key, value] = field;
+    listKey = undefined;
+    if (!value.trim()) {
+      frontmatter[key] = [];
+      listKey = key;
+    } else {
+      frontmatter[key] = unquote(value);
+    }
+  }
+
+  return { frontmatter, content: match[2] };
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+function serializeCommandFile(request: SaveCommandRequest): string {
+  const fields: [string, string | undefined][] = [
+    ['description', request.description],
+    ['argument-hint', request.argumentHint],
+    ['allowed-tools', request.allowedTools?.length ? request.allowedTools.join(', ') : undefined],
+    ['model', request.model]
+  ];
+  const lines = fields
+    .filter(([, value]) => value !== undefined && value.trim() !== '')
+    .map(([key, value]) => `${key}: ${JSON.stringify(value!.trim())}`);
+
+  return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n${request.content}` : request.content;
+}
+
+function getCommandsDirectory(scope: CommandScope, workingDirectory?: string): string {
+  if (scope === 'user') {
+    return path.join(os.homedir(), '.claude', 'commands');
+  }
+  if (scope !== 'project') {
+    throw new CUIError('INVALID_COMMAND_SCOPE', "scope must be 'user' or 'project'", 400);
+  }
+  if (!workingDirectory) {
+    throw new CUIError('MISSING_WORKING_DIRECTORY', 'workingDirectory is required for project commands', 400);
+  }
+  // Only existing projects, commands must not create directories elsewhere on disk
+  if (!path.isAbsolute(workingDirectory) || !fs.existsSync(workingDirectory) || !fs.statSync(workingDirectory).isDirectory()) {
+    throw new CUIError('INVALID_WORKING_DIRECTORY', 'workingDirectory must be an existing absolute directory', 400);
+  }
+  return path.join(workingDirectory, '.claude', 'commands');
+}
+
+/**
+ * Split a command name like frontend:component into the subdirectories and file name of its file
+ */
+function getCommandSegments(name: string): string[] {
+  const segments = (typeof name === 'string' ? name.replace(/^\//, '') : '').split(':');
+  if (!segments.every(segment => NAME_SEGMENT_PATTERN.test(segment))) {
+    throw new CUIError('INVALID_COMMAND_NAME', 'Command names may only contain letters, digits, _, - and ., with : separating subdirectories', 400);
+  }
+  return segments;
+}
+
+function getCommandPath(directory: string, segments: string[]): string {
+  return path.join(directory, ...segments.slice(0, -1), `${segments[segments.length - 1]}.md`);
+}
+
+function readCommand(filePath: string, segments: string[], scope: CommandScope): Command {
+  const command: Command = {
+    name: '/' + segments.join(':'),
+    type: 'custom',
+    scope,
+    ...(segments.length > 1 && { namespace: segments.slice(0, -1).join('/') })
+  };
+
+  try {
+    const { frontmatter, content } = parseCommandFile(fs.readFileSync(filePath, 'utf-8'));
+    const text = (key: string) => (typeof frontmatter[key] === 'string' && frontmatter[key] ? frontmatter[key] as string : undefined);
+    const allowedTools = frontmatter['allowed-tools'];
+    const firstLine = content.split('\n').map(line => line.replace(/^#+\s*/, '').trim()).find(Boolean);
+
+    command.description = text('description') ?? firstLine;
+    command.argumentHint = text('argument-hint');
+    command.allowedTools = typeof allowedTools === 'string'
+      ? allowedTools.replace(/^\[(.*)\]$/, '$1').split(',').map(unquote).filter(Boolean)
+      : allowedTools;
+    command.model = text('model');
+    command.content = content;
+  } catch (error) {
+    logger.warn('Failed to read command file', {
+      error: error instanceof Error ? error.message : String(error),
+      path: filePath
+    });
+  }
+
+  return command;
+}
+
+function readCommandsDirectory(directory: string, scope: CommandScope, commands: Map<string, Command>, prefix: string[] = []): void {
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.name.endsWith('.md')) {
+      const segments = [...prefix, entry.name.slice(0, -3)]; // Remove .md extension
+      commands.set('/' + segments.join(':'), readCommand(entryPath, segments, scope));
+    } else if (entry.isDirectory() && !entry.name.startsWith('.')) {
+      // Subdirectories namespace their commands, frontend/component.md is /frontend:component
+      readCommandsDirectory(entryPath, scope, commands, [...prefix, entry.name]);
+    }
+  }
+}
+
 /**
  * Get custom commands from .claude/commands/ directories
  */
 export function getCustomCommands(workingDirectory?: string): Command[] {
   const commands: Map<string, Command> = new Map();
-  
+
   // Always check global directory
   const globalDir = path.join(os.homedir(), '.claude', 'commands');
   try {
     if (fs.existsSync(globalDir)) {
-      const files = fs.readdirSync(globalDir);
-      for (const file of files) {
-        if (file.endsWith('.md')) {
-          const commandName = '/' + file.slice(0, -3); // Remove .md extension
-          commands.set(commandName, { name: commandName, type: 'custom' });
-        }
-      }
+      readCommandsDirectory(globalDir, 'user', commands);
     }
   } catch (error) {
-    logger.warn('Failed to read global commands directory', { 
+    logger.warn('Failed to read global commands directory', {
       error: error instanceof Error ? error.message : String(error),
-      path: globalDir 
+      path: globalDir
     });
   }
-  
+
   // Check local directory if provided
   if (workingDirectory) {
     const localDir = path.join(workingDirectory, '.claude', 'commands');
     try {
       if (fs.existsSync(localDir)) {
-        const files = fs.readdirSync(localDir);
-        for (const file of files) {
-          if (file.endsWith('.md')) {
-            const commandName = '/' + file.slice(0, -3); // Remove .md extension
-            // Local commands override global ones
-            commands.set(commandName, { name: commandName, type: 'custom' });
-          }
-        }
+        // Local commands override global ones
+        readCommandsDirectory(localDir, 'project', commands);
       }
     } catch (error) {
-      logger.warn('Failed to read local commands directory', { 
+      logger.warn('Failed to read local commands directory', {
         error: error instanceof Error ? error.message : String(error),
-        path: localDir 
+        path: localDir
       });
     }
   }
-  
+
   return Array.from(commands.values());
 }
 
@@ -81,7 +209,51 @@ export function getCustomCommands(workingDirectory?: string): Command[] {
 export function getAvailableCommands(workingDirectory?: string): Command[] {
   const builtin = getBuiltinCommands();
   const custom = getCustomCommands(workingDirectory);
-  
+
   // Merge arrays
   return [...builtin, ...custom];
-}
\ No newline at end of file
+}
+
+/**
+ * Write a custom command file. Creates a new command, or replaces and possibly
+ * renames the command called originalName.
+ */
+export function saveCustomCommand(request: SaveCommandRequest, originalName?: string): Command {
+  const directory = getCommandsDirectory(request.scope, request.workingDirectory);
+  const segments = getCommandSegments(request.name);
+  const filePath = getCommandPath(directory, segments);
+  if (typeof request.content !== 'string' || !request.content.trim()) {
+    throw new CUIError('MISSING_COMMAND_CONTENT', 'content is required', 400);
+  }
+
+  const originalPath = originalName !== undefined ? getCommandPath(directory, getCommandSegments(originalName)) : undefined;
+  if (originalPath && !fs.existsSync(originalPath)) {
+    throw new CUIError('COMMAND_NOT_FOUND', `Command /${originalName!.replace(/^\//, '')} not found`, 404);
+  }
+  if (filePath !== originalPath && fs.existsSync(filePath)) {
+    throw new CUIError('COMMAND_EXISTS', `Command /${segments.join(':')} already exists`, 409);
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, serializeCommandFile(request));
+  if (originalPath && originalPath !== filePath) {
+    fs.unlinkSync(originalPath);
+  }
+
+  logger.info('Saved custom command', { path: filePath, scope: request.scope, renamedFrom: originalPath !== filePath ? originalPath : undefined });
+  return readCommand(filePath, segments, request.scope);
+}
+
+/**
+ * Delete a custom command file
+ */
+export function deleteCustomCommand(name: string, scope: CommandScope, workingDirectory?: string): void {
+  const directory = getCommandsDirectory(scope, workingDirectory);
+  const filePath = getCommandPath(directory, getCommandSegments(name));
+  if (!fs.existsSync(filePath)) {
+    throw new CUIError('COMMAND_NOT_FOUND', `Command /${name.replace(/^\//, '')} not found`, 404);
+  }
+
+  fs.unlinkSync(filePath);
+  logger.info('Deleted custom command', { path: filePath, scope });
+}
@@ -2,7 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import crypto from 'crypto';
-import { CUIConfig, DEFAULT_CONFIG, InterfaceConfig, ServerConfig } from '@/types/config.js';
+import { AgentsConfig, BudgetLimit, CUIConfig, DEFAULT_CONFIG, InterfaceConfig, MCPServersConfig, PermissionsConfig, ProcessesConfig, PromptsConfig, ServerConfig, UsageConfig } from '@/types/config.js';
 import { generateMachineId } from '@/utils/machine-id.js';
 import { createLogger, type Logger } from './logger.js';
 import { EventEmitter } from 'events';
@@ -210,13 +210,61 @@ export class ConfigService {
       ? { ...(current.gemini || {}), ...updates.gemini }
       : current.gemini;
 
+    if (updates.permissions) {
+      this.assertPermissionsConfig(updates.permissions);
+    }
+    const mergedPermissions = updates.permissions
+      ? { ...(current.permissions || {}), ...updates.permissions }
+      : current.permissions;
+
+    if (updates.usage) {
+      this.assertUsageConfig(updates.usage);
+    }
+    const mergedUsage = updates.usage
+      ? { ...(current.usage || {}), ...updates.usage }
+      : current.usage;
+
+    if (updates.processes) {
+      this.assertProcessesConfig(updates.processes);
+    }
+    const mergedProcesses = updates.processes
+      ? { ...(current.processes || {}), ...updates.processes }
+      : current.processes;
+
+    if (updates.prompts) {
+      this.assertPromptsConfig(updates.prompts);
+    }
+    const mergedPrompts = updates.prompts
+      ? { ...(current.prompts || {}), ...updates.prompts }
+      : current.prompts;
+
+    if (updates.agents) {
+      this.assertAgentsConfig(updates.agents);
+    }
+    const mergedAgents = updates.agents
+      ? { ...(current.agents || {}), ...updates.agents }
+      : current.agents;
+
+    if (updates.mcp) {
+      this.assertMCPConfig(updates.mcp);
+    }
+    const mergedMCP = updates.mcp
+      ? { ...(current.mcp || {}), ...updates.mcp }
+      : current.mcp;
+
     // Preserve machine_id and authToken regardless of updates
     const newConfig: CUIConfig = {
       ...current,
       server: mergedServer,
       interface: mergedInterface,
       gemini: mergedGemini,
-      router: mergedRouter
+      router: mergedRouter,
+      permissions: mergedPermissions,
+      usage: mergedUsage,
+      processes: mergedProcesses,
+      prompts: mergedPrompts,
+      agents: mergedAgents,
+      mcp: mergedMCP
     };
 
     // Update in-memory config
@@ -259,6 +307,30 @@ export class ConfigService {
     if (partial.router) {
       this.assertRouterConfig(partial.router);
     }
+    // permissions (optional)
+    if (partial.permissions) {
+      this.assertPermissionsConfig(partial.permissions);
+    }
+    // usage (optional)
+    if (partial.usage) {
+      this.assertUsageConfig(partial.usage);
+    }
+    // processes (optional)
+    if (partial.processes) {
+      this.assertProcessesConfig(partial.processes);
+    }
+    // prompts (optional)
+    if (partial.prompts) {
+      this.assertPromptsConfig(partial.prompts);
+    }
+    // agents (optional)
+    if (partial.agents) {
+      this.assertAgentsConfig(partial.agents);
+    }
+    // mcp (optional)
+    if (partial.mcp) {
+      this.assertMCPConfig(partial.mcp);
+    }
     // gemini (optional)
     if (partial.gemini) {
       if (partial.gemini.apiKey !== undefined && typeof partial.gemini.apiKey !== 'string') {
@@ -295,6 +367,24 @@ export class ConfigService {
     if (config.router) {
       this.assertRouterConfig(config.router);
     }
+    if (config.permissions) {
+      this.assertPermissionsConfig(config.permissions);
+    }
+    if (config.usage) {
+      this.assertUsageConfig(config.usage);
+    }
+    if (config.processes) {
+      this.assertProcessesConfig(config.processes);
+    }
+    if (config.prompts) {
+      this.assertPromptsConfig(config.prompts);
+    }
+    if (config.agents) {
+      this.assertAgentsConfig(config.agents);
+    }
+    if (config.mcp) {
+      this.assertMCPConfig(config.mcp);
+    }
   }
 
   private assertServerConfig(server: Partial<ServerConfig>): void {
@@ -354,6 +444,186 @@ export class ConfigService {
     }
   }
 
+  private assertPermissionsConfig(permissions: Partial<PermissionsConfig>): void {
+    if (permissions.rules === undefined) return;
+    if (!Array.isArray(permissions.rules)) {
+      throw new Error('Invalid config: permissions.rules must be an array');
+    }
+    const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+    for (const rule of permissions.rules) {
+      if (!rule || typeof rule.name !== 'string' || !rule.name) {
+        throw new Error('Invalid config: permissions.rules[].name must be a non-empty string');
+      }
+      if (rule.action !== 'allow' && rule.action !== 'deny') {
+        throw new Error(`Invalid config: permissions.rules['${rule.name}'].action must be 'allow' | 'deny'`);
+      }
+      for (const key of ['tools', 'paths', 'commandPrefixes'] as const) {
+        if (rule[key] !== undefined && !isStringArray(rule[key])) {
+          throw new Error(`Invalid config: permissions.rules['${rule.name}'].${key} must be an array of strings`);
+        }
+      }
+      for (const key of ['commandPattern', 'workingDirectory', 'sessionId', 'denyReason'] as const) {
+        if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+          throw new Error(`Invalid config: permissions.rules['${rule.name}'].${key} must be a string`);
+        }
+      }
+      if (rule.commandPattern !== undefined) {
+        try {
+          new RegExp(rule.commandPattern);
+        } catch {
+          throw new Error(`Invalid config: permissions.rules['${rule.name}'].commandPattern is not a valid regular expression`);
+        }
+      }
+    }
+  }
+
+  private assertUsageConfig(usage: Partial<UsageConfig>): void {
+    const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+    if (usage.prices !== undefined) {
+      if (!isObject(usage.prices)) {
+        throw new Error('Invalid config: usage.prices must be an object of model prices');
+      }
+      for (const [model, price] of Object.entries(usage.prices)) {
+        for (const key of ['input', 'output', 'cacheWrite', 'cacheRead'] as const) {
+          if (!price || typeof price[key] !== 'number' || price[key] < 0) {
+            throw new Error(`Invalid config: usage.prices['${model}'].${key} must be a non-negative number`);
+          }
+        }
+      }
+    }
+    if (usage.budgets !== undefined) {
+      if (!isObject(usage.budgets)) {
+        throw new Error('Invalid config: usage.budgets must be an object');
+      }
+      const { session, day, workingDirectories } = usage.budgets;
+      if (workingDirectories !== undefined && !isObject(workingDirectories)) {
+        throw new Error('Invalid config: usage.budgets.workingDirectories must be an object of limits');
+      }
+      const limits: Array<[string, BudgetLimit | undefined]> = [
+        ['session', session],
+        ['day', day],
+        ...Object.entries(workingDirectories ?? {}).map(([dir, limit]): [string, BudgetLimit] => [`workingDirectories['${dir}']`, limit])
+      ];
+      for (const [name, limit] of limits) {
+        if (limit === undefined) continue;
+        if (!isObject(limit)) {
+          throw new Error(`Invalid config: usage.budgets.${name} must be an object`);
+        }
+        for (const key of ['maxCostUsd', 'maxTokens'] as const) {
+          if (limit[key] !== undefined && (typeof limit[key] !== 'number' || limit[key] < 0)) {
+            throw new Error(`Invalid config: usage.budgets.${name}.${key} must be a non-negative number`);
+          }
+        }
+      }
+    }
+  }
+
+  private assertProcessesConfig(processes: Partial<ProcessesConfig>): void {
+    const { maxConcurrent } = processes;
+    if (maxConcurrent !== undefined && (typeof maxConcurrent !== 'number' || !Number.isInteger(maxConcurrent) || maxConcurrent < 0)) {
+      throw new Error('Invalid config: processes.maxConcurrent must be a non-negative integer');
+    }
+    if (processes.autoResumeInterrupted !== undefined && typeof processes.autoResumeInterrupted !== 'boolean') {
+      throw new Error('Invalid config: processes.autoResumeInterrupted must be a boolean');
+    }
+  }
+
+  private assertPromptsConfig(prompts: Partial<PromptsConfig>): void {
+    if (prompts.templates === undefined) return;
+    if (!Array.isArray(prompts.templates)) {
+      throw new Error('Invalid config: prompts.templates must be an array');
+    }
+    for (const template of prompts.templates) {
+      // Slash command names start with a slash, templates share the autocomplete with them
+      if (!template || typeof template.name !== 'string' || !template.name.trim() || template.name.startsWith('/')) {
+        throw new Error('Invalid config: prompts.templates[].name must be a non-empty string not starting with /');
+      }
+      if (typeof template.template !== 'string') {
+        throw new Error(`Invalid config: prompts.templates['${template.name}'].template must be a string`);
+      }
+      for (const key of ['description', 'workingDirectory'] as const) {
+        if (template[key] !== undefined && typeof template[key] !== 'string') {
+          throw new Error(`Invalid config: prompts.templates['${template.name}'].${key} must be a string`);
+        }
+      }
+    }
+  }
+
+  private assertAgentsConfig(agents: Partial<AgentsConfig>): void {
+    if (agents.profiles === undefined) return;
+    if (!Array.isArray(agents.profiles)) {
+      throw new Error('Invalid config: agents.profiles must be an array');
+    }
+    const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+    const names = new Set<string>();
+    for (const profile of agents.profiles) {
+      if (!profile || typeof profile.name !== 'string' || !profile.name) {
+        throw new Error('Invalid config: agents.profiles[].name must be a non-empty string');
+      }
+      if (names.has(profile.name)) {
+        throw new Error(`Invalid config: agents.profiles['${profile.name}'] is defined more than once`);
+      }
+      names.add(profile.name);
+      for (const key of ['allowedTools', 'disallowedTools'] as const) {
+        if (profile[key] !== undefined && !isStringArray(profile[key])) {
+          throw new Error(`Invalid config: agents.profiles['${profile.name}'].${key} must be an array of strings`);
+        }
+      }
+      for (const key of ['description', 'model', 'systemPrompt'] as const) {
+        if (profile[key] !== undefined && typeof profile[key] !== 'string') {
+          throw new Error(`Invalid config: agents.profiles['${profile.name}'].${key} must be a string`);
+        }
+      }
+      if (profile.permissionMode !== undefined && !['acceptEdits', 'bypassPermissions', 'default', 'plan'].includes(profile.permissionMode)) {
+        throw new Error(`Invalid config: agents.profiles['${profile.name}'].permissionMode must be 'acceptEdits' | 'bypassPermissions' | 'default' | 'plan'`);
+      }
+    }
+  }
+
+  private assertMCPConfig(mcp: Partial<MCPServersConfig>): void {
+    if (mcp.servers === undefined) return;
+    if (!Array.isArray(mcp.servers)) {
+      throw new Error('Invalid config: mcp.servers must be an array');
+    }
+    const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+    const isStringRecord = (value: unknown) =>
+      typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'string');
+    const seen = new Set<string>();
+    for (const server of mcp.servers) {
+      // cui-permissions is the server CUI adds itself for permission prompts
+      if (!server || typeof server.name !== 'string' || !server.name || server.name === 'cui-permissions') {
+        throw new Error('Invalid config: mcp.servers[].name must be a non-empty string other than cui-permissions');
+      }
+      if (server.type !== undefined && !['stdio', 'http', 'sse'].includes(server.type)) {
+        throw new Error(`Invalid config: mcp.servers['${server.name}'].type must be 'stdio' | 'http' | 'sse'`);
+      }
+      const isRemote = server.type ? server.type !== 'stdio' : server.url !== undefined;
+      if (isRemote ? (typeof server.url !== 'string' || !server.url) : (typeof server.command !== 'string' || !server.command)) {
+        throw new Error(`Invalid config: mcp.servers['${server.name}'] needs a ${isRemote ? 'url' : 'command'}`);
+      }
+      if (server.args !== undefined && !isStringArray(server.args)) {
+        throw new Error(`Invalid config: mcp.servers['${server.name}'].args must be an array of strings`);
+      }
+      for (const key of ['env', 'headers'] as const) {
+        if (server[key] !== undefined && !isStringRecord(server[key])) {
+          throw new Error(`Invalid config: mcp.servers['${server.name}'].${key} must be an object of strings`);
+        }
+      }
+      if (server.workingDirectory !== undefined && typeof server.workingDirectory !== 'string') {
+        throw new Error(`Invalid config: mcp.servers['${server.name}'].workingDirectory must be a string`);
+      }
+      if (server.enabled !== undefined && typeof server.enabled !== 'boolean') {
+        throw new Error(`Invalid config: mcp.servers['${server.name}'].enabled must be a boolean`);
+      }
+      // The same name may be defined once everywhere and once per working directory
+      const identity = `${server.name}\0${server.workingDirectory ? path.resolve(server.workingDirectory) : ''}`;
+      if (seen.has(identity)) {
+        throw new Error(`Invalid config: mcp.servers['${server.name}'] is defined more than once${server.workingDirectory ? ` for ${server.workingDirectory}` : ''}`);
+      }
+      seen.add(identity);
+    }
+  }
+
   private startWatching(): void {
     // Avoid multiple watchers in tests
     if (this.watcher) return;
@@ -194,6 +194,16 @@ export class ConversationCache {
     }
   }
 
+  /**
+   * Get the cached entries of a file if they are still valid for the given mtime
+   */
+  getFileEntries(filePath: string, currentMtime: number): RawJsonEntry[] | undefined {
+    if (!this.isFileCacheValid(filePath, currentMtime)) {
+      return undefined;
+    }
+    return this.cache!.fileCache.get(filePath)!.entries;
+  }
+
   /**
    * Check if a specific file's cache entry is valid
    */
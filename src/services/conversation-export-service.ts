@@ -0,0 +1,571 @@
+import path from 'path';
+import type Anthropic from '@anthropic-ai/sdk';
+import {
+  CUIError,
+  type ConversationExportBundle,
+  type ConversationExportFormat,
+  type ConversationMessage
+} from '@/types/index.js';
+import { ClaudeHistoryReader } from './claude-history-reader.js';
+import { SessionInfoService } from './session-info-service.js';
+import { createLogger, type Logger } from './logger.js';
+
+export interface ConversationExport {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+interface ExportToolUse {
+  name: string;
+  input: Record<string, unknown>;
+  result: string;
+  isError: boolean;
+}
+
+type ExportBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; toolUse: ExportToolUse };
+
+interface ExportEntry {
+  role: 'user' | 'assistant';
+  timestamp: string;
+  blocks: ExportBlock[];
+}
+
+/**
+ * Format independent rendering of a tool use, following the web UI's ToolLabel and ToolContent
+ */
+interface ToolView {
+  title: string;
+  detail?: string;
+  summary?: string;
+  error?: string;
+  code?: { content: string; language: string };
+  diffs?: string[][];   // Lines prefixed with ' ', '-' or '+'
+  todos?: Array<{ content: string; status: string }>;
+  markdown?: string;
+  input?: string;
+}
+
+interface ExportDocument {
+  title: string;
+  sessionId: string;
+  projectPath: string;
+  model: string;
+  exportedAt: string;
+  entries: ExportEntry[];
+}
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'tsx', '.js': 'javascript', '.jsx': 'jsx', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.json': 'json', '.py': 'python', '.rb': 'ruby', '.go': 'go', '.rs': 'rust', '.java': 'java', '.kt': 'kotlin',
+  '.swift': 'swift', '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.cs': 'csharp', '.php': 'php', '.sh': 'bash',
+  '.yml': 'yaml', '.yaml': 'yaml', '.md': 'markdown', '.html': 'html', '.css': 'css', '.scss': 'scss',
+  '.sql': 'sql', '.toml': 'toml', '.xml': 'xml'
+};
+
+// Edits larger than this are shown as removed and added blocks instead of a line diff
+const MAX_DIFF_CELLS = 1_000_000;
+
+const HTML_STYLES = `
+  body { margin: 0; background: #ffffff; color: #262626; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+  h1 { font-size: 24px; margin: 0 0 8px; }
+  .meta { color: #6b7280; font-size: 13px; margin: 0 0 32px; padding: 0; list-style: none; }
+  .meta code { font-size: 12px; }
+  .message { margin: 0 0 24px; }
+  .role { font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: .04em; color: #6b7280; margin-bottom: 6px; }
+  .user .text { background: #f4f4f5; border-radius: 16px; padding: 10px 14px; }
+  .text { white-space: pre-wrap; word-wrap: break-word; margin: 0 0 8px; }
+  .tool { margin: 8px 0 12px; }
+  .tool-label { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 14px; margin-bottom: 4px; }
+  .tool-label b { font-weight: 600; }
+  details > summary { cursor: pointer; color: #6b7280; font-size: 14px; }
+  pre { margin: 4px 0 0; padding: 12px; border-radius: 12px; background: #0a0a0a; color: #f5f5f5; font: 12px/1.6 ui-monospace, SFMono-Regular, Menlo, monospace; white-space: pre-wrap; word-wrap: break-word; overflow-x: auto; }
+  pre.input { background: #f4f4f5; color: #262626; }
+  .diff { margin: 4px 0 0; border: 1px solid #e5e7eb; border-radius: 12px; overflow: hidden; font: 12px/1.6 ui-monospace, SFMono-Regular, Menlo, monospace; }
+  .diff div { white-space: pre-wrap; word-wrap: break-word; padding: 0 12px; }
+  .diff .add { background: rgba(28, 176, 90, 0.15); color: #137a3e; }
+  .diff .del { background: rgba(220, 53, 34, 0.15); color: #b42318; }
+  .error { color: #dc2626; }
+  .error pre { background: rgba(220, 38, 38, 0.08); color: #dc2626; border: 1px solid #dc2626; }
+  .todos { list-style: none; padding: 12px 16px; margin: 4px 0 0; background: #f4f4f5; border-radius: 12px; }
+  .todos .completed { text-decoration: line-through; color: #6b7280; }
+  .plan { background: #f4f4f5; border-left: 3px solid #6b7280; border-radius: 12px; padding: 12px 16px; white-space: pre-wrap; }
+  @media (prefers-color-scheme: dark) {
+    body { background: #1f2024; color: #f5f5f5; }
+    .user .text, pre.input, .todos, .plan { background: #2b2d33; color: #f5f5f5; }
+    .diff { border-color: #3a3b40; }
+    .diff .add { color: #67b7a4; }
+    .diff .del { color: #fc6a5d; }
+  }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A code fence longer than any backtick run in the content
+function fence(content: string, language = ''): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+// Tool inputs are written by the model, a field may be missing or of another type
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function countLines(content: string): number {
+  return content ? content.split('\n').length : 0;
+}
+
+/**
+ * Line diff of two texts based on their longest common subsequence
+ */
+function diffLines(oldText: string, newText: string): string[] {
+  const oldLines = oldText ? oldText.split('\n') : [];
+  const newLines = newText ? newText.split('\n') : [];
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [...oldLines.map(line => `-${line}`), ...newLines.map(line => `+${line}`)];
+  }
+
+  // common[i][j] is the length of the LCS of oldLines[i..] and newLines[j..]
+  const common = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i][j] = oldLines[i] === newLines[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push(` ${oldLines[i++]}`);
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push(`-${oldLines[i++]}`);
+    } else {
+      lines.push(`+${newLines[j++]}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Exports conversations as Markdown, standalone HTML or a JSON bundle.
+ *
+ * Messages come from the history reader, which already drops local command messages, and tool
+ * uses are rendered the way the web UI renders them. The JSON bundle keeps the raw messages and
+ * session metadata so the conversation can be imported again.
+ */
+export class ConversationExportService {
+  private logger: Logger;
+  private historyReader: ClaudeHistoryReader;
+  private sessionInfoService: SessionInfoService;
+
+  constructor(historyReader: ClaudeHistoryReader, sessionInfoService: SessionInfoService) {
+    this.logger = createLogger('ConversationExportService');
+    this.historyReader = historyReader;
+    this.sessionInfoService = sessionInfoService;
+  }
+
+  async exportConversation(sessionId: string, format: ConversationExportFormat): Promise<ConversationExport> {
+    const messages = await this.historyReader.fetchConversation(sessionId);
+    const metadata = await this.historyReader.getConversationMetadata(sessionId);
+    if (!metadata) {
+      throw new CUIError('CONVERSATION_NOT_FOUND', `Conversation ${sessionId} not found`, 404);
+    }
+    const sessionInfo = await this.sessionInfoService.getSessionInfo(sessionId);
+    const title = sessionInfo.custom_name || metadata.summary || `Conversation ${sessionId}`;
+    const exportedAt = new Date().toISOString();
+
+    this.logger.debug('Exporting conversation', { sessionId, format, messageCount: messages.length });
+
+    if (format === 'json') {
+      const bundle: ConversationExportBundle = {
+        format: 'cui-conversation',
+        version: 1,
+        exportedAt,
+        sessionId,
+        summary: metadata.summary,
+        projectPath: metadata.projectPath,
+        model: metadata.model,
+        sessionInfo,
+        messages
+      };
+      return {
+        filename: `${this.getFileStem(title, sessionId)}.json`,
+        contentType: 'application/json; charset=utf-8',
+        content: JSON.stringify(bundle, null, 2)
+      };
+    }
+
+    const document: ExportDocument = {
+      title,
+      sessionId,
+      projectPath: metadata.projectPath,
+      model: metadata.model,
+      exportedAt,
+      entries: this.buildEntries(messages)
+    };
+
+    if (format === 'html') {
+      return {
+        filename: `${this.getFileStem(title, sessionId)}.html`,
+        contentType: 'text/html; charset=utf-8',
+        content: this.renderHtml(document)
+      };
+    }
+    return {
+      filename: `${this.getFileStem(title, sessionId)}.md`,
+      contentType: 'text/markdown; charset=utf-8',
+      content: this.renderMarkdown(document)
+    };
+  }
+
+  /**
+   * Pair tool uses with their results and drop the user messages that only carry results.
+   * Sidechain messages belong to Task tools and are left out like in the main message list.
+   */
+  private buildEntries(messages: ConversationMessage[]): ExportEntry[] {
+    const results = new Map<string, { result: string; isError: boolean }>();
+    for (const message of messages) {
+      const content = message.message.content;
+      if (message.type !== 'user' || !Array.isArray(content)) continue;
+      for (const block of content) {
+        if (block.type === 'tool_result') {
+          results.set(block.tool_use_id, { result: this.getResultText(block.content), isError: block.is_error === true });
+        }
+      }
+    }
+
+    const entries: ExportEntry[] = [];
+    for (const message of messages) {
+      if (message.isSidechain || (message.type !== 'user' && message.type !== 'assistant')) continue;
+
+      const content = message.message.content;
+      const blocks: ExportBlock[] = [];
+      if (typeof content === 'string') {
+        if (content.trim()) blocks.push({ type: 'text', text: content });
+      } else {
+        for (const block of content) {
+          if (block.type === 'text' && block.text.trim()) {
+            blocks.push({ type: 'text', text: block.text });
+          } else if (block.type === 'tool_use') {
+            const result = results.get(block.id);
+            blocks.push({
+              type: 'tool',
+              toolUse: {
+                name: block.name,
+                input: (block.input || {}) as Record<string, unknown>,
+                result: result?.result ?? '',
+                isError: result?.isError ?? false
+              }
+            });
+          }
+        }
+      }
+
+      if (blocks.length > 0) {
+        entries.push({ role: message.type, timestamp: message.timestamp, blocks });
+      }
+    }
+    return entries;
+  }
+
+  private getResultText(content: Anthropic.ToolResultBlockParam['content']): string {
+    if (typeof content === 'string') return content;
+    if (!Array.isArray(content)) return '';
+    return content
+      .filter((block): block is Anthropic.TextBlockParam => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+  }
+
+  private getToolView(toolUse: ExportToolUse, workingDirectory: string): ToolView {
+    const { name, input, result } = toolUse;
+    const filePath = asText(input.file_path);
+    const language = EXTENSION_LANGUAGES[path.extname(filePath).toLowerCase()] || '';
+    const view = this.getToolLabel(name, input, workingDirectory);
+
+    if (toolUse.isError) {
+      return { ...view, error: result || 'Tool execution failed' };
+    }
+
+    switch (name) {
+      case 'Read': {
+        const content = result
+          .replace(/<system-reminder>[\s\S]*?<\/system-reminder>/g, '')
+          .replace(/^\s*\d+→/gm, '')
+          .trimEnd();
+        const lineCount = countLines(content);
+        return { ...view, summary: `Read ${lineCount} line${lineCount !== 1 ? 's' : ''}`, code: content ? { content, language } : undefined };
+      }
+      case 'Edit':
+      case 'MultiEdit': {
+        const edits: Array<Record<string, unknown>> = name === 'MultiEdit' && Array.isArray(input.edits)
+          ? input.edits.filter(edit => typeof edit === 'object' && edit !== null)
+          : [input];
+        return { ...view, diffs: edits.map(edit => diffLines(asText(edit.old_string), asText(edit.new_string))) };
+      }
+      case 'Write':
+        return { ...view, diffs: [diffLines('', asText(input.content))] };
+      case 'Bash':
+        return { ...view, code: { content: result || '(No content)', language: '' } };
+      case 'Grep':
+      case 'Glob':
+      case 'LS': {
+        const count = countLines(result);
+        const summary = name === 'Grep'
+          ? `Found ${count} line${count !== 1 ? 's' : ''}`
+          : name === 'Glob' ? `Found ${count} file${count !== 1 ? 's' : ''}` : `Listed ${count} path${count !== 1 ? 's' : ''}`;
+        return { ...view, summary, code: result ? { content: result, language: '' } : undefined };
+      }
+      case 'TodoRead':
+      case 'TodoWrite':
+        return { ...view, todos: name === 'TodoWrite' && Array.isArray(input.todos) ? this.toTodos(input.todos) : this.parseTodos(result) };
+      case 'WebSearch':
+      case 'WebFetch':
+        return {
+          ...view,
+          summary: name === 'WebSearch' ? 'Did 1 search' : 'Received content from URL',
+          code: result ? { content: result, language: '' } : undefined
+        };
+      case 'Task':
+        return { ...view, markdown: result || undefined };
+      case 'exit_plan_mode':
+      case 'ExitPlanMode':
+        return { ...view, markdown: asText(input.plan) || result || 'No plan provided' };
+      default:
+        return {
+          ...view,
+          summary: `${name} completed`,
+          code: result ? { content: this.formatJson(result), language: '' } : undefined,
+          input: JSON.stringify(input, null, 2)
+        };
+    }
+  }
+
+  private getToolLabel(name: string, input: Record<string, unknown>, workingDirectory: string): Pick<ToolView, 'title' | 'detail'> {
+    const relative = (filePath: unknown): string => {
+      if (typeof filePath !== 'string' || !filePath) return '';
+      if (workingDirectory && filePath.startsWith(workingDirectory)) {
+        const cleaned = filePath.slice(workingDirectory.length).replace(/^\//, '');
+        return cleaned ? `./${cleaned}` : './';
+      }
+      return filePath;
+    };
+
+    switch (name) {
+      case 'Read': {
+        const offset = typeof input.offset === 'number' ? input.offset : undefined;
+        const limit = typeof input.limit === 'number' ? input.limit : undefined;
+        let range = '';
+        if (offset !== undefined && limit !== undefined) range = `:${offset},${offset + limit}`;
+        else if (offset !== undefined) range = `:${offset}`;
+        else if (limit !== undefined) range = `:0,${limit}`;
+        return { title: 'Read', detail: `${relative(input.file_path)}${range}` };
+      }
+      case 'Edit':
+        return { title: 'Update', detail: relative(input.file_path) };
+      case 'MultiEdit':
+      case 'Write':
+        return { title: name, detail: relative(input.file_path) };
+      case 'Bash':
+        return { title: 'Bash', detail: asText(input.command) };
+      case 'Grep':
+      case 'Glob':
+        return { title: 'Search', detail: `pattern: "${asText(input.pattern)}", path: "${asText(input.path)}"` };
+      case 'LS':
+        return { title: 'List', detail: relative(input.path) };
+      case 'TodoRead':
+        return { title: 'Read Todos' };
+      case 'TodoWrite':
+        return { title: 'Update Todos' };
+      case 'WebSearch':
+        return { title: 'Web Search', detail: `"${asText(input.query)}"` };
+      case 'WebFetch':
+        return { title: 'Fetch', detail: asText(input.url) };
+      case 'Task':
+        return { title: 'Task', detail: asText(input.description) };
+      case 'exit_plan_mode':
+      case 'ExitPlanMode':
+        return { title: 'Plan' };
+      default:
+        return { title: name, detail: this.formatToolInput(input) };
+    }
+  }
+
+  private formatToolInput(input: Record<string, unknown>, maxLength = 50): string {
+    const formatted = Object.entries(input)
+      .map(([key, value]) => {
+        const text = typeof value === 'string'
+          ? `"${value.length > maxLength ? `${value.slice(0, maxLength)}...` : value}"`
+          : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return `${key}: ${text}`;
+      })
+      .join(', ');
+    return formatted.length > maxLength ? `${formatted.slice(0, maxLength)}...` : formatted;
+  }
+
+  private toTodos(items: unknown[]): Array<{ content: string; status: string }> {
+    return items.filter((item): item is { content: string; status: string } => {
+      const todo = item as Record<string, unknown> | null;
+      return typeof todo === 'object' && todo !== null && typeof todo.content === 'string' && typeof todo.status === 'string';
+    });
+  }
+
+  private parseTodos(content: string): Array<{ content: string; status: string }> {
+    try {
+      const parsed: unknown = JSON.parse(content);
+      return Array.isArray(parsed) ? this.toTodos(parsed) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private formatJson(content: string): string {
+    try {
+      return JSON.stringify(JSON.parse(content), null, 2);
+    } catch {
+      return content;
+    }
+  }
+
+  private renderMarkdown(document: ExportDocument): string {
+    const parts: string[] = [
+      `# ${document.title}`,
+      [
+        `- Session: \`${document.sessionId}\``,
+        document.projectPath && `- Project: \`${document.projectPath}\``,
+        document.model && `- Model: ${document.model}`,
+        `- Exported: ${document.exportedAt}`
+      ].filter(Boolean).join('\n')
+    ];
+
+    for (const entry of document.entries) {
+      parts.push(`## ${entry.role === 'user' ? 'User' : 'Assistant'}`);
+      for (const block of entry.blocks) {
+        if (block.type === 'text') {
+          parts.push(block.text.trim());
+          continue;
+        }
+
+        const view = this.getToolView(block.toolUse, document.projectPath);
+        const section = [`**${view.title}**${view.detail !== undefined ? `(${view.detail})` : ''}`];
+        if (view.error) {
+          section.push(`> Error: ${view.error.split('\n')[0].trim()}`, fence(view.error));
+        }
+        if (view.summary) section.push(`*${view.summary}*`);
+        for (const diff of view.diffs || []) section.push(fence(diff.join('\n'), 'diff'));
+        if (view.code) section.push(fence(view.code.content, view.code.language));
+        if (view.todos) {
+          section.push(view.todos.length === 0
+            ? 'No todos found'
+            : view.todos.map(todo => `- [${todo.status === 'completed' ? 'x' : ' '}] ${todo.content}${todo.status === 'in_progress' ? ' *(in progress)*' : ''}`).join('\n'));
+        }
+        if (view.markdown) section.push(view.markdown.trim().split('\n').map(line => `> ${line}`).join('\n'));
+        if (view.input) section.push(`Input:\n\n${fence(view.input, 'json')}`);
+        parts.push(section.join('\n\n'));
+      }
+    }
+
+    return `${parts.join('\n\n')}\n`;
+  }
+
+  private renderHtml(document: ExportDocument): string {
+    const body: string[] = [
+      `<h1>${escapeHtml(document.title)}</h1>`,
+      '<ul class="meta">',
+      `<li>Session: <code>${escapeHtml(document.sessionId)}</code></li>`,
+      document.projectPath ? `<li>Project: <code>${escapeHtml(document.projectPath)}</code></li>` : '',
+      document.model ? `<li>Model: ${escapeHtml(document.model)}</li>` : '',
+      `<li>Exported: ${escapeHtml(document.exportedAt)}</li>`,
+      '</ul>'
+    ];
+
+    for (const entry of document.entries) {
+      body.push(`<section class="message ${entry.role}">`, `<div class="role">${entry.role === 'user' ? 'User' : 'Assistant'}</div>`);
+      for (const block of entry.blocks) {
+        if (block.type === 'text') {
+          body.push(`<div class="text">${escapeHtml(block.text.trim())}</div>`);
+        } else {
+          body.push(this.renderHtmlTool(this.getToolView(block.toolUse, document.projectPath)));
+        }
+      }
+      body.push('</section>');
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(document.title)}</title>`,
+      `<style>${HTML_STYLES}</style>`,
+      '</head>',
+      '<body>',
+      '<main>',
+      ...body.filter(Boolean),
+      '</main>',
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  private renderHtmlTool(view: ToolView): string {
+    const parts = [
+      '<div class="tool">',
+      `<div class="tool-label"><b>${escapeHtml(view.title)}</b>${view.detail !== undefined ? `(${escapeHtml(view.detail)})` : ''}</div>`
+    ];
+    const pre = (content: string, className = '') => `<pre${className ? ` class="${className}"` : ''}>${escapeHtml(content)}</pre>`;
+
+    if (view.error) {
+      parts.push(`<details class="error"><summary>Error: ${escapeHtml(view.error.split('\n')[0].trim())}</summary>${pre(view.error)}</details>`);
+    }
+    for (const diff of view.diffs || []) {
+      const lines = diff.map(line => {
+        const className = line.startsWith('+') ? ' class="add"' : line.startsWith('-') ? ' class="del"' : '';
+        return `<div${className}>${escapeHtml(line) || ' '}</div>`;
+      });
+      parts.push(`<div class="diff">${lines.join('')}</div>`);
+    }
+    if (view.summary) {
+      // Collapsed like the result sections in the web UI
+      const details = [view.code && pre(view.code.content), view.input && pre(`Input:\n${view.input}`, 'input')].filter(Boolean).join('');
+      parts.push(details ? `<details><summary>${escapeHtml(view.summary)}</summary>${details}</details>` : `<div>${escapeHtml(view.summary)}</div>`);
+    } else if (view.code) {
+      parts.push(pre(view.code.content));
+    }
+    if (view.todos) {
+      parts.push(view.todos.length === 0
+        ? '<div>No todos found</div>'
+        : `<ul class="todos">${view.todos.map(todo => {
+          const marker = todo.status === 'completed' ? '&#9745;' : todo.status === 'in_progress' ? '&#9719;' : '&#9744;';
+          return `<li class="${escapeHtml(todo.status)}">${marker} ${escapeHtml(todo.content)}</li>`;
+        }).join('')}</ul>`);
+    }
+    if (view.markdown) {
+      parts.push(`<div class="plan">${escapeHtml(view.markdown.trim())}</div>`);
+    }
+
+    parts.push('</div>');
+    return parts.join('');
+  }
+
+  private getFileStem(title: string, sessionId: string): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60).replace(/-+$/, '');
+    return slug ? `${slug}-${sessionId.slice(0, 8)}` : `conversation-${sessionId}`;
+  }
+}
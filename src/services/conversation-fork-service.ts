@@ -0,0 +1,109 @@
+import type { ConversationForkNode, ConversationSummary, SessionInfo } from '@/types/index.js';
+import { ClaudeHistoryReader } from './claude-history-reader.js';
+import { SessionInfoService } from './session-info-service.js';
+import { createLogger, type Logger } from './logger.js';
+
+/**
+ * Builds the branch tree of forked conversations.
+ *
+ * Every resume creates a new Claude session linked through continuation_session_id,
+ * so a branch is the chain of sessions following those links. A fork starts a new
+ * chain whose first session records the session and message it was forked from.
+ */
+export class ConversationForkService {
+  private logger: Logger;
+  private historyReader: ClaudeHistoryReader;
+  private sessionInfoService: SessionInfoService;
+
+  constructor(historyReader: ClaudeHistoryReader, sessionInfoService: SessionInfoService) {
+    this.logger = createLogger('ConversationForkService');
+    this.historyReader = historyReader;
+    this.sessionInfoService = sessionInfoService;
+  }
+
+  /**
+   * Get the fork tree containing the given session, starting from its root branch
+   */
+  async getForkTree(sessionId: string): Promise<ConversationForkNode> {
+    const sessionInfos = await this.sessionInfoService.getAllSessionInfo();
+    const { conversations } = await this.historyReader.listConversations();
+    const summaries = new Map(conversations.map(conversation => [conversation.sessionId, conversation]));
+
+    const previousSession = new Map<string, string>();
+    const forksBySession = new Map<string, string[]>();
+    for (const [id, info] of Object.entries(sessionInfos)) {
+      if (info.continuation_session_id) {
+        previousSession.set(info.continuation_session_id, id);
+      }
+      if (info.forked_from_session_id) {
+        const forks = forksBySession.get(info.forked_from_session_id) || [];
+        forks.push(id);
+        forksBySession.set(info.forked_from_session_id, forks);
+      }
+    }
+
+    // Climb to the root branch, guarding against cycles in corrupted data
+    let rootHead = this.getBranchHead(sessionId, previousSession);
+    const seen = new Set<string>([rootHead]);
+    let parent = sessionInfos[rootHead]?.forked_from_session_id;
+    while (parent && !seen.has(parent)) {
+      rootHead = this.getBranchHead(parent, previousSession);
+      seen.add(rootHead);
+      parent = sessionInfos[rootHead]?.forked_from_session_id;
+    }
+
+    this.logger.debug('Building fork tree', { sessionId, rootSessionId: rootHead });
+    return this.buildNode(rootHead, sessionInfos, summaries, forksBySession, new Set());
+  }
+
+  private getBranchHead(sessionId: string, previousSession: Map<string, string>): string {
+    let head = sessionId;
+    const visited = new Set<string>([head]);
+    let previous = previousSession.get(head);
+    while (previous && !visited.has(previous)) {
+      visited.add(previous);
+      head = previous;
+      previous = previousSession.get(head);
+    }
+    return head;
+  }
+
+  private buildNode(
+    headSessionId: string,
+    sessionInfos: Record<string, SessionInfo>,
+    summaries: Map<string, ConversationSummary>,
+    forksBySession: Map<string, string[]>,
+    visited: Set<string>
+  ): ConversationForkNode {
+    const sessionIds: string[] = [];
+    let current: string | undefined = headSessionId;
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      sessionIds.push(current);
+      current = sessionInfos[current]?.continuation_session_id || undefined;
+    }
+
+    const headInfo = sessionInfos[headSessionId];
+    const latestSessionId = sessionIds[sessionIds.length - 1];
+    const latestInfo = sessionInfos[latestSessionId];
+    const latestSummary = summaries.get(latestSessionId);
+    const headSummary = summaries.get(headSessionId);
+
+    const children = sessionIds
+      .flatMap(id => forksBySession.get(id) || [])
+      .filter(id => !visited.has(id))
+      .map(id => this.buildNode(id, sessionInfos, summaries, forksBySession, visited))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    return {
+      sessionId: latestSessionId,
+      sessionIds,
+      forkedFromSessionId: headInfo?.forked_from_session_id || undefined,
+      forkedFromMessageUuid: headInfo?.forked_from_message_uuid || undefined,
+      title: latestInfo?.custom_name || latestSummary?.summary || 'Untitled',
+      createdAt: headSummary?.createdAt || headInfo?.created_at || new Date().toISOString(),
+      updatedAt: latestSummary?.updatedAt || latestInfo?.updated_at || new Date().toISOString(),
+      children
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import path from 'path';
+import {
+  CUIError,
+  type ConversationExportBundle,
+  type ConversationImportRequest,
+  type ConversationImportResponse,
+  type ConversationMessage,
+  type SessionInfo
+} from '@/types/index.js';
+import { ClaudeHistoryReader, type RawJsonEntry } from './claude-history-reader.js';
+import { SessionInfoService } from './session-info-service.js';
+import { createLogger, type Logger } from './logger.js';
+
+interface ParsedImport {
+  sessionId: string;
+  projectPath?: string;
+  sessionInfo?: SessionInfo;
+  entries: RawJsonEntry[];
+}
+
+// Session info that still applies on another machine, worktree paths and timestamps are local
+const RESTORED_SESSION_INFO_FIELDS = [
+  'custom_name',
+  'pinned',
+  'archived',
+  'continuation_session_id',
+  'initial_commit_head',
+  'permission_mode',
+  'forked_from_session_id',
+  'forked_from_message_uuid'
+] as const;
+
+/**
+ * Imports conversations from Claude session files or JSON export bundles, e.g. to continue
+ * a session that was started on another machine
+ */
+export class ConversationImportService {
+  private historyReader: ClaudeHistoryReader;
+  private sessionInfoService: SessionInfoService;
+  private logger: Logger;
+
+  constructor(historyReader: ClaudeHistoryReader, sessionInfoService: SessionInfoService) {
+    this.logger = createLogger('ConversationImportService');
+    this.historyReader = historyReader;
+    this.sessionInfoService = sessionInfoService;
+  }
+
+  async importConversation(request: ConversationImportRequest): Promise<ConversationImportResponse> {
+    if (request.projectPath !== undefined && !path.isAbsolute(request.projectPath)) {
+      throw new CUIError('INVALID_PROJECT_PATH', 'projectPath must be an absolute path', 400);
+    }
+
+    const parsed = this.parseContent(request.content);
+    const recordedPath = parsed.projectPath ?? parsed.entries.find(entry => entry.cwd)?.cwd;
+    const projectPath = request.projectPath ?? recordedPath;
+    if (!projectPath) {
+      throw new CUIError('MISSING_PROJECT_PATH', 'The conversation does not record its working directory, projectPath is required', 400);
+    }
+
+    const entries = recordedPath && recordedPath !== projectPath
+      ? parsed.entries.map(entry => ({ ...entry, cwd: this.remapPath(entry.cwd, recordedPath, projectPath) }))
+      : parsed.entries;
+
+    await this.historyReader.writeSession(parsed.sessionId, projectPath, entries, request.overwrite);
+
+    if (parsed.sessionInfo) {
+      const updates: Partial<SessionInfo> = {};
+      for (const field of RESTORED_SESSION_INFO_FIELDS) {
+        if (parsed.sessionInfo[field] !== undefined) {
+          Object.assign(updates, { [field]: parsed.sessionInfo[field] });
+        }
+      }
+      await this.sessionInfoService.updateSessionInfo(parsed.sessionId, updates);
+    }
+
+    const messageCount = entries.filter(entry => entry.type === 'user' || entry.type === 'assistant').length;
+    this.logger.info('Imported conversation', {
+      sessionId: parsed.sessionId,
+      projectPath,
+      recordedPath,
+      messageCount,
+      restoredSessionInfo: !!parsed.sessionInfo
+    });
+
+    return { sessionId: parsed.sessionId, projectPath, messageCount };
+  }
+
+  private parseContent(content: string): ParsedImport {
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new CUIError('INVALID_IMPORT', 'content must be a session JSONL file or a JSON export', 400);
+    }
+
+    // A bundle is a single (usually pretty printed) JSON document, a session file has one entry per line
+    let document: unknown;
+    try {
+      document = JSON.parse(content);
+    } catch {
+      document = undefined;
+    }
+    if (document && typeof document === 'object' && (document as ConversationExportBundle).format === 'cui-conversation') {
+      return this.parseBundle(document as ConversationExportBundle);
+    }
+
+    const entries: RawJsonEntry[] = [];
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line) as RawJsonEntry);
+      } catch {
+        throw new CUIError('INVALID_IMPORT', `Line ${index + 1} is not valid JSON`, 400);
+      }
+    });
+
+    // Session files may also contain entries of the sessions they were continued from,
+    // the file is named after the last one
+    const sessionId = [...entries].reverse().find(entry => entry.sessionId)?.sessionId;
+    if (!sessionId) {
+      throw new CUIError('INVALID_IMPORT', 'The session file does not contain any messages', 400);
+    }
+    this.validateSessionId(sessionId);
+
+    return { sessionId, entries };
+  }
+
+  private parseBundle(bundle: ConversationExportBundle): ParsedImport {
+    if (bundle.version !== 1) {
+      throw new CUIError('UNSUPPORTED_IMPORT_VERSION', `Export version ${bundle.version} is not supported`, 400);
+    }
+    if (typeof bundle.sessionId !== 'string' || !Array.isArray(bundle.messages)) {
+      throw new CUIError('INVALID_IMPORT', 'The export is missing its session ID or messages', 400);
+    }
+    this.validateSessionId(bundle.sessionId);
+
+    const entries = bundle.messages.map(message => this.toRawEntry(message, bundle.sessionId));
+    const lastMessage = bundle.messages[bundle.messages.length - 1];
+    if (bundle.summary && lastMessage) {
+      entries.push({ type: 'summary', summary: bundle.summary, leafUuid: lastMessage.uuid });
+    }
+
+    return {
+      sessionId: bundle.sessionId,
+      projectPath: bundle.projectPath || undefined,
+      sessionInfo: bundle.sessionInfo,
+      entries
+    };
+  }
+
+  private toRawEntry(message: ConversationMessage, sessionId: string): RawJsonEntry {
+    return {
+      type: message.type,
+      uuid: message.uuid,
+      parentUuid: message.parentUuid,
+      sessionId,
+      timestamp: message.timestamp,
+      message: message.message,
+      cwd: message.cwd,
+      isSidechain: message.isSidechain,
+      userType: message.userType,
+      version: message.version,
+      durationMs: message.durationMs
+    };
+  }
+
+  private remapPath(cwd: string | undefined, from: string, to: string): string | undefined {
+    if (cwd === from) return to;
+    if (cwd?.startsWith(from + '/')) return to + cwd.slice(from.length);
+    return cwd;
+  }
+
+  private validateSessionId(sessionId: string): void {
+    // The session ID becomes the file name
+    if (!/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+      throw new CUIError('INVALID_IMPORT', `Invalid session ID ${sessionId}`, 400);
+    }
+  }
+}
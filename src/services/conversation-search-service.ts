@@ -0,0 +1,380 @@
+import Database from 'better-sqlite3';
+import type {
+  ConversationSearchMatch,
+  ConversationSearchMatchKind,
+  ConversationSearchQuery,
+  ConversationSearchResult,
+  ConversationSummary,
+  SearchSnippetSegment
+} from '@/types/index.js';
+import { ClaudeHistoryReader, type RawJsonEntry } from './claude-history-reader.js';
+import { SessionInfoService } from './session-info-service.js';
+import { createLogger, type Logger } from './logger.js';
+
+type SearchDocument = {
+  session_id: string;
+  message_uuid: string;
+  kind: ConversationSearchMatchKind;
+  role: 'user' | 'assistant';
+  tool_name: string;
+  timestamp: string;
+  content: string;
+};
+
+type MatchRow = {
+  session_id: string;
+  message_uuid: string;
+  kind: ConversationSearchMatchKind;
+  role: 'user' | 'assistant';
+  tool_name: string;
+  timestamp: string;
+  snippet: string;
+};
+
+// Tool outputs can be huge (file reads, logs), only their beginning is indexed
+const MAX_INDEXED_TEXT_LENGTH = 20000;
+const MATCHES_PER_RESULT = 3;
+const MAX_MATCHING_ROWS = 5000;
+
+// Control characters mark highlights in FTS snippets, they never occur in indexed text
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * ConversationSearchService maintains a full-text index over message text, tool inputs
+ * and tool outputs of all conversations. The index is an FTS5 table in the session info
+ * database and is refreshed incrementally: only JSONL files whose modification time
+ * changed since they were last indexed are re-read.
+ */
+export class ConversationSearchService {
+  private logger: Logger;
+  private sessionInfoService: SessionInfoService;
+  private historyReader: ClaudeHistoryReader;
+  private isInitialized = false;
+  private db!: Database.Database;
+  private refreshPromise: Promise<void> | null = null;
+
+  constructor(sessionInfoService: SessionInfoService, historyReader: ClaudeHistoryReader) {
+    this.logger = createLogger('ConversationSearchService');
+    this.sessionInfoService = sessionInfoService;
+    this.historyReader = historyReader;
+  }
+
+  /**
+   * Create the index tables. Must run after SessionInfoService.initialize()
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.db = this.sessionInfoService.getDatabase();
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS conversation_search_files (
+          file_path TEXT PRIMARY KEY,
+          mtime REAL NOT NULL
+        );
+        CREATE VIRTUAL TABLE IF NOT EXISTS conversation_search USING fts5(
+          content,
+          session_id UNINDEXED,
+          message_uuid UNINDEXED,
+          kind UNINDEXED,
+          role UNINDEXED,
+          tool_name UNINDEXED,
+          timestamp UNINDEXED,
+          file_path UNINDEXED,
+          tokenize = 'porter unicode61'
+        );
+      `);
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize conversation search index', error);
+      throw new Error(`Conversation search initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Bring the index up to date with the JSONL files on disk
+   */
+  async refresh(): Promise<void> {
+    if (!this.isInitialized) {
+      return;
+    }
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    this.refreshPromise = this.executeRefresh();
+    try {
+      await this.refreshPromise;
+    } finally {
+      this.refreshPromise = null;
+    }
+  }
+
+  /**
+   * Search the index, returning matching sessions ordered by relevance
+   */
+  async search(query: ConversationSearchQuery): Promise<{ results: ConversationSearchResult[]; total: number }> {
+    if (!this.isInitialized) {
+      return { results: [], total: 0 };
+    }
+
+    const matchExpression = this.toMatchExpression(query.q);
+    if (!matchExpression) {
+      return { results: [], total: 0 };
+    }
+
+    await this.refresh();
+
+    const rows = this.db.prepare(`
+      SELECT session_id FROM conversation_search
+      WHERE conversation_search MATCH @match
+      ORDER BY rank
+      LIMIT @limit
+    `).all({ match: matchExpression, limit: MAX_MATCHING_ROWS }) as Array<{ session_id: string }>;
+
+    // Sessions ordered by their best match, with the number of matching messages
+    const matchCounts = new Map<string, number>();
+    for (const row of rows) {
+      matchCounts.set(row.session_id, (matchCounts.get(row.session_id) || 0) + 1);
+    }
+
+    const { conversations } = await this.historyReader.listConversations();
+    const summaries = new Map<string, ConversationSummary>(
+      conversations.map(conversation => [conversation.sessionId, conversation])
+    );
+
+    let sessionIds = Array.from(matchCounts.keys()).filter(sessionId => {
+      const summary = summaries.get(sessionId);
+      if (!summary) {
+        return false;
+      }
+      if (query.projectPath && summary.projectPath !== query.projectPath) {
+        return false;
+      }
+      // A resumed session repeats the history of the one it continues, keep only the latest
+      const continuation = summary.sessionInfo.continuation_session_id;
+      return !continuation || !matchCounts.has(continuation);
+    });
+
+    const total = sessionIds.length;
+    const offset = query.offset ?? 0;
+    sessionIds = sessionIds.slice(offset, offset + (query.limit ?? 20));
+
+    const matchStmt = this.db.prepare(`
+      SELECT
+        session_id,
+        message_uuid,
+        kind,
+        role,
+        tool_name,
+        timestamp,
+        snippet(conversation_search, 0, @highlightStart, @highlightEnd, '…', 24) AS snippet
+      FROM conversation_search
+      WHERE conversation_search MATCH @match AND session_id = @sessionId
+      ORDER BY rank
+      LIMIT @limit
+    `);
+
+    const results = sessionIds.map(sessionId => {
+      const summary = summaries.get(sessionId)!;
+      const matchRows = matchStmt.all({
+        match: matchExpression,
+        sessionId,
+        highlightStart: HIGHLIGHT_START,
+        highlightEnd: HIGHLIGHT_END,
+        limit: MATCHES_PER_RESULT
+      }) as MatchRow[];
+
+      return {
+        sessionId,
+        projectPath: summary.projectPath,
+        summary: summary.summary,
+        customName: summary.sessionInfo.custom_name,
+        updatedAt: summary.updatedAt,
+        matchCount: matchCounts.get(sessionId) || 0,
+        matches: matchRows.map(row => this.mapMatch(row))
+      };
+    });
+
+    this.logger.debug('Conversation search completed', {
+      query: query.q,
+      matchingRows: rows.length,
+      total,
+      returned: results.length
+    });
+
+    return { results, total };
+  }
+
+  private async executeRefresh(): Promise<void> {
+    const startTime = Date.now();
+    const indexedRows = this.db.prepare('SELECT file_path, mtime FROM conversation_search_files').all() as Array<{ file_path: string; mtime: number }>;
+    const indexedModTimes = new Map(indexedRows.map(row => [row.file_path, row.mtime]));
+
+    const { changed, removed } = await this.historyReader.getChangedFiles(indexedModTimes);
+    if (changed.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    const deleteDocuments = this.db.prepare('DELETE FROM conversation_search WHERE file_path = ?');
+    const deleteFile = this.db.prepare('DELETE FROM conversation_search_files WHERE file_path = ?');
+    const insertDocument = this.db.prepare(`
+      INSERT INTO conversation_search (content, session_id, message_uuid, kind, role, tool_name, timestamp, file_path)
+      VALUES (@content, @session_id, @message_uuid, @kind, @role, @tool_name, @timestamp, @file_path)
+    `);
+    const upsertFile = this.db.prepare(`
+      INSERT INTO conversation_search_files (file_path, mtime) VALUES (@file_path, @mtime)
+      ON CONFLICT(file_path) DO UPDATE SET mtime = excluded.mtime
+    `);
+
+    let documentCount = 0;
+    const update = this.db.transaction(() => {
+      for (const filePath of removed) {
+        deleteDocuments.run(filePath);
+        deleteFile.run(filePath);
+      }
+      for (const file of changed) {
+        deleteDocuments.run(file.filePath);
+        for (const document of this.extractDocuments(file.entries)) {
+          insertDocument.run({ ...document, file_path: file.filePath });
+          documentCount++;
+        }
+        upsertFile.run({ file_path: file.filePath, mtime: file.mtime });
+      }
+    });
+    update();
+
+    this.logger.debug('Conversation search index refreshed', {
+      changedFiles: changed.length,
+      removedFiles: removed.length,
+      documentCount,
+      elapsedMs: Date.now() - startTime
+    });
+  }
+
+  /**
+   * Turn the entries of a JSONL file into index documents
+   */
+  private extractDocuments(entries: RawJsonEntry[]): SearchDocument[] {
+    const documents: SearchDocument[] = [];
+    const toolNames = new Map<string, string>();
+
+    for (const entry of entries) {
+      if ((entry.type !== 'user' && entry.type !== 'assistant') || !entry.sessionId || !entry.uuid || !entry.message) {
+        continue;
+      }
+
+      const base = {
+        session_id: entry.sessionId,
+        message_uuid: entry.uuid,
+        role: entry.type as 'user' | 'assistant',
+        timestamp: entry.timestamp || ''
+      };
+      const push = (kind: ConversationSearchMatchKind, content: string, toolName = '') => {
+        const text = content.split(HIGHLIGHT_START).join('').split(HIGHLIGHT_END).join('').trim();
+        if (text) {
+          documents.push({ ...base, kind, tool_name: toolName, content: text.substring(0, MAX_INDEXED_TEXT_LENGTH) });
+        }
+      };
+
+      const content = entry.message.content;
+      if (typeof content === 'string') {
+        push('message', content);
+        continue;
+      }
+      if (!Array.isArray(content)) {
+        continue;
+      }
+
+      for (const block of content) {
+        if (block.type === 'text') {
+          push('message', block.text);
+        } else if (block.type === 'tool_use') {
+          toolNames.set(block.id, block.name);
+          push('tool_input', this.stringifyToolInput(block.input), block.name);
+        } else if (block.type === 'tool_result') {
+          push('tool_output', this.stringifyToolResult(block.content), toolNames.get(block.tool_use_id));
+        }
+      }
+    }
+
+    return documents;
+  }
+
+  private stringifyToolInput(input: unknown): string {
+    if (input && typeof input === 'object') {
+      // Index values only, keys like "file_path" would match every tool call
+      return Object.values(input as Record<string, unknown>)
+        .map(value => typeof value === 'string' ? value : JSON.stringify(value))
+        .join('\n');
+    }
+    return String(input ?? '');
+  }
+
+  private stringifyToolResult(content: unknown): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (Array.isArray(content)) {
+      return content
+        .map(block => (block && typeof block === 'object' && 'text' in block ? String(block.text) : ''))
+        .join('\n');
+    }
+    return '';
+  }
+
+  /**
+   * Build an FTS5 query that matches all words of the user input. Every word is quoted
+   * so that FTS syntax characters in the input are searched for literally, and the last
+   * word matches as a prefix while the user is still typing.
+   */
+  private toMatchExpression(input: string): string {
+    const terms = input
+      .split(/\s+/)
+      .filter(term => term.length > 0);
+    if (terms.length === 0) {
+      return '';
+    }
+    return terms
+      .map((term, index) => {
+        const quoted = `"${term.replace(/"/g, '""')}"`;
+        return index === terms.length - 1 ? `${quoted}*` : quoted;
+      })
+      .join(' ');
+  }
+
+  private mapMatch(row: MatchRow): ConversationSearchMatch {
+    return {
+      messageUuid: row.message_uuid,
+      kind: row.kind,
+      role: row.role,
+      toolName: row.tool_name || undefined,
+      timestamp: row.timestamp,
+      snippet: parseSnippet(row.snippet)
+    };
+  }
+}
+
+function parseSnippet(snippet: string): SearchSnippetSegment[] {
+  const segments: SearchSnippetSegment[] = [];
+  let position = 0;
+
+  while (position < snippet.length) {
+    const start = snippet.indexOf(HIGHLIGHT_START, position);
+    const end = start === -1 ? -1 : snippet.indexOf(HIGHLIGHT_END, start);
+    if (start === -1 || end === -1) {
+      segments.push({ text: snippet.substring(position), highlight: false });
+      break;
+    }
+    if (start > position) {
+      segments.push({ text: snippet.substring(position, start), highlight: false });
+    }
+    segments.push({ text: snippet.substring(start + 1, end), highlight: true });
+    position = end + 1;
+  }
+
+  return segments;
+}
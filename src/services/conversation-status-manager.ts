@@ -238,7 +238,11 @@ export class ConversationStatusManager extends EventEmitter {
               archived: false,
               continuation_session_id: '',
               initial_commit_head: '',
-              permission_mode: 'default'
+              permission_mode: 'default',
+              forked_from_session_id: '',
+              forked_from_message_uuid: '',
+              worktree_path: '',
+              worktree_branch: ''
             },
             createdAt: context.timestamp,
             updatedAt: context.timestamp,
@@ -1,32 +1,42 @@
 import { writeFileSync, mkdirSync, unlinkSync, existsSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { tmpdir } from 'os';
 import { v4 as uuidv4 } from 'uuid';
 import { fileURLToPath } from 'url';
 import { createLogger, type Logger } from '@/services/logger.js';
 import { FileSystemService } from '@/services/file-system-service.js';
+import type { MCPServerDefinition } from '@/types/config.js';
 
 // Get the directory of this module
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+export interface MCPServerConfig {
+  type?: 'stdio' | 'http' | 'sse';
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+}
+
 export interface MCPConfig {
   mcpServers: {
-    [key: string]: {
-      command: string;
-      args: string[];
-      env?: Record<string, string>;
-    };
+    [key: string]: MCPServerConfig;
   };
 }
 
 /**
- * Generates and writes MCP configuration file
+ * Generates and writes MCP configuration files: the permission server merged with the
+ * user's MCP servers, with a file of its own for every working directory that has servers
  */
 export class MCPConfigGenerator {
   private configPath: string;
   private fileSystemService?: FileSystemService;
   private logger: Logger;
+  private permissionServer?: MCPServerConfig;
+  private userServers: MCPServerDefinition[] = [];
+  private directoryConfigPaths: Map<string, string> = new Map();
 
   constructor(fileSystemService?: FileSystemService) {
     this.logger = createLogger('MCPConfigGenerator');
@@ -82,56 +92,121 @@ export class MCPConfigGenerator {
       this.logger.debug('MCP server file and Node.js validated successfully', { mcpServerPath });
     }
     
-    const config: MCPConfig = {
-      mcpServers: {
-        'cui-permissions': {
-          command: 'node',
-          args: [mcpServerPath],
-          env: {
-            CUI_SERVER_URL: `http://localhost:${port}`,
-            CUI_SERVER_PORT: String(port),
-            LOG_LEVEL: process.env.LOG_LEVEL || 'info'
-          }
-        }
+    this.permissionServer = {
+      command: 'node',
+      args: [mcpServerPath],
+      env: {
+        CUI_SERVER_URL: `http://localhost:${port}`,
+        CUI_SERVER_PORT: String(port),
+        LOG_LEVEL: process.env.LOG_LEVEL || 'info'
       }
     };
 
     // Ensure directory exists
     mkdirSync(dirname(this.configPath), { recursive: true });
 
-    // Write config file
-    writeFileSync(this.configPath, JSON.stringify(config, null, 2));
+    const config = this.writeConfig(this.configPath);
     
     this.logger.info('MCP config file generated', {
       path: this.configPath,
       port,
-      mcpServerPath
+      mcpServerPath,
+      userServerCount: Object.keys(config.mcpServers).length - 1
     });
 
-    this.logger.debug('MCP config file', { config });
+    // env and headers hold API keys, log only which servers were written
+    this.logger.debug('MCP config file', { servers: Object.keys(config.mcpServers) });
 
     return this.configPath;
   }
 
   /**
-   * Get the path to the generated config file
+   * Replace the user's MCP servers. The shared config is rewritten right away,
+   * configs of working directories when their next conversation starts.
    */
-  getConfigPath(): string {
-    return this.configPath;
+  setUserServers(servers: MCPServerDefinition[]): void {
+    this.userServers = servers;
+    if (this.permissionServer) {
+      this.writeConfig(this.configPath);
+      this.logger.debug('MCP config file updated with user servers', { serverCount: servers.length });
+    }
+  }
+
+  /**
+   * Get the path to the config for conversations in a working directory,
+   * the shared config unless servers are registered for the directory
+   */
+  getConfigPath(workingDirectory?: string): string {
+    if (!workingDirectory || !this.permissionServer) {
+      return this.configPath;
+    }
+
+    const directory = resolve(workingDirectory);
+    if (!this.userServers.some(server => server.workingDirectory && resolve(server.workingDirectory) === directory)) {
+      return this.configPath;
+    }
+
+    let directoryConfigPath = this.directoryConfigPaths.get(directory);
+    if (!directoryConfigPath) {
+      directoryConfigPath = this.configPath.replace(/\.json$/, `-${this.directoryConfigPaths.size + 1}.json`);
+      this.directoryConfigPaths.set(directory, directoryConfigPath);
+    }
+    this.writeConfig(directoryConfigPath, directory);
+    return directoryConfigPath;
+  }
+
+  private writeConfig(configPath: string, workingDirectory?: string): MCPConfig {
+    const config: MCPConfig = { mcpServers: {} };
+    const enabled = this.userServers.filter(server => server.enabled !== false);
+
+    // Servers of the working directory replace global servers with the same name
+    for (const server of enabled.filter(server => !server.workingDirectory)) {
+      config.mcpServers[server.name] = this.toServerConfig(server);
+    }
+    if (workingDirectory) {
+      for (const server of enabled.filter(server => server.workingDirectory && resolve(server.workingDirectory) === workingDirectory)) {
+        config.mcpServers[server.name] = this.toServerConfig(server);
+      }
+    }
+    if (this.permissionServer) {
+      config.mcpServers['cui-permissions'] = this.permissionServer;
+    }
+
+    // Readable by the current user only, the file holds the secrets of the user's servers
+    writeFileSync(configPath, JSON.stringify(config, null, 2), { mode: 0o600 });
+    return config;
+  }
+
+  private toServerConfig(server: MCPServerDefinition): MCPServerConfig {
+    if (server.type === 'http' || server.type === 'sse' || (!server.type && server.url)) {
+      return {
+        type: server.type ?? 'http',
+        url: server.url,
+        ...(server.headers && { headers: server.headers })
+      };
+    }
+    return {
+      command: server.command,
+      args: server.args ?? [],
+      ...(server.env && { env: server.env })
+    };
   }
 
   /**
    * Clean up the config file (for shutdown)
    */
   cleanup(): void {
-    try {
-      unlinkSync(this.configPath);
-      this.logger.debug('MCP config file cleaned up', { path: this.configPath });
-    } catch (error) {
-      this.logger.warn('Failed to clean up MCP config file', {
-        path: this.configPath,
-        error: error instanceof Error ? error.message : String(error)
-      });
+    for (const configPath of [this.configPath, ...this.directoryConfigPaths.values()]) {
+      try {
+        unlinkSync(configPath);
+        this.logger.debug('MCP config file cleaned up', { path: configPath });
+      } catch (error) {
+        this.logger.warn('Failed to clean up MCP config file', {
+          path: configPath,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
     }
+    this.directoryConfigPaths.clear();
   }
 }
\ No newline at end of file
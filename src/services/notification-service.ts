@@ -1,4 +1,4 @@
-import { PermissionRequest } from '@/types/index.js';
+import { PermissionRequest, ScheduledJobRun } from '@/types/index.js';
 import { createLogger, type Logger } from './logger.js';
 import { ConfigService } from './config-service.js';
 import { WebPushService } from './web-push-service.js';
@@ -187,6 +187,128 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send a notification when a budget stops a conversation or prevents one from starting
+   */
+  async sendBudgetExceededNotification(
+    streamingId: string,
+    sessionId: string,
+    reason: string
+  ): Promise<void> {
+    if (!(await this.isEnabled())) {
+      this.logger.debug('Notifications disabled, skipping budget notification');
+      return;
+    }
+
+    try {
+      const machineId = this.getMachineId();
+      const topic = `cui-${machineId}`;
+      const ntfyUrl = await this.getNtfyUrl();
+
+      const notification: Notification = {
+        title: 'Budget Exceeded',
+        message: reason,
+        priority: 'high',
+        tags: ['cui-budget'],
+        sessionId,
+        streamingId
+      };
+
+      // Send via ntfy
+      await this.sendNotification(ntfyUrl, topic, notification);
+
+      // Also broadcast via native web push (best-effort)
+      try {
+        await this.webPushService.initialize();
+        if (this.webPushService.getEnabled()) {
+          await this.webPushService.broadcast({
+            title: notification.title,
+            message: notification.message,
+            tag: notification.tags[0],
+            data: {
+              sessionId: notification.sessionId,
+              streamingId: notification.streamingId,
+              type: 'budget-exceeded',
+            },
+          });
+        }
+      } catch (err) {
+        this.logger.debug('Web push broadcast failed (non-fatal)', { error: (err as Error)?.message });
+      }
+
+      this.logger.info('Budget notification sent', {
+        sessionId,
+        streamingId,
+        topic
+      });
+    } catch (error) {
+      this.logger.error('Failed to send budget notification', error, {
+        sessionId,
+        streamingId
+      });
+    }
+  }
+
+  /**
+   * Send a notification when a scheduled run succeeded or failed for good
+   */
+  async sendScheduledRunNotification(jobName: string, run: ScheduledJobRun): Promise<void> {
+    if (!(await this.isEnabled())) {
+      this.logger.debug('Notifications disabled, skipping scheduled run notification');
+      return;
+    }
+
+    try {
+      const machineId = this.getMachineId();
+      const topic = `cui-${machineId}`;
+      const ntfyUrl = await this.getNtfyUrl();
+      const succeeded = run.status === 'succeeded';
+
+      const notification: Notification = {
+        title: succeeded ? 'Scheduled Run Finished' : 'Scheduled Run Failed',
+        message: succeeded ? jobName : `${jobName}: ${run.error || 'Run failed'}`,
+        priority: succeeded ? 'default' : 'high',
+        tags: ['cui-scheduled'],
+        sessionId: run.sessionId || 'unknown',
+        streamingId: run.streamingId || 'unknown'
+      };
+
+      // Send via ntfy
+      await this.sendNotification(ntfyUrl, topic, notification);
+
+      // Also broadcast via native web push (best-effort)
+      try {
+        await this.webPushService.initialize();
+        if (this.webPushService.getEnabled()) {
+          await this.webPushService.broadcast({
+            title: notification.title,
+            message: notification.message,
+            tag: notification.tags[0],
+            data: {
+              sessionId: notification.sessionId,
+              streamingId: notification.streamingId,
+              type: 'scheduled-run',
+            },
+          });
+        }
+      } catch (err) {
+        this.logger.debug('Web push broadcast failed (non-fatal)', { error: (err as Error)?.message });
+      }
+
+      this.logger.info('Scheduled run notification sent', {
+        jobId: run.jobId,
+        runId: run.id,
+        status: run.status,
+        topic
+      });
+    } catch (error) {
+      this.logger.error('Failed to send scheduled run notification', error, {
+        jobId: run.jobId,
+        runId: run.id
+      });
+    }
+  }
+
   /**
    * Send a notification to ntfy
    */
@@ -0,0 +1,281 @@
+import Database from 'better-sqlite3';
+import type {
+  PermissionAuditEntry,
+  PermissionHistoryQuery,
+  PermissionRequest
+} from '@/types/index.js';
+import { SessionInfoService } from './session-info-service.js';
+import { createLogger } from './logger.js';
+import { type Logger } from './logger.js';
+
+type AuditRow = {
+  id: string;
+  streaming_id: string;
+  session_id: string;
+  tool_name: string;
+  tool_input: string;
+  modified_input: string | null;
+  status: 'approved' | 'denied';
+  deny_reason: string | null;
+  decided_by: string;
+  requested_at: string;
+  decided_at: string;
+  latency_ms: number;
+};
+
+const CSV_COLUMNS: Array<keyof AuditRow> = [
+  'id',
+  'decided_at',
+  'requested_at',
+  'latency_ms',
+  'session_id',
+  'streaming_id',
+  'tool_name',
+  'status',
+  'decided_by',
+  'deny_reason',
+  'tool_input',
+  'modified_input'
+];
+
+/**
+ * PermissionAuditService keeps a durable record of every permission decision.
+ * Entries live in the permission_audit table of the session info database so
+ * they survive restarts and the cleanup of in-memory permission requests.
+ */
+export class PermissionAuditService {
+  private logger: Logger;
+  private sessionInfoService: SessionInfoService;
+  private isInitialized = false;
+  private db!: Database.Database;
+
+  private insertStmt!: Database.Statement;
+
+  constructor(sessionInfoService: SessionInfoService) {
+    this.logger = createLogger('PermissionAuditService');
+    this.sessionInfoService = sessionInfoService;
+  }
+
+  /**
+   * Create the audit table. Must run after SessionInfoService.initialize()
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.db = this.sessionInfoService.getDatabase();
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS permission_audit (
+          id TEXT PRIMARY KEY,
+          streaming_id TEXT NOT NULL,
+          session_id TEXT NOT NULL DEFAULT '',
+          tool_name TEXT NOT NULL,
+          tool_input TEXT NOT NULL,
+          modified_input TEXT,
+          status TEXT NOT NULL,
+          deny_reason TEXT,
+          decided_by TEXT NOT NULL,
+          requested_at TEXT NOT NULL,
+          decided_at TEXT NOT NULL,
+          latency_ms INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_permission_audit_decided_at ON permission_audit (decided_at);
+        CREATE INDEX IF NOT EXISTS idx_permission_audit_session ON permission_audit (session_id);
+      `);
+
+      this.insertStmt = this.db.prepare(`
+        INSERT OR REPLACE INTO permission_audit (
+          id,
+          streaming_id,
+          session_id,
+          tool_name,
+          tool_input,
+          modified_input,
+          status,
+          deny_reason,
+          decided_by,
+          requested_at,
+          decided_at,
+          latency_ms
+        ) VALUES (
+          @id,
+          @streaming_id,
+          @session_id,
+          @tool_name,
+          @tool_input,
+          @modified_input,
+          @status,
+          @deny_reason,
+          @decided_by,
+          @requested_at,
+          @decided_at,
+          @latency_ms
+        )
+      `);
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize permission audit table', error);
+      throw new Error(`Permission audit initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Record a decided permission request
+   */
+  recordDecision(request: PermissionRequest, sessionId?: string): PermissionAuditEntry | undefined {
+    if (!this.isInitialized) {
+      this.logger.warn('Permission audit service not initialized, skipping record', { id: request.id });
+      return undefined;
+    }
+    if (request.status === 'pending') {
+      return undefined;
+    }
+
+    const decidedAt = request.decidedAt || new Date().toISOString();
+    const entry: PermissionAuditEntry = {
+      id: request.id,
+      streamingId: request.streamingId,
+      sessionId: sessionId || '',
+      toolName: request.toolName,
+      toolInput: request.toolInput,
+      modifiedInput: request.modifiedInput,
+      status: request.status,
+      denyReason: request.denyReason,
+      decidedBy: request.decidedBy || 'user',
+      requestedAt: request.timestamp,
+      decidedAt,
+      latencyMs: Math.max(0, new Date(decidedAt).getTime() - new Date(request.timestamp).getTime())
+    };
+
+    try {
+      this.insertStmt.run({
+        id: entry.id,
+        streaming_id: entry.streamingId,
+        session_id: entry.sessionId,
+        tool_name: entry.toolName,
+        tool_input: JSON.stringify(entry.toolInput ?? {}),
+        modified_input: entry.modifiedInput ? JSON.stringify(entry.modifiedInput) : null,
+        status: entry.status,
+        deny_reason: entry.denyReason ?? null,
+        decided_by: entry.decidedBy,
+        requested_at: entry.requestedAt,
+        decided_at: entry.decidedAt,
+        latency_ms: entry.latencyMs
+      });
+      this.logger.debug('Permission decision recorded', { id: entry.id, status: entry.status });
+      return entry;
+    } catch (error) {
+      this.logger.error('Failed to record permission decision', { id: request.id, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Query recorded decisions, newest first
+   */
+  getHistory(query: PermissionHistoryQuery = {}): { entries: PermissionAuditEntry[]; total: number } {
+    if (!this.isInitialized) {
+      return { entries: [], total: 0 };
+    }
+
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.sessionId) {
+      conditions.push('session_id = @sessionId');
+      params.sessionId = query.sessionId;
+    }
+    if (query.streamingId) {
+      conditions.push('streaming_id = @streamingId');
+      params.streamingId = query.streamingId;
+    }
+    if (query.toolName) {
+      conditions.push('tool_name = @toolName');
+      params.toolName = query.toolName;
+    }
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.decidedBy) {
+      conditions.push('decided_by = @decidedBy');
+      params.decidedBy = query.decidedBy;
+    }
+    if (query.from) {
+      conditions.push('decided_at >= @from');
+      params.from = query.from;
+    }
+    if (query.to) {
+      conditions.push('decided_at <= @to');
+      params.to = query.to;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const totalRow = this.db.prepare(`SELECT COUNT(*) as count FROM permission_audit ${where}`).get(params) as { count: number };
+
+    let sql = `SELECT * FROM permission_audit ${where} ORDER BY decided_at DESC`;
+    if (query.limit !== undefined) {
+      sql += ' LIMIT @limit OFFSET @offset';
+      params.limit = query.limit;
+      params.offset = query.offset ?? 0;
+    }
+
+    const rows = this.db.prepare(sql).all(params) as AuditRow[];
+    return {
+      entries: rows.map(row => this.mapRow(row)),
+      total: totalRow.count
+    };
+  }
+
+  /**
+   * Serialize audit entries as CSV with a header row
+   */
+  toCsv(entries: PermissionAuditEntry[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const entry of entries) {
+      const row: Record<keyof AuditRow, string | number> = {
+        id: entry.id,
+        decided_at: entry.decidedAt,
+        requested_at: entry.requestedAt,
+        latency_ms: entry.latencyMs,
+        session_id: entry.sessionId,
+        streaming_id: entry.streamingId,
+        tool_name: entry.toolName,
+        status: entry.status,
+        decided_by: entry.decidedBy,
+        deny_reason: entry.denyReason ?? '',
+        tool_input: JSON.stringify(entry.toolInput),
+        modified_input: entry.modifiedInput ? JSON.stringify(entry.modifiedInput) : ''
+      };
+      lines.push(CSV_COLUMNS.map(column => escapeCsvValue(row[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private mapRow(row: AuditRow): PermissionAuditEntry {
+    return {
+      id: row.id,
+      streamingId: row.streaming_id,
+      sessionId: row.session_id,
+      toolName: row.tool_name,
+      toolInput: JSON.parse(row.tool_input),
+      modifiedInput: row.modified_input ? JSON.parse(row.modified_input) : undefined,
+      status: row.status,
+      denyReason: row.deny_reason ?? undefined,
+      decidedBy: row.decided_by,
+      requestedAt: row.requested_at,
+      decidedAt: row.decided_at,
+      latencyMs: row.latency_ms
+    };
+  }
+}
+
+function escapeCsvValue(value: string | number): string {
+  const text = String(value);
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
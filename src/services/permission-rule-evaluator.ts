@@ -0,0 +1,135 @@
+import path from 'path';
+import ignore from 'ignore';
+import type { PermissionRule } from '@/types/config.js';
+import { ConfigService } from './config-service.js';
+import { createLogger, type Logger } from './logger.js';
+
+export interface PermissionRuleContext {
+  workingDirectory?: string;
+  sessionId?: string;
+}
+
+// Tool input keys that carry a file system path
+const PATH_INPUT_KEYS = ['file_path', 'path', 'notebook_path'];
+
+// Shell operators that let a command run something other than its prefix
+const COMMAND_CHAINING_PATTERN = /[;&|`\n]|\$\(/;
+
+/**
+ * Evaluates the permission rules from the CUI config against tool permission requests
+ */
+export class PermissionRuleEvaluator {
+  private logger: Logger;
+  private configService: ConfigService;
+
+  constructor() {
+    this.logger = createLogger('PermissionRuleEvaluator');
+    this.configService = ConfigService.getInstance();
+  }
+
+  /**
+   * Find the rule that decides a request. Deny rules take precedence over allow rules,
+   * otherwise rules are checked in configuration order.
+   */
+  evaluate(
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    context: PermissionRuleContext,
+    rules: PermissionRule[] = this.getConfiguredRules()
+  ): PermissionRule | undefined {
+    const ordered = [
+      ...rules.filter(rule => rule.action === 'deny'),
+      ...rules.filter(rule => rule.action === 'allow')
+    ];
+
+    for (const rule of ordered) {
+      try {
+        if (this.matches(rule, toolName, toolInput, context)) {
+          this.logger.debug('Permission rule matched', { rule: rule.name, action: rule.action, toolName });
+          return rule;
+        }
+      } catch (error) {
+        this.logger.warn('Failed to evaluate permission rule, skipping', { rule: rule.name, error });
+      }
+    }
+
+    return undefined;
+  }
+
+  private getConfiguredRules(): PermissionRule[] {
+    try {
+      return this.configService.getConfig().permissions?.rules ?? [];
+    } catch (error) {
+      this.logger.debug('Configuration unavailable, no permission rules applied', { error });
+      return [];
+    }
+  }
+
+  private matches(
+    rule: PermissionRule,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    context: PermissionRuleContext
+  ): boolean {
+    if (rule.sessionId && rule.sessionId !== context.sessionId) {
+      return false;
+    }
+
+    if (rule.workingDirectory) {
+      if (!context.workingDirectory || path.resolve(rule.workingDirectory) !== path.resolve(context.workingDirectory)) {
+        return false;
+      }
+    }
+
+    if (rule.tools && rule.tools.length > 0 && !rule.tools.includes('*') && !rule.tools.includes(toolName)) {
+      return false;
+    }
+
+    if (rule.paths && rule.paths.length > 0 && !this.matchesPaths(rule.paths, toolInput, context.workingDirectory)) {
+      return false;
+    }
+
+    const hasCommandCondition = (rule.commandPrefixes && rule.commandPrefixes.length > 0) || rule.commandPattern;
+    if (hasCommandCondition) {
+      const command = typeof toolInput.command === 'string' ? toolInput.command.trim() : undefined;
+      if (command === undefined) {
+        return false;
+      }
+      if (rule.action === 'allow' && COMMAND_CHAINING_PATTERN.test(command)) {
+        return false;
+      }
+      if (rule.commandPrefixes && rule.commandPrefixes.length > 0 &&
+          !rule.commandPrefixes.some(prefix => command === prefix || command.startsWith(`${prefix} `))) {
+        return false;
+      }
+      if (rule.commandPattern && !new RegExp(rule.commandPattern).test(command)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private matchesPaths(patterns: string[], toolInput: Record<string, unknown>, workingDirectory?: string): boolean {
+    if (!workingDirectory) {
+      return false;
+    }
+
+    const inputPaths = PATH_INPUT_KEYS
+      .map(key => toolInput[key])
+      .filter((value): value is string => typeof value === 'string' && value.length > 0);
+    if (inputPaths.length === 0) {
+      return false;
+    }
+
+    const matcher = ignore().add(patterns);
+    return inputPaths.every(inputPath => {
+      const relativePath = path.relative(workingDirectory, path.resolve(workingDirectory, inputPath));
+      // Reject the working directory itself and anything outside of it
+      if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return false;
+      }
+      return matcher.ignores(relativePath.split(path.sep).join('/'));
+    });
+  }
+}
@@ -1,22 +1,29 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { PermissionRequest } from '@/types/index.js';
+import { PermissionGrant, PermissionGrantScope, PermissionRequest } from '@/types/index.js';
 import { logger } from '@/services/logger.js';
 import { NotificationService } from './notification-service.js';
 import { ConversationStatusManager } from './conversation-status-manager.js';
 import { ClaudeHistoryReader } from './claude-history-reader.js';
+import { PermissionAuditService } from './permission-audit-service.js';
+import { PermissionRuleEvaluator, PermissionRuleContext } from './permission-rule-evaluator.js';
 
 /**
  * Service to track permission requests from Claude CLI via MCP
  */
 export class PermissionTracker extends EventEmitter {
   private permissionRequests: Map<string, PermissionRequest> = new Map();
+  private sessionGrants: Map<string, PermissionGrant[]> = new Map(); // streamingId -> grants
   private notificationService?: NotificationService;
   private conversationStatusManager?: ConversationStatusManager;
   private historyReader?: ClaudeHistoryReader;
+  private auditService?: PermissionAuditService;
+  private ruleEvaluator?: PermissionRuleEvaluator;
 
   constructor() {
     super();
+    // Every long-polling MCP server holds a listener while it waits for a decision
+    this.setMaxListeners(0);
   }
 
   /**
@@ -40,6 +47,20 @@ export class PermissionTracker extends EventEmitter {
     this.historyReader = reader;
   }
 
+  /**
+   * Set the audit service used to persist decisions
+   */
+  setAuditService(service: PermissionAuditService): void {
+    this.auditService = service;
+  }
+
+  /**
+   * Set the rule evaluator used to auto-decide requests
+   */
+  setRuleEvaluator(evaluator: PermissionRuleEvaluator): void {
+    this.ruleEvaluator = evaluator;
+  }
+
   /**
    * Add a new permission request
    */
@@ -57,6 +78,11 @@ export class PermissionTracker extends EventEmitter {
     this.permissionRequests.set(id, request);
     logger.info('Permission request added', { id, toolName, streamingId });
 
+    // Let configured rules and earlier session grants decide before anyone is asked
+    if (this.applyRules(request) || this.applySessionGrants(request)) {
+      return request;
+    }
+
     // Emit event for new permission request
     this.emit('permission_request', request);
 
@@ -97,6 +123,110 @@ export class PermissionTracker extends EventEmitter {
     return request;
   }
 
+  /**
+   * Decide a request with the first matching permission rule.
+   * Returns true when a rule decided the request.
+   */
+  private applyRules(request: PermissionRequest): boolean {
+    if (!this.ruleEvaluator) {
+      return false;
+    }
+
+    const rule = this.ruleEvaluator.evaluate(request.toolName, request.toolInput, this.getRuleContext(request.streamingId));
+    if (!rule) {
+      return false;
+    }
+
+    request.matchedRule = rule.name;
+    if (rule.action === 'allow') {
+      this.updatePermissionStatus(request.id, 'approved', { decidedBy: `rule:${rule.name}` });
+    } else {
+      this.updatePermissionStatus(request.id, 'denied', {
+        denyReason: rule.denyReason || `Denied by permission rule "${rule.name}"`,
+        decidedBy: `rule:${rule.name}`
+      });
+    }
+
+    logger.info('Permission request decided by rule', { id: request.id, rule: rule.name, action: rule.action });
+    this.emit('permission_auto_decided', request);
+    return true;
+  }
+
+  /**
+   * Approve a request covered by a grant made earlier in the same session.
+   * Returns true when a grant approved the request.
+   */
+  private applySessionGrants(request: PermissionRequest): boolean {
+    const grant = this.findSessionGrant(request);
+    if (!grant) {
+      return false;
+    }
+
+    request.grantScope = grant.scope;
+    this.updatePermissionStatus(request.id, 'approved', { decidedBy: 'session-grant' });
+
+    logger.info('Permission request approved by session grant', { id: request.id, scope: grant.scope, toolName: request.toolName });
+    this.emit('permission_auto_decided', request);
+    return true;
+  }
+
+  private findSessionGrant(request: PermissionRequest): PermissionGrant | undefined {
+    const grants = this.sessionGrants.get(request.streamingId) || [];
+    const command = typeof request.toolInput?.command === 'string' ? request.toolInput.command.trim() : undefined;
+    return grants.find(grant => {
+      if (grant.toolName !== request.toolName) {
+        return false;
+      }
+      return grant.scope === 'tool' || (command !== undefined && grant.command === command);
+    });
+  }
+
+  /**
+   * Remember an approval for the rest of a streaming session and approve
+   * any other pending requests it already covers
+   */
+  addSessionGrant(request: PermissionRequest, scope: Exclude<PermissionGrantScope, 'once'>): PermissionGrant {
+    const grant: PermissionGrant = {
+      scope,
+      toolName: request.toolName,
+      grantedAt: new Date().toISOString()
+    };
+    if (scope === 'command') {
+      if (typeof request.toolInput?.command !== 'string') {
+        throw new Error(`Tool ${request.toolName} has no command to grant`);
+      }
+      grant.command = request.toolInput.command.trim();
+    }
+
+    const grants = this.sessionGrants.get(request.streamingId) || [];
+    grants.push(grant);
+    this.sessionGrants.set(request.streamingId, grants);
+    logger.info('Session permission grant added', { streamingId: request.streamingId, scope, toolName: request.toolName });
+
+    for (const pending of this.getPermissionRequests({ streamingId: request.streamingId, status: 'pending' })) {
+      if (pending.id !== request.id) {
+        this.applySessionGrants(pending);
+      }
+    }
+
+    return grant;
+  }
+
+  /**
+   * Get the grants made for a streaming session
+   */
+  getSessionGrants(streamingId: string): PermissionGrant[] {
+    return [...(this.sessionGrants.get(streamingId) || [])];
+  }
+
+  private getRuleContext(streamingId: string): PermissionRuleContext {
+    const sessionId = this.conversationStatusManager?.getSessionId(streamingId);
+    const workingDirectory = sessionId
+      ? this.conversationStatusManager?.getConversationContext(sessionId)?.workingDirectory
+      : undefined;
+    return { sessionId, workingDirectory };
+  }
+
   /**
    * Get all permission requests
    */
@@ -129,12 +259,12 @@ export class PermissionTracker extends EventEmitter {
   }
 
   /**
-   * Update permission request status (for future use when we implement approval/denial)
+   * Update permission request status and record the decision in the audit log
    */
   updatePermissionStatus(
     id: string, 
     status: 'approved' | 'denied', 
-    options?: { modifiedInput?: Record<string, unknown>; denyReason?: string }
+    options?: { modifiedInput?: Record<string, unknown>; denyReason?: string; decidedBy?: string }
   ): boolean {
     const request = this.permissionRequests.get(id);
     if (!request) {
@@ -149,18 +279,70 @@ export class PermissionTracker extends EventEmitter {
     if (status === 'denied' && options?.denyReason) {
       request.denyReason = options.denyReason;
     }
+    request.decidedBy = options?.decidedBy || 'user';
+    request.decidedAt = new Date().toISOString();
 
-    logger.info('Permission request updated', { id, status });
+    logger.info('Permission request updated', { id, status, decidedBy: request.decidedBy });
     this.emit('permission_updated', request);
 
+    if (this.auditService) {
+      const sessionId = this.conversationStatusManager?.getSessionId(request.streamingId);
+      this.auditService.recordDecision(request, sessionId);
+    }
+
     return true;
   }
 
+  /**
+   * Wait until a permission request leaves the pending state.
+   * Resolves with the request once decided, with the still-pending request when
+   * the timeout elapses or the signal aborts, and with undefined if the request
+   * does not exist or is removed while waiting.
+   */
+  waitForDecision(id: string, timeoutMs: number, signal?: AbortSignal): Promise<PermissionRequest | undefined> {
+    const request = this.permissionRequests.get(id);
+    if (!request || request.status !== 'pending') {
+      return Promise.resolve(request);
+    }
+
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+
+      const finish = (result: PermissionRequest | undefined) => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        this.off('permission_updated', onUpdated);
+        this.off('permission_removed', onRemoved);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+
+      const onUpdated = (updated: PermissionRequest) => {
+        if (updated.id === id) {
+          finish(updated);
+        }
+      };
+      const onRemoved = (removed: PermissionRequest) => {
+        if (removed.id === id) {
+          finish(undefined);
+        }
+      };
+      const onAbort = () => finish(this.permissionRequests.get(id));
+
+      this.on('permission_updated', onUpdated);
+      this.on('permission_removed', onRemoved);
+      signal?.addEventListener('abort', onAbort);
+      timer = setTimeout(() => finish(this.permissionRequests.get(id)), timeoutMs);
+    });
+  }
+
   /**
    * Clear all permission requests (for testing)
    */
   clear(): void {
     this.permissionRequests.clear();
+    this.sessionGrants.clear();
   }
 
   /**
@@ -171,10 +353,11 @@ export class PermissionTracker extends EventEmitter {
   }
 
   /**
-   * Remove all permissions for a specific streaming ID
+   * Remove all permissions and session grants for a specific streaming ID
    * Used for cleanup when a conversation ends
    */
   removePermissionsByStreamingId(streamingId: string): number {
+    this.sessionGrants.delete(streamingId);
     const toRemove: string[] = [];
     
     // Find all permissions with this streamingId
@@ -184,8 +367,12 @@ export class PermissionTracker extends EventEmitter {
       }
     }
     
-    // Remove them
-    toRemove.forEach(id => this.permissionRequests.delete(id));
+    // Remove them, releasing anyone still waiting on a decision
+    toRemove.forEach(id => {
+      const request = this.permissionRequests.get(id)!;
+      this.permissionRequests.delete(id);
+      this.emit('permission_removed', request);
+    });
     
     if (toRemove.length > 0) {
       logger.info('Removed permissions for streaming session', { 
@@ -0,0 +1,90 @@
+import path from 'path';
+import { CUIError, type PromptTemplate, type PromptTemplateInfo } from '@/types/index.js';
+import { ConfigService } from './config-service.js';
+import { createLogger, type Logger } from './logger.js';
+import { runGit } from '@/utils/git.js';
+import { getTemplateVariables, renderTemplate } from '@/utils/prompt-template.js';
+
+/**
+ * Variables filled in by the server, they can still be overridden with explicit values
+ */
+export const BUILTIN_PROMPT_VARIABLES = ['branch', 'date', 'time', 'workingDirectory'];
+
+/**
+ * Lists the prompt templates from the CUI config and renders their {{variables}}
+ */
+export class PromptTemplateService {
+  private logger: Logger;
+  private configService: ConfigService;
+
+  constructor() {
+    this.logger = createLogger('PromptTemplateService');
+    this.configService = ConfigService.getInstance();
+  }
+
+  /**
+   * Templates that apply everywhere plus the ones for a working directory,
+   * which override templates with the same name
+   */
+  getTemplates(workingDirectory?: string): PromptTemplateInfo[] {
+    const templates = this.configService.getConfig().prompts?.templates ?? [];
+    const resolved = workingDirectory ? path.resolve(workingDirectory) : undefined;
+    const byName = new Map<string, PromptTemplate>();
+
+    for (const template of templates) {
+      if (template.workingDirectory) continue;
+      byName.set(template.name, template);
+    }
+    for (const template of templates) {
+      if (!template.workingDirectory || path.resolve(template.workingDirectory) !== resolved) continue;
+      byName.set(template.name, template);
+    }
+
+    return Array.from(byName.values()).map(template => ({
+      ...template,
+      variables: getTemplateVariables(template.template).filter(name => !BUILTIN_PROMPT_VARIABLES.includes(name))
+    }));
+  }
+
+  /**
+   * Resolve the variables of a prompt, throws when a required variable has no value.
+   * Without a list of required variables every variable used is required.
+   */
+  async renderPrompt(template: string, workingDirectory?: string, values: Record<string, string> = {}, required?: string[]): Promise<string> {
+    const used = getTemplateVariables(template);
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const builtins: Record<string, string> = {
+      date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      time: `${pad(now.getHours())}:${pad(now.getMinutes())}`
+    };
+    if (workingDirectory) {
+      builtins.workingDirectory = workingDirectory;
+      if (used.includes('branch') && values.branch === undefined) {
+        const branch = await this.getCurrentBranch(workingDirectory);
+        if (branch) builtins.branch = branch;
+      }
+    }
+
+    const resolved = { ...builtins, ...values };
+    const missing = used.filter(name => resolved[name] === undefined && (!required || required.includes(name)));
+    if (missing.length > 0) {
+      throw new CUIError('MISSING_TEMPLATE_VARIABLES', `Missing values for ${missing.join(', ')}`, 400);
+    }
+
+    return renderTemplate(template, resolved);
+  }
+
+  private async getCurrentBranch(workingDirectory: string): Promise<string | undefined> {
+    try {
+      const { stdout } = await runGit(workingDirectory, ['rev-parse', '--abbrev-ref', 'HEAD']);
+      return stdout.trim() || undefined;
+    } catch (error) {
+      this.logger.debug('Could not determine the current branch', {
+        workingDirectory,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+}
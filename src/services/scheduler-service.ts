@@ -0,0 +1,484 @@
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CUIError,
+  type ScheduledJob,
+  type ScheduledJobRequest,
+  type ScheduledJobRun,
+  type ScheduledJobUpdateRequest,
+  type ScheduledRunStatus,
+  type ScheduledRunTrigger,
+  type SystemInitMessage
+} from '@/types/index.js';
+import { ClaudeProcessManager } from './claude-process-manager.js';
+import { SessionInfoService } from './session-info-service.js';
+import { NotificationService } from './notification-service.js';
+import { createLogger, type Logger } from './logger.js';
+import { getNextCronDate, parseCron } from '@/utils/cron.js';
+import { renderTemplate } from '@/utils/prompt-template.js';
+
+type JobRow = {
+  id: string;
+  name: string;
+  cron: string;
+  prompt: string;
+  working_directory: string;
+  model: string | null;
+  permission_mode: string | null;
+  max_retries: number;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+  next_run_at: string | null;
+};
+
+type RunRow = {
+  id: string;
+  job_id: string;
+  attempt: number;
+  triggered_by: ScheduledRunTrigger;
+  status: ScheduledRunStatus;
+  prompt: string;
+  session_id: string | null;
+  streaming_id: string | null;
+  queue_id: string | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+const TICK_INTERVAL_MS = 30_000;
+// Multiplied by the attempt that failed
+const RETRY_DELAY_MS = 60_000;
+const MAX_RETRIES = 10;
+const VALID_PERMISSION_MODES = ['acceptEdits', 'bypassPermissions', 'default', 'plan'];
+
+/**
+ * Runs agent conversations on cron schedules. Jobs and their run history live in the
+ * session info database, runs start like any other conversation and are queued when
+ * no process slot is free.
+ *
+ * A run succeeds when its process exits cleanly. Failed runs are retried after a delay
+ * until the job's retries are used up, interrupted runs are not retried. Schedules missed
+ * while the server was down are skipped, not caught up.
+ */
+export class SchedulerService {
+  private logger: Logger;
+  private sessionInfoService: SessionInfoService;
+  private processManager: ClaudeProcessManager;
+  private notificationService?: NotificationService;
+  private isInitialized = false;
+  private db!: Database.Database;
+  private tickTimer?: NodeJS.Timeout;
+  private retryTimers = new Set<NodeJS.Timeout>();
+
+  constructor(sessionInfoService: SessionInfoService, processManager: ClaudeProcessManager, notificationService?: NotificationService) {
+    this.logger = createLogger('SchedulerService');
+    this.sessionInfoService = sessionInfoService;
+    this.processManager = processManager;
+    this.notificationService = notificationService;
+  }
+
+  /**
+   * Create the scheduler tables and fail runs the previous server run left unfinished.
+   * Must run after SessionInfoService.initialize()
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.db = this.sessionInfoService.getDatabase();
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS scheduled_jobs (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          cron TEXT NOT NULL,
+          prompt TEXT NOT NULL,
+          working_directory TEXT NOT NULL,
+          model TEXT,
+          permission_mode TEXT,
+          max_retries INTEGER NOT NULL DEFAULT 0,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          next_run_at TEXT
+        );
+        CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+          id TEXT PRIMARY KEY,
+          job_id TEXT NOT NULL,
+          attempt INTEGER NOT NULL,
+          triggered_by TEXT NOT NULL,
+          status TEXT NOT NULL,
+          prompt TEXT NOT NULL,
+          session_id TEXT,
+          streaming_id TEXT,
+          queue_id TEXT,
+          error TEXT,
+          started_at TEXT NOT NULL,
+          finished_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON scheduled_job_runs (job_id, started_at);
+        CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_streaming ON scheduled_job_runs (streaming_id);
+      `);
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize scheduler tables', error);
+      throw new Error(`Scheduler initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const now = new Date().toISOString();
+    const abandoned = this.db.prepare(`
+      UPDATE scheduled_job_runs SET status = 'failed', error = 'The server stopped before the run finished', finished_at = ?
+      WHERE status IN ('queued', 'running')
+    `).run(now).changes;
+    if (abandoned > 0) {
+      this.logger.info('Marked unfinished scheduled runs failed', { count: abandoned });
+    }
+
+    // Start counting from now, runs missed while the server was down are skipped
+    for (const row of this.db.prepare('SELECT * FROM scheduled_jobs WHERE enabled = 1').all() as JobRow[]) {
+      this.db.prepare('UPDATE scheduled_jobs SET next_run_at = ? WHERE id = ?').run(this.computeNextRunAt(row.cron, new Date()), row.id);
+    }
+  }
+
+  /**
+   * Follow the processes of scheduled runs to record how they finished
+   */
+  listenToProcessManager(): void {
+    this.processManager.on('process-closed', ({ streamingId, code, interrupted }: { streamingId: string; code: number | null; interrupted?: boolean }) => {
+      if (!this.isInitialized) {
+        return;
+      }
+      const row = this.db.prepare("SELECT * FROM scheduled_job_runs WHERE streaming_id = ? AND status = 'running'").get(streamingId) as RunRow | undefined;
+      if (!row) {
+        return;
+      }
+      if (interrupted) {
+        this.finishRun(row.id, 'failed', 'Interrupted', false);
+      } else if (code === 0) {
+        this.finishRun(row.id, 'succeeded');
+      } else {
+        this.finishRun(row.id, 'failed', `Claude exited with code ${code}`);
+      }
+    });
+    this.processManager.on('queued-conversation-failed', ({ queueId, error }: { queueId: string; error: string }) => {
+      if (!this.isInitialized) {
+        return;
+      }
+      const row = this.db.prepare("SELECT id FROM scheduled_job_runs WHERE queue_id = ? AND status = 'queued'").get(queueId) as Pick<RunRow, 'id'> | undefined;
+      if (row) {
+        this.finishRun(row.id, 'failed', error);
+      }
+    });
+    this.logger.debug('Started listening to process manager events');
+  }
+
+  /**
+   * Start checking for due jobs
+   */
+  start(): void {
+    if (this.tickTimer) {
+      return;
+    }
+    this.tickTimer = setInterval(() => {
+      this.runDueJobs().catch(error => this.logger.error('Failed to run due scheduled jobs', error));
+    }, TICK_INTERVAL_MS);
+    this.tickTimer.unref();
+    this.logger.info('Scheduler started', { intervalMs: TICK_INTERVAL_MS });
+  }
+
+  /**
+   * Stop checking for due jobs and drop pending retries
+   */
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = undefined;
+    }
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  listJobs(): ScheduledJob[] {
+    const rows = this.db.prepare('SELECT * FROM scheduled_jobs ORDER BY created_at').all() as JobRow[];
+    return rows.map(row => this.toJob(row));
+  }
+
+  getJob(jobId: string): ScheduledJob {
+    return this.toJob(this.getJobRow(jobId));
+  }
+
+  createJob(request: ScheduledJobRequest): ScheduledJob {
+    const job = this.validateJob({
+      maxRetries: 0,
+      enabled: true,
+      ...request
+    });
+    const now = new Date().toISOString();
+    const row: JobRow = {
+      id: uuidv4(),
+      name: job.name,
+      cron: job.cron,
+      prompt: job.prompt,
+      working_directory: job.workingDirectory,
+      model: job.model || null,
+      permission_mode: job.permissionMode || null,
+      max_retries: job.maxRetries ?? 0,
+      enabled: job.enabled === false ? 0 : 1,
+      created_at: now,
+      updated_at: now,
+      next_run_at: job.enabled === false ? null : this.computeNextRunAt(job.cron, new Date())
+    };
+
+    this.db.prepare(`
+      INSERT INTO scheduled_jobs
+        (id, name, cron, prompt, working_directory, model, permission_mode, max_retries, enabled, created_at, updated_at, next_run_at)
+      VALUES
+        (@id, @name, @cron, @prompt, @working_directory, @model, @permission_mode, @max_retries, @enabled, @created_at, @updated_at, @next_run_at)
+    `).run(row);
+
+    this.logger.info('Scheduled job created', { jobId: row.id, name: row.name, cron: row.cron, nextRunAt: row.next_run_at });
+    return this.toJob(row);
+  }
+
+  updateJob(jobId: string, updates: ScheduledJobUpdateRequest): ScheduledJob {
+    const current = this.toJob(this.getJobRow(jobId));
+    const job = this.validateJob({ ...current, ...updates });
+    const scheduleChanged = job.cron !== current.cron || job.enabled !== current.enabled;
+
+    const nextRunAt = !job.enabled
+      ? null
+      : scheduleChanged ? this.computeNextRunAt(job.cron, new Date()) : current.nextRunAt ?? null;
+
+    this.db.prepare(`
+      UPDATE scheduled_jobs SET
+        name = ?, cron = ?, prompt = ?, working_directory = ?, model = ?, permission_mode = ?,
+        max_retries = ?, enabled = ?, updated_at = ?, next_run_at = ?
+      WHERE id = ?
+    `).run(
+      job.name,
+      job.cron,
+      job.prompt,
+      job.workingDirectory,
+      job.model || null,
+      job.permissionMode || null,
+      job.maxRetries ?? 0,
+      job.enabled ? 1 : 0,
+      new Date().toISOString(),
+      nextRunAt,
+      jobId
+    );
+
+    this.logger.info('Scheduled job updated', { jobId, nextRunAt });
+    return this.getJob(jobId);
+  }
+
+  /**
+   * Delete a job with its run history. Runs in progress keep running.
+   */
+  deleteJob(jobId: string): void {
+    this.getJobRow(jobId);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM scheduled_job_runs WHERE job_id = ?').run(jobId);
+      this.db.prepare('DELETE FROM scheduled_jobs WHERE id = ?').run(jobId);
+    })();
+    this.logger.info('Scheduled job deleted', { jobId });
+  }
+
+  /**
+   * Run history of a job, latest first
+   */
+  getRuns(jobId: string, limit = 50): ScheduledJobRun[] {
+    this.getJobRow(jobId);
+    const rows = this.db.prepare('SELECT * FROM scheduled_job_runs WHERE job_id = ? ORDER BY started_at DESC, attempt DESC LIMIT ?')
+      .all(jobId, limit) as RunRow[];
+    return rows.map(row => this.toRun(row));
+  }
+
+  /**
+   * Run a job now, independent of its schedule
+   */
+  async runJob(jobId: string): Promise<ScheduledJobRun> {
+    return this.startRun(this.getJobRow(jobId), 1, 'manual');
+  }
+
+  /**
+   * Start every enabled job whose next run is due and move it to its following run
+   */
+  async runDueJobs(now = new Date()): Promise<void> {
+    const due = this.db.prepare('SELECT * FROM scheduled_jobs WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?')
+      .all(now.toISOString()) as JobRow[];
+
+    for (const row of due) {
+      this.db.prepare('UPDATE scheduled_jobs SET next_run_at = ? WHERE id = ?').run(this.computeNextRunAt(row.cron, now), row.id);
+      try {
+        await this.startRun(row, 1, 'schedule', now);
+      } catch (error) {
+        this.logger.error('Failed to start scheduled job', error, { jobId: row.id });
+      }
+    }
+  }
+
+  private async startRun(job: JobRow, attempt: number, trigger: ScheduledRunTrigger, now = new Date()): Promise<ScheduledJobRun> {
+    const runId = uuidv4();
+    const prompt = this.renderPrompt(job, now);
+    this.db.prepare(`
+      INSERT INTO scheduled_job_runs (id, job_id, attempt, triggered_by, status, prompt, started_at)
+      VALUES (?, ?, ?, ?, 'queued', ?, ?)
+    `).run(runId, job.id, attempt, trigger, prompt, now.toISOString());
+
+    this.logger.info('Starting scheduled run', { jobId: job.id, runId, attempt, trigger });
+
+    const config = {
+      workingDirectory: job.working_directory,
+      initialPrompt: prompt,
+      model: job.model || undefined,
+      permissionMode: job.permission_mode || undefined
+    };
+
+    const onStarted = async ({ streamingId, systemInit }: { streamingId: string; systemInit: SystemInitMessage }): Promise<void> => {
+      this.db.prepare("UPDATE scheduled_job_runs SET status = 'running', session_id = ?, streaming_id = ? WHERE id = ?")
+        .run(systemInit.session_id, streamingId, runId);
+      if (job.permission_mode) {
+        await this.sessionInfoService.updateSessionInfo(systemInit.session_id, { permission_mode: job.permission_mode });
+      }
+    };
+
+    if (!this.processManager.canStartConversation()) {
+      const queued = this.processManager.enqueueConversation(config, {}, onStarted);
+      this.db.prepare('UPDATE scheduled_job_runs SET queue_id = ? WHERE id = ?').run(queued.queueId, runId);
+      return this.getRun(runId);
+    }
+
+    try {
+      await onStarted(await this.processManager.startConversation(config));
+    } catch (error) {
+      this.finishRun(runId, 'failed', error instanceof Error ? error.message : String(error));
+    }
+    return this.getRun(runId);
+  }
+
+  private finishRun(runId: string, status: Exclude<ScheduledRunStatus, 'queued' | 'running'>, error?: string, retry = true): void {
+    this.db.prepare('UPDATE scheduled_job_runs SET status = ?, error = ?, finished_at = ? WHERE id = ?')
+      .run(status, error ?? null, new Date().toISOString(), runId);
+    const run = this.getRun(runId);
+    const job = this.db.prepare('SELECT * FROM scheduled_jobs WHERE id = ?').get(run.jobId) as JobRow | undefined;
+
+    this.logger.info('Scheduled run finished', { jobId: run.jobId, runId, status, attempt: run.attempt, error });
+
+    // Retries are not persisted, a restart drops the ones pending
+    if (job && status === 'failed' && retry && run.attempt <= job.max_retries) {
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        const current = this.db.prepare('SELECT * FROM scheduled_jobs WHERE id = ?').get(job.id) as JobRow | undefined;
+        if (!current) {
+          return;
+        }
+        this.startRun(current, run.attempt + 1, 'retry').catch(retryError => {
+          this.logger.error('Failed to retry scheduled run', retryError, { jobId: job.id, runId });
+        });
+      }, RETRY_DELAY_MS * run.attempt);
+      timer.unref();
+      this.retryTimers.add(timer);
+      return;
+    }
+
+    this.notificationService?.sendScheduledRunNotification(job?.name ?? run.jobId, run).catch(notifyError => {
+      this.logger.error('Failed to send scheduled run notification', notifyError, { runId });
+    });
+  }
+
+  private renderPrompt(job: JobRow, date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const variables: Record<string, string> = {
+      date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+      job: job.name
+    };
+    return renderTemplate(job.prompt, variables);
+  }
+
+  private computeNextRunAt(cron: string, after: Date): string | null {
+    try {
+      return getNextCronDate(cron, after).toISOString();
+    } catch (error) {
+      this.logger.warn('Scheduled job has no next run', { cron, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  private validateJob<T extends ScheduledJobUpdateRequest>(job: T): T {
+    if (!job.name?.trim()) {
+      throw new CUIError('MISSING_NAME', 'name is required', 400);
+    }
+    if (!job.prompt?.trim()) {
+      throw new CUIError('MISSING_PROMPT', 'prompt is required', 400);
+    }
+    if (!job.workingDirectory) {
+      throw new CUIError('MISSING_WORKING_DIRECTORY', 'workingDirectory is required', 400);
+    }
+    try {
+      getNextCronDate(parseCron(job.cron ?? ''), new Date());
+    } catch (error) {
+      throw new CUIError('INVALID_CRON', `Invalid cron expression "${job.cron ?? ''}": ${error instanceof Error ? error.message : String(error)}`, 400);
+    }
+    if (job.permissionMode && !VALID_PERMISSION_MODES.includes(job.permissionMode)) {
+      throw new CUIError('INVALID_PERMISSION_MODE', `permissionMode must be one of: ${VALID_PERMISSION_MODES.join(', ')}`, 400);
+    }
+    if (job.maxRetries !== undefined && (!Number.isInteger(job.maxRetries) || job.maxRetries < 0 || job.maxRetries > MAX_RETRIES)) {
+      throw new CUIError('INVALID_MAX_RETRIES', `maxRetries must be a whole number between 0 and ${MAX_RETRIES}`, 400);
+    }
+    return job;
+  }
+
+  private getJobRow(jobId: string): JobRow {
+    const row = this.db.prepare('SELECT * FROM scheduled_jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+    if (!row) {
+      throw new CUIError('SCHEDULED_JOB_NOT_FOUND', `Scheduled job ${jobId} not found`, 404);
+    }
+    return row;
+  }
+
+  private getRun(runId: string): ScheduledJobRun {
+    return this.toRun(this.db.prepare('SELECT * FROM scheduled_job_runs WHERE id = ?').get(runId) as RunRow);
+  }
+
+  private toJob(row: JobRow): ScheduledJob {
+    const lastRun = this.db.prepare('SELECT * FROM scheduled_job_runs WHERE job_id = ? ORDER BY started_at DESC, attempt DESC LIMIT 1')
+      .get(row.id) as RunRow | undefined;
+    return {
+      id: row.id,
+      name: row.name,
+      cron: row.cron,
+      prompt: row.prompt,
+      workingDirectory: row.working_directory,
+      model: row.model ?? undefined,
+      permissionMode: row.permission_mode ?? undefined,
+      maxRetries: row.max_retries,
+      enabled: row.enabled === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      nextRunAt: row.next_run_at ?? undefined,
+      lastRun: lastRun ? this.toRun(lastRun) : undefined
+    };
+  }
+
+  private toRun(row: RunRow): ScheduledJobRun {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      attempt: row.attempt,
+      trigger: row.triggered_by,
+      status: row.status,
+      prompt: row.prompt,
+      sessionId: row.session_id ?? undefined,
+      streamingId: row.streaming_id ?? undefined,
+      queueId: row.queue_id ?? undefined,
+      error: row.error ?? undefined,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at ?? undefined
+    };
+  }
+}
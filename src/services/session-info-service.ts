@@ -16,6 +16,10 @@ type SessionRow = {
   continuation_session_id: string;
   initial_commit_head: string;
   permission_mode: string;
+  forked_from_session_id: string;
+  forked_from_message_uuid: string;
+  worktree_path: string;
+  worktree_branch: string;
 };
 
 /**
@@ -105,7 +109,11 @@ export class SessionInfoService {
           archived INTEGER NOT NULL DEFAULT 0,
           continuation_session_id TEXT NOT NULL DEFAULT '',
           initial_commit_head TEXT NOT NULL DEFAULT '',
-          permission_mode TEXT NOT NULL DEFAULT 'default'
+          permission_mode TEXT NOT NULL DEFAULT 'default',
+          forked_from_session_id TEXT NOT NULL DEFAULT '',
+          forked_from_message_uuid TEXT NOT NULL DEFAULT '',
+          worktree_path TEXT NOT NULL DEFAULT '',
+          worktree_branch TEXT NOT NULL DEFAULT ''
         );
         CREATE TABLE IF NOT EXISTS metadata (
           key TEXT PRIMARY KEY,
@@ -113,6 +121,7 @@ export class SessionInfoService {
         );
       `);
 
+      this.migrateSchema();
       this.prepareStatements();
       this.ensureMetadata();
       this.isInitialized = true;
@@ -135,7 +144,11 @@ export class SessionInfoService {
         archived,
         continuation_session_id,
         initial_commit_head,
-        permission_mode
+        permission_mode,
+        forked_from_session_id,
+        forked_from_message_uuid,
+        worktree_path,
+        worktree_branch
       ) VALUES (
         @session_id,
         @custom_name,
@@ -146,7 +159,11 @@ export class SessionInfoService {
         @archived,
         @continuation_session_id,
         @initial_commit_head,
-        @permission_mode
+        @permission_mode,
+        @forked_from_session_id,
+        @forked_from_message_uuid,
+        @worktree_path,
+        @worktree_branch
       )
     `);
     this.updateSessionStmt = this.db.prepare(`
@@ -158,6 +175,10 @@ export class SessionInfoService {
         continuation_session_id=@continuation_session_id,
         initial_commit_head=@initial_commit_head,
         permission_mode=@permission_mode,
+        forked_from_session_id=@forked_from_session_id,
+        forked_from_message_uuid=@forked_from_message_uuid,
+        worktree_path=@worktree_path,
+        worktree_branch=@worktree_branch,
         version=@version
       WHERE session_id=@session_id
     `);
@@ -169,6 +190,27 @@ export class SessionInfoService {
     this.getMetadataStmt = this.db.prepare('SELECT value FROM metadata WHERE key = ?');
   }
 
+  /**
+   * Add columns introduced after the sessions table was first created
+   */
+  private migrateSchema(): void {
+    const columns = new Set(
+      (this.db.prepare('PRAGMA table_info(sessions)').all() as Array<{ name: string }>).map(column => column.name)
+    );
+    if (!columns.has('forked_from_session_id')) {
+      this.db.exec("ALTER TABLE sessions ADD COLUMN forked_from_session_id TEXT NOT NULL DEFAULT ''");
+    }
+    if (!columns.has('forked_from_message_uuid')) {
+      this.db.exec("ALTER TABLE sessions ADD COLUMN forked_from_message_uuid TEXT NOT NULL DEFAULT ''");
+    }
+    if (!columns.has('worktree_path')) {
+      this.db.exec("ALTER TABLE sessions ADD COLUMN worktree_path TEXT NOT NULL DEFAULT ''");
+    }
+    if (!columns.has('worktree_branch')) {
+      this.db.exec("ALTER TABLE sessions ADD COLUMN worktree_branch TEXT NOT NULL DEFAULT ''");
+    }
+  }
+
   private ensureMetadata(): void {
     const now = new Date().toISOString();
     const schema = this.getMetadataStmt.get('schema_version') as { value?: string } | undefined;
@@ -189,7 +231,11 @@ export class SessionInfoService {
       archived: !!row.archived,
       continuation_session_id: row.continuation_session_id,
       initial_commit_head: row.initial_commit_head,
-      permission_mode: row.permission_mode
+      permission_mode: row.permission_mode,
+      forked_from_session_id: row.forked_from_session_id,
+      forked_from_message_uuid: row.forked_from_message_uuid,
+      worktree_path: row.worktree_path,
+      worktree_branch: row.worktree_branch
     };
   }
 
@@ -210,7 +256,11 @@ export class SessionInfoService {
         archived: false,
         continuation_session_id: '',
         initial_commit_head: '',
-        permission_mode: 'default'
+        permission_mode: 'default',
+        forked_from_session_id: '',
+        forked_from_message_uuid: '',
+        worktree_path: '',
+        worktree_branch: ''
       };
       this.insertSessionStmt.run({
         session_id: sessionId,
@@ -222,7 +272,11 @@ export class SessionInfoService {
         archived: 0,
         continuation_session_id: '',
         initial_commit_head: '',
-        permission_mode: 'default'
+        permission_mode: 'default',
+        forked_from_session_id: '',
+        forked_from_message_uuid: '',
+        worktree_path: '',
+        worktree_branch: ''
       });
       this.setMetadataStmt.run({ key: 'last_updated', value: now });
       return defaultSession;
@@ -238,7 +292,11 @@ export class SessionInfoService {
         archived: false,
         continuation_session_id: '',
         initial_commit_head: '',
-        permission_mode: 'default'
+        permission_mode: 'default',
+        forked_from_session_id: '',
+        forked_from_message_uuid: '',
+        worktree_path: '',
+        worktree_branch: ''
       };
     }
   }
@@ -262,6 +320,10 @@ export class SessionInfoService {
           continuation_session_id: updatedSession.continuation_session_id,
           initial_commit_head: updatedSession.initial_commit_head,
           permission_mode: updatedSession.permission_mode,
+          forked_from_session_id: updatedSession.forked_from_session_id,
+          forked_from_message_uuid: updatedSession.forked_from_message_uuid,
+          worktree_path: updatedSession.worktree_path,
+          worktree_branch: updatedSession.worktree_branch,
           version: updatedSession.version
         });
         this.setMetadataStmt.run({ key: 'last_updated', value: now });
@@ -277,6 +339,10 @@ export class SessionInfoService {
           continuation_session_id: '',
           initial_commit_head: '',
           permission_mode: 'default',
+          forked_from_session_id: '',
+          forked_from_message_uuid: '',
+          worktree_path: '',
+          worktree_branch: '',
           ...updates
         };
         this.insertSessionStmt.run({
@@ -289,7 +355,11 @@ export class SessionInfoService {
           archived: newSession.archived ? 1 : 0,
           continuation_session_id: newSession.continuation_session_id,
           initial_commit_head: newSession.initial_commit_head,
-          permission_mode: newSession.permission_mode
+          permission_mode: newSession.permission_mode,
+          forked_from_session_id: newSession.forked_from_session_id,
+          forked_from_message_uuid: newSession.forked_from_message_uuid,
+          worktree_path: newSession.worktree_path,
+          worktree_branch: newSession.worktree_branch
         });
         this.setMetadataStmt.run({ key: 'last_updated', value: now });
         return newSession;
@@ -376,6 +446,16 @@ export class SessionInfoService {
     return this.configDir;
   }
 
+  /**
+   * Get the underlying database so related services can keep their tables alongside sessions
+   */
+  getDatabase(): Database.Database {
+    if (!this.isInitialized) {
+      throw new Error('Session info database is not initialized');
+    }
+    return this.db;
+  }
+
   async archiveAllSessions(): Promise<number> {
     this.logger.info('Archiving all sessions');
     try {
@@ -0,0 +1,291 @@
+import Database from 'better-sqlite3';
+import { CUIError, type ConversationConfig, type FollowUpMessage, type InterruptedSession, type QueuedConversation } from '@/types/index.js';
+import { ClaudeProcessManager, type StartedConversation } from './claude-process-manager.js';
+import { ClaudeHistoryReader } from './claude-history-reader.js';
+import { SessionInfoService } from './session-info-service.js';
+import { createLogger, type Logger } from './logger.js';
+
+type ActiveSessionRow = {
+  streaming_id: string;
+  session_id: string;
+  working_directory: string;
+  config: string;
+  last_user_message: string;
+  started_at: string;
+  interrupted_at: string | null;
+  interrupted_by: 'shutdown' | 'user' | null;
+};
+
+// Conversation settings needed to resume, the prompt and inherited messages are not stored
+type PersistedConfig = Pick<ConversationConfig, 'model' | 'allowedTools' | 'disallowedTools' | 'systemPrompt' | 'claudeExecutablePath' | 'permissionMode'>;
+
+type StartConversationConfig = ConversationConfig & { resumedSessionId?: string };
+
+export type ResumeResult = StartedConversation | { queued: QueuedConversation };
+
+// Sent with --resume, the interrupted turn itself is already part of the session history
+const RESUME_PROMPT = 'The previous run was interrupted before it finished. Continue where you left off.';
+
+/**
+ * Persists the conversations that are running in the session info database, so that
+ * the ones still running when the server stops can be resumed after it restarts.
+ *
+ * A row is written once a conversation reports its session and removed when its process
+ * exits. Rows left over on startup, and rows of conversations stopped by a server shutdown
+ * or interrupted by the user, are marked interrupted until they are resumed with --resume
+ * or dismissed. Conversations the user interrupted keep their interrupted status but are
+ * never resumed automatically or offered for recovery, the user stopped them on purpose.
+ */
+export class SessionRecoveryService {
+  private logger: Logger;
+  private sessionInfoService: SessionInfoService;
+  private historyReader: ClaudeHistoryReader;
+  private processManager: ClaudeProcessManager;
+  private isInitialized = false;
+  private isSuspended = false;
+  private db!: Database.Database;
+
+  constructor(sessionInfoService: SessionInfoService, historyReader: ClaudeHistoryReader, processManager: ClaudeProcessManager) {
+    this.logger = createLogger('SessionRecoveryService');
+    this.sessionInfoService = sessionInfoService;
+    this.historyReader = historyReader;
+    this.processManager = processManager;
+  }
+
+  /**
+   * Create the active sessions table and mark sessions of the previous server run interrupted.
+   * Must run after SessionInfoService.initialize()
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.db = this.sessionInfoService.getDatabase();
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS active_sessions (
+          streaming_id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          working_directory TEXT NOT NULL,
+          config TEXT NOT NULL,
+          last_user_message TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          interrupted_at TEXT,
+          interrupted_by TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_active_sessions_session ON active_sessions(session_id);
+      `);
+      const columns = new Set(
+        (this.db.prepare('PRAGMA table_info(active_sessions)').all() as Array<{ name: string }>).map(column => column.name)
+      );
+      if (!columns.has('interrupted_by')) {
+        // Rows from before the column were all interrupted by a shutdown
+        this.db.exec('ALTER TABLE active_sessions ADD COLUMN interrupted_by TEXT');
+      }
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize active sessions table', error);
+      throw new Error(`Session recovery service initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // No process survives a restart, whatever is still marked running was cut off
+    const interrupted = this.markInterrupted();
+    if (interrupted > 0) {
+      this.logger.info('Found conversations interrupted by the last shutdown', { count: interrupted });
+    }
+  }
+
+  /**
+   * Start tracking conversations of the process manager
+   */
+  listenToProcessManager(): void {
+    this.processManager.on('conversation-started', ({ streamingId, sessionId, cwd, config }: { streamingId: string; sessionId: string; cwd: string; config: StartConversationConfig }) => {
+      try {
+        this.recordSession(streamingId, sessionId, cwd || config.workingDirectory, config);
+      } catch (error) {
+        this.logger.warn('Failed to record active session', { streamingId, error });
+      }
+    });
+    this.processManager.on('follow-up-sent', ({ streamingId, message }: FollowUpMessage) => {
+      if (this.isInitialized) {
+        this.db.prepare('UPDATE active_sessions SET last_user_message = ? WHERE streaming_id = ?').run(message, streamingId);
+      }
+    });
+    this.processManager.on('process-closed', ({ streamingId, interrupted }: { streamingId: string; interrupted?: boolean }) => {
+      // Processes stopped by a shutdown stay recorded as interrupted
+      if (!this.isInitialized || this.isSuspended) {
+        return;
+      }
+      if (interrupted) {
+        this.db.prepare("UPDATE active_sessions SET interrupted_at = ?, interrupted_by = 'user' WHERE streaming_id = ? AND interrupted_at IS NULL")
+          .run(new Date().toISOString(), streamingId);
+        return;
+      }
+      this.db.prepare('DELETE FROM active_sessions WHERE streaming_id = ? AND interrupted_at IS NULL').run(streamingId);
+    });
+    this.logger.debug('Started listening to process manager events');
+  }
+
+  /**
+   * Mark every running conversation interrupted before the server stops its processes
+   */
+  suspend(): void {
+    this.isSuspended = true;
+    if (!this.isInitialized) {
+      return;
+    }
+    const interrupted = this.markInterrupted();
+    this.logger.info('Marked running conversations interrupted for shutdown', { count: interrupted });
+  }
+
+  /**
+   * Conversations cut off by a shutdown, the ones interrupted by the user are left out
+   */
+  getInterruptedSessions(): InterruptedSession[] {
+    if (!this.isInitialized) {
+      return [];
+    }
+    const rows = this.db.prepare(`
+      SELECT * FROM active_sessions
+      WHERE interrupted_at IS NOT NULL AND (interrupted_by IS NULL OR interrupted_by != 'user')
+      ORDER BY interrupted_at DESC, started_at DESC
+    `).all() as ActiveSessionRow[];
+    return rows.map(row => this.toInterruptedSession(row));
+  }
+
+  /**
+   * Sessions shown as interrupted, whether by a shutdown or by the user
+   */
+  getInterruptedSessionIds(): Set<string> {
+    if (!this.isInitialized) {
+      return new Set();
+    }
+    const rows = this.db.prepare('SELECT session_id FROM active_sessions WHERE interrupted_at IS NOT NULL').all() as Pick<ActiveSessionRow, 'session_id'>[];
+    return new Set(rows.map(row => row.session_id));
+  }
+
+  /**
+   * Resume an interrupted conversation with --resume. It is queued when no process slot is free.
+   */
+  async resume(sessionId: string): Promise<ResumeResult> {
+    const session = this.getInterruptedSessions().find(interrupted => interrupted.sessionId === sessionId);
+    if (!session) {
+      throw new CUIError('INTERRUPTED_SESSION_NOT_FOUND', `No interrupted session ${sessionId}`, 404);
+    }
+
+    const row = this.db.prepare('SELECT config FROM active_sessions WHERE streaming_id = ?').get(session.streamingId) as Pick<ActiveSessionRow, 'config'>;
+    const persisted = JSON.parse(row.config) as PersistedConfig;
+
+    let previousMessages: StartConversationConfig['previousMessages'];
+    try {
+      previousMessages = await this.historyReader.fetchConversation(sessionId);
+    } catch (error) {
+      // Not fatal, the CLI resumes from its own history
+      this.logger.warn('Failed to fetch messages of interrupted session', { sessionId, error });
+    }
+
+    const config: StartConversationConfig = {
+      ...persisted,
+      workingDirectory: session.workingDirectory,
+      initialPrompt: RESUME_PROMPT,
+      resumedSessionId: sessionId,
+      previousMessages: previousMessages && previousMessages.length > 0 ? previousMessages : undefined
+    };
+
+    const onStarted = async ({ systemInit }: StartedConversation): Promise<void> => {
+      await this.sessionInfoService.updateSessionInfo(sessionId, { continuation_session_id: systemInit.session_id });
+      if (persisted.permissionMode) {
+        await this.sessionInfoService.updateSessionInfo(systemInit.session_id, { permission_mode: persisted.permissionMode });
+      }
+      this.logger.info('Resumed interrupted session', { sessionId, newSessionId: systemInit.session_id });
+    };
+
+    if (!this.processManager.canStartConversation()) {
+      const queued = this.processManager.enqueueConversation(config, {}, onStarted);
+      this.dismiss(sessionId);
+      return { queued };
+    }
+
+    const started = await this.processManager.startConversation(config);
+    await onStarted(started);
+    return started;
+  }
+
+  /**
+   * Resume every interrupted conversation, used on startup when auto resume is enabled
+   */
+  async resumeAll(): Promise<void> {
+    for (const session of this.getInterruptedSessions()) {
+      try {
+        await this.resume(session.sessionId);
+      } catch (error) {
+        this.logger.error('Failed to resume interrupted session', error, { sessionId: session.sessionId });
+      }
+    }
+  }
+
+  /**
+   * Forget an interrupted conversation without resuming it
+   */
+  dismiss(sessionId: string): boolean {
+    if (!this.isInitialized) {
+      return false;
+    }
+    const result = this.db.prepare('DELETE FROM active_sessions WHERE session_id = ? AND interrupted_at IS NOT NULL').run(sessionId);
+    return result.changes > 0;
+  }
+
+  private recordSession(streamingId: string, sessionId: string, workingDirectory: string, config: StartConversationConfig): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    const persisted: PersistedConfig = {
+      model: config.model,
+      allowedTools: config.allowedTools,
+      disallowedTools: config.disallowedTools,
+      systemPrompt: config.systemPrompt,
+      claudeExecutablePath: config.claudeExecutablePath,
+      permissionMode: config.permissionMode
+    };
+
+    this.db.transaction(() => {
+      // Resuming an interrupted session by any route supersedes its record
+      if (config.resumedSessionId) {
+        this.db.prepare('DELETE FROM active_sessions WHERE session_id = ? AND interrupted_at IS NOT NULL').run(config.resumedSessionId);
+      }
+      this.db.prepare(`
+        INSERT OR REPLACE INTO active_sessions
+          (streaming_id, session_id, working_directory, config, last_user_message, started_at, interrupted_at)
+        VALUES (?, ?, ?, ?, ?, ?, NULL)
+      `).run(
+        streamingId,
+        sessionId,
+        workingDirectory,
+        JSON.stringify(persisted),
+        config.initialPrompt || '',
+        new Date().toISOString()
+      );
+    })();
+  }
+
+  private markInterrupted(): number {
+    return this.db.prepare("UPDATE active_sessions SET interrupted_at = ?, interrupted_by = 'shutdown' WHERE interrupted_at IS NULL")
+      .run(new Date().toISOString()).changes;
+  }
+
+  private toInterruptedSession(row: ActiveSessionRow): InterruptedSession {
+    const persisted = JSON.parse(row.config) as PersistedConfig;
+    return {
+      sessionId: row.session_id,
+      streamingId: row.streaming_id,
+      workingDirectory: row.working_directory,
+      model: persisted.model,
+      permissionMode: persisted.permissionMode,
+      lastUserMessage: row.last_user_message,
+      startedAt: row.started_at,
+      interruptedAt: row.interrupted_at ?? row.started_at
+    };
+  }
+}
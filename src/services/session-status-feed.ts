@@ -0,0 +1,125 @@
+import { EventEmitter } from 'events';
+import type { PermissionRequest, SessionStatusEvent, StreamEvent } from '@/types/index.js';
+import { StreamManager } from './stream-manager.js';
+import { UsageService } from './usage-service.js';
+import { ConversationStatusManager } from './conversation-status-manager.js';
+import { PermissionTracker } from './permission-tracker.js';
+import { createLogger, type Logger } from './logger.js';
+
+// Streaming ids are UUIDs, so the feed cannot collide with a conversation stream
+export const ALL_SESSIONS_STREAM_ID = 'all';
+
+type SessionState = {
+  sessionId?: string;
+  costs: Map<string, number>; // Anthropic message id -> cost, a response spans several stream messages
+};
+
+/**
+ * Publishes lightweight status events of every running session on a single stream, so that
+ * clients can follow all sessions without subscribing to each conversation stream.
+ *
+ * The feed is an ordinary StreamManager stream, which gives it event ids, replay and the
+ * WebSocket transport for free.
+ */
+export class SessionStatusFeed {
+  private logger: Logger;
+  private streamManager: StreamManager;
+  private usageService: UsageService;
+  private sessions: Map<string, SessionState> = new Map(); // streamingId -> state
+
+  constructor(streamManager: StreamManager, usageService: UsageService) {
+    this.logger = createLogger('SessionStatusFeed');
+    this.streamManager = streamManager;
+    this.usageService = usageService;
+  }
+
+  /**
+   * Start publishing status events of the given services
+   */
+  listen(processManager: EventEmitter, conversationStatusManager: ConversationStatusManager, permissionTracker: PermissionTracker): void {
+    conversationStatusManager.on('session-started', ({ streamingId, claudeSessionId }: { streamingId: string; claudeSessionId: string }) => {
+      // Resumed sessions are registered twice
+      if (this.sessions.get(streamingId)?.sessionId === claudeSessionId) {
+        return;
+      }
+      this.getSession(streamingId).sessionId = claudeSessionId;
+      this.publish(streamingId, 'started');
+    });
+
+    processManager.on('claude-message', ({ streamingId, message }: { streamingId: string; message: StreamEvent }) => {
+      try {
+        this.handleClaudeMessage(streamingId, message);
+      } catch (error) {
+        this.logger.warn('Failed to publish session status', { streamingId, error });
+      }
+    });
+
+    permissionTracker.on('permission_request', (request: PermissionRequest) => {
+      if (request.streamingId && request.streamingId !== 'unknown') {
+        this.publish(request.streamingId, 'permission_requested', {
+          toolName: request.toolName,
+          permissionRequestId: request.id
+        });
+      }
+    });
+
+    conversationStatusManager.on('session-ended', ({ streamingId }: { streamingId: string }) => {
+      this.publish(streamingId, 'closed');
+      this.sessions.delete(streamingId);
+    });
+
+    this.logger.debug('Started publishing session status events');
+  }
+
+  private handleClaudeMessage(streamingId: string, message: StreamEvent): void {
+    if (message.type === 'assistant') {
+      const session = this.getSession(streamingId);
+      if (message.message?.id) {
+        session.costs.set(message.message.id, this.usageService.calculateMessageCost(message.message));
+      }
+      const toolUse = Array.isArray(message.message?.content)
+        ? message.message.content.find(block => block.type === 'tool_use')
+        : undefined;
+      this.publish(streamingId, 'assistant', {
+        toolName: toolUse && 'name' in toolUse ? toolUse.name : undefined
+      });
+    } else if (message.type === 'result') {
+      this.publish(streamingId, 'result', {
+        resultSubtype: message.subtype,
+        isError: message.is_error
+      });
+    }
+  }
+
+  private getSession(streamingId: string): SessionState {
+    let session = this.sessions.get(streamingId);
+    if (!session) {
+      session = { costs: new Map() };
+      this.sessions.set(streamingId, session);
+    }
+    return session;
+  }
+
+  private publish(
+    streamingId: string,
+    status: SessionStatusEvent['status'],
+    details: Pick<SessionStatusEvent, 'toolName' | 'permissionRequestId' | 'resultSubtype' | 'isError'> = {}
+  ): void {
+    const session = this.sessions.get(streamingId);
+    let costUsd = 0;
+    for (const cost of session?.costs.values() ?? []) {
+      costUsd += cost;
+    }
+
+    const event: SessionStatusEvent = {
+      type: 'session_status',
+      status,
+      streamingId,
+      sessionId: session?.sessionId,
+      costUsd,
+      timestamp: new Date().toISOString(),
+      ...details
+    };
+    this.streamManager.broadcast(ALL_SESSIONS_STREAM_ID, event);
+  }
+}
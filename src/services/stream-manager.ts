@@ -4,27 +4,50 @@ import { EventEmitter } from 'events';
 import { createLogger } from './logger.js';
 import { type Logger } from './logger.js';
 
+export interface BufferedEvent {
+  id: number;
+  event: StreamEvent;
+}
+
+interface EventBuffer {
+  events: BufferedEvent[];
+  // Id of the newest event dropped to keep the buffer bounded
+  lastDroppedId: number;
+}
+
 /**
  * Manages streaming connections to multiple clients
+ *
+ * Every broadcast event gets an id from one increasing counter and is kept in a bounded
+ * per-session buffer, so clients reconnecting with Last-Event-ID get the events they missed.
  */
 export class StreamManager extends EventEmitter {
   private clients: Map<string, Set<Response>> = new Map();
+  private eventBuffers: Map<string, EventBuffer> = new Map();
+  private bufferCleanupTimers: Map<string, NodeJS.Timeout> = new Map();
+  private lastEventId = 0;
   private logger: Logger;
   private heartbeatInterval?: NodeJS.Timeout;
   
   // Send heartbeat every 30 seconds to keep connections alive
   private readonly HEARTBEAT_INTERVAL_MS = 30000;
 
+  // Events kept per session for replay, older ones are dropped
+  private readonly EVENT_BUFFER_SIZE = 500;
+
+  // Keep the buffer of a closed session for clients that reconnect shortly after
+  private readonly CLOSED_BUFFER_RETENTION_MS = 5 * 60 * 1000;
+
   constructor() {
     super();
     this.logger = createLogger('StreamManager');
   }
 
   /**
-   * Add a client to receive stream updates
+   * Add a client to receive stream updates. Buffered events newer than lastEventId are replayed.
    */
-  addClient(streamingId: string, res: Response): void {
-    this.logger.debug('Adding client to stream', { streamingId });
+  addClient(streamingId: string, res: Response, lastEventId?: number): void {
+    this.logger.debug('Adding client to stream', { streamingId, lastEventId });
     
     // Configure response for Server-Sent Events
     res.setHeader('Content-Type', 'text/event-stream');
@@ -45,11 +68,14 @@ export class StreamManager extends EventEmitter {
       totalClients: this.clients.get(streamingId)!.size 
     });
     
+    const missed = lastEventId !== undefined ? this.getEventsSince(streamingId, lastEventId) : [];
+
     // Send initial connection confirmation
     const connectionMessage: StreamEvent = {
       type: 'connected',
       streaming_id: streamingId,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      ...(lastEventId !== undefined && this.isReplayIncomplete(streamingId, lastEventId) ? { replay_incomplete: true } : {})
     };
     
     this.logger.debug('Sending initial SSE connection confirmation', { 
@@ -58,6 +84,19 @@ export class StreamManager extends EventEmitter {
     });
     
     this.sendSSEEvent(res, connectionMessage);
+
+    if (missed.length > 0) {
+      this.logger.debug('Replaying missed events to client', { streamingId, lastEventId, count: missed.length });
+      for (const { id, event } of missed) {
+        this.sendSSEEvent(res, event, undefined, id);
+      }
+      // The session ended while the client was away
+      if (missed[missed.length - 1].event.type === 'closed') {
+        res.end();
+        this.removeClient(streamingId, res);
+        return;
+      }
+    }
     
     // Start heartbeat if this is the first client
     this.startHeartbeat();
@@ -102,9 +141,11 @@ export class StreamManager extends EventEmitter {
       eventSubtype: 'subtype' in event ? event.subtype : undefined 
     });
     
+    const id = this.bufferEvent(streamingId, event);
+
     const clients = this.clients.get(streamingId);
     if (!clients || clients.size === 0) {
-      this.logger.debug('No clients found for streaming session, dropping message', { streamingId });
+      this.logger.debug('No clients found for streaming session, buffering message only', { streamingId, eventId: id });
       return;
     }
     
@@ -117,7 +158,7 @@ export class StreamManager extends EventEmitter {
     
     for (const client of clients) {
       try {
-        this.sendSSEEvent(client, event);
+        this.sendSSEEvent(client, event, undefined, id);
         this.logger.debug('Successfully sent SSE event to client', { 
           streamingId, 
           eventType: event?.type,
@@ -136,12 +177,15 @@ export class StreamManager extends EventEmitter {
   /**
    * Send an SSE event to a specific client
    */
-  private sendSSEEvent(res: Response, message: StreamEvent, eventType?: string): void {
+  private sendSSEEvent(res: Response, message: StreamEvent, eventType?: string, eventId?: number): void {
     if (res.writableEnded || res.destroyed) {
       throw new Error('Response is no longer writable');
     }
     
     let sseData = '';
+    if (eventId !== undefined) {
+      sseData += `id: ${eventId}\n`;
+    }
     if (eventType) {
       sseData += `event: ${eventType}\n`;
     }
@@ -150,6 +194,7 @@ export class StreamManager extends EventEmitter {
     // Log SSE event data
     this.logger.debug('Sending SSE event', {
       eventType,
+      eventId,
       messageType: message?.type,
       messageSubtype: 'subtype' in message ? message.subtype : undefined,
       streamingId: 'streamingId' in message ? message.streamingId : 'streaming_id' in message ? message.streaming_id : undefined,
@@ -186,14 +231,16 @@ export class StreamManager extends EventEmitter {
    * Close all connections for a session
    */
   closeSession(streamingId: string): void {
-    const clients = this.clients.get(streamingId);
-    if (!clients) return;
-    
     const closeEvent: StreamEvent = {
       type: 'closed',
       streamingId: streamingId,
       timestamp: new Date().toISOString()
     };
+    const closeEventId = this.bufferEvent(streamingId, closeEvent);
+    this.scheduleBufferCleanup(streamingId);
+
+    const clients = this.clients.get(streamingId);
+    if (!clients) return;
     
     // Create array to avoid modifying set while iterating
     const clientsArray = Array.from(clients);
@@ -205,7 +252,7 @@ export class StreamManager extends EventEmitter {
     
     for (const client of clientsArray) {
       try {
-        this.sendSSEEvent(client, closeEvent);
+        this.sendSSEEvent(client, closeEvent, undefined, closeEventId);
         this.logger.debug('Sent SSE close event to client', { streamingId });
         client.end();
       } catch (error) {
@@ -241,6 +288,61 @@ export class StreamManager extends EventEmitter {
       this.closeSession(streamingId);
     }
     this.stopHeartbeat();
+
+    for (const timer of this.bufferCleanupTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.bufferCleanupTimers.clear();
+    this.eventBuffers.clear();
+  }
+
+  /**
+   * Get buffered events of a session with an id greater than lastEventId
+   */
+  getEventsSince(streamingId: string, lastEventId: number): BufferedEvent[] {
+    const buffer = this.eventBuffers.get(streamingId);
+    if (!buffer) {
+      return [];
+    }
+    return buffer.events.filter(({ id }) => id > lastEventId);
+  }
+
+  /**
+   * Assign the next event id, append the event to the session buffer and emit it
+   * as 'stream-event' for transports other than SSE
+   */
+  private bufferEvent(streamingId: string, event: StreamEvent): number {
+    const id = ++this.lastEventId;
+
+    let buffer = this.eventBuffers.get(streamingId);
+    if (!buffer) {
+      buffer = { events: [], lastDroppedId: 0 };
+      this.eventBuffers.set(streamingId, buffer);
+    }
+    buffer.events.push({ id, event });
+    if (buffer.events.length > this.EVENT_BUFFER_SIZE) {
+      buffer.lastDroppedId = buffer.events.shift()!.id;
+    }
+    this.emit('stream-event', { streamingId, id, event });
+    return id;
+  }
+
+  /**
+   * Whether events after lastEventId were already dropped from the buffer
+   */
+  isReplayIncomplete(streamingId: string, lastEventId: number): boolean {
+    const buffer = this.eventBuffers.get(streamingId);
+    return !!buffer && buffer.lastDroppedId > lastEventId;
+  }
+
+  private scheduleBufferCleanup(streamingId: string): void {
+    clearTimeout(this.bufferCleanupTimers.get(streamingId));
+    const timer = setTimeout(() => {
+      this.eventBuffers.delete(streamingId);
+      this.bufferCleanupTimers.delete(streamingId);
+    }, this.CLOSED_BUFFER_RETENTION_MS);
+    timer.unref?.();
+    this.bufferCleanupTimers.set(streamingId, timer);
   }
 
   /**
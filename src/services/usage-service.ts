@@ -0,0 +1,459 @@
+import Database from 'better-sqlite3';
+import { EventEmitter } from 'events';
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  DEFAULT_MODEL_PRICES,
+  type ModelPrice,
+  type StreamEvent,
+  type TokenUsage,
+  type UsageBucket,
+  type UsageGroupBy,
+  type UsageQuery,
+  type UsageResponse,
+  type UsageTotals
+} from '@/types/index.js';
+import { ClaudeHistoryReader, type RawJsonEntry } from './claude-history-reader.js';
+import { SessionInfoService } from './session-info-service.js';
+import { ConfigService } from './config-service.js';
+import { createLogger, type Logger } from './logger.js';
+
+type UsageRecord = {
+  message_id: string;
+  session_id: string;
+  project_path: string;
+  model: string;
+  day: string;
+  timestamp: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  file_path: string;
+};
+
+type UsageRow = {
+  key: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  message_count: number;
+};
+
+// Only whitelisted columns are ever interpolated into the aggregation query
+const GROUP_BY_COLUMNS: Record<UsageGroupBy, string> = {
+  session: 'session_id',
+  project: 'project_path',
+  model: 'model',
+  day: 'day'
+};
+
+// Claude CLI writes this model for locally generated messages (e.g. API errors), they cost nothing
+const SYNTHETIC_MODEL = '<synthetic>';
+
+/**
+ * UsageService keeps per-response token usage in the session info database and
+ * aggregates it per session, working directory, model and day.
+ *
+ * Usage is recorded per assistant API response, keyed by the Anthropic message id, from
+ * two sources: live stream messages (so totals are current while a conversation runs)
+ * and the JSONL history files (so past conversations are included). Both sources report
+ * the same message ids, which keeps every response counted once. Costs are computed at
+ * query time so that price table changes apply to past usage as well.
+ */
+export class UsageService {
+  private logger: Logger;
+  private sessionInfoService: SessionInfoService;
+  private historyReader: ClaudeHistoryReader;
+  private configService: ConfigService;
+  private isInitialized = false;
+  private db!: Database.Database;
+  private refreshPromise: Promise<void> | null = null;
+  private upsertStatement: Database.Statement | null = null;
+  private workingDirectories: Map<string, string> = new Map(); // streamingId -> cwd
+
+  constructor(sessionInfoService: SessionInfoService, historyReader: ClaudeHistoryReader) {
+    this.logger = createLogger('UsageService');
+    this.sessionInfoService = sessionInfoService;
+    this.historyReader = historyReader;
+    this.configService = ConfigService.getInstance();
+  }
+
+  /**
+   * Create the usage tables. Must run after SessionInfoService.initialize()
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.db = this.sessionInfoService.getDatabase();
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS usage_records (
+          message_id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          project_path TEXT NOT NULL,
+          model TEXT NOT NULL,
+          day TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+          file_path TEXT NOT NULL DEFAULT ''
+        );
+        CREATE INDEX IF NOT EXISTS idx_usage_records_session ON usage_records(session_id);
+        CREATE INDEX IF NOT EXISTS idx_usage_records_day ON usage_records(day);
+        CREATE INDEX IF NOT EXISTS idx_usage_records_file ON usage_records(file_path);
+        CREATE TABLE IF NOT EXISTS usage_files (
+          file_path TEXT PRIMARY KEY,
+          mtime REAL NOT NULL
+        );
+      `);
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize usage tables', error);
+      throw new Error(`Usage service initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Start recording usage from messages of running conversations
+   */
+  listenToClaudeMessages(processManager: EventEmitter): void {
+    processManager.on('claude-message', ({ streamingId, message }: { streamingId: string; message: StreamEvent }) => {
+      try {
+        this.handleClaudeMessage(streamingId, message);
+      } catch (error) {
+        this.logger.warn('Failed to record usage from stream message', { streamingId, error });
+      }
+    });
+    processManager.on('process-closed', ({ streamingId }: { streamingId: string }) => {
+      this.workingDirectories.delete(streamingId);
+    });
+    this.logger.debug('Started listening to claude-message events');
+  }
+
+  /**
+   * Bring the usage records up to date with the JSONL files on disk
+   */
+  async refresh(): Promise<void> {
+    if (!this.isInitialized) {
+      return;
+    }
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    this.refreshPromise = this.executeRefresh();
+    try {
+      await this.refreshPromise;
+    } finally {
+      this.refreshPromise = null;
+    }
+  }
+
+  /**
+   * Aggregate usage matching the query, grouped by session, project, model or day.
+   * Pass refresh: false to skip re-reading changed history files when only live usage matters.
+   */
+  async getUsage(query: UsageQuery = {}, options: { refresh?: boolean } = {}): Promise<UsageResponse> {
+    const groupBy = query.groupBy ?? 'day';
+    const totals = this.emptyTotals();
+    if (!this.isInitialized) {
+      return { groupBy, buckets: [], totals };
+    }
+
+    if (options.refresh !== false) {
+      await this.refresh();
+    }
+
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+    if (query.from) {
+      conditions.push('day >= @from');
+      params.from = query.from;
+    }
+    if (query.to) {
+      conditions.push('day <= @to');
+      params.to = query.to;
+    }
+    if (query.projectPath) {
+      conditions.push('project_path = @projectPath');
+      params.projectPath = query.projectPath;
+    }
+    if (query.sessionId) {
+      conditions.push('session_id = @sessionId');
+      params.sessionId = query.sessionId;
+    }
+    if (query.sessionIds) {
+      const names = query.sessionIds.map((sessionId, index) => {
+        params[`sessionId${index}`] = sessionId;
+        return `@sessionId${index}`;
+      });
+      conditions.push(names.length > 0 ? `session_id IN (${names.join(', ')})` : '0');
+    }
+
+    const column = GROUP_BY_COLUMNS[groupBy];
+    const rows = this.db.prepare(`
+      SELECT
+        ${column} AS key,
+        model,
+        SUM(input_tokens) AS input_tokens,
+        SUM(output_tokens) AS output_tokens,
+        SUM(cache_creation_input_tokens) AS cache_creation_input_tokens,
+        SUM(cache_read_input_tokens) AS cache_read_input_tokens,
+        COUNT(*) AS message_count
+      FROM usage_records
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      GROUP BY ${column}, model
+    `).all(params) as UsageRow[];
+
+    // Prices depend on the model, so costs are added up per (key, model) pair
+    const prices = this.getPrices();
+    const buckets = new Map<string, UsageBucket>();
+    for (const row of rows) {
+      const usage: TokenUsage = {
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        cacheCreationInputTokens: row.cache_creation_input_tokens,
+        cacheReadInputTokens: row.cache_read_input_tokens
+      };
+      const costUsd = this.calculateCost(row.model, usage, prices);
+
+      let bucket = buckets.get(row.key);
+      if (!bucket) {
+        bucket = { key: row.key, ...this.emptyTotals() };
+        buckets.set(row.key, bucket);
+      }
+      this.addUsage(bucket, usage, costUsd, row.message_count);
+      this.addUsage(totals, usage, costUsd, row.message_count);
+    }
+
+    const sorted = Array.from(buckets.values()).sort((a, b) =>
+      groupBy === 'day' ? a.key.localeCompare(b.key) : b.costUsd - a.costUsd
+    );
+
+    return { groupBy, buckets: sorted, totals };
+  }
+
+  /**
+   * Effective price table: built-in defaults overridden by usage.prices from the config
+   */
+  getPrices(): Record<string, ModelPrice> {
+    try {
+      return { ...DEFAULT_MODEL_PRICES, ...(this.configService.getConfig().usage?.prices ?? {}) };
+    } catch (error) {
+      this.logger.debug('Configuration unavailable, using default prices', { error });
+      return { ...DEFAULT_MODEL_PRICES };
+    }
+  }
+
+  /**
+   * Cost of token usage in USD. Models without a matching price cost nothing.
+   */
+  calculateCost(model: string, usage: TokenUsage, prices: Record<string, ModelPrice> = this.getPrices()): number {
+    const price = this.findPrice(model, prices);
+    if (!price) {
+      return 0;
+    }
+    return (
+      usage.inputTokens * price.input +
+      usage.outputTokens * price.output +
+      usage.cacheCreationInputTokens * price.cacheWrite +
+      usage.cacheReadInputTokens * price.cacheRead
+    ) / 1_000_000;
+  }
+
+  /**
+   * Cost of a single assistant API response, messages without usage cost nothing
+   */
+  calculateMessageCost(message: Anthropic.Message | undefined): number {
+    if (!message?.usage || !message.model || message.model === SYNTHETIC_MODEL) {
+      return 0;
+    }
+    return this.calculateCost(message.model, {
+      inputTokens: message.usage.input_tokens || 0,
+      outputTokens: message.usage.output_tokens || 0,
+      cacheCreationInputTokens: message.usage.cache_creation_input_tokens || 0,
+      cacheReadInputTokens: message.usage.cache_read_input_tokens || 0
+    });
+  }
+
+  private findPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+    if (prices[model]) {
+      return prices[model];
+    }
+    const normalized = model.toLowerCase();
+    const key = Object.keys(prices)
+      .filter(candidate => normalized.includes(candidate.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    return key ? prices[key] : undefined;
+  }
+
+  private handleClaudeMessage(streamingId: string, message: StreamEvent): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    if (message.type === 'system' && message.subtype === 'init') {
+      this.workingDirectories.set(streamingId, message.cwd);
+      return;
+    }
+    if (message.type !== 'assistant') {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    const record = this.toRecord(message.message, {
+      sessionId: message.session_id,
+      projectPath: this.workingDirectories.get(streamingId) || '',
+      timestamp,
+      filePath: ''
+    });
+    if (record) {
+      this.upsertRecord(record);
+    }
+  }
+
+  private async executeRefresh(): Promise<void> {
+    const startTime = Date.now();
+    const indexedRows = this.db.prepare('SELECT file_path, mtime FROM usage_files').all() as Array<{ file_path: string; mtime: number }>;
+    const indexedModTimes = new Map(indexedRows.map(row => [row.file_path, row.mtime]));
+
+    const { changed, removed } = await this.historyReader.getChangedFiles(indexedModTimes);
+    if (changed.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    const deleteRecords = this.db.prepare('DELETE FROM usage_records WHERE file_path = ?');
+    const deleteFile = this.db.prepare('DELETE FROM usage_files WHERE file_path = ?');
+    const upsertFile = this.db.prepare(`
+      INSERT INTO usage_files (file_path, mtime) VALUES (@file_path, @mtime)
+      ON CONFLICT(file_path) DO UPDATE SET mtime = excluded.mtime
+    `);
+
+    let recordCount = 0;
+    const update = this.db.transaction(() => {
+      for (const filePath of removed) {
+        deleteRecords.run(filePath);
+        deleteFile.run(filePath);
+      }
+      for (const file of changed) {
+        deleteRecords.run(file.filePath);
+        for (const record of this.extractRecords(file.entries, file.filePath)) {
+          this.upsertRecord(record);
+          recordCount++;
+        }
+        upsertFile.run({ file_path: file.filePath, mtime: file.mtime });
+      }
+    });
+    update();
+
+    this.logger.debug('Usage records refreshed', {
+      changedFiles: changed.length,
+      removedFiles: removed.length,
+      recordCount,
+      elapsedMs: Date.now() - startTime
+    });
+  }
+
+  /**
+   * Collect one usage record per API response. Claude CLI writes a JSONL entry per
+   * content block of a response, all sharing the message id, the last one wins.
+   */
+  private extractRecords(entries: RawJsonEntry[], filePath: string): UsageRecord[] {
+    const records = new Map<string, UsageRecord>();
+
+    for (const entry of entries) {
+      if (entry.type !== 'assistant' || !entry.sessionId || !entry.message) {
+        continue;
+      }
+      const record = this.toRecord(entry.message as Anthropic.Message, {
+        sessionId: entry.sessionId,
+        projectPath: entry.cwd || '',
+        timestamp: entry.timestamp || new Date(0).toISOString(),
+        filePath
+      });
+      if (record) {
+        records.set(record.message_id, record);
+      }
+    }
+
+    return Array.from(records.values());
+  }
+
+  private toRecord(
+    message: Anthropic.Message | undefined,
+    source: { sessionId: string; projectPath: string; timestamp: string; filePath: string }
+  ): UsageRecord | null {
+    if (!message?.id || !message.usage || !message.model || message.model === SYNTHETIC_MODEL) {
+      return null;
+    }
+
+    return {
+      message_id: message.id,
+      session_id: source.sessionId,
+      project_path: source.projectPath,
+      model: message.model,
+      day: source.timestamp.substring(0, 10),
+      timestamp: source.timestamp,
+      input_tokens: message.usage.input_tokens || 0,
+      output_tokens: message.usage.output_tokens || 0,
+      cache_creation_input_tokens: message.usage.cache_creation_input_tokens || 0,
+      cache_read_input_tokens: message.usage.cache_read_input_tokens || 0,
+      file_path: source.filePath
+    };
+  }
+
+  /**
+   * Insert or update a record. Records read from a history file are never replaced by
+   * another file or a live message, live records are replaced by anything newer.
+   */
+  private upsertRecord(record: UsageRecord): void {
+    this.upsertStatement ??= this.db.prepare(`
+      INSERT INTO usage_records (
+        message_id, session_id, project_path, model, day, timestamp,
+        input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens, file_path
+      ) VALUES (
+        @message_id, @session_id, @project_path, @model, @day, @timestamp,
+        @input_tokens, @output_tokens, @cache_creation_input_tokens, @cache_read_input_tokens, @file_path
+      )
+      ON CONFLICT(message_id) DO UPDATE SET
+        session_id = excluded.session_id,
+        project_path = CASE WHEN excluded.project_path != '' THEN excluded.project_path ELSE usage_records.project_path END,
+        model = excluded.model,
+        day = excluded.day,
+        timestamp = excluded.timestamp,
+        input_tokens = excluded.input_tokens,
+        output_tokens = excluded.output_tokens,
+        cache_creation_input_tokens = excluded.cache_creation_input_tokens,
+        cache_read_input_tokens = excluded.cache_read_input_tokens,
+        file_path = excluded.file_path
+      WHERE usage_records.file_path = ''
+    `);
+    this.upsertStatement.run(record);
+  }
+
+  private emptyTotals(): UsageTotals {
+    return {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd: 0,
+      messageCount: 0
+    };
+  }
+
+  private addUsage(target: UsageTotals, usage: TokenUsage, costUsd: number, messageCount: number): void {
+    target.inputTokens += usage.inputTokens;
+    target.outputTokens += usage.outputTokens;
+    target.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+    target.cacheReadInputTokens += usage.cacheReadInputTokens;
+    target.costUsd += costUsd;
+    target.messageCount += messageCount;
+  }
+}
@@ -0,0 +1,181 @@
+import os from 'os';
+import path from 'path';
+import { mkdir } from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { CUIError, type FinishWorktreeResponse, type WorktreeAction } from '@/types/index.js';
+import { SessionInfoService } from './session-info-service.js';
+import { ConversationStatusManager } from './conversation-status-manager.js';
+import { createLogger, type Logger } from './logger.js';
+import { findRepositoryRoot, gitCommitEnv, runGit } from '@/utils/git.js';
+
+const BRANCH_PREFIX = 'cui';
+
+export interface Worktree {
+  path: string;               // Root of the worktree
+  branch: string;
+  workingDirectory: string;   // Requested working directory mapped into the worktree
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '') || 'task';
+}
+
+/**
+ * Runs conversations in their own git worktree and branch, so that agents working on the
+ * same repository do not edit the same checkout.
+ *
+ * Worktrees live under ~/.cui/worktrees/<repository>/ and are recorded on the session that
+ * runs in them. Finishing a worktree either merges its branch into the branch checked out
+ * in the main repository or discards it, and removes the worktree in both cases.
+ */
+export class WorktreeService {
+  private logger: Logger;
+  private sessionInfoService: SessionInfoService;
+  private conversationStatusManager: ConversationStatusManager;
+  private worktreesDir: string;
+
+  constructor(sessionInfoService: SessionInfoService, conversationStatusManager: ConversationStatusManager, worktreesDir?: string) {
+    this.logger = createLogger('WorktreeService');
+    this.sessionInfoService = sessionInfoService;
+    this.conversationStatusManager = conversationStatusManager;
+    this.worktreesDir = worktreesDir || path.join(os.homedir(), '.cui', 'worktrees');
+  }
+
+  /**
+   * Create a worktree on a new branch off the current HEAD of the repository containing the working directory
+   */
+  async createWorktree(workingDirectory: string, name: string): Promise<Worktree> {
+    const repository = await findRepositoryRoot(workingDirectory);
+    if (!repository) {
+      throw new CUIError('NOT_A_GIT_REPOSITORY', `${workingDirectory} is not in a git repository`, 400);
+    }
+
+    const slug = `${slugify(name)}-${uuidv4().slice(0, 8)}`;
+    const branch = `${BRANCH_PREFIX}/${slug}`;
+    const worktreePath = path.join(this.worktreesDir, path.basename(repository), slug);
+
+    await mkdir(path.dirname(worktreePath), { recursive: true });
+    try {
+      await runGit(repository, ['worktree', 'add', '-b', branch, worktreePath, 'HEAD']);
+    } catch (error) {
+      throw new CUIError('WORKTREE_CREATE_FAILED', `Failed to create worktree: ${this.gitError(error)}`, 500);
+    }
+
+    this.logger.info('Created worktree', { repository, worktreePath, branch });
+    return {
+      path: worktreePath,
+      branch,
+      workingDirectory: path.join(worktreePath, path.relative(repository, workingDirectory))
+    };
+  }
+
+  /**
+   * Remove a worktree and its branch, used when the conversation meant to run in it failed to start
+   */
+  async removeWorktree(worktree: Pick<Worktree, 'path' | 'branch'>): Promise<void> {
+    const repository = await this.getMainRepository(worktree.path);
+    await runGit(repository, ['worktree', 'remove', '--force', worktree.path]);
+    await runGit(repository, ['branch', '-D', worktree.branch]);
+    this.logger.info('Removed worktree', { worktreePath: worktree.path, branch: worktree.branch });
+  }
+
+  /**
+   * Merge or discard the worktree of a session. Uncommitted changes in the worktree are committed
+   * before merging. Merging is refused while the main checkout is in use, has uncommitted changes
+   * or has no branch checked out. A failed merge is aborted and leaves the worktree in place.
+   */
+  async finishWorktree(sessionId: string, action: WorktreeAction): Promise<FinishWorktreeResponse> {
+    const sessionInfo = await this.sessionInfoService.getSessionInfo(sessionId);
+    const { worktree_path: worktreePath, worktree_branch: branch } = sessionInfo;
+    if (!worktreePath || !branch) {
+      throw new CUIError('NO_WORKTREE', `Session ${sessionId} does not run in a worktree`, 404);
+    }
+    if (this.isDirectoryBusy(worktreePath)) {
+      throw new CUIError('CONVERSATION_RUNNING', 'Stop the conversations running in the worktree first', 409);
+    }
+
+    const repository = await this.getMainRepository(worktreePath);
+    let mergedInto: string | undefined;
+
+    if (action === 'merge') {
+      const currentBranch = await this.getMergeTarget(repository);
+      await this.commitPendingChanges(worktreePath, sessionInfo.custom_name || `Changes of session ${sessionId}`);
+      try {
+        await runGit(repository, ['merge', '--no-ff', '--no-edit', branch], gitCommitEnv());
+      } catch (error) {
+        await runGit(repository, ['merge', '--abort']).catch(() => undefined);
+        throw new CUIError('MERGE_FAILED', `Failed to merge ${branch} into ${currentBranch}: ${this.gitError(error)}`, 409);
+      }
+      mergedInto = currentBranch;
+      this.logger.info('Merged worktree branch', { sessionId, branch, mergedInto });
+    }
+
+    await this.removeWorktree({ path: worktreePath, branch });
+    await this.sessionInfoService.updateSessionInfo(sessionId, { worktree_path: '', worktree_branch: '' });
+
+    return { action, branch, worktreePath, mergedInto };
+  }
+
+  /**
+   * The branch checked out in the main repository, if it is safe to merge into
+   */
+  private async getMergeTarget(repository: string): Promise<string> {
+    if (this.isDirectoryBusy(repository)) {
+      throw new CUIError('CONVERSATION_RUNNING', 'Stop the conversations running in the main checkout before merging', 409);
+    }
+    // Untracked files are left to git, merge refuses to overwrite them
+    const { stdout: status } = await runGit(repository, ['status', '--porcelain', '--untracked-files=no']);
+    if (status.trim()) {
+      throw new CUIError('UNCOMMITTED_CHANGES', 'Commit or stash the changes in the main checkout before merging', 409);
+    }
+    const currentBranch = await runGit(repository, ['symbolic-ref', '--quiet', '--short', 'HEAD'])
+      .then(({ stdout }) => stdout.trim())
+      .catch(() => '');
+    if (!currentBranch) {
+      throw new CUIError('DETACHED_HEAD', 'Check out a branch in the main checkout before merging', 409);
+    }
+    return currentBranch;
+  }
+
+  private async commitPendingChanges(worktreePath: string, message: string): Promise<void> {
+    const { stdout: status } = await runGit(worktreePath, ['status', '--porcelain']);
+    if (!status.trim()) {
+      return;
+    }
+    await runGit(worktreePath, ['add', '--all']);
+    await runGit(worktreePath, ['commit', '--no-verify', '-m', message], gitCommitEnv());
+  }
+
+  /**
+   * The main working tree of the repository a worktree belongs to
+   */
+  private async getMainRepository(worktreePath: string): Promise<string> {
+    try {
+      const { stdout } = await runGit(worktreePath, ['rev-parse', '--path-format=absolute', '--git-common-dir']);
+      return path.dirname(stdout.trim());
+    } catch (error) {
+      throw new CUIError('WORKTREE_NOT_FOUND', `Worktree ${worktreePath} no longer exists: ${this.gitError(error)}`, 404);
+    }
+  }
+
+  private isDirectoryBusy(directory: string): boolean {
+    return this.conversationStatusManager.getActiveSessionIds().some(sessionId => {
+      const workingDirectory = this.conversationStatusManager.getConversationContext(sessionId)?.workingDirectory;
+      if (!workingDirectory) {
+        return false;
+      }
+      const relative = path.relative(directory, workingDirectory);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+  }
+
+  private gitError(error: unknown): string {
+    const stderr = (error as { stderr?: string })?.stderr?.trim();
+    return stderr || (error instanceof Error ? error.message : String(error));
+  }
+}
@@ -36,6 +36,235 @@ export interface InterfaceConfig {
   };
 }
 
+/**
+ * Declarative rule that decides a tool permission request without asking the user.
+ * Every condition that is set must match; unset conditions match anything.
+ */
+export interface PermissionRule {
+  /**
+   * Rule name, shown in the UI and audit log when the rule decides a request
+   */
+  name: string;
+
+  /**
+   * Decision applied when the rule matches
+   */
+  action: 'allow' | 'deny';
+
+  /**
+   * Tool names the rule applies to, '*' matches any tool
+   */
+  tools?: string[];
+
+  /**
+   * Gitignore-style globs relative to the session working directory,
+   * matched against file_path, path or notebook_path inputs.
+   * Paths outside the working directory never match.
+   */
+  paths?: string[];
+
+  /**
+   * Bash command prefixes, e.g. "npm test"
+   * Allow rules never match commands that chain or substitute other commands.
+   */
+  commandPrefixes?: string[];
+
+  /**
+   * Regular expression matched against Bash commands
+   */
+  commandPattern?: string;
+
+  /**
+   * Only apply to sessions in this working directory (default: all)
+   */
+  workingDirectory?: string;
+
+  /**
+   * Only apply to this Claude session (default: all)
+   */
+  sessionId?: string;
+
+  /**
+   * Message returned to Claude when a deny rule matches
+   */
+  denyReason?: string;
+}
+
+export interface PermissionsConfig {
+  /**
+   * Auto-approval and auto-denial rules, deny rules take precedence
+   */
+  rules?: PermissionRule[];
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/**
+ * Spending limit, every limit that is set applies
+ */
+export interface BudgetLimit {
+  /**
+   * Maximum cost in USD
+   */
+  maxCostUsd?: number;
+
+  /**
+   * Maximum input, cache write and output tokens (cache reads are not counted)
+   */
+  maxTokens?: number;
+}
+
+export interface BudgetsConfig {
+  /**
+   * Limit for a single Claude session
+   */
+  session?: BudgetLimit;
+
+  /**
+   * Limit for all conversations in one day (UTC)
+   */
+  day?: BudgetLimit;
+
+  /**
+   * Limits for conversations in a working directory in one day (UTC), keyed by absolute path
+   */
+  workingDirectories?: Record<string, BudgetLimit>;
+}
+
+export interface UsageConfig {
+  /**
+   * Prices per model, merged over the built-in defaults.
+   * A key matches a model id exactly or as a substring, the longest matching key wins,
+   * e.g. "sonnet" matches "claude-sonnet-4-20250514"
+   */
+  prices?: Record<string, ModelPrice>;
+
+  /**
+   * Limits that stop running conversations and refuse new ones once crossed
+   */
+  budgets?: BudgetsConfig;
+}
+
+export interface ProcessesConfig {
+  /**
+   * Maximum number of Claude CLI processes running at once, extra conversations are queued.
+   * 0 or unset means no limit.
+   */
+  maxConcurrent?: number;
+
+  /**
+   * Resume conversations interrupted by a server restart on startup (default: false).
+   * When disabled they are listed as interrupted and can be resumed from the UI.
+   */
+  autoResumeInterrupted?: boolean;
+}
+
+/**
+ * Saved prompt with {{variable}} placeholders, resolved when the prompt is sent
+ */
+export interface PromptTemplate {
+  /**
+   * Template name, shown in the Composer autocomplete
+   */
+  name: string;
+
+  /**
+   * Short description shown next to the name
+   */
+  description?: string;
+
+  /**
+   * Prompt text, e.g. "Review {{file}} on {{branch}}"
+   */
+  template: string;
+
+  /**
+   * Only offer the template in this working directory (default: all).
+   * Overrides a template with the same name that applies everywhere.
+   */
+  workingDirectory?: string;
+}
+
+export interface PromptsConfig {
+  templates?: PromptTemplate[];
+}
+
+/**
+ * Named bundle of conversation settings, e.g. a read-only reviewer.
+ * Settings chosen when starting a conversation override the profile.
+ */
+export interface AgentProfile {
+  /**
+   * Profile name, used to select the profile when starting a conversation
+   */
+  name: string;
+
+  /**
+   * Short description shown next to the name
+   */
+  description?: string;
+
+  model?: string;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  systemPrompt?: string;
+
+  /**
+   * "acceptEdits" | "bypassPermissions" | "default" | "plan"
+   */
+  permissionMode?: string;
+}
+
+export interface AgentsConfig {
+  profiles?: AgentProfile[];
+}
+
+/**
+ * MCP server attached to conversations started by CUI, either a local command (stdio)
+ * or a remote server reached over http or sse
+ */
+export interface MCPServerDefinition {
+  /**
+   * Server name, tools of the server are called mcp__<name>__<tool>
+   */
+  name: string;
+
+  /**
+   * Transport, defaults to 'stdio' for servers with a command and 'http' for servers with a url
+   */
+  type?: 'stdio' | 'http' | 'sse';
+
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+
+  url?: string;
+  headers?: Record<string, string>;
+
+  /**
+   * Only attach to conversations in this working directory (default: all).
+   * Overrides a server with the same name that applies everywhere.
+   */
+  workingDirectory?: string;
+
+  /**
+   * Set to false to keep the server without attaching it (default: true)
+   */
+  enabled?: boolean;
+}
+
+export interface MCPServersConfig {
+  servers?: MCPServerDefinition[];
+}
+
 export interface CUIConfig {
   /**
    * Unique machine identifier
@@ -69,6 +298,36 @@ export interface CUIConfig {
    * Interface preferences and settings
    */
   interface: InterfaceConfig;
+
+  /**
+   * Tool permission policies (optional)
+   */
+  permissions?: PermissionsConfig;
+
+  /**
+   * Token usage accounting settings (optional)
+   */
+  usage?: UsageConfig;
+
+  /**
+   * Claude process scheduling (optional)
+   */
+  processes?: ProcessesConfig;
+
+  /**
+   * Saved prompt templates (optional)
+   */
+  prompts?: PromptsConfig;
+
+  /**
+   * Agent profiles (optional)
+   */
+  agents?: AgentsConfig;
+
+  /**
+   * User MCP servers (optional)
+   */
+  mcp?: MCPServersConfig;
 }
 
 /**
@@ -83,4 +342,13 @@ export const DEFAULT_CONFIG: Omit<CUIConfig, 'machine_id' | 'authToken'> = {
     colorScheme: 'system',
     language: 'en'
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Built-in model prices in USD per million tokens, used unless overridden in usage.prices
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  opus: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  haiku: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }
+};
@@ -1,5 +1,6 @@
 // Core types and interfaces for CUI backend
 import Anthropic from '@anthropic-ai/sdk';
+import type { BudgetLimit, ModelPrice, PromptTemplate } from './config.js';
 
 // Tool metrics types
 export interface ToolMetrics {
@@ -20,11 +21,44 @@ export interface ConversationSummary {
   messageCount: number;
   totalDuration: number;
   model: string;
-  status: 'completed' | 'ongoing' | 'pending'; // Conversation status based on active streams
+  status: 'completed' | 'ongoing' | 'pending' | 'queued' | 'interrupted'; // Conversation status based on active streams
   streamingId?: string; // CUI's internal streaming ID (only present when status is 'ongoing')
+  queuePosition?: number; // 1-based position in the run queue (only present when status is 'queued')
   toolMetrics?: ToolMetrics; // Optional tool usage metrics
 }
 
+// Conversation export types
+export type ConversationExportFormat = 'md' | 'html' | 'json';
+
+export interface ConversationExportQuery {
+  format?: ConversationExportFormat; // Defaults to md
+}
+
+// Contents of a JSON export, can be imported on another machine
+export interface ConversationExportBundle {
+  format: 'cui-conversation';
+  version: 1;
+  exportedAt: string;
+  sessionId: string;
+  summary: string;
+  projectPath: string;
+  model: string;
+  sessionInfo: SessionInfo;
+  messages: ConversationMessage[];
+}
+
+export interface ConversationImportRequest {
+  content: string;        // Session JSONL file or JSON export bundle
+  projectPath?: string;   // Working directory to move the session to, defaults to the recorded one
+  overwrite?: boolean;    // Replace a session with the same ID, default: false
+}
+
+export interface ConversationImportResponse {
+  sessionId: string;
+  projectPath: string;
+  messageCount: number;
+}
+
 export interface ConversationMessage {
   uuid: string;
   type: 'user' | 'assistant' | 'system';
@@ -97,6 +131,55 @@ export interface PermissionRequest {
   status: 'pending' | 'approved' | 'denied';
   modifiedInput?: Record<string, unknown>;
   denyReason?: string;
+  decidedBy?: string; // Who made the decision (e.g. "user")
+  decidedAt?: string; // ISO timestamp when the decision was made
+  matchedRule?: string; // Name of the permission rule that decided the request automatically
+  grantScope?: PermissionGrantScope; // Session grant that approved the request automatically
+}
+
+// How far an approval reaches: this request only, the tool for the rest of the session,
+// or the exact Bash command for the rest of the session
+export type PermissionGrantScope = 'once' | 'tool' | 'command';
+
+export interface PermissionGrant {
+  scope: Exclude<PermissionGrantScope, 'once'>;
+  toolName: string;
+  command?: string; // Exact command for 'command' grants
+  grantedAt: string;
+}
+
+// Permission audit types
+export interface PermissionAuditEntry {
+  id: string; // Permission request ID
+  streamingId: string;
+  sessionId: string; // Claude CLI session ID, empty if unknown at decision time
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  modifiedInput?: Record<string, unknown>;
+  status: 'approved' | 'denied';
+  denyReason?: string;
+  decidedBy: string;
+  requestedAt: string;
+  decidedAt: string;
+  latencyMs: number; // Time between the request and the decision
+}
+
+export interface PermissionHistoryQuery {
+  sessionId?: string;
+  streamingId?: string;
+  toolName?: string;
+  status?: 'approved' | 'denied';
+  decidedBy?: string;
+  from?: string; // ISO timestamp, inclusive lower bound on decidedAt
+  to?: string; // ISO timestamp, inclusive upper bound on decidedAt
+  limit?: number;
+  offset?: number;
+  format?: 'json' | 'csv'; // When set, the response is sent as a file download
+}
+
+export interface PermissionHistoryResponse {
+  entries: PermissionAuditEntry[];
+  total: number;
 }
 
 // Configuration types
@@ -110,6 +193,7 @@ export interface ConversationConfig {
   claudeExecutablePath?: string;
   previousMessages?: ConversationMessage[]; // Messages from previous session for resume context
   permissionMode?: string; // Permission mode: "acceptEdits" | "bypassPermissions" | "default" | "plan"
+  agentProfile?: string; // Name of the agent profile supplying settings that are not set explicitly
 }
 
 // API request/response types
@@ -122,9 +206,23 @@ export interface StartConversationRequest {
   systemPrompt?: string;
   permissionMode?: string; // Permission mode: "acceptEdits" | "bypassPermissions" | "default" | "plan"
   resumedSessionId?: string; // Optional: session ID to resume from
+  priority?: number; // Queue priority when the concurrency limit is reached, higher starts first (default: 0)
+  worktree?: boolean; // Run in a new git worktree on its own branch instead of the working directory checkout
+  agentProfile?: string; // Name of an agent profile from the config, explicit settings take precedence
 }
 
 
+export interface ForkConversationRequest {
+  messageUuid: string; // Last message of the source session to keep in the fork
+  initialPrompt: string; // First message of the new branch
+  model?: string;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  systemPrompt?: string;
+  permissionMode?: string; // Defaults to the permission mode of the source session
+  priority?: number; // Queue priority when the concurrency limit is reached, higher starts first (default: 0)
+}
+
 export interface StartConversationResponse {
   streamingId: string; // CUI's internal streaming identifier for managing streaming connections
   streamUrl: string;
@@ -136,6 +234,72 @@ export interface StartConversationResponse {
   model: string; // Actual model being used
   permissionMode: string; // Permission handling mode
   apiKeySource: string; // API key source
+  worktreeBranch?: string; // Branch of the worktree the conversation runs in, when started with worktree
+}
+
+// Returned with status 202 instead of StartConversationResponse when the conversation has to wait for a free process slot
+export interface QueuedConversationResponse {
+  queued: true;
+  queueId: string; // Identifies the queue entry until the conversation starts
+  queuePosition: number; // 1-based
+}
+
+export interface QueuedConversation {
+  queueId: string;
+  position: number; // 1-based
+  priority: number;
+  enqueuedAt: string;
+  workingDirectory: string;
+  initialPrompt: string;
+  model?: string;
+  resumedSessionId?: string;
+}
+
+export interface QueuedConversationStatus {
+  queueId: string;
+  status: 'queued' | 'started' | 'failed' | 'cancelled';
+  position?: number; // While queued
+  streamingId?: string; // Once started
+  sessionId?: string; // Once started
+  error?: string; // When the conversation failed to start
+}
+
+export interface QueuedConversationsResponse {
+  queue: QueuedConversation[];
+  maxConcurrent: number; // 0 means no limit
+  running: number;
+}
+
+// A conversation that was still running when the CUI server stopped
+export interface InterruptedSession {
+  sessionId: string; // Latest Claude session of the conversation, resumed with --resume
+  streamingId: string; // Streaming ID of the interrupted run
+  workingDirectory: string;
+  model?: string;
+  permissionMode?: string;
+  lastUserMessage: string;
+  startedAt: string;
+  interruptedAt: string;
+}
+
+export interface InterruptedSessionsResponse {
+  sessions: InterruptedSession[];
+}
+
+// A message sent into a running conversation, delivered to Claude when its current turn ends
+export interface FollowUpMessage {
+  id: string;
+  streamingId: string;
+  message: string;
+  queuedAt: string;
+}
+
+export interface FollowUpMessageRequest {
+  message: string;
+}
+
+export interface MCPServerStatusResponse {
+  servers: SystemInitMessage['mcp_servers'];
 }
 
 export interface ConversationListQuery {
@@ -149,6 +313,45 @@ export interface ConversationListQuery {
   pinned?: boolean;
 }
 
+// Full-text search types
+export type ConversationSearchMatchKind = 'message' | 'tool_input' | 'tool_output';
+
+export interface ConversationSearchQuery {
+  q: string;
+  projectPath?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchSnippetSegment {
+  text: string;
+  highlight: boolean; // Whether the segment matched the query
+}
+
+export interface ConversationSearchMatch {
+  messageUuid: string;
+  kind: ConversationSearchMatchKind;
+  role: 'user' | 'assistant';
+  toolName?: string; // Tool the input or output belongs to
+  timestamp: string;
+  snippet: SearchSnippetSegment[];
+}
+
+export interface ConversationSearchResult {
+  sessionId: string;
+  projectPath: string;
+  summary: string;
+  customName: string;
+  updatedAt: string;
+  matchCount: number;
+  matches: ConversationSearchMatch[]; // Best matches of the session, best first
+}
+
+export interface ConversationSearchResponse {
+  results: ConversationSearchResult[];
+  total: number; // Number of matching sessions
+}
+
 export interface ConversationDetailsResponse {
   messages: ConversationMessage[];
   summary: string;
@@ -165,6 +368,7 @@ export interface PermissionDecisionRequest {
   action: 'approve' | 'deny';
   modifiedInput?: Record<string, unknown>;
   denyReason?: string;
+  scope?: PermissionGrantScope; // Optional: approve later matching requests in this session, default "once"
 }
 
 export interface PermissionDecisionResponse {
@@ -180,16 +384,52 @@ export interface SystemStatusResponse {
   machineId: string;
 }
 
+// Lightweight status of any running session, published on the /api/stream/all feed
+export interface SessionStatusEvent {
+  type: 'session_status';
+  status: 'started' | 'assistant' | 'permission_requested' | 'result' | 'closed';
+  streamingId: string;
+  sessionId?: string;
+  costUsd: number; // Cost of the session's responses so far
+  timestamp: string;
+  toolName?: string; // assistant: first tool used by the message, permission_requested: requested tool
+  permissionRequestId?: string;
+  resultSubtype?: ResultStreamMessage['subtype'];
+  isError?: boolean;
+}
+
 // Stream event types
 export type StreamEvent = 
-  | { type: 'connected'; streaming_id: string; timestamp: string }
+  | { type: 'connected'; streaming_id: string; timestamp: string; replay_incomplete?: boolean }
   | { type: 'permission_request'; data: PermissionRequest; streamingId: string; timestamp: string }
+  | { type: 'permission_auto_decided'; data: PermissionRequest; streamingId: string; timestamp: string }
   | { type: 'error'; error: string; streamingId: string; timestamp: string }
   | { type: 'closed'; streamingId: string; timestamp: string }
+  | { type: 'interrupted'; streamingId: string; timestamp: string } // Sent before closed when the user interrupted the turn
+  | { type: 'follow_up_queued'; data: FollowUpMessage; streamingId: string; timestamp: string }
+  | { type: 'follow_up_sent'; data: FollowUpMessage; streamingId: string; timestamp: string }
   | SystemInitMessage
   | AssistantStreamMessage
   | UserStreamMessage
-  | ResultStreamMessage;
+  | ResultStreamMessage
+  | SessionStatusEvent;
+
+// WebSocket protocol, requestId correlates a control message with its result or error
+export type WebSocketClientMessage =
+  | { type: 'subscribe'; streamingId: string; lastEventId?: number }
+  | { type: 'unsubscribe'; streamingId: string }
+  | { type: 'stop'; requestId?: string; streamingId: string }
+  | { type: 'interrupt'; requestId?: string; streamingId: string }
+  | { type: 'permission_decision'; requestId?: string; permissionRequestId: string; decision: PermissionDecisionRequest }
+  | { type: 'send_message'; requestId?: string; request: StartConversationRequest }
+  | { type: 'follow_up'; requestId?: string; streamingId: string; message: string };
+
+export type WebSocketServerMessage =
+  | { type: 'event'; streamingId: string; id: number; event: StreamEvent }
+  | { type: 'subscribed'; streamingId: string; replayIncomplete?: boolean }
+  | { type: 'unsubscribed'; streamingId: string }
+  | { type: 'result'; requestId?: string; result: { success: boolean } | PermissionDecisionResponse | StartConversationResponse | QueuedConversationResponse | FollowUpMessage }
+  | { type: 'error'; requestId?: string; code: string; error: string };
 
 // Error types
 export class CUIError extends Error {
@@ -242,6 +482,10 @@ export interface SessionInfo {
   continuation_session_id: string; // ID of the continuation session if exists, default: ""
   initial_commit_head: string;  // Git commit HEAD when session started, default: ""
   permission_mode: string;      // Permission mode used for the session, default: "default"
+  forked_from_session_id: string; // Session this session was forked from, default: ""
+  forked_from_message_uuid: string; // Message of the source session the fork starts after, default: ""
+  worktree_path: string;        // Git worktree the session runs in when started isolated, default: ""
+  worktree_branch: string;      // Branch checked out in the worktree, default: ""
 }
 
 
@@ -272,6 +516,207 @@ export interface SessionUpdateResponse {
   updatedFields: SessionInfo;    // Returns the complete updated session info
 }
 
+// Conversation fork tree types
+export interface ConversationForkNode {
+  sessionId: string;             // Latest session of the branch, used for navigation
+  sessionIds: string[];          // All sessions of the branch linked by continuations, oldest first
+  forkedFromSessionId?: string;  // Session of the parent branch the fork was created from
+  forkedFromMessageUuid?: string; // Message of the parent branch the fork starts after
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  children: ConversationForkNode[];
+}
+
+export interface ConversationForkTreeResponse {
+  root: ConversationForkNode;
+  currentSessionId: string;
+}
+
+// Git worktree types
+export type WorktreeAction = 'merge' | 'discard';
+
+export interface FinishWorktreeRequest {
+  action: WorktreeAction;
+}
+
+export interface FinishWorktreeResponse {
+  action: WorktreeAction;
+  branch: string;
+  worktreePath: string;
+  mergedInto?: string; // Branch of the main checkout the worktree branch was merged into
+}
+
+// Git checkpoint types
+export interface Checkpoint {
+  id: string;
+  sessionId: string;
+  streamingId: string;
+  commit: string;   // Snapshot of the working tree taken before the turn started
+  prompt: string;   // User message that started the turn
+  createdAt: string;
+}
+
+export interface CheckpointsResponse {
+  checkpoints: Checkpoint[];
+}
+
+export interface CheckpointFileChange {
+  path: string;     // Relative to the repository root
+  status: 'added' | 'modified' | 'deleted';
+}
+
+export interface SessionChangesResponse {
+  base: string;     // Commit the changes are compared against
+  repository: string; // Root of the repository, paths in files and diff are relative to it
+  files: CheckpointFileChange[];
+  diff: string;     // Unified diff
+}
+
+export interface DiscardHunkRequest {
+  sessionId: string;
+  workingDirectory?: string;
+  path: string;     // Relative to the repository root
+  hunk: string[];   // The @@ header followed by the lines of the hunk, as in the diff
+}
+
+export interface RevertCheckpointResponse {
+  checkpoint: Checkpoint;
+  backup: Checkpoint; // Snapshot taken right before the revert, reverting to it undoes the revert
+  files: CheckpointFileChange[];
+}
+
+// Token usage accounting types
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export type UsageGroupBy = 'session' | 'project' | 'model' | 'day';
+
+export interface UsageQuery {
+  groupBy?: UsageGroupBy;
+  from?: string; // First day to include (YYYY-MM-DD, UTC)
+  to?: string; // Last day to include (YYYY-MM-DD, UTC)
+  projectPath?: string;
+  sessionId?: string;
+  sessionIds?: string[]; // Any of these sessions, e.g. all sessions of a conversation that was resumed
+}
+
+export interface UsageTotals extends TokenUsage {
+  costUsd: number;
+  messageCount: number; // Assistant API responses counted
+}
+
+export interface UsageBucket extends UsageTotals {
+  key: string; // Session ID, project path, model or day depending on groupBy
+}
+
+export interface UsageResponse {
+  groupBy: UsageGroupBy;
+  buckets: UsageBucket[];
+  totals: UsageTotals;
+}
+
+export interface UsagePricesResponse {
+  prices: Record<string, ModelPrice>;
+}
+
+// Budget types
+export type BudgetScope = 'session' | 'workingDirectory' | 'day';
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  key: string; // Session ID, working directory or day
+  limit: BudgetLimit;
+  costUsd: number;
+  tokens: number; // Input, cache write and output tokens
+  exceeded: boolean;
+}
+
+export interface BudgetStatusResponse {
+  budgets: BudgetStatus[];
+}
+
+// Scheduled job types
+export type ScheduledRunStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type ScheduledRunTrigger = 'schedule' | 'manual' | 'retry';
+
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  cron: string;                 // Five field cron expression in server local time, or a macro such as @daily
+  prompt: string;               // Prompt template, {{date}}, {{time}} and {{job}} are replaced when the job runs
+  workingDirectory: string;
+  model?: string;
+  permissionMode?: string;
+  maxRetries: number;           // Attempts after a failed run before giving up
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt?: string;           // Unset while the job is disabled
+  lastRun?: ScheduledJobRun;
+}
+
+export interface ScheduledJobRun {
+  id: string;
+  jobId: string;
+  attempt: number;              // 1 for the first attempt, increased by each retry
+  trigger: ScheduledRunTrigger;
+  status: ScheduledRunStatus;
+  prompt: string;               // Rendered prompt the run started with
+  sessionId?: string;
+  streamingId?: string;
+  queueId?: string;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface ScheduledJobRequest {
+  name: string;
+  cron: string;
+  prompt: string;
+  workingDirectory: string;
+  model?: string;
+  permissionMode?: string;
+  maxRetries?: number;          // Default: 0
+  enabled?: boolean;            // Default: true
+}
+
+export type ScheduledJobUpdateRequest = Partial<ScheduledJobRequest>;
+
+export interface ScheduledJobsResponse {
+  jobs: ScheduledJob[];
+}
+
+export interface ScheduledJobRunsResponse {
+  runs: ScheduledJobRun[];
+}
+
+// Prompt template types
+export interface PromptTemplateInfo extends PromptTemplate {
+  variables: string[]; // Variables the user fills in, built-in variables excluded
+}
+
+export interface PromptTemplatesResponse {
+  templates: PromptTemplateInfo[];
+}
+
+export interface RenderPromptRequest {
+  template: string;
+  workingDirectory?: string;
+  variables?: Record<string, string>;
+  required?: string[]; // Variables that must have a value, others without one stay as written. Default: every variable used
+}
+
+export interface RenderPromptResponse {
+  prompt: string;
+}
+
 // Notification types
 export interface Notification {
   title: string;
@@ -297,16 +742,41 @@ export interface WorkingDirectoriesResponse {
 }
 
 // Commands API types
+export type CommandScope = 'user' | 'project';
+
 export interface Command {
   name: string;
   type: 'builtin' | 'custom';
   description?: string;
+  // Custom commands only, read from the .md file and its frontmatter
+  scope?: CommandScope;
+  namespace?: string; // Subdirectory of the commands directory, name is /<namespace>:<file>
+  argumentHint?: string;
+  allowedTools?: string[];
+  model?: string;
+  content?: string;
 }
 
 export interface CommandsResponse {
   commands: Command[];
 }
 
+export interface SaveCommandRequest {
+  name: string; // Without the leading /, subdirectories separated by :
+  scope: CommandScope;
+  workingDirectory?: string; // Required for project commands
+  description?: string;
+  argumentHint?: string;
+  allowedTools?: string[];
+  model?: string;
+  content: string;
+}
+
+export interface DeleteCommandQuery {
+  scope: CommandScope;
+  workingDirectory?: string;
+}
+
 
 // Gemini API types
 export interface GeminiHealthResponse {
@@ -0,0 +1,40 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Diffs of sessions that rewrote generated files can be large
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Run git without a shell, arguments are passed through verbatim
+ */
+export function runGit(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<{ stdout: string; stderr: string }> {
+  return execFileAsync('git', args, { cwd, env, maxBuffer: GIT_MAX_BUFFER });
+}
+
+/**
+ * Environment for git commands that create commits, so they do not fail on machines
+ * without a configured git identity
+ */
+export function gitCommitEnv(): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    GIT_AUTHOR_NAME: process.env.GIT_AUTHOR_NAME || 'CUI',
+    GIT_AUTHOR_EMAIL: process.env.GIT_AUTHOR_EMAIL || 'cui@localhost',
+    GIT_COMMITTER_NAME: process.env.GIT_COMMITTER_NAME || 'CUI',
+    GIT_COMMITTER_EMAIL: process.env.GIT_COMMITTER_EMAIL || 'cui@localhost'
+  };
+}
+
+/**
+ * Top level directory of the repository containing a directory, undefined outside of git repositories
+ */
+export async function findRepositoryRoot(directory: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await runGit(directory, ['rev-parse', '--show-toplevel']);
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
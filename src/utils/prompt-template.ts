@@ -0,0 +1,34 @@
+// {{name}} with optional whitespace inside the braces
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Names of the variables used in a template, in order of first use
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Replace {{variables}} with their values, placeholders without a value are kept as they are
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+}
+
+/**
+ * The prompt Claude receives for a custom slash command, the arguments replace every $ARGUMENTS
+ * or are appended when the command does not use it
+ */
+export function expandCommandArguments(content: string, args: string): string {
+  if (!args) return content;
+  if (content.includes('$ARGUMENTS')) {
+    return content.replaceAll('$ARGUMENTS', () => args);
+  }
+  return `${content}\n\nARGUMENTS: ${args}`;
+}
@@ -11,6 +11,7 @@ interface CodeHighlightProps {
   language: string;
   showLineNumbers?: boolean;
   className?: string;
+  lineClassNames?: string[]; // Extra classes per line, e.g. to mark added and removed lines of a diff
 }
 
 // Map our language identifiers to prism-react-renderer language names
@@ -213,6 +214,7 @@ export const CodeHighlight: React.FC<CodeHighlightProps> = ({
   language,
   showLineNumbers = false,
   className = '',
+  lineClassNames,
 }) => {
   const theme = useTheme();
   const currentTheme = theme.mode === 'dark' ? darkTheme : lightTheme;
@@ -267,7 +269,7 @@ export const CodeHighlight: React.FC<CodeHighlightProps> = ({
                 {linesToShow.map((line, i) => {
                   const { key, ...lineProps } = getLineProps({ line, key: i });
                   return (
-                    <div key={i} {...lineProps} className="table-row">
+                    <div key={i} {...lineProps} className={cn("table-row", lineClassNames?.[i])}>
                       {showLineNumbers && (
                         <span className="table-cell text-right pr-4 select-none text-neutral-500 dark:text-neutral-400 min-w-[2.5rem] bg-transparent">
                           {i + 1}
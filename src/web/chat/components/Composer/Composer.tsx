@@ -1,17 +1,19 @@
 import React, { useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
-import { ChevronDown, Mic, Send, Loader2, Sparkles, Laptop, Square, Check, X, MicOff, Zap, Bot, Drone, Code2, Gauge, Rocket, FileText } from 'lucide-react';
+import { ChevronDown, Mic, Send, Loader2, Sparkles, Laptop, Square, Check, CheckCheck, Terminal, X, MicOff, Zap, Bot, Drone, Code2, Gauge, Rocket, FileText, UserCog } from 'lucide-react';
 import { DropdownSelector, DropdownOption } from '../DropdownSelector';
 import { PermissionDialog } from '../PermissionDialog';
 import { WaveformVisualizer } from '../WaveformVisualizer';
 import { Button } from '../ui/button';
 import { Textarea } from '../ui/textarea';
+import { Input } from '../ui/input';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
-import type { PermissionRequest, Command } from '../../types';
+import type { PermissionRequest, PermissionGrantScope, Command, PromptTemplateInfo, AgentProfile } from '../../types';
 import type { KanbanTask } from '../../types/kanban';
 import { useLocalStorage } from '../../hooks/useLocalStorage';
 import { useAudioRecording } from '../../hooks/useAudioRecording';
 import { api } from '../../../chat/services/api';
 import { cn } from "../../lib/utils";
+import { expandCommandArguments, getTemplateVariables } from '@/utils/prompt-template';
 
 export interface FileSystemEntry {
   name: string;
@@ -19,11 +21,14 @@ export interface FileSystemEntry {
   depth: number;
 }
 
+// Prompt templates are offered next to slash commands
+type CommandSuggestion = Command | PromptTemplateInfo;
+
 interface AutocompleteState {
   isActive: boolean;
   triggerIndex: number;
   query: string;
-  suggestions: FileSystemEntry[] | Command[];
+  suggestions: FileSystemEntry[] | CommandSuggestion[];
   focusedIndex: number;
   type: 'file' | 'command';
 }
@@ -32,10 +37,11 @@ export interface ComposerProps {
   // Core functionality
   value?: string;
   onChange?: (value: string) => void;
-  onSubmit: (message: string, workingDirectory?: string, model?: string, permissionMode?: string, systemPrompt?: string) => void;
+  onSubmit: (message: string, workingDirectory?: string, model?: string, permissionMode?: string, systemPrompt?: string, agentProfile?: string) => void;
   placeholder?: string;
   isLoading?: boolean;
   disabled?: boolean;
+  allowSubmitWhileLoading?: boolean; // Messages sent while loading are queued by the caller
 
   // Feature flags
   showDirectorySelector?: boolean;
@@ -55,9 +61,12 @@ export interface ComposerProps {
   onModelChange?: (model: string) => void;
   availableModels?: string[];
 
+  // Agent profile selection, shown with the model selector when profiles exist
+  agentProfiles?: AgentProfile[];
+
   // Permission handling
   permissionRequest?: PermissionRequest | null;
-  onPermissionDecision?: (requestId: string, action: 'approve' | 'deny', denyReason?: string) => void;
+  onPermissionDecision?: (requestId: string, action: 'approve' | 'deny', denyReason?: string, scope?: PermissionGrantScope) => void;
 
   // Stop functionality
   onStop?: () => void;
@@ -70,6 +79,10 @@ export interface ComposerProps {
   availableCommands?: Command[];
   onFetchCommands?: (workingDirectory?: string) => Promise<Command[]>;
 
+  // Prompt templates, the {{variables}} of inserted templates are rendered before the message is submitted
+  onFetchPromptTemplates?: (workingDirectory?: string) => Promise<PromptTemplateInfo[]>;
+  onRenderPrompt?: (prompt: string, workingDirectory: string | undefined, variables: Record<string, string>, required: string[]) => Promise<string>;
+
   // Kanban task creation
   enableKanbanTaskCreation?: boolean;
   onTaskCreated?: (task: KanbanTask, sessionId?: string) => void;
@@ -78,6 +91,7 @@ export interface ComposerProps {
 
 export interface ComposerRef {
   focusInput: () => void;
+  setValue: (value: string) => void;
 }
 
 interface DirectoryDropdownProps {
@@ -224,8 +238,66 @@ function ModelDropdown({
   );
 }
 
+interface AgentProfileDropdownProps {
+  selectedProfile: string;
+  agentProfiles: AgentProfile[];
+  onProfileSelect: (profile: string) => void;
+}
+
+function AgentProfileDropdown({
+  selectedProfile,
+  agentProfiles,
+  onProfileSelect
+}: AgentProfileDropdownProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // An empty value starts the conversation without a profile
+  const options: DropdownOption<string>[] = [
+    { value: '', label: 'No profile' },
+    ...agentProfiles.map(profile => ({ value: profile.name, label: profile.name, description: profile.description }))
+  ];
+
+  return (
+    <DropdownSelector
+      options={options}
+      value={selectedProfile}
+      onChange={(value) => {
+        onProfileSelect(value);
+        setIsOpen(false);
+      }}
+      isOpen={isOpen}
+      onOpenChange={setIsOpen}
+      showFilterInput={false}
+      renderOption={(option) => (
+        <div className="flex flex-col items-start gap-0.5 w-full">
+          <span className="text-sm font-medium">{option.label}</span>
+          {option.description && (
+            <span className="text-xs text-muted-foreground/80">{option.description}</span>
+          )}
+        </div>
+      )}
+      renderTrigger={({ onClick }) => (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 text-muted-foreground hover:bg-muted/50 rounded-full"
+          onClick={onClick}
+          aria-label="Select agent profile"
+        >
+          <span className="flex items-center gap-1.5">
+            <UserCog size={14} />
+            <span className="block max-w-[128px] overflow-hidden text-ellipsis whitespace-nowrap">{selectedProfile || 'No profile'}</span>
+            <ChevronDown size={14} />
+          </span>
+        </Button>
+      )}
+    />
+  );
+}
+
 interface AutocompleteDropdownProps {
-  suggestions: FileSystemEntry[] | Command[];
+  suggestions: FileSystemEntry[] | CommandSuggestion[];
   onSelect: (path: string) => void;
   onClose: () => void;
   isOpen: boolean;
@@ -247,11 +319,19 @@ function AutocompleteDropdown({
 
   const options = suggestions.map((entry) => {
     if (type === 'command') {
-      const command = entry as Command;
+      const command = entry as CommandSuggestion;
+      if ('template' in command) {
+        return {
+          value: command.name,
+          label: command.name,
+          description: `Template${command.description ? ` · ${command.description}` : ''}`,
+          disabled: false
+        };
+      }
       return {
         value: command.name,
-        label: command.name,
-        description: command.description,
+        label: command.argumentHint ? `${command.name} ${command.argumentHint}` : command.name,
+        description: [command.description, command.scope && `(${command.scope})`].filter(Boolean).join(' ') || undefined,
         disabled: false
       };
     } else {
@@ -298,6 +378,7 @@ interface ComposerCache {
   selectedPermissionMode: string;
   draft: string;
   systemPrompt: string;
+  agentProfile?: string;
 }
 
 export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer({
@@ -307,6 +388,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
   placeholder = "Type a message...",
   isLoading = false,
   disabled = false,
+  allowSubmitWhileLoading = false,
   showDirectorySelector = false,
   showModelSelector = false,
   enableFileAutocomplete = false,
@@ -319,6 +401,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
   model = 'default',
   onModelChange,
   availableModels = ['default', 'opus', 'sonnet'],
+  agentProfiles = [],
   permissionRequest,
   onPermissionDecision,
   onStop,
@@ -326,6 +409,8 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
   onFetchFileSystem,
   availableCommands = [],
   onFetchCommands,
+  onFetchPromptTemplates,
+  onRenderPrompt,
   enableKanbanTaskCreation = false,
   onTaskCreated,
   kanbanDefaultPriority = 'medium',
@@ -351,10 +436,17 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
   const [selectedModel, setSelectedModel] = useState(model);
   const [selectedPermissionMode, setSelectedPermissionMode] = useState<string>(cachedState.selectedPermissionMode);
   const [systemPrompt, setSystemPrompt] = useState(cachedState.systemPrompt || '');
+  const [selectedAgentProfile, setSelectedAgentProfile] = useState(cachedState.agentProfile || '');
   const [showSystemPrompt, setShowSystemPrompt] = useState(false);
   const [isPermissionDropdownOpen, setIsPermissionDropdownOpen] = useState(false);
   const [localFileSystemEntries, setLocalFileSystemEntries] = useState<FileSystemEntry[]>(fileSystemEntries);
   const [localCommands, setLocalCommands] = useState<Command[]>(availableCommands);
+  const [localTemplates, setLocalTemplates] = useState<PromptTemplateInfo[]>([]);
+  // Set once a template is inserted, other text with braces like Vue or Handlebars code is sent as written
+  const [hasTemplate, setHasTemplate] = useState(false);
+  const [templateVariables, setTemplateVariables] = useState<string[]>([]);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [templateError, setTemplateError] = useState('');
   const [autocomplete, setAutocomplete] = useState<AutocompleteState>({
     isActive: false,
     triggerIndex: -1,
@@ -386,14 +478,17 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
     audioData
   } = useAudioRecording();
 
-  // Expose focusInput method via ref
+  // Expose focusInput and setValue methods via ref
   useImperativeHandle(ref, () => ({
     focusInput: () => {
       if (textareaRef.current) {
         textareaRef.current.focus();
       }
+    },
+    setValue: (newValue: string) => {
+      setValue(newValue);
     }
-  }), []);
+  }), [controlledValue, onControlledChange]);
 
   // Update local state when props change
   useEffect(() => {
@@ -426,8 +521,9 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
       selectedPermissionMode,
       draft: value,
       systemPrompt,
+      agentProfile: selectedAgentProfile,
     });
-  }, [selectedPermissionMode, value, systemPrompt, setCachedState]);
+  }, [selectedPermissionMode, value, systemPrompt, selectedAgentProfile, setCachedState]);
 
   // Auto-select most recent directory on mount (for Home usage)
   useEffect(() => {
@@ -470,16 +566,25 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
     }
   }, [selectedDirectory, enableFileAutocomplete, onFetchFileSystem]);
 
-  // Fetch commands when composer is focused (for autocomplete)
+  // Fetch commands and prompt templates when composer is focused (for autocomplete)
   useEffect(() => {
-    if (!onFetchCommands) return;
+    if (!onFetchCommands && !onFetchPromptTemplates) return;
 
     const fetchCommands = async () => {
-      try {
-        const commands = await onFetchCommands(selectedDirectory !== 'Select directory' ? selectedDirectory : undefined);
-        setLocalCommands(commands);
-      } catch (error) {
-        console.error('Failed to fetch commands:', error);
+      const directory = selectedDirectory !== 'Select directory' ? selectedDirectory : undefined;
+      if (onFetchCommands) {
+        try {
+          setLocalCommands(await onFetchCommands(directory));
+        } catch (error) {
+          console.error('Failed to fetch commands:', error);
+        }
+      }
+      if (onFetchPromptTemplates) {
+        try {
+          setLocalTemplates(await onFetchPromptTemplates(directory));
+        } catch (error) {
+          console.error('Failed to fetch prompt templates:', error);
+        }
       }
     };
 
@@ -492,7 +597,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
       textarea.addEventListener('focus', handleFocus);
       return () => textarea.removeEventListener('focus', handleFocus);
     }
-  }, [selectedDirectory, onFetchCommands]);
+  }, [selectedDirectory, onFetchCommands, onFetchPromptTemplates]);
 
   const detectAutocomplete = (value: string, cursorPosition: number) => {
     // Find the last @ before cursor
@@ -544,12 +649,12 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
       .slice(0, 50); // Limit to 50 results
   };
 
-  const filterCommandSuggestions = (query: string): Command[] => {
-    if (!localCommands) return []; // Return empty array if commands not loaded
-    if (!query) return localCommands.slice(0, 50); // Show first 50 commands when no query
+  const filterCommandSuggestions = (query: string): CommandSuggestion[] => {
+    const suggestions: CommandSuggestion[] = [...localCommands, ...localTemplates];
+    if (!query) return suggestions.slice(0, 50); // Show first 50 commands when no query
     
     const lowerQuery = query.toLowerCase();
-    return localCommands
+    return suggestions
       .filter(command => command.name.toLowerCase().includes(lowerQuery))
       .slice(0, 50); // Limit to 50 results
   };
@@ -606,9 +711,16 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
     const cursorPos = textareaRef.current.selectionStart;
     
     if (autocomplete.type === 'command') {
-      // For commands, replace the entire trigger sequence (including the /) with the selected command
-      const newText = value.substring(0, autocomplete.triggerIndex) + selection + ' ' + value.substring(cursorPos);
+      // For commands, replace the entire trigger sequence (including the /) with the selected command,
+      // templates are replaced with their text and ask for the values of their variables
+      const template = localTemplates.find(t => t.name === selection);
+      const insertion = template ? template.template : selection + ' ';
+      const newText = value.substring(0, autocomplete.triggerIndex) + insertion + value.substring(cursorPos);
       setValue(newText);
+      if (template) {
+        setHasTemplate(true);
+        setTemplateVariables(prev => [...prev, ...template.variables.filter(name => !prev.includes(name))]);
+      }
       
       // Reset autocomplete state immediately
       resetAutocomplete();
@@ -616,7 +728,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
       // Set cursor position after the inserted selection and adjust height
       setTimeout(() => {
         if (textareaRef.current) {
-          const newCursorPos = autocomplete.triggerIndex + selection.length + 1;
+          const newCursorPos = autocomplete.triggerIndex + insertion.length;
           textareaRef.current.setSelectionRange(newCursorPos, newCursorPos);
           textareaRef.current.focus();
           adjustTextareaHeight();
@@ -645,6 +757,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = e.target.value;
     setValue(newValue);
+    setTemplateError('');
     adjustTextareaHeight();
     
     // Detect autocomplete triggers
@@ -652,7 +765,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
     
     // Check for slash command autocomplete first (higher priority)
     const commandAutocompleteInfo = detectSlashCommandAutocomplete(newValue, cursorPos);
-    if (commandAutocompleteInfo && onFetchCommands) {
+    if (commandAutocompleteInfo && (onFetchCommands || onFetchPromptTemplates)) {
       const suggestions = filterCommandSuggestions(commandAutocompleteInfo.query);
       
       setAutocomplete(prev => ({
@@ -690,7 +803,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
     resetAutocomplete();
   };
 
-  const handleSubmit = (permissionMode: string) => {
+  const handleSubmit = async (permissionMode: string) => {
     if (isKanbanMode) {
       // Handle Kanban task creation
       const trimmedTitle = taskTitle.trim();
@@ -722,20 +835,37 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
     } else {
       // Handle regular chat submission
       const trimmedValue = value.trim();
-      if (!trimmedValue || isLoading) return;
+      if (!trimmedValue || (isLoading && !allowSubmitWhileLoading)) return;
 
       // For Home usage with directory/model
       if (showDirectorySelector && selectedDirectory === 'Select directory') return;
 
+      let message = trimmedValue;
+      if (onRenderPrompt && hasTemplate && getTemplateVariables(message).length > 0) {
+        try {
+          // Only the variables of inserted templates must have a value, other placeholders stay as written
+          const required = templateVariables.filter(name => getTemplateVariables(message).includes(name));
+          message = await onRenderPrompt(message, showDirectorySelector ? selectedDirectory : workingDirectory || undefined, templateValues, required);
+        } catch (error) {
+          setTemplateError(error instanceof Error ? error.message : 'Failed to render prompt');
+          return;
+        }
+      }
+
       onSubmit(
-        trimmedValue,
+        message,
         showDirectorySelector ? selectedDirectory : undefined,
         showModelSelector ? selectedModel : undefined,
         permissionMode,
-        systemPrompt.trim() || undefined
+        systemPrompt.trim() || undefined,
+        // A cached profile may have been removed from the config since
+        agentProfiles.some(profile => profile.name === selectedAgentProfile) ? selectedAgentProfile : undefined
       );
 
       setValue('');
+      setHasTemplate(false);
+      setTemplateVariables([]);
+      setTemplateValues({});
     }
 
     resetAutocomplete();
@@ -897,6 +1027,16 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
     }
   };
 
+  // Variables of inserted templates that are still in the message
+  const pendingVariables = templateVariables.filter(name => getTemplateVariables(value).includes(name));
+
+  // What Claude receives for a custom command at the start of the message, with its arguments filled in
+  const commandMatch = autocomplete.isActive ? null : value.match(/^(\/\S+)(?:\s+([\s\S]*))?$/);
+  const previewCommand = commandMatch
+    ? localCommands.find(command => command.type === 'custom' && command.content !== undefined && command.name === commandMatch[1])
+    : undefined;
+  const commandArguments = commandMatch?.[2]?.trim() ?? '';
+
   return (
     <form 
       ref={composerRef}
@@ -907,6 +1047,35 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
       }}
     >
       <div className="flex flex-col items-center justify-center w-full bg-transparent border border-border rounded-3xl shadow-sm cursor-text transition-all duration-300">
+        {(pendingVariables.length > 0 || templateError) && (
+          <div className="flex flex-wrap items-center gap-2 w-full px-5 pt-3">
+            {pendingVariables.map(name => (
+              <Input
+                key={name}
+                value={templateValues[name] || ''}
+                onChange={(e) => {
+                  setTemplateValues(prev => ({ ...prev, [name]: e.target.value }));
+                  setTemplateError('');
+                }}
+                placeholder={name}
+                aria-label={`Value for ${name}`}
+                className="h-8 w-40 text-xs"
+              />
+            ))}
+            {templateError && <span className="text-xs text-red-600 dark:text-red-400">{templateError}</span>}
+          </div>
+        )}
+        {previewCommand && (
+          <div className="w-full px-5 pt-3" aria-label={`Preview of ${previewCommand.name}`}>
+            <div className="text-xs text-muted-foreground mb-1">
+              {previewCommand.name}
+              {!commandArguments && previewCommand.argumentHint && <span className="ml-2 opacity-70">{previewCommand.argumentHint}</span>}
+            </div>
+            <div className="max-h-40 overflow-y-auto rounded-md bg-muted/50 px-3 py-2 text-xs text-foreground/80 whitespace-pre-wrap font-mono">
+              {expandCommandArguments(previewCommand.content!, commandArguments).trim()}
+            </div>
+          </div>
+        )}
         <div className="relative flex items-end w-full min-h-[73px]">
           <div className="relative flex flex-1 items-start mx-5 min-h-[73px]">
             {audioState === 'recording' || audioState === 'processing' ? (
@@ -926,7 +1095,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
                 onChange={handleTextChange}
                 onKeyDown={handleKeyDown}
                 rows={1}
-                disabled={(isLoading || disabled) && !(permissionRequest && showPermissionUI)}
+                disabled={((isLoading && !allowSubmitWhileLoading) || disabled) && !(permissionRequest && showPermissionUI)}
               />
             )}
             
@@ -966,6 +1135,15 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
                     />
                   )}
 
+                  {/* Agent Profile Selector */}
+                  {showModelSelector && agentProfiles.length > 0 && (
+                    <AgentProfileDropdown
+                      selectedProfile={selectedAgentProfile}
+                      agentProfiles={agentProfiles}
+                      onProfileSelect={setSelectedAgentProfile}
+                    />
+                  )}
+
                   {/* System Prompt Toggle */}
                   {showModelSelector && (
                     <TooltipProvider>
@@ -1092,6 +1270,42 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
                   <Check size={14} />
                   <span>Accept</span>
                 </Button>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        type="button"
+                        className="h-8 min-w-[60px] px-3 py-0.5 bg-blue-600/80 text-white hover:bg-blue-700 border-0 shadow-none rounded-full flex items-center gap-1.5"
+                        onClick={() => onPermissionDecision?.(permissionRequest.id, 'approve', undefined, 'tool')}
+                      >
+                        <CheckCheck size={14} />
+                        <span>Always</span>
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Allow {permissionRequest.toolName} for the rest of this session</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                {typeof permissionRequest.toolInput?.command === 'string' && (
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          type="button"
+                          className="h-8 min-w-[60px] px-3 py-0.5 bg-blue-600/80 text-white hover:bg-blue-700 border-0 shadow-none rounded-full flex items-center gap-1.5"
+                          onClick={() => onPermissionDecision?.(permissionRequest.id, 'approve', undefined, 'command')}
+                        >
+                          <Terminal size={14} />
+                          <span>Always this command</span>
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Allow this exact command for the rest of this session</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
                 <Button
                   type="button"
                   className="h-8 min-w-[60px] px-3 py-0.5 bg-muted text-muted-foreground hover:bg-muted/80 border-0 shadow-none rounded-full flex items-center gap-1.5"
@@ -1106,23 +1320,34 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
                 </Button>
               </div>
             ) : isLoading && showStopButton ? (
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      type="button"
-                      size="icon"
-                      className="w-8 h-8 hover:scale-[1.03] rounded-full"
-                      onClick={() => onStop?.()}
-                    >
-                      <Square size={18} />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Stop generation</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              <div className="flex items-center gap-2">
+                {allowSubmitWhileLoading && value.trim() && !disabled && (
+                  <Button
+                    type="button"
+                    className="h-8 px-3 rounded-full"
+                    onClick={() => handleSubmit(selectedPermissionMode)}
+                  >
+                    Queue
+                  </Button>
+                )}
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        type="button"
+                        size="icon"
+                        className="w-8 h-8 hover:scale-[1.03] rounded-full"
+                        onClick={() => onStop?.()}
+                      >
+                        <Square size={18} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Stop generation</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
             ) : audioState === 'idle' && (
               <div className="flex items-center gap-2">
                 {/* Combined Permission Mode Button with Dropdown */}
@@ -1296,7 +1521,7 @@ export const Composer = forwardRef<ComposerRef, ComposerProps>(function Composer
       )}
 
       {/* Autocomplete Dropdown */}
-      {(enableFileAutocomplete || onFetchCommands) && (
+      {(enableFileAutocomplete || onFetchCommands || onFetchPromptTemplates) && (
         <AutocompleteDropdown
           suggestions={autocomplete.suggestions}
           onSelect={handleAutocompleteSelection}
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, GitBranch } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/web/chat/components/ui/collapsible';
+import type { ConversationForkNode } from '../../types';
+
+interface ConversationBranchesProps {
+  root: ConversationForkNode;
+  currentSessionId: string;
+}
+
+function countBranches(node: ConversationForkNode): number {
+  return 1 + node.children.reduce((sum, child) => sum + countBranches(child), 0);
+}
+
+export function ConversationBranches({ root, currentSessionId }: ConversationBranchesProps) {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const renderNode = (node: ConversationForkNode, depth: number): React.ReactNode => {
+    const isCurrent = node.sessionIds.includes(currentSessionId);
+
+    return (
+      <li key={node.sessionId}>
+        <button
+          onClick={() => navigate(`/c/${node.sessionId}`)}
+          disabled={isCurrent}
+          className={`w-full flex items-center gap-2 py-1 pr-2 text-left text-sm rounded-md border-none bg-transparent ${
+            isCurrent ? 'text-foreground font-medium cursor-default' : 'text-muted-foreground cursor-pointer hover:bg-secondary hover:text-foreground'
+          }`}
+          style={{ paddingLeft: `${depth * 16 + 8}px` }}
+          aria-current={isCurrent ? 'page' : undefined}
+        >
+          <GitBranch size={13} className="flex-shrink-0" />
+          <span className="truncate">{node.title}</span>
+          <span className="ml-auto text-xs text-muted-foreground flex-shrink-0">
+            {new Date(node.updatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </span>
+        </button>
+        {node.children.length > 0 && (
+          <ul className="list-none m-0 p-0">
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border-b border-border/50 px-4 py-1">
+      <div className="max-w-3xl mx-auto w-full">
+        <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground border-none bg-transparent cursor-pointer py-1 hover:text-foreground">
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <GitBranch size={13} />
+          <span>{countBranches(root)} branches</span>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <ul className="list-none m-0 p-0 pb-2" aria-label="Conversation branches">
+            {renderNode(root, 0)}
+          </ul>
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
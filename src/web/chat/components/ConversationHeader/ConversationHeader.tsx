@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Archive, Check, X } from 'lucide-react';
+import { ArrowLeft, Archive, Check, Plug, X } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { api } from '../../services/api';
 import { Button } from '@/web/chat/components/ui/button';
 import { Input } from '@/web/chat/components/ui/input';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/web/chat/components/ui/tooltip';
 import { MoreOptionsMenu } from '../MoreOptionsMenu';
+import type { SystemInitMessage } from '../../types';
 
 interface ConversationHeaderProps {
   title: string;
@@ -21,11 +22,18 @@ interface ConversationHeaderProps {
       deletions: number;
     };
   };
+  mcpServers?: SystemInitMessage['mcp_servers'];
   onTitleUpdate?: (newTitle: string) => void;
   onPinToggle?: (isPinned: boolean) => void;
 }
 
-export function ConversationHeader({ title, sessionId, isArchived = false, isPinned = false, subtitle, onTitleUpdate, onPinToggle }: ConversationHeaderProps) {
+function mcpStatusClassName(status: string): string {
+  if (status === 'connected') return 'bg-green-500';
+  if (status === 'failed') return 'bg-red-500';
+  return 'bg-amber-500';
+}
+
+export function ConversationHeader({ title, sessionId, isArchived = false, isPinned = false, subtitle, mcpServers, onTitleUpdate, onPinToggle }: ConversationHeaderProps) {
   const navigate = useNavigate();
   const [isRenaming, setIsRenaming] = useState(false);
   const [newTitle, setNewTitle] = useState(title);
@@ -163,6 +171,27 @@ export function ConversationHeader({ title, sessionId, isArchived = false, isPin
         </div>
 
         <div className="flex items-center gap-1.5">
+          {mcpServers && mcpServers.length > 0 && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <div
+                  className="flex items-center gap-1.5 px-2 py-1 text-xs text-muted-foreground"
+                  aria-label={`MCP servers: ${mcpServers.map(server => `${server.name} ${server.status}`).join(', ')}`}
+                >
+                  <Plug size={16} className="flex-shrink-0" />
+                  {mcpServers.map(server => (
+                    <span key={server.name} className={`w-2 h-2 rounded-full ${mcpStatusClassName(server.status)}`} />
+                  ))}
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                {mcpServers.map(server => (
+                  <p key={server.name}>{server.name}: {server.status}</p>
+                ))}
+              </TooltipContent>
+            </Tooltip>
+          )}
+
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
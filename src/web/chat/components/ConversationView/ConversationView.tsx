@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Clock, GitBranch, X } from 'lucide-react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
 import { MessageList } from '../MessageList/MessageList';
 import { Composer, ComposerRef } from '@/web/chat/components/Composer';
 import { ConversationHeader } from '../ConversationHeader/ConversationHeader';
+import { ConversationBranches } from '../ConversationBranches/ConversationBranches';
+import { SessionChanges } from '../SessionChanges/SessionChanges';
 import { api } from '../../services/api';
 import { useStreaming, useConversationMessages } from '../../hooks';
-import type { ChatMessage, ConversationDetailsResponse, ConversationMessage, ConversationSummary } from '../../types';
+import type { ChatMessage, Checkpoint, ConversationDetailsResponse, ConversationForkTreeResponse, ConversationMessage, ConversationSummary, PermissionGrantScope, SystemInitMessage } from '../../types';
 
 export function ConversationView() {
   const { sessionId } = useParams<{ sessionId: string }>();
@@ -18,6 +21,10 @@ export function ConversationView() {
   const [isPermissionDecisionLoading, setIsPermissionDecisionLoading] = useState(false);
   const [conversationSummary, setConversationSummary] = useState<ConversationSummary | null>(null);
   const [currentWorkingDirectory, setCurrentWorkingDirectory] = useState<string>('');
+  const [forkTree, setForkTree] = useState<ConversationForkTreeResponse | null>(null);
+  const [forkFromMessageUuid, setForkFromMessageUuid] = useState<string | null>(null);
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [mcpServers, setMcpServers] = useState<SystemInitMessage['mcp_servers']>([]);
   const composerRef = useRef<ComposerRef>(null);
 
   // Use shared conversation messages hook
@@ -25,6 +32,7 @@ export function ConversationView() {
     messages,
     toolResults,
     currentPermissionRequest,
+    pendingFollowUps,
     childrenMessages,
     expandedTasks,
     clearMessages,
@@ -48,6 +56,9 @@ export function ConversationView() {
     onClosed: () => {
       setStreamingId(null);
     },
+    onInterrupted: () => {
+      composerRef.current?.focusInput();
+    },
   });
 
   // Clear navigation state to prevent issues on refresh
@@ -64,6 +75,7 @@ export function ConversationView() {
   useEffect(() => {
     // Clear streamingId when sessionId changes
     setStreamingId(null);
+    setForkFromMessageUuid(null);
     
     return () => {
       // Clear streaming when navigating away
@@ -95,6 +107,14 @@ export function ConversationView() {
           }
         }
         
+        // Load the branch tree, forks are optional so failures don't block the conversation
+        try {
+          setForkTree(await api.getConversationForks(sessionId));
+        } catch (forkError) {
+          console.warn('[ConversationView] Failed to fetch conversation forks:', forkError);
+          setForkTree(null);
+        }
+        
         // Check if this conversation has an active stream
         const conversationsResponse = await api.getConversations({ limit: 100 });
         const currentConversation = conversationsResponse.conversations.find(
@@ -147,6 +167,35 @@ export function ConversationView() {
     loadConversation();
   }, [sessionId, setAllMessages]);
 
+  // Checkpoints are taken at the start of every turn, reload them once a run ends
+  useEffect(() => {
+    if (!sessionId || streamingId) return;
+
+    api.getCheckpoints(sessionId)
+      .then(response => setCheckpoints(response.checkpoints))
+      .catch(checkpointError => {
+        console.warn('[ConversationView] Failed to fetch checkpoints:', checkpointError);
+        setCheckpoints([]);
+      });
+  }, [sessionId, streamingId]);
+
+  // MCP servers report their connection status once, when the conversation starts
+  useEffect(() => {
+    if (!streamingId) {
+      setMcpServers([]);
+      return;
+    }
+
+    api.getMCPServerStatus(streamingId)
+      .then(response => setMcpServers(response.servers))
+      .catch(statusError => {
+        console.warn('[ConversationView] Failed to fetch MCP server status:', statusError);
+        setMcpServers([]);
+      });
+  }, [streamingId]);
+
+  const checkpointsByMessageId = matchCheckpointsToMessages(messages, checkpoints);
+
   const { isConnected, disconnect } = useStreaming(streamingId, {
     onMessage: handleStreamMessage,
     onError: (err) => {
@@ -161,6 +210,24 @@ export function ConversationView() {
     setError(null);
 
     try {
+      if (forkFromMessageUuid) {
+        const response = await api.forkConversation(sessionId, {
+          messageUuid: forkFromMessageUuid,
+          initialPrompt: message,
+          model,
+          permissionMode
+        });
+        setForkFromMessageUuid(null);
+        navigate('queued' in response ? '/' : `/c/${response.sessionId}`);
+        return;
+      }
+
+      // Claude reads messages sent while it works once the current turn ends
+      if (streamingId) {
+        await api.sendFollowUpMessage(streamingId, message);
+        return;
+      }
+
       const response = await api.startConversation({
         resumedSessionId: sessionId,
         initialPrompt: message,
@@ -169,6 +236,12 @@ export function ConversationView() {
         permissionMode
       });
 
+      // Queued conversations have no session yet, the home task list shows their position
+      if ('queued' in response) {
+        navigate('/');
+        return;
+      }
+
       // Navigate immediately to the new session
       navigate(`/c/${response.sessionId}`);
     } catch (err: any) {
@@ -176,32 +249,56 @@ export function ConversationView() {
     }
   };
 
+  const handleForkMessage = (message: ChatMessage) => {
+    if (message.type === 'user') {
+      // Forking from a prompt branches off before it and lets the prompt be edited
+      if (!message.parentId) return;
+      setForkFromMessageUuid(message.parentId);
+      composerRef.current?.setValue(getMessageText(message));
+    } else {
+      setForkFromMessageUuid(message.id);
+    }
+    composerRef.current?.focusInput();
+  };
+
+  const handleRevertMessage = async (message: ChatMessage) => {
+    const checkpoint = checkpointsByMessageId.get(message.messageId);
+    if (!sessionId || !checkpoint) return;
+    if (!window.confirm('Revert all files to their state before this message? Current changes are kept in a checkpoint.')) {
+      return;
+    }
+
+    try {
+      await api.revertToCheckpoint(checkpoint.id);
+      setError(null);
+      setCheckpoints((await api.getCheckpoints(sessionId)).checkpoints);
+    } catch (err: any) {
+      setError(err.message || 'Failed to revert files');
+    }
+  };
+
   const handleStop = async () => {
     if (!streamingId) return;
 
     try {
-      // Call the API to stop the conversation
-      await api.stopConversation(streamingId);
-      
-      // Disconnect the streaming connection
-      disconnect();
-      
-      // Clear the streaming ID
-      setStreamingId(null);
-      
-      // Streaming has stopped
+      // Interrupt gracefully, the stream reports the interrupt and closes once the turn is saved
+      const { success } = await api.interruptConversation(streamingId);
+      if (!success) {
+        disconnect();
+        setStreamingId(null);
+      }
     } catch (err: any) {
-      console.error('Failed to stop conversation:', err);
-      setError(err.message || 'Failed to stop conversation');
+      console.error('Failed to interrupt conversation:', err);
+      setError(err.message || 'Failed to interrupt conversation');
     }
   };
 
-  const handlePermissionDecision = async (requestId: string, action: 'approve' | 'deny', denyReason?: string) => {
+  const handlePermissionDecision = async (requestId: string, action: 'approve' | 'deny', denyReason?: string, scope?: PermissionGrantScope) => {
     if (isPermissionDecisionLoading) return;
 
     setIsPermissionDecisionLoading(true);
     try {
-      await api.sendPermissionDecision(requestId, { action, denyReason });
+      await api.sendPermissionDecision(requestId, { action, denyReason, scope });
       // Clear the permission request after successful decision
       clearPermissionRequest();
     } catch (err: any) {
@@ -229,6 +326,7 @@ export function ConversationView() {
             deletions: conversationSummary.toolMetrics.linesRemoved
           } : undefined
         } : undefined}
+        mcpServers={mcpServers}
         onTitleUpdate={async (newTitle) => {
           // Update local state immediately for instant feedback
           setConversationTitle(newTitle);
@@ -272,6 +370,18 @@ export function ConversationView() {
         }}
       />
       
+      {sessionId && forkTree && forkTree.root.children.length > 0 && (
+        <ConversationBranches root={forkTree.root} currentSessionId={sessionId} />
+      )}
+
+      {sessionId && (checkpoints.length > 0 || conversationSummary?.sessionInfo.initial_commit_head) && (
+        <SessionChanges
+          sessionId={sessionId}
+          workingDirectory={conversationSummary?.projectPath}
+          refreshKey={`${streamingId}-${checkpoints.length}`}
+        />
+      )}
+
       {error && (
         <div 
           className="bg-red-500/10 border-b border-red-500 text-red-600 dark:text-red-400 px-4 py-2 text-sm text-center animate-in slide-in-from-top duration-300"
@@ -290,6 +400,9 @@ export function ConversationView() {
         onToggleTaskExpanded={toggleTaskExpanded}
         isLoading={isLoading}
         isStreaming={!!streamingId}
+        onForkMessage={handleForkMessage}
+        revertableMessageIds={new Set(checkpointsByMessageId.keys())}
+        onRevertMessage={handleRevertMessage}
       />
 
       <div 
@@ -297,13 +410,37 @@ export function ConversationView() {
         aria-label="Message composer section"
       >
         <div className="w-full max-w-3xl">
+          {forkFromMessageUuid && (
+            <div className="flex items-center gap-2 mb-2 px-3 py-1.5 text-xs text-muted-foreground bg-secondary rounded-lg" role="status">
+              <GitBranch size={13} />
+              <span className="flex-1">Forking from an earlier message. Your next message starts a new branch.</span>
+              <button
+                onClick={() => setForkFromMessageUuid(null)}
+                className="w-5 h-5 border-none bg-transparent text-muted-foreground cursor-pointer flex items-center justify-center p-0 hover:text-foreground"
+                aria-label="Cancel fork"
+              >
+                <X size={13} />
+              </button>
+            </div>
+          )}
+          {pendingFollowUps.length > 0 && (
+            <div className="flex flex-col items-end gap-1 mb-2" role="status" aria-label="Queued messages">
+              {pendingFollowUps.map(followUp => (
+                <div key={followUp.id} className="flex items-center gap-2 max-w-[80%] px-3 py-1.5 text-sm text-muted-foreground bg-secondary border border-dashed border-border rounded-xl">
+                  <Clock size={13} className="flex-shrink-0" />
+                  <span className="truncate">{followUp.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <Composer
             ref={composerRef}
             onSubmit={handleSendMessage}
             onStop={handleStop}
             onPermissionDecision={handlePermissionDecision}
             isLoading={isConnected || isPermissionDecisionLoading}
-            placeholder="Continue the conversation..."
+            allowSubmitWhileLoading={!!streamingId && !forkFromMessageUuid}
+            placeholder={forkFromMessageUuid ? "Start the new branch..." : streamingId ? "Queue a follow-up message..." : "Continue the conversation..."}
             permissionRequest={currentPermissionRequest}
             showPermissionUI={true}
             showStopButton={true}
@@ -332,6 +469,14 @@ export function ConversationView() {
                 return [];
               }
             }}
+            onFetchPromptTemplates={async (workingDirectory) => {
+              const response = await api.getPromptTemplates(workingDirectory || currentWorkingDirectory);
+              return response.templates;
+            }}
+            onRenderPrompt={async (template, workingDirectory, variables, required) => {
+              const response = await api.renderPrompt({ template, workingDirectory: workingDirectory || currentWorkingDirectory, variables, required });
+              return response.prompt;
+            }}
           />
         </div>
       </div>
@@ -340,6 +485,30 @@ export function ConversationView() {
   );
 }
 
+function getMessageText(message: ChatMessage): string {
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.filter((block: any) => block.type === 'text').map((block: any) => block.text).join('\n');
+}
+
+// Checkpoints only know the prompt that started their turn, pair them with user messages in order
+function matchCheckpointsToMessages(messages: ChatMessage[], checkpoints: Checkpoint[]): Map<string, Checkpoint> {
+  const matched = new Map<string, Checkpoint>();
+  let nextIndex = 0;
+  for (const checkpoint of checkpoints) {
+    const prompt = checkpoint.prompt.trim();
+    if (!prompt) continue;
+    const index = messages.findIndex((message, i) =>
+      i >= nextIndex && message.type === 'user' && getMessageText(message).trim() === prompt
+    );
+    if (index !== -1) {
+      matched.set(messages[index].messageId, checkpoint);
+      nextIndex = index + 1;
+    }
+  }
+  return matched;
+}
+
 // Helper function to convert API response to chat messages
 function convertToChatlMessages(details: ConversationDetailsResponse): ChatMessage[] {
   // Create a map for quick parent message lookup
@@ -360,6 +529,7 @@ function convertToChatlMessages(details: ConversationDetailsResponse): ChatMessa
       return {
         id: msg.uuid,
         messageId: msg.uuid, // For historical messages, use UUID as messageId
+        parentId: msg.parentUuid,
         type: msg.type as 'user' | 'assistant' | 'system',
         content: content,
         timestamp: msg.timestamp,
@@ -1,13 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Settings } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Settings, Upload } from 'lucide-react';
 import { useTheme } from '../../hooks/useTheme';
 import { PreferencesModal } from '../PreferencesModal/PreferencesModal';
+import { ImportConversationDialog } from './ImportConversationDialog';
 import { Button } from '@/web/chat/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/web/chat/components/ui/tooltip';
 
 export function Header() {
   const theme = useTheme();
+  const navigate = useNavigate();
   const [showPrefs, setShowPrefs] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   
   console.log('Header rendering, showPrefs:', showPrefs);
   
@@ -31,6 +35,26 @@ export function Header() {
         <div className="relative flex items-center justify-between w-full px-1 py-3">
           {/* Navigation */}
           <nav className="flex items-center gap-2 ml-auto">
+            {/* Import Button */}
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="relative w-[30px] h-[30px] rounded-full hover:bg-muted/50"
+                    aria-label="Import conversation"
+                    onClick={() => setShowImport(true)}
+                  >
+                    <Upload size={18} className="text-muted-foreground" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Import conversation</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+
             {/* Settings Button */}
             <TooltipProvider>
               <Tooltip>
@@ -54,6 +78,11 @@ export function Header() {
         </div>
       </header>
       {showPrefs && <PreferencesModal onClose={handleCloseSettings} />}
+      <ImportConversationDialog
+        open={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={(imported) => navigate(`/c/${imported.sessionId}`)}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -1,11 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { Search, X } from 'lucide-react';
 import { useConversations } from '../../contexts/ConversationsContext';
 import { api } from '../../services/api';
 import { Header } from './Header';
 import { Composer, ComposerRef } from '@/web/chat/components/Composer';
 import { TaskTabs } from './TaskTabs';
 import { TaskList } from './TaskList';
+import { SearchResults } from './SearchResults';
+import { UsageDashboard } from './UsageDashboard';
+import { Input } from '@/web/chat/components/ui/input';
+import type { AgentProfile } from '../../types';
 
 export function Home() {
   const navigate = useNavigate();
@@ -20,8 +25,10 @@ export function Home() {
     recentDirectories,
     getMostRecentWorkingDirectory
   } = useConversations();
-  const [activeTab, setActiveTab] = useState<'tasks' | 'history' | 'archive'>('tasks');
+  const [activeTab, setActiveTab] = useState<'tasks' | 'history' | 'archive' | 'usage'>('tasks');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [agentProfiles, setAgentProfiles] = useState<AgentProfile[]>([]);
   const conversationCountRef = useRef(conversations.length);
   const composerRef = useRef<ComposerRef>(null);
 
@@ -30,8 +37,14 @@ export function Home() {
     conversationCountRef.current = conversations.length;
   }, [conversations.length]);
 
+  useEffect(() => {
+    api.getConfig()
+      .then(config => setAgentProfiles(config.agents?.profiles ?? []))
+      .catch(() => setAgentProfiles([]));
+  }, []);
+
   // Get filter parameters based on active tab
-  const getFiltersForTab = (tab: 'tasks' | 'history' | 'archive') => {
+  const getFiltersForTab = (tab: 'tasks' | 'history' | 'archive' | 'usage') => {
     switch (tab) {
       case 'tasks':
         return { archived: false, hasContinuation: false };
@@ -62,6 +75,7 @@ export function Home() {
 
   // Reload conversations when tab changes
   useEffect(() => {
+    if (activeTab === 'usage') return;
     loadConversations(undefined, getFiltersForTab(activeTab));
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTab]);
@@ -97,7 +111,7 @@ export function Home() {
     ? conversations[0].projectPath 
     : undefined;
 
-  const handleComposerSubmit = async (text: string, workingDirectory: string, model: string, permissionMode: string, systemPrompt?: string) => {
+  const handleComposerSubmit = async (text: string, workingDirectory: string, model: string, permissionMode: string, systemPrompt?: string, agentProfile?: string) => {
     setIsSubmitting(true);
 
     try {
@@ -107,8 +121,17 @@ export function Home() {
         model: model === 'default' ? undefined : model,
         permissionMode: permissionMode === 'default' ? undefined : permissionMode,
         systemPrompt: systemPrompt && systemPrompt.trim() ? systemPrompt.trim() : undefined,
+        agentProfile,
       });
 
+      // At the process limit the task waits in the queue, which the task list shows
+      if ('queued' in response) {
+        setIsSubmitting(false);
+        setActiveTab('tasks');
+        loadConversations(undefined, getFiltersForTab('tasks'));
+        return;
+      }
+
       // Navigate to the conversation page
       navigate(`/c/${response.sessionId}`);
     } catch (error) {
@@ -161,6 +184,7 @@ export function Home() {
                   placeholder="Describe your task"
                   showDirectorySelector={true}
                   showModelSelector={true}
+                  agentProfiles={agentProfiles}
                   enableFileAutocomplete={true}
                   recentDirectories={recentDirectories}
                   getMostRecentWorkingDirectory={getMostRecentWorkingDirectory}
@@ -188,24 +212,63 @@ export function Home() {
                     const response = await api.getCommands(workingDirectory);
                     return response.commands;
                   }}
+                  onFetchPromptTemplates={async (workingDirectory) => {
+                    const response = await api.getPromptTemplates(workingDirectory);
+                    return response.templates;
+                  }}
+                  onRenderPrompt={async (template, workingDirectory, variables, required) => {
+                    const response = await api.renderPrompt({ template, workingDirectory, variables, required });
+                    return response.prompt;
+                  }}
                 />
               </div>
 
-              <TaskTabs 
-                activeTab={activeTab}
-                onTabChange={setActiveTab}
-              />
+              <div className="relative w-full mt-4">
+                <Search size={15} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground pointer-events-none" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') setSearchQuery('');
+                  }}
+                  placeholder="Search all conversations"
+                  className="pl-9 pr-9"
+                  aria-label="Search conversations"
+                />
+                {searchQuery && (
+                  <button
+                    onClick={() => setSearchQuery('')}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 w-6 h-6 border-none bg-transparent text-muted-foreground cursor-pointer flex items-center justify-center p-0 hover:text-foreground"
+                    aria-label="Clear search"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+
+              {!searchQuery.trim() && (
+                <TaskTabs 
+                  activeTab={activeTab}
+                  onTabChange={setActiveTab}
+                />
+              )}
             </div>
 
-            <TaskList 
-              conversations={conversations}
-              loading={loading}
-              loadingMore={loadingMore}
-              hasMore={hasMore}
-              error={error}
-              activeTab={activeTab}
-              onLoadMore={(filters) => loadMoreConversations(filters)}
-            />
+            {searchQuery.trim() ? (
+              <SearchResults query={searchQuery.trim()} />
+            ) : activeTab === 'usage' ? (
+              <UsageDashboard />
+            ) : (
+              <TaskList 
+                conversations={conversations}
+                loading={loading}
+                loadingMore={loadingMore}
+                hasMore={hasMore}
+                error={error}
+                activeTab={activeTab}
+                onLoadMore={(filters) => loadMoreConversations(filters)}
+              />
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Checkbox } from '../ui/checkbox';
+import { api } from '../../services/api';
+import type { ConversationImportResponse } from '../../types';
+
+interface ImportConversationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (imported: ConversationImportResponse) => void;
+}
+
+/**
+ * Upload a Claude session file or a JSON export, e.g. one a teammate handed over
+ */
+export function ImportConversationDialog({ open, onClose, onImported }: ImportConversationDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [projectPath, setProjectPath] = useState('');
+  const [overwrite, setOverwrite] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setFile(null);
+    setProjectPath('');
+    setOverwrite(false);
+    setError(null);
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const imported = await api.importConversation({
+        content: await file.text(),
+        projectPath: projectPath.trim() || undefined,
+        overwrite,
+      });
+      handleClose();
+      onImported(imported);
+    } catch (err: any) {
+      setError(err.message || 'Failed to import conversation');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import conversation</DialogTitle>
+          <DialogDescription>
+            Continue a session from another machine using its .jsonl session file or a JSON export.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="importFile">File</Label>
+            <Input
+              id="importFile"
+              type="file"
+              accept=".jsonl,.json,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="importProjectPath">Project path (optional)</Label>
+            <Input
+              id="importProjectPath"
+              value={projectPath}
+              onChange={(e) => setProjectPath(e.target.value)}
+              placeholder="Keep the path recorded in the session"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="importOverwrite"
+              checked={overwrite}
+              onCheckedChange={(checked) => setOverwrite(checked === true)}
+            />
+            <Label htmlFor="importOverwrite" className="text-sm font-normal">
+              Replace the session if it already exists
+            </Label>
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!file || isImporting}>
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MessageSquare, Terminal, FileOutput } from 'lucide-react';
+import { api } from '../../services/api';
+import type { ConversationSearchMatch, ConversationSearchResult, SearchSnippetSegment } from '../../types';
+
+interface SearchResultsProps {
+  query: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function getMatchIcon(match: ConversationSearchMatch) {
+  switch (match.kind) {
+    case 'tool_input':
+      return <Terminal size={13} />;
+    case 'tool_output':
+      return <FileOutput size={13} />;
+    default:
+      return <MessageSquare size={13} />;
+  }
+}
+
+function Snippet({ segments }: { segments: SearchSnippetSegment[] }) {
+  return (
+    <span className="break-words">
+      {segments.map((segment, index) => segment.highlight ? (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ))}
+    </span>
+  );
+}
+
+export function SearchResults({ query }: SearchResultsProps) {
+  const navigate = useNavigate();
+  const [results, setResults] = useState<ConversationSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.searchConversations({ q: query, limit: 50 });
+        if (!cancelled) {
+          setResults(response.results);
+          setTotal(response.total);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  if (error) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-8 text-sm text-red-500">
+        {error}
+      </div>
+    );
+  }
+
+  if (!loading && results.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-8 text-sm text-muted-foreground">
+        No conversations match "{query}"
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto" aria-label="Search results" aria-busy={loading}>
+      {total > 0 && (
+        <div className="px-4 pt-3 pb-1 text-xs text-muted-foreground">
+          {total} conversation{total !== 1 ? 's' : ''}
+        </div>
+      )}
+      <ul className="list-none m-0 p-0">
+        {results.map(result => (
+          <li key={result.sessionId}>
+            <button
+              onClick={() => navigate(`/c/${result.sessionId}`)}
+              className="w-full text-left border-none bg-transparent cursor-pointer px-4 py-3 rounded-lg hover:bg-secondary transition-colors"
+            >
+              <div className="flex items-baseline gap-2">
+                <span className="text-sm font-medium text-foreground truncate">
+                  {result.customName || result.summary}
+                </span>
+                <span className="ml-auto flex-shrink-0 text-xs text-muted-foreground">
+                  {result.projectPath.split('/').pop()} · {new Date(result.updatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </span>
+              </div>
+              <div className="mt-1 flex flex-col gap-1">
+                {result.matches.map(match => (
+                  <div key={`${match.messageUuid}-${match.kind}`} className="flex items-start gap-2 text-xs text-muted-foreground">
+                    <span className="mt-0.5 flex-shrink-0" title={match.toolName || match.role}>
+                      {getMatchIcon(match)}
+                    </span>
+                    <Snippet segments={match.snippet} />
+                  </div>
+                ))}
+                {result.matchCount > result.matches.length && (
+                  <span className="text-xs text-muted-foreground/70 pl-5">
+                    +{result.matchCount - result.matches.length} more matches
+                  </span>
+                )}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { StopCircle, Archive, Check, X } from 'lucide-react';
+import { StopCircle, Archive, Check, X, RotateCcw } from 'lucide-react';
 import { Button } from '@/web/chat/components/ui/button';
 import { Input } from '@/web/chat/components/ui/input';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/web/chat/components/ui/tooltip';
@@ -13,7 +13,8 @@ interface TaskItemProps {
   timestamp: string;
   projectPath: string;
   recentDirectories: Record<string, { lastDate: string; shortname: string }>;
-  status: 'ongoing' | 'completed' | 'error' | 'pending';
+  status: 'ongoing' | 'completed' | 'error' | 'pending' | 'queued' | 'interrupted';
+  queuePosition?: number;
   messageCount?: number;
   toolMetrics?: {
     linesAdded: number;
@@ -26,6 +27,7 @@ interface TaskItemProps {
   isPinned?: boolean;
   onClick: () => void;
   onCancel?: () => void;
+  onResume?: () => void;
   onArchive?: () => void;
   onUnarchive?: () => void;
   onNameUpdate?: () => void;
@@ -39,6 +41,7 @@ export function TaskItem({
   projectPath, 
   recentDirectories,
   status,
+  queuePosition,
   messageCount,
   toolMetrics,
   liveStatus,
@@ -47,6 +50,7 @@ export function TaskItem({
   isRenaming = false,
   onClick,
   onCancel,
+  onResume,
   onArchive,
   onUnarchive,
   onStartRename,
@@ -213,6 +217,89 @@ export function TaskItem({
             </div>
           )}
           
+          {status === 'queued' && (
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">
+                Queued{queuePosition !== undefined ? ` #${queuePosition}` : ''}
+              </span>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-6 h-6 rounded-full hover:bg-muted/50"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onCancel?.();
+                      }}
+                      aria-label="Cancel queued task"
+                      type="button"
+                    >
+                      <X size={20} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Cancel queued task</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
+          )}
+
+          {status === 'interrupted' && (
+            <div className="flex items-center gap-2">
+              <span className="text-amber-600 dark:text-amber-500">Interrupted</span>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-6 h-6 rounded-full hover:bg-muted/50"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onResume?.();
+                      }}
+                      aria-label="Resume task"
+                      type="button"
+                    >
+                      <RotateCcw size={18} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Resume task</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-6 h-6 rounded-full hover:bg-muted/50"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onCancel?.();
+                      }}
+                      aria-label="Dismiss interrupted task"
+                      type="button"
+                    >
+                      <X size={20} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Dismiss</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
+          )}
+
           {status === 'completed' && isHovered && (
             <div className="flex items-center gap-2">
               <TooltipProvider>
@@ -257,7 +344,7 @@ export function TaskItem({
             </div>
           )}
           
-          {status !== 'ongoing' && !isHovered && toolMetrics && (toolMetrics.linesAdded > 0 || toolMetrics.linesRemoved > 0) && (
+          {status !== 'ongoing' && status !== 'queued' && status !== 'interrupted' && !isHovered && toolMetrics && (toolMetrics.linesAdded > 0 || toolMetrics.linesRemoved > 0) && (
             <div className="flex items-center gap-2 text-xs">
               {toolMetrics.linesAdded > 0 && (
                 <span className="text-green-500 font-medium">+{toolMetrics.linesAdded}</span>
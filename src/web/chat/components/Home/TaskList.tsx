@@ -5,6 +5,8 @@ import type { ConversationSummary } from '../../types';
 import { useConversations } from '../../contexts/ConversationsContext';
 import { api } from '../../services/api';
 
+const QUEUE_REFRESH_INTERVAL_MS = 3000;
+
 interface TaskListProps {
   conversations: ConversationSummary[];
   loading: boolean;
@@ -48,12 +50,12 @@ export function TaskList({
     }
   };
 
-  const handleTaskClick = (sessionId: string) => {
-    // Don't navigate if this session is being renamed
-    if (renamingSessionId === sessionId) {
+  const handleTaskClick = (conversation: ConversationSummary) => {
+    // Don't navigate if this session is being renamed or has no session yet
+    if (renamingSessionId === conversation.sessionId || conversation.status === 'queued') {
       return;
     }
-    navigate(`/c/${sessionId}`);
+    navigate(`/c/${conversation.sessionId}`);
   };
 
   const handleCancelTask = (sessionId: string) => {
@@ -61,6 +63,37 @@ export function TaskList({
     console.log('Cancel task:', sessionId);
   };
 
+  const handleCancelQueuedTask = async (queueId: string) => {
+    try {
+      await api.cancelQueuedConversation(queueId);
+    } catch (error) {
+      console.error('Failed to cancel queued task:', error);
+    }
+    loadConversations(undefined, getFiltersForTab(activeTab));
+  };
+
+  const handleResumeInterruptedTask = async (sessionId: string) => {
+    try {
+      const response = await api.resumeInterruptedSession(sessionId);
+      if (!('queued' in response)) {
+        navigate(`/c/${response.sessionId}`);
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to resume interrupted task:', error);
+    }
+    loadConversations(undefined, getFiltersForTab(activeTab));
+  };
+
+  const handleDismissInterruptedTask = async (sessionId: string) => {
+    try {
+      await api.dismissInterruptedSession(sessionId);
+    } catch (error) {
+      console.error('Failed to dismiss interrupted task:', error);
+    }
+    loadConversations(undefined, getFiltersForTab(activeTab));
+  };
+
   const handleArchiveTask = async (sessionId: string) => {
     // Optimistically remove the item from the current view
     const element = document.querySelector(`[data-session-id="${sessionId}"]`) as HTMLElement;
@@ -124,8 +157,14 @@ export function TaskList({
     loadConversations(undefined, getFiltersForTab(activeTab));
   };
 
-  // Sort conversations: pinned items first, then by updatedAt
+  // Sort conversations: queued items first in queue order, then pinned items, then by updatedAt
   const sortedConversations = [...conversations].sort((a, b) => {
+    if (a.status === 'queued' || b.status === 'queued') {
+      if (a.status !== 'queued') return 1;
+      if (b.status !== 'queued') return -1;
+      return (a.queuePosition ?? 0) - (b.queuePosition ?? 0);
+    }
+
     // Pinned items come first
     if (a.sessionInfo.pinned && !b.sessionInfo.pinned) return -1;
     if (!a.sessionInfo.pinned && b.sessionInfo.pinned) return 1;
@@ -134,6 +173,16 @@ export function TaskList({
     return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
   });
 
+  // Refresh while conversations wait in the queue to follow their position and start
+  const hasQueued = conversations.some(conversation => conversation.status === 'queued');
+  useEffect(() => {
+    if (!hasQueued) return;
+    const interval = setInterval(() => {
+      loadConversations(undefined, getFiltersForTab(activeTab));
+    }, QUEUE_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasQueued, activeTab, loadConversations]);
+
   // Intersection Observer for infinite scrolling
   const handleIntersection = useCallback(
     (entries: IntersectionObserverEntry[]) => {
@@ -201,15 +250,25 @@ export function TaskList({
             projectPath={conversation.projectPath}
             recentDirectories={recentDirectories}
             status={conversation.status}
+            queuePosition={conversation.queuePosition}
             messageCount={conversation.messageCount}
             toolMetrics={conversation.toolMetrics}
             liveStatus={conversation.liveStatus}
             isArchived={activeTab === 'archive'}
             isPinned={conversation.sessionInfo.pinned}
-            onClick={() => handleTaskClick(conversation.sessionId)}
+            onClick={() => handleTaskClick(conversation)}
             onCancel={
               conversation.status === 'ongoing' 
                 ? () => handleCancelTask(conversation.sessionId)
+                : conversation.status === 'queued'
+                  ? () => handleCancelQueuedTask(conversation.sessionId)
+                  : conversation.status === 'interrupted'
+                    ? () => handleDismissInterruptedTask(conversation.sessionId)
+                    : undefined
+            }
+            onResume={
+              conversation.status === 'interrupted'
+                ? () => handleResumeInterruptedTask(conversation.sessionId)
                 : undefined
             }
             onArchive={
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { api } from '../../services/api';
+import type { BudgetStatus, UsageBucket, UsageResponse, UsageTotals } from '../../types';
+
+const RANGE_OPTIONS = [7, 30, 90];
+const TOP_SESSION_COUNT = 10;
+
+interface UsageData {
+  days: UsageResponse;
+  models: UsageResponse;
+  projects: UsageResponse;
+  sessions: UsageResponse;
+  budgets: BudgetStatus[];
+}
+
+// Usage days are UTC dates
+function toDay(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function getRangeDays(rangeDays: number): string[] {
+  const days: string[] = [];
+  const now = Date.now();
+  for (let i = rangeDays - 1; i >= 0; i--) {
+    days.push(toDay(new Date(now - i * 24 * 60 * 60 * 1000)));
+  }
+  return days;
+}
+
+function formatCost(costUsd: number): string {
+  return costUsd >= 100 ? `$${costUsd.toFixed(0)}` : `$${costUsd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col gap-1 p-3 rounded-lg border border-border/50">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <span className="text-lg font-semibold text-foreground">{value}</span>
+    </div>
+  );
+}
+
+function DailyCostChart({ buckets, rangeDays }: { buckets: UsageBucket[]; rangeDays: number }) {
+  const costByDay = new Map(buckets.map(bucket => [bucket.key, bucket.costUsd]));
+  const days = getRangeDays(rangeDays);
+  const maxCost = Math.max(...days.map(day => costByDay.get(day) || 0), 0.01);
+
+  return (
+    <div className="flex items-end gap-px h-32 w-full" role="img" aria-label="Daily cost chart">
+      {days.map(day => {
+        const cost = costByDay.get(day) || 0;
+        return (
+          <div key={day} className="flex-1 h-full flex items-end" title={`${day}: ${formatCost(cost)}`}>
+            <div
+              className="w-full rounded-t-sm bg-blue-500/80 hover:bg-blue-500 transition-colors"
+              style={{ height: `${(cost / maxCost) * 100}%`, minHeight: cost > 0 ? 2 : 0 }}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function BudgetList({ budgets }: { budgets: BudgetStatus[] }) {
+  return (
+    <section className="flex flex-col gap-2">
+      <h3 className="text-sm font-medium text-foreground">Budgets today</h3>
+      <ul className="list-none m-0 p-0 flex flex-col gap-3">
+        {budgets.map(budget => {
+          const costShare = budget.limit.maxCostUsd ? budget.costUsd / budget.limit.maxCostUsd : 0;
+          const tokenShare = budget.limit.maxTokens ? budget.tokens / budget.limit.maxTokens : 0;
+          const share = Math.min(Math.max(costShare, tokenShare), 1);
+          const usage = [
+            budget.limit.maxCostUsd !== undefined ? `${formatCost(budget.costUsd)} of ${formatCost(budget.limit.maxCostUsd)}` : null,
+            budget.limit.maxTokens !== undefined ? `${formatTokens(budget.tokens)} of ${formatTokens(budget.limit.maxTokens)} tokens` : null
+          ].filter(Boolean).join(' · ');
+
+          return (
+            <li key={`${budget.scope}-${budget.key}`} className="flex flex-col gap-1">
+              <div className="flex items-baseline gap-2 text-xs">
+                <span className="truncate text-foreground">
+                  {budget.scope === 'day' ? 'All projects' : budget.key.split('/').pop() || budget.key}
+                </span>
+                <span className={`ml-auto flex-shrink-0 ${budget.exceeded ? 'text-red-500 font-medium' : 'text-muted-foreground'}`}>
+                  {budget.exceeded ? 'Exceeded · ' : ''}{usage}
+                </span>
+              </div>
+              <div className="h-1.5 w-full rounded-full bg-secondary overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${budget.exceeded ? 'bg-red-500' : share > 0.8 ? 'bg-amber-500' : 'bg-green-500'}`}
+                  style={{ width: `${share * 100}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+function BreakdownList({
+  title,
+  buckets,
+  totals,
+  formatKey = (key: string) => key,
+  onSelect
+}: {
+  title: string;
+  buckets: UsageBucket[];
+  totals: UsageTotals;
+  formatKey?: (key: string) => string;
+  onSelect?: (key: string) => void;
+}) {
+  return (
+    <section className="flex flex-col gap-2">
+      <h3 className="text-sm font-medium text-foreground">{title}</h3>
+      {buckets.length === 0 ? (
+        <span className="text-xs text-muted-foreground">No usage in this period</span>
+      ) : (
+        <ul className="list-none m-0 p-0 flex flex-col gap-2">
+          {buckets.map(bucket => (
+            <li key={bucket.key}>
+              <button
+                onClick={onSelect ? () => onSelect(bucket.key) : undefined}
+                disabled={!onSelect}
+                className="w-full text-left border-none bg-transparent p-0 flex flex-col gap-1 enabled:cursor-pointer group"
+                title={`${formatTokens(bucket.inputTokens)} input · ${formatTokens(bucket.outputTokens)} output · ${formatTokens(bucket.cacheReadInputTokens)} cache read`}
+              >
+                <div className="flex items-baseline gap-2 text-xs">
+                  <span className="truncate text-foreground group-enabled:group-hover:underline">{formatKey(bucket.key) || 'Unknown'}</span>
+                  <span className="ml-auto flex-shrink-0 text-muted-foreground">{formatCost(bucket.costUsd)}</span>
+                </div>
+                <div className="h-1.5 w-full rounded-full bg-secondary overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-blue-500/80"
+                    style={{ width: `${totals.costUsd > 0 ? (bucket.costUsd / totals.costUsd) * 100 : 0}%` }}
+                  />
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export function UsageDashboard() {
+  const navigate = useNavigate();
+  const [rangeDays, setRangeDays] = useState(30);
+  const [data, setData] = useState<UsageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const from = getRangeDays(rangeDays)[0];
+
+    Promise.all([
+      api.getUsage({ groupBy: 'day', from }),
+      api.getUsage({ groupBy: 'model', from }),
+      api.getUsage({ groupBy: 'project', from }),
+      api.getUsage({ groupBy: 'session', from }),
+      api.getBudgets()
+    ])
+      .then(([days, models, projects, sessions, { budgets }]) => {
+        if (!cancelled) {
+          setData({ days, models, projects, sessions, budgets });
+          setError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load usage');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeDays]);
+
+  if (error) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-8 text-sm text-red-500">
+        {error}
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-8 text-sm text-muted-foreground">
+        Loading usage...
+      </div>
+    );
+  }
+
+  const totals = data.days.totals;
+
+  return (
+    <div className="flex-1 overflow-y-auto px-4 py-4 flex flex-col gap-6" aria-label="Usage dashboard">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Last</span>
+        {RANGE_OPTIONS.map(option => (
+          <button
+            key={option}
+            onClick={() => setRangeDays(option)}
+            className={`px-2 py-1 text-xs rounded-md border border-border/50 cursor-pointer ${
+              rangeDays === option ? 'bg-foreground text-background' : 'bg-transparent text-foreground hover:bg-secondary'
+            }`}
+            aria-pressed={rangeDays === option}
+          >
+            {option} days
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatCard label="Cost" value={formatCost(totals.costUsd)} />
+        <StatCard label="Input tokens" value={formatTokens(totals.inputTokens + totals.cacheCreationInputTokens)} />
+        <StatCard label="Output tokens" value={formatTokens(totals.outputTokens)} />
+        <StatCard label="Cache reads" value={formatTokens(totals.cacheReadInputTokens)} />
+      </div>
+
+      {data.budgets.length > 0 && <BudgetList budgets={data.budgets} />}
+
+      <section className="flex flex-col gap-2">
+        <h3 className="text-sm font-medium text-foreground">Daily cost</h3>
+        <DailyCostChart buckets={data.days.buckets} rangeDays={rangeDays} />
+      </section>
+
+      <BreakdownList title="By model" buckets={data.models.buckets} totals={totals} />
+      <BreakdownList
+        title="By project"
+        buckets={data.projects.buckets}
+        totals={totals}
+        formatKey={key => key.split('/').pop() || key}
+      />
+      <BreakdownList
+        title="Top sessions"
+        buckets={data.sessions.buckets.slice(0, TOP_SESSION_COUNT)}
+        totals={totals}
+        onSelect={sessionId => navigate(`/c/${sessionId}`)}
+      />
+    </div>
+  );
+}
@@ -5,7 +5,7 @@
  * Shows a quick overview and opens the detailed confirmation dialog.
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { AssignmentConfirmationDialog } from './AssignmentConfirmationDialog';
 import {
   Dialog,
@@ -17,6 +17,10 @@ import {
 } from '../ui/dialog';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { api } from '../../services/api';
+import type { AgentProfile } from '../../types';
 import type { KanbanTask } from '../../types/kanban';
 import { Sparkles, Bot } from 'lucide-react';
 
@@ -29,6 +33,15 @@ interface AssignTaskDialogProps {
 
 export function AssignTaskDialog({ task, open, onClose, onSuccess }: AssignTaskDialogProps) {
   const [showConfirmationDialog, setShowConfirmationDialog] = useState(false);
+  const [agentProfiles, setAgentProfiles] = useState<AgentProfile[]>([]);
+  const [agentProfile, setAgentProfile] = useState<string>('none');
+
+  useEffect(() => {
+    if (!open) return;
+    api.getConfig()
+      .then(config => setAgentProfiles(config.agents?.profiles ?? []))
+      .catch(() => setAgentProfiles([]));
+  }, [open]);
 
   const handleProceedToAssignment = () => {
     setShowConfirmationDialog(true);
@@ -89,6 +102,24 @@ export function AssignTaskDialog({ task, open, onClose, onSuccess }: AssignTaskD
               )}
             </div>
 
+            {/* Agent profile */}
+            {agentProfiles.length > 0 && (
+              <div className="space-y-1">
+                <Label htmlFor="assign-agent-profile">Agent profile</Label>
+                <Select value={agentProfile} onValueChange={setAgentProfile}>
+                  <SelectTrigger id="assign-agent-profile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No profile</SelectItem>
+                    {agentProfiles.map(profile => (
+                      <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Tags */}
             {task.tags.length > 0 && (
               <div className="flex flex-wrap gap-1">
@@ -132,6 +163,7 @@ export function AssignTaskDialog({ task, open, onClose, onSuccess }: AssignTaskD
           model: task.model,
           permissionMode: task.permissionMode
         }}
+        agentProfile={agentProfile === 'none' ? undefined : agentProfile}
         onSuccess={handleAssignmentSuccess}
       />
     </>
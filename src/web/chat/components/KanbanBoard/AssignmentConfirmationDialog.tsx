@@ -44,6 +44,7 @@ interface AssignmentConfirmationDialogProps {
     model?: string;
     permissionMode?: string;
   };
+  agentProfile?: string; // Agent profile the conversation starts with
   onSuccess?: (sessionId: string) => void;
 }
 
@@ -58,6 +59,7 @@ export function AssignmentConfirmationDialog({
   open,
   onClose,
   task,
+  agentProfile,
   onSuccess
 }: AssignmentConfirmationDialogProps) {
   const navigate = useNavigate();
@@ -166,9 +168,9 @@ export function AssignmentConfirmationDialog({
     setIsAssigning(true);
 
     try {
-      const sessionId = await assignTaskToAgent(task.id);
+      const sessionId = await assignTaskToAgent(task.id, { agentProfile });
 
-      if (assignmentMode === 'chat') {
+      if (assignmentMode === 'chat' && sessionId) {
         // Navigate directly to chat
         navigate(`/c/${sessionId}`);
         onClose();
@@ -178,7 +180,7 @@ export function AssignmentConfirmationDialog({
           onSuccess(sessionId);
         }
       } else {
-        // Run in background - close dialog and let user monitor in Kanban board
+        // Run in background (or wait in the queue) - close dialog and let user monitor in Kanban board
         onClose();
         // Do NOT call onSuccess for background mode - stay on Kanban board
       }
@@ -317,6 +319,14 @@ export function AssignmentConfirmationDialog({
                     <span className="font-medium">{getPermissionModeLabel(task.permissionMode)}</span>
                   </div>
 
+                  {agentProfile && (
+                    <div className="flex items-center gap-3">
+                      <Bot className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-sm">Agent Profile:</span>
+                      <span className="font-medium">{agentProfile}</span>
+                    </div>
+                  )}
+
                   {task.workingDirectory && (
                     <div className="flex items-center gap-3">
                       <FolderOpen className="w-4 h-4 text-muted-foreground" />
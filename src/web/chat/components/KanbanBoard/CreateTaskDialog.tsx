@@ -19,6 +19,7 @@ import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Textarea } from '../ui/textarea';
 import { Label } from '../ui/label';
+import { Checkbox } from '../ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -45,6 +46,7 @@ export function CreateTaskDialog({ open, onClose }: CreateTaskDialogProps) {
   const [permissionMode, setPermissionMode] = useState('default');
   const [systemPrompt, setSystemPrompt] = useState('');
   const [showSystemPrompt, setShowSystemPrompt] = useState(false);
+  const [useWorktree, setUseWorktree] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -148,7 +150,7 @@ export function CreateTaskDialog({ open, onClose }: CreateTaskDialogProps) {
         archived: false,
         compliance_requirements: [],
         notification_preferences: { email: true, slack: false },
-        custom_fields: {},
+        custom_fields: useWorktree ? { use_worktree: true } : {},
         integration_links: {},
         external_references: [],
         approval_chain: [],
@@ -176,6 +178,7 @@ export function CreateTaskDialog({ open, onClose }: CreateTaskDialogProps) {
       setPermissionMode('default');
       setSystemPrompt('');
       setShowSystemPrompt(false);
+      setUseWorktree(false);
 
       onClose();
     } catch (err: any) {
@@ -194,6 +197,7 @@ export function CreateTaskDialog({ open, onClose }: CreateTaskDialogProps) {
       setWorkingDirectory('');
       setModel('default');
       setPermissionMode('default');
+      setUseWorktree(false);
       setError(null);
       onClose();
     }
@@ -350,6 +354,16 @@ export function CreateTaskDialog({ open, onClose }: CreateTaskDialogProps) {
                   />
                 )}
               </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="useWorktree"
+                  checked={useWorktree}
+                  onCheckedChange={(checked) => setUseWorktree(checked === true)}
+                />
+                <Label htmlFor="useWorktree" className="text-sm font-normal">
+                  Run in an isolated git worktree on its own branch
+                </Label>
+              </div>
             </div>
 
             {/* Tags */}
@@ -287,7 +287,10 @@ export function KanbanBoard() {
   };
 
   const handleDoneClick = (task: Task) => {
-    markTaskAsDone(task.id);
+    // Merging the task's worktree can fail on conflicts, the task then stays where it is
+    markTaskAsDone(task.id).catch(err => {
+      console.error('Failed to mark task as done:', err);
+    });
   };
 
   const handleViewConversation = (task: Task) => {
@@ -82,6 +82,11 @@ export const TaskCard = memo(function TaskCard({
       icon: Clock,
       label: 'Idle',
     },
+    queued: {
+      color: 'bg-gray-100 text-gray-800',
+      icon: Clock,
+      label: 'Queued',
+    },
     working: {
       color: 'bg-blue-100 text-blue-800',
       icon: Activity,
@@ -131,17 +131,17 @@ export function TaskDetailsDialog({ task, open, onClose }: TaskDetailsDialogProp
     }
   };
 
-  const handleMarkAsDone = () => {
+  const handleMarkAsDone = async () => {
     if (!confirm('Mark this task as done? This will move it to the Done column.')) {
       return;
     }
 
     try {
-      markTaskAsDone(task.id);
+      await markTaskAsDone(task.id);
       onClose();
-    } catch (err) {
+    } catch (err: any) {
       console.error('Failed to mark task as done:', err);
-      alert('Failed to mark task as done');
+      alert(`Failed to mark task as done: ${err.message}`);
     }
   };
 
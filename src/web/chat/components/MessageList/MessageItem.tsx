@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Copy, Check, Code, Globe, Settings, FileText, Edit, Terminal, Search, List, CheckSquare, ExternalLink, Play, FileEdit, ClipboardList, Maximize2, Minimize2 } from 'lucide-react';
+import { Copy, Check, Code, Globe, Settings, FileText, Edit, Terminal, Search, List, CheckSquare, ExternalLink, Play, FileEdit, ClipboardList, Maximize2, Minimize2, ShieldCheck, GitBranch, Undo2 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { JsonViewer } from '../JsonViewer/JsonViewer';
 import { ToolUseRenderer } from '../ToolRendering/ToolUseRenderer';
@@ -16,6 +16,8 @@ interface MessageItemProps {
   isFirstInGroup?: boolean;
   isLastInGroup?: boolean;
   isStreaming?: boolean;
+  onFork?: (message: ChatMessage) => void;
+  onRevert?: (message: ChatMessage) => void;
 }
 
 function getToolIcon(toolName: string) {
@@ -82,7 +84,9 @@ export function MessageItem({
   onToggleTaskExpanded,
   isFirstInGroup = true, 
   isLastInGroup = true,
-  isStreaming = false
+  isStreaming = false,
+  onFork,
+  onRevert
 }: MessageItemProps) {
   const [copiedBlocks, setCopiedBlocks] = useState<Set<string>>(new Set());
   const [isUserMessageExpanded, setIsUserMessageExpanded] = useState(false);
@@ -103,6 +107,28 @@ export function MessageItem({
     }
   };
 
+  const renderForkButton = (className: string) => (
+    <button
+      onClick={() => onFork?.(message)}
+      className={`w-6 h-6 border-none bg-transparent text-muted-foreground cursor-pointer flex items-center justify-center p-0 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:text-foreground ${className}`}
+      aria-label="Fork from here"
+      title="Fork from here"
+    >
+      <GitBranch size={14} />
+    </button>
+  );
+
+  const renderRevertButton = (className: string) => (
+    <button
+      onClick={() => onRevert?.(message)}
+      className={`w-6 h-6 border-none bg-transparent text-muted-foreground cursor-pointer flex items-center justify-center p-0 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:text-foreground ${className}`}
+      aria-label="Revert files to before this message"
+      title="Revert files to before this message"
+    >
+      <Undo2 size={14} />
+    </button>
+  );
+
   // Handle user messages
   if (message.type === 'user') {
     const content = typeof message.content === 'string' 
@@ -118,7 +144,10 @@ export function MessageItem({
     const displayContent = displayLines.join('\n');
     
     return (
-      <div className="flex justify-end w-full my-1">
+      <div className="group flex justify-end items-start gap-1 w-full my-1">
+        {/* Forking from a prompt keeps the history before it so the prompt can be edited */}
+        {onFork && message.parentId && !isStreaming && renderForkButton('mt-2')}
+        {onRevert && !isStreaming && renderRevertButton('mt-2')}
         <div className="relative bg-card text-card-foreground border border-border rounded-xl p-3 max-w-[80%] min-w-[100px]">
           {shouldShowExpandButton && (
             <button
@@ -242,8 +271,21 @@ export function MessageItem({
     };
 
     return (
-      <div className="relative w-full flex flex-col gap-3 my-1">
+      <div className="group relative w-full flex flex-col gap-3 my-1">
         {renderContent()}
+        {onFork && message.parentId && !isStreaming && renderForkButton('absolute right-0 top-0 bg-background rounded')}
+      </div>
+    );
+  }
+
+  // Handle system notices (e.g. permissions decided by rules)
+  if (message.type === 'system') {
+    return (
+      <div className="w-full my-1">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <ShieldCheck size={13} />
+          <span>{String(message.content)}</span>
+        </div>
       </div>
     );
   }
@@ -10,6 +10,10 @@ export interface MessageListProps {
   onToggleTaskExpanded?: (toolUseId: string) => void;
   isLoading?: boolean;
   isStreaming?: boolean;
+  onForkMessage?: (message: ChatMessage) => void;
+  // Messages with a checkpoint of the working tree taken before them
+  revertableMessageIds?: Set<string>;
+  onRevertMessage?: (message: ChatMessage) => void;
 }
 
 export const MessageList: React.FC<MessageListProps> = ({ 
@@ -19,7 +23,10 @@ export const MessageList: React.FC<MessageListProps> = ({
   expandedTasks = new Set(), 
   onToggleTaskExpanded,
   isLoading, 
-  isStreaming
+  isStreaming,
+  onForkMessage,
+  revertableMessageIds,
+  onRevertMessage
 }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -79,6 +86,8 @@ export const MessageList: React.FC<MessageListProps> = ({
                 isFirstInGroup={messageIndex === 0}
                 isLastInGroup={messageIndex === group.messages.length - 1}
                 isStreaming={isStreaming}
+                onFork={onForkMessage}
+                onRevert={revertableMessageIds?.has(message.messageId) ? onRevertMessage : undefined}
               />
             ))}
             {((groupIndex < messageGroups.length - 1 && 
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Ellipsis, Edit2, Pin, Bell, BellOff, PinOff } from 'lucide-react';
+import { Ellipsis, Edit2, Pin, Bell, BellOff, PinOff, Download } from 'lucide-react';
 import { Button } from '@/web/chat/components/ui/button';
 import { Input } from '@/web/chat/components/ui/input';
 import {
@@ -9,6 +9,13 @@ import {
 } from '@/web/chat/components/ui/popover';
 import { api } from '../services/api';
 import { cn } from '../lib/utils';
+import type { ConversationExportFormat } from '../types';
+
+const EXPORT_FORMATS: Array<{ format: ConversationExportFormat; label: string }> = [
+  { format: 'md', label: 'Export as Markdown' },
+  { format: 'html', label: 'Export as HTML' },
+  { format: 'json', label: 'Export as JSON' },
+];
 
 interface MoreOptionsMenuProps {
   sessionId: string;
@@ -67,6 +74,21 @@ export function MoreOptionsMenu({
     }
   };
 
+  const handleExport = async (format: ConversationExportFormat) => {
+    try {
+      const { blob, filename } = await api.exportConversation(sessionId, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to export conversation:', error);
+    }
+  };
+
   return (
     <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger asChild>
@@ -117,6 +139,19 @@ export function MoreOptionsMenu({
             {localIsNotificationsEnabled ? <BellOff size={14} /> : <Bell size={14} />}
             {localIsNotificationsEnabled ? 'Mute' : 'Notify me'}
           </Button>
+
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <Button
+              key={format}
+              variant="ghost"
+              size="sm"
+              onClick={() => handleExport(format)}
+              className="w-full justify-start gap-3 h-9 px-3 text-sm font-normal text-foreground hover:bg-muted/50 rounded-lg"
+            >
+              <Download size={14} />
+              {label}
+            </Button>
+          ))}
         </div>
       </PopoverContent>
     </Popover>
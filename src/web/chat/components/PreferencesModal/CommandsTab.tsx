@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { api } from '../../services/api';
+import type { Command, CommandScope, SaveCommandRequest } from '../../types';
+
+// Form state, allowed tools are comma separated like in the frontmatter
+interface CommandDraft {
+  name: string;
+  scope: CommandScope;
+  description: string;
+  argumentHint: string;
+  allowedTools: string;
+  content: string;
+}
+
+const EMPTY_DRAFT: CommandDraft = {
+  name: '',
+  scope: 'user',
+  description: '',
+  argumentHint: '',
+  allowedTools: '',
+  content: '',
+};
+
+function toDraft(command: Command): CommandDraft {
+  return {
+    name: command.name.replace(/^\//, ''),
+    scope: command.scope ?? 'user',
+    description: command.description ?? '',
+    argumentHint: command.argumentHint ?? '',
+    allowedTools: (command.allowedTools ?? []).join(', '),
+    content: command.content ?? '',
+  };
+}
+
+export function CommandsTab() {
+  const [workingDirectory, setWorkingDirectory] = useState('');
+  const [commands, setCommands] = useState<Command[]>([]);
+  // Command being edited, null for a new one
+  const [editing, setEditing] = useState<Command | null>(null);
+  const [draft, setDraft] = useState<CommandDraft | null>(null);
+  const [error, setError] = useState('');
+
+  const loadCommands = async () => {
+    try {
+      const response = await api.getCommands(workingDirectory.trim() || undefined);
+      setCommands(response.commands.filter(command => command.type === 'custom'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load commands');
+    }
+  };
+
+  useEffect(() => {
+    loadCommands();
+  }, []);
+
+  const startEditing = (command: Command | null) => {
+    setEditing(command);
+    setDraft(command ? toDraft(command) : EMPTY_DRAFT);
+    setError('');
+  };
+
+  // Runs the request, then reloads the commands from disk
+  const withReload = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await loadCommands();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const request: SaveCommandRequest = {
+      name: draft.name.trim().replace(/^\//, ''),
+      scope: draft.scope,
+      ...(draft.scope === 'project' && { workingDirectory: workingDirectory.trim() }),
+      description: draft.description,
+      argumentHint: draft.argumentHint,
+      allowedTools: draft.allowedTools.split(',').map(tool => tool.trim()).filter(Boolean),
+      content: draft.content,
+    };
+
+    const saved = await withReload(() => (editing
+      ? api.updateCommand(editing.name.replace(/^\//, ''), request)
+      : api.createCommand(request)));
+    if (saved) {
+      setDraft(null);
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = (command: Command) => withReload(() => api.deleteCommand(
+    command.name.replace(/^\//, ''),
+    command.scope ?? 'user',
+    command.scope === 'project' ? workingDirectory.trim() : undefined
+  ));
+
+  return (
+    <div className="px-6 pb-6 overflow-y-auto h-full">
+      <div className="flex items-center justify-between py-4">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 m-0">Slash Commands</h3>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400 m-0 mt-1">
+            Markdown prompts in .claude/commands. $ARGUMENTS is replaced with the text typed after the command, use : in the name for subdirectories.
+          </p>
+        </div>
+        {!draft && (
+          <Button variant="outline" size="sm" onClick={() => startEditing(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New command
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-end gap-2 mb-4">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="commands-directory">Project directory</Label>
+          <Input
+            id="commands-directory"
+            value={workingDirectory}
+            onChange={(e) => setWorkingDirectory(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') loadCommands();
+            }}
+            placeholder="/path/to/project, for project commands"
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={loadCommands}>Load</Button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      {draft && (
+        <div className="mb-6 p-4 rounded-md border border-neutral-200 dark:border-neutral-800 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="command-name">Name</Label>
+              <Input id="command-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="frontend:component" className="font-mono" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="command-scope">Scope</Label>
+              <Select value={draft.scope} onValueChange={(value) => setDraft({ ...draft, scope: value as CommandScope })} disabled={!!editing}>
+                <SelectTrigger id="command-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="user">User (~/.claude/commands)</SelectItem>
+                  <SelectItem value="project">Project directory</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="command-description">Description</Label>
+            <Input id="command-description" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Create a React component" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="command-argument-hint">Argument hint</Label>
+              <Input id="command-argument-hint" value={draft.argumentHint} onChange={(e) => setDraft({ ...draft, argumentHint: e.target.value })} placeholder="[component name]" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="command-allowed-tools">Allowed tools</Label>
+              <Input id="command-allowed-tools" value={draft.allowedTools} onChange={(e) => setDraft({ ...draft, allowedTools: e.target.value })} placeholder="Read, Bash(git status:*)" className="font-mono" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="command-content">Prompt</Label>
+            <Textarea
+              id="command-content"
+              rows={6}
+              value={draft.content}
+              onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+              placeholder="Create a component named $ARGUMENTS following the conventions of this project."
+              className="font-mono"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button size="sm" onClick={handleSave}>Save command</Button>
+          </div>
+        </div>
+      )}
+
+      {commands.length === 0 && !draft && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">No custom commands yet.</p>
+      )}
+
+      <ul className="list-none m-0 p-0 divide-y divide-neutral-200 dark:divide-neutral-800" aria-label="Slash commands">
+        {commands.map(command => (
+          <li key={command.name} className="py-3 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-neutral-900 dark:text-neutral-100 truncate">
+                <span className="font-mono">{command.name}</span>
+                {command.argumentHint && <span className="ml-2 text-neutral-500 dark:text-neutral-400">{command.argumentHint}</span>}
+              </div>
+              <div className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                {command.scope}{command.description ? ` · ${command.description}` : ''}
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(command)} aria-label={`Edit ${command.name}`}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(command)} aria-label={`Delete ${command.name}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
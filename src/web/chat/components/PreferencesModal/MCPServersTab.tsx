@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import type { CUIConfig, MCPServerDefinition } from '../../../../types/config';
+
+interface MCPServersTabProps {
+  config: CUIConfig | null;
+  onUpdate: (updates: Partial<CUIConfig>) => Promise<void>;
+}
+
+type ServerType = NonNullable<MCPServerDefinition['type']>;
+
+// Form state, args are one per line and env and headers are KEY=value lines
+interface ServerDraft {
+  name: string;
+  type: ServerType;
+  command: string;
+  args: string;
+  env: string;
+  url: string;
+  headers: string;
+  workingDirectory: string;
+}
+
+const EMPTY_DRAFT: ServerDraft = {
+  name: '',
+  type: 'stdio',
+  command: '',
+  args: '',
+  env: '',
+  url: '',
+  headers: '',
+  workingDirectory: '',
+};
+
+function toLines(values?: Record<string, string>): string {
+  return Object.entries(values ?? {}).map(([key, value]) => `${key}=${value}`).join('\n');
+}
+
+function fromLines(text: string): Record<string, string> | undefined {
+  const entries = text.split('\n')
+    .map(line => line.trim())
+    .filter(line => line.includes('='))
+    .map(line => [line.slice(0, line.indexOf('=')).trim(), line.slice(line.indexOf('=') + 1).trim()]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function toDraft(server: MCPServerDefinition): ServerDraft {
+  return {
+    name: server.name,
+    type: server.type ?? (server.url ? 'http' : 'stdio'),
+    command: server.command ?? '',
+    args: (server.args ?? []).join('\n'),
+    env: toLines(server.env),
+    url: server.url ?? '',
+    headers: toLines(server.headers),
+    workingDirectory: server.workingDirectory ?? '',
+  };
+}
+
+export function MCPServersTab({ config, onUpdate }: MCPServersTabProps) {
+  const servers = config?.mcp?.servers ?? [];
+  // Index of the server being edited, -1 for a new one
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ServerDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState('');
+
+  const startEditing = (index: number) => {
+    setDraft(index >= 0 ? toDraft(servers[index]) : EMPTY_DRAFT);
+    setEditingIndex(index);
+    setError('');
+  };
+
+  const saveServers = (next: MCPServerDefinition[]) => onUpdate({ mcp: { ...config?.mcp, servers: next } });
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    if (!name || name === 'cui-permissions') {
+      setError('Name is required and cannot be cui-permissions');
+      return;
+    }
+    const isRemote = draft.type !== 'stdio';
+    if (isRemote ? !draft.url.trim() : !draft.command.trim()) {
+      setError(isRemote ? 'URL is required' : 'Command is required');
+      return;
+    }
+
+    const existing = editingIndex !== null && editingIndex >= 0 ? servers[editingIndex] : undefined;
+    const env = fromLines(draft.env);
+    const headers = fromLines(draft.headers);
+    const args = draft.args.split('\n').map(arg => arg.trim()).filter(Boolean);
+    const server: MCPServerDefinition = {
+      name,
+      type: draft.type,
+      ...(isRemote
+        ? { url: draft.url.trim(), ...(headers && { headers }) }
+        : { command: draft.command.trim(), ...(args.length > 0 && { args }), ...(env && { env }) }),
+      ...(draft.workingDirectory.trim() && { workingDirectory: draft.workingDirectory.trim() }),
+      ...(existing?.enabled === false && { enabled: false }),
+    };
+    const next = existing
+      ? servers.map((current, index) => (index === editingIndex ? server : current))
+      : [...servers, server];
+
+    try {
+      await saveServers(next);
+      setEditingIndex(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save MCP server');
+    }
+  };
+
+  return (
+    <div className="px-6 pb-6 overflow-y-auto h-full">
+      <div className="flex items-center justify-between py-4">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 m-0">MCP Servers</h3>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400 m-0 mt-1">
+            Servers attached to new conversations. A server for a working directory replaces a server with the same name.
+          </p>
+        </div>
+        {editingIndex === null && (
+          <Button variant="outline" size="sm" onClick={() => startEditing(-1)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New server
+          </Button>
+        )}
+      </div>
+
+      {editingIndex !== null && (
+        <div className="mb-6 p-4 rounded-md border border-neutral-200 dark:border-neutral-800 space-y-3">
+          {error && (
+            <div className="p-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">{error}</div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="mcp-name">Name</Label>
+              <Input id="mcp-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="github" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcp-type">Transport</Label>
+              <Select value={draft.type} onValueChange={(value) => setDraft({ ...draft, type: value as ServerType })}>
+                <SelectTrigger id="mcp-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stdio">Command (stdio)</SelectItem>
+                  <SelectItem value="http">HTTP</SelectItem>
+                  <SelectItem value="sse">SSE</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {draft.type === 'stdio' ? (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="mcp-command">Command</Label>
+                <Input id="mcp-command" value={draft.command} onChange={(e) => setDraft({ ...draft, command: e.target.value })} placeholder="npx" className="font-mono" />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="mcp-args">Arguments, one per line</Label>
+                  <Textarea id="mcp-args" rows={3} value={draft.args} onChange={(e) => setDraft({ ...draft, args: e.target.value })} placeholder={'-y\n@modelcontextprotocol/server-github'} className="font-mono" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="mcp-env">Environment, KEY=value</Label>
+                  <Textarea id="mcp-env" rows={3} value={draft.env} onChange={(e) => setDraft({ ...draft, env: e.target.value })} placeholder="GITHUB_TOKEN=..." className="font-mono" />
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="mcp-url">URL</Label>
+                <Input id="mcp-url" value={draft.url} onChange={(e) => setDraft({ ...draft, url: e.target.value })} placeholder="https://example.com/mcp" className="font-mono" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mcp-headers">Headers, Name=value</Label>
+                <Textarea id="mcp-headers" rows={2} value={draft.headers} onChange={(e) => setDraft({ ...draft, headers: e.target.value })} placeholder="Authorization=Bearer ..." className="font-mono" />
+              </div>
+            </>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="mcp-directory">Working directory</Label>
+            <Input id="mcp-directory" value={draft.workingDirectory} onChange={(e) => setDraft({ ...draft, workingDirectory: e.target.value })} placeholder="All directories" />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setEditingIndex(null)}>Cancel</Button>
+            <Button size="sm" onClick={handleSave}>Save server</Button>
+          </div>
+        </div>
+      )}
+
+      {servers.length === 0 && editingIndex === null && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">No MCP servers yet.</p>
+      )}
+
+      <ul className="list-none m-0 p-0 divide-y divide-neutral-200 dark:divide-neutral-800" aria-label="MCP servers">
+        {servers.map((server, index) => (
+          <li key={`${server.name}-${server.workingDirectory || ''}`} className="py-3 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-neutral-900 dark:text-neutral-100 truncate">{server.name}</div>
+              <div className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                <span className="font-mono">{server.url || [server.command, ...(server.args ?? [])].join(' ')}</span>
+                {' · '}{server.workingDirectory || 'All directories'}
+              </div>
+            </div>
+            <Switch
+              checked={server.enabled !== false}
+              onCheckedChange={(enabled) => saveServers(servers.map((current, i) => (i === index ? { ...current, enabled } : current)))}
+              aria-label={`${server.enabled !== false ? 'Disable' : 'Enable'} ${server.name}`}
+            />
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(index)} aria-label={`Edit ${server.name}`}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => saveServers(servers.filter((_, i) => i !== index))}
+              aria-label={`Delete ${server.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import React, { useEffect, useState } from 'react';
-import { Settings, Bell, Shield, Mic, X, Cpu } from 'lucide-react';
+import { Settings, Bell, Shield, Mic, X, Cpu, CalendarClock, FileText, Plug, Terminal } from 'lucide-react';
 import { api } from '../../services/api';
 import type { Preferences, GeminiHealthResponse } from '../../types';
 import type { CUIConfig } from '../../../../types/config';
 import { ModelProviderTab } from './ModelProviderTab';
 import { NotificationTab } from './NotificationTab';
+import { ScheduledJobsTab } from './ScheduledJobsTab';
+import { PromptTemplatesTab } from './PromptTemplatesTab';
+import { MCPServersTab } from './MCPServersTab';
+import { CommandsTab } from './CommandsTab';
 import { Dialog } from '../Dialog';
 import { Button } from '../ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
@@ -173,6 +177,38 @@ export function PreferencesModal({ onClose }: Props) {
                   <Cpu className="h-[18px] w-[18px] flex-shrink-0" />
                   <span className="text-left">Model Provider</span>
                 </TabsTrigger>
+                <TabsTrigger
+                  value="scheduledJobs"
+                  className="w-full flex items-center justify-start gap-3 px-3 py-2 rounded-md bg-transparent text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100/60 dark:hover:bg-neutral-800/60 data-[state=active]:bg-neutral-100 dark:data-[state=active]:bg-neutral-800 data-[state=active]:text-neutral-900 dark:data-[state=active]:text-neutral-100 data-[state=active]:font-medium"
+                  aria-label="Scheduled job settings"
+                >
+                  <CalendarClock className="h-[18px] w-[18px] flex-shrink-0" />
+                  <span className="text-left">Scheduled Jobs</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="promptTemplates"
+                  className="w-full flex items-center justify-start gap-3 px-3 py-2 rounded-md bg-transparent text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100/60 dark:hover:bg-neutral-800/60 data-[state=active]:bg-neutral-100 dark:data-[state=active]:bg-neutral-800 data-[state=active]:text-neutral-900 dark:data-[state=active]:text-neutral-100 data-[state=active]:font-medium"
+                  aria-label="Prompt template settings"
+                >
+                  <FileText className="h-[18px] w-[18px] flex-shrink-0" />
+                  <span className="text-left">Prompt Templates</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="commands"
+                  className="w-full flex items-center justify-start gap-3 px-3 py-2 rounded-md bg-transparent text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100/60 dark:hover:bg-neutral-800/60 data-[state=active]:bg-neutral-100 dark:data-[state=active]:bg-neutral-800 data-[state=active]:text-neutral-900 dark:data-[state=active]:text-neutral-100 data-[state=active]:font-medium"
+                  aria-label="Slash command settings"
+                >
+                  <Terminal className="h-[18px] w-[18px] flex-shrink-0" />
+                  <span className="text-left">Slash Commands</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="mcpServers"
+                  className="w-full flex items-center justify-start gap-3 px-3 py-2 rounded-md bg-transparent text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100/60 dark:hover:bg-neutral-800/60 data-[state=active]:bg-neutral-100 dark:data-[state=active]:bg-neutral-800 data-[state=active]:text-neutral-900 dark:data-[state=active]:text-neutral-100 data-[state=active]:font-medium"
+                  aria-label="MCP server settings"
+                >
+                  <Plug className="h-[18px] w-[18px] flex-shrink-0" />
+                  <span className="text-left">MCP Servers</span>
+                </TabsTrigger>
               </TabsList>
             </div>
 
@@ -325,6 +361,22 @@ export function PreferencesModal({ onClose }: Props) {
                   isActive={activeTab === 'modelProvider'}
                 />
               </TabsContent>
+
+              <TabsContent value="scheduledJobs" className="flex-1 overflow-hidden mt-0">
+                <ScheduledJobsTab />
+              </TabsContent>
+
+              <TabsContent value="promptTemplates" className="flex-1 overflow-hidden mt-0">
+                <PromptTemplatesTab config={fullConfig} onUpdate={handleConfigUpdate} />
+              </TabsContent>
+
+              <TabsContent value="commands" className="flex-1 overflow-hidden mt-0">
+                <CommandsTab />
+              </TabsContent>
+
+              <TabsContent value="mcpServers" className="flex-1 overflow-hidden mt-0">
+                <MCPServersTab config={fullConfig} onUpdate={handleConfigUpdate} />
+              </TabsContent>
             </div>
           </div>
         </Tabs>
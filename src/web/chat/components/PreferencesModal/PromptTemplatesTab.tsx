@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import type { CUIConfig, PromptTemplate } from '../../../../types/config';
+
+interface PromptTemplatesTabProps {
+  config: CUIConfig | null;
+  onUpdate: (updates: Partial<CUIConfig>) => Promise<void>;
+}
+
+const EMPTY_TEMPLATE: PromptTemplate = {
+  name: '',
+  description: '',
+  template: '',
+  workingDirectory: '',
+};
+
+export function PromptTemplatesTab({ config, onUpdate }: PromptTemplatesTabProps) {
+  const templates = config?.prompts?.templates ?? [];
+  // Index of the template being edited, -1 for a new one
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<PromptTemplate>(EMPTY_TEMPLATE);
+  const [error, setError] = useState('');
+
+  const startEditing = (index: number) => {
+    setDraft(index >= 0 ? { ...EMPTY_TEMPLATE, ...templates[index] } : EMPTY_TEMPLATE);
+    setEditingIndex(index);
+    setError('');
+  };
+
+  const saveTemplates = (next: PromptTemplate[]) => onUpdate({ prompts: { ...config?.prompts, templates: next } });
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    if (!name || name.startsWith('/')) {
+      setError('Name is required and cannot start with /');
+      return;
+    }
+    if (!draft.template.trim()) {
+      setError('Template text is required');
+      return;
+    }
+
+    const template: PromptTemplate = {
+      name,
+      template: draft.template,
+      ...(draft.description?.trim() && { description: draft.description.trim() }),
+      ...(draft.workingDirectory?.trim() && { workingDirectory: draft.workingDirectory.trim() }),
+    };
+    const next = editingIndex !== null && editingIndex >= 0
+      ? templates.map((existing, index) => (index === editingIndex ? template : existing))
+      : [...templates, template];
+
+    await saveTemplates(next);
+    setEditingIndex(null);
+  };
+
+  return (
+    <div className="px-6 pb-6 overflow-y-auto h-full">
+      <div className="flex items-center justify-between py-4">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 m-0">Prompt Templates</h3>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400 m-0 mt-1">
+            Type / in the composer to insert a template. {'{{branch}}'}, {'{{date}}'}, {'{{time}}'} and {'{{workingDirectory}}'} are filled in automatically, other variables are asked for.
+          </p>
+        </div>
+        {editingIndex === null && (
+          <Button variant="outline" size="sm" onClick={() => startEditing(-1)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New template
+          </Button>
+        )}
+      </div>
+
+      {editingIndex !== null && (
+        <div className="mb-6 p-4 rounded-md border border-neutral-200 dark:border-neutral-800 space-y-3">
+          {error && (
+            <div className="p-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">{error}</div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Name</Label>
+              <Input id="template-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="review-file" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-description">Description</Label>
+              <Input id="template-description" value={draft.description || ''} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Review a file before merging" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-directory">Working directory</Label>
+            <Input id="template-directory" value={draft.workingDirectory || ''} onChange={(e) => setDraft({ ...draft, workingDirectory: e.target.value })} placeholder="All directories" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-text">Template</Label>
+            <Textarea
+              id="template-text"
+              rows={4}
+              value={draft.template}
+              onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+              placeholder="Review {{file}} on {{branch}} for ticket {{ticket}}"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setEditingIndex(null)}>Cancel</Button>
+            <Button size="sm" onClick={handleSave}>Save template</Button>
+          </div>
+        </div>
+      )}
+
+      {templates.length === 0 && editingIndex === null && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">No prompt templates yet.</p>
+      )}
+
+      <ul className="list-none m-0 p-0 divide-y divide-neutral-200 dark:divide-neutral-800" aria-label="Prompt templates">
+        {templates.map((template, index) => (
+          <li key={`${template.name}-${template.workingDirectory || ''}`} className="py-3 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-neutral-900 dark:text-neutral-100 truncate">{template.name}</div>
+              <div className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                {template.workingDirectory || 'All directories'}{template.description ? ` · ${template.description}` : ''}
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(index)} aria-label={`Edit ${template.name}`}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => saveTemplates(templates.filter((_, i) => i !== index))}
+              aria-label={`Delete ${template.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
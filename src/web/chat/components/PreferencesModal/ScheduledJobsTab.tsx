@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Play, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Switch } from '../ui/switch';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { api } from '../../services/api';
+import type { ScheduledJob, ScheduledJobRequest, ScheduledJobRun } from '../../types';
+
+const EMPTY_JOB: ScheduledJobRequest = {
+  name: '',
+  cron: '0 2 * * *',
+  prompt: '',
+  workingDirectory: '',
+  permissionMode: 'default',
+  maxRetries: 0,
+};
+
+const STATUS_CLASS_NAMES: Record<ScheduledJobRun['status'], string> = {
+  queued: 'text-neutral-500 dark:text-neutral-400',
+  running: 'text-blue-600 dark:text-blue-400',
+  succeeded: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+};
+
+function formatTime(timestamp?: string): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : '-';
+}
+
+export function ScheduledJobsTab() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [draft, setDraft] = useState<ScheduledJobRequest | null>(null);
+  const [expandedJob, setExpandedJob] = useState<string | null>(null);
+  const [runs, setRuns] = useState<ScheduledJobRun[]>([]);
+  const [error, setError] = useState<string>('');
+
+  const loadJobs = async () => {
+    try {
+      setJobs((await api.getScheduledJobs()).jobs);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load scheduled jobs');
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  useEffect(() => {
+    if (!expandedJob) return;
+    api.getScheduledJobRuns(expandedJob)
+      .then(response => setRuns(response.runs))
+      .catch((err: Error) => setError(err.message));
+  }, [expandedJob, jobs]);
+
+  // Runs the action, then reloads the jobs so next and last runs stay current
+  const withReload = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await loadJobs();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!draft) return;
+    await withReload(async () => {
+      await api.createScheduledJob(draft);
+      setDraft(null);
+    });
+  };
+
+  return (
+    <div className="px-6 pb-6 overflow-y-auto h-full">
+      <div className="flex items-center justify-between py-4">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 m-0">Scheduled Jobs</h3>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400 m-0 mt-1">
+            Prompts that run unattended on a cron schedule, in server time.
+          </p>
+        </div>
+        {!draft && (
+          <Button variant="outline" size="sm" onClick={() => setDraft(EMPTY_JOB)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New job
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      {draft && (
+        <div className="mb-6 p-4 rounded-md border border-neutral-200 dark:border-neutral-800 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="job-name">Name</Label>
+              <Input id="job-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Nightly dependency update" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="job-cron">Schedule</Label>
+              <Input id="job-cron" value={draft.cron} onChange={(e) => setDraft({ ...draft, cron: e.target.value })} placeholder="0 2 * * *" className="font-mono" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="job-directory">Working directory</Label>
+            <Input id="job-directory" value={draft.workingDirectory} onChange={(e) => setDraft({ ...draft, workingDirectory: e.target.value })} placeholder="/path/to/project" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="job-prompt">Prompt</Label>
+            <Textarea
+              id="job-prompt"
+              rows={4}
+              value={draft.prompt}
+              onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+              placeholder="Update dependencies and summarize what changed. {{date}}, {{time}} and {{job}} are filled in for each run."
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="job-model">Model</Label>
+              <Input id="job-model" value={draft.model || ''} onChange={(e) => setDraft({ ...draft, model: e.target.value || undefined })} placeholder="Default" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="job-permission-mode">Permission mode</Label>
+              <Select value={draft.permissionMode} onValueChange={(value) => setDraft({ ...draft, permissionMode: value })}>
+                <SelectTrigger id="job-permission-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default</SelectItem>
+                  <SelectItem value="acceptEdits">Accept edits</SelectItem>
+                  <SelectItem value="plan">Plan</SelectItem>
+                  <SelectItem value="bypassPermissions">Bypass permissions</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="job-retries">Retries</Label>
+              <Input
+                id="job-retries"
+                type="number"
+                min={0}
+                max={10}
+                value={draft.maxRetries ?? 0}
+                onChange={(e) => setDraft({ ...draft, maxRetries: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button size="sm" onClick={handleCreate}>Create job</Button>
+          </div>
+        </div>
+      )}
+
+      {jobs.length === 0 && !draft && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">No scheduled jobs yet.</p>
+      )}
+
+      <ul className="list-none m-0 p-0 divide-y divide-neutral-200 dark:divide-neutral-800" aria-label="Scheduled jobs">
+        {jobs.map(job => (
+          <li key={job.id} className="py-3">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setExpandedJob(expandedJob === job.id ? null : job.id)}
+                className="flex-1 min-w-0 flex items-center gap-2 text-left border-none bg-transparent p-0 cursor-pointer text-neutral-900 dark:text-neutral-100"
+                aria-expanded={expandedJob === job.id}
+              >
+                {expandedJob === job.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                <div className="min-w-0">
+                  <div className="text-sm truncate">{job.name}</div>
+                  <div className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                    <span className="font-mono">{job.cron}</span> · {job.workingDirectory} · next {formatTime(job.nextRunAt)}
+                    {job.lastRun && (
+                      <> · last <span className={STATUS_CLASS_NAMES[job.lastRun.status]}>{job.lastRun.status}</span></>
+                    )}
+                  </div>
+                </div>
+              </button>
+              <Switch
+                checked={job.enabled}
+                onCheckedChange={(enabled) => withReload(() => api.updateScheduledJob(job.id, { enabled }))}
+                aria-label={`${job.enabled ? 'Disable' : 'Enable'} ${job.name}`}
+              />
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => withReload(() => api.runScheduledJob(job.id))} aria-label={`Run ${job.name} now`}>
+                <Play className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => withReload(() => api.deleteScheduledJob(job.id))} aria-label={`Delete ${job.name}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {expandedJob === job.id && (
+              <div className="pl-6 pt-2">
+                <p className="text-xs text-neutral-600 dark:text-neutral-300 whitespace-pre-wrap m-0 mb-2">{job.prompt}</p>
+                {runs.length === 0 ? (
+                  <p className="text-xs text-neutral-500 dark:text-neutral-400 m-0">No runs yet.</p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {runs.map(run => (
+                        <tr key={run.id} className="align-top">
+                          <td className="py-1 pr-3 whitespace-nowrap">{formatTime(run.startedAt)}</td>
+                          <td className={`py-1 pr-3 ${STATUS_CLASS_NAMES[run.status]}`}>{run.status}</td>
+                          <td className="py-1 pr-3 text-neutral-500 dark:text-neutral-400">
+                            {run.trigger}{run.attempt > 1 ? ` #${run.attempt}` : ''}
+                          </td>
+                          <td className="py-1">
+                            {run.sessionId && <a href={`/c/${run.sessionId}`} className="text-blue-500 hover:underline">Open</a>}
+                            {run.error && <span className="text-red-600 dark:text-red-400 ml-2">{run.error}</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
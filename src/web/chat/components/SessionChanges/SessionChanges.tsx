@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Check, ChevronDown, ChevronRight, FileDiff, RefreshCw, Undo2 } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/web/chat/components/ui/collapsible';
+import { CodeHighlight } from '../CodeHighlight';
+import { api } from '../../services/api';
+import { detectLanguageFromPath } from '../../utils/language-detection';
+import { parseUnifiedDiff, type DiffHunk, type DiffFile } from '../../utils/diff-hunks';
+import type { CheckpointFileChange, SessionChangesResponse } from '../../types';
+
+interface SessionChangesProps {
+  sessionId: string;
+  workingDirectory?: string;
+  // Changes whenever the working tree may have changed, reloads an open panel
+  refreshKey?: unknown;
+}
+
+const STATUS_LABELS: Record<CheckpointFileChange['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-600 dark:text-green-400' },
+  modified: { label: 'M', className: 'text-amber-600 dark:text-amber-400' },
+  deleted: { label: 'D', className: 'text-red-600 dark:text-red-400' },
+};
+
+const LINE_CLASS_NAMES: Record<string, string> = {
+  '+': 'bg-green-500/15',
+  '-': 'bg-red-500/15 opacity-70',
+};
+
+// Identifies a hunk by its content, so accepted hunks stay accepted when other hunks are discarded
+function getHunkKey(path: string, hunk: DiffHunk): string {
+  return `${path}\n${hunk.lines.join('\n')}`;
+}
+
+interface HunkReviewProps {
+  hunk: DiffHunk;
+  language: string;
+  accepted: boolean;
+  busy: boolean;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+function HunkReview({ hunk, language, accepted, busy, onAccept, onDiscard }: HunkReviewProps) {
+  const lines = hunk.lines.filter(line => !line.startsWith('\\'));
+
+  return (
+    <div className={`mb-2 ${accepted ? 'opacity-50' : ''}`}>
+      <div className="flex items-center gap-2 py-1">
+        <span className="flex-1 truncate font-mono text-xs text-blue-600 dark:text-blue-400">{hunk.header}</span>
+        <button
+          onClick={onAccept}
+          disabled={busy || accepted}
+          className="flex items-center gap-1 text-xs border-none bg-transparent text-muted-foreground cursor-pointer hover:text-green-600 disabled:cursor-default disabled:hover:text-muted-foreground"
+          aria-label="Accept hunk"
+        >
+          <Check size={12} />
+          {accepted ? 'Accepted' : 'Accept'}
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={busy}
+          className="flex items-center gap-1 text-xs border-none bg-transparent text-muted-foreground cursor-pointer hover:text-red-600 disabled:opacity-50"
+          aria-label="Discard hunk"
+        >
+          <Undo2 size={12} />
+          Discard
+        </button>
+      </div>
+      <CodeHighlight
+        code={lines.map(line => line.slice(1)).join('\n')}
+        language={language}
+        lineClassNames={lines.map(line => LINE_CLASS_NAMES[line[0]] ?? '')}
+        className="text-xs"
+      />
+    </div>
+  );
+}
+
+/**
+ * Review panel for everything a session changed in its repository. Hunks can be accepted,
+ * which only marks them as reviewed, or discarded, which writes the file back without them.
+ */
+export function SessionChanges({ sessionId, workingDirectory, refreshKey }: SessionChangesProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [changes, setChanges] = useState<SessionChangesResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedFile, setExpandedFile] = useState<string | null>(null);
+  const [acceptedHunks, setAcceptedHunks] = useState<Set<string>>(new Set());
+  const [busyHunk, setBusyHunk] = useState<string | null>(null);
+
+  const loadChanges = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setChanges(await api.getSessionChanges(sessionId, workingDirectory));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load changes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, workingDirectory]);
+
+  useEffect(() => {
+    setChanges(null);
+    setExpandedFile(null);
+    setAcceptedHunks(new Set());
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadChanges();
+    }
+  }, [isOpen, loadChanges, refreshKey]);
+
+  const fileDiffs = useMemo(() => {
+    const diffs = new Map<string, DiffFile>();
+    for (const fileDiff of changes ? parseUnifiedDiff(changes.diff) : []) {
+      diffs.set(fileDiff.path, fileDiff);
+    }
+    return diffs;
+  }, [changes]);
+
+  const hunkKeys = Array.from(fileDiffs.values()).flatMap(fileDiff => fileDiff.hunks.map(hunk => getHunkKey(fileDiff.path, hunk)));
+  const reviewedCount = hunkKeys.filter(key => acceptedHunks.has(key)).length;
+
+  const acceptHunk = (key: string) => {
+    setAcceptedHunks(prev => new Set(prev).add(key));
+  };
+
+  const discardHunk = async (file: CheckpointFileChange, hunk: DiffHunk) => {
+    const key = getHunkKey(file.path, hunk);
+
+    setBusyHunk(key);
+    try {
+      setChanges(await api.discardHunk({
+        sessionId,
+        workingDirectory,
+        path: file.path,
+        hunk: [hunk.header, ...hunk.lines],
+      }));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to discard hunk');
+    } finally {
+      setBusyHunk(null);
+    }
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border-b border-border/50 px-4 py-1">
+      <div className="max-w-3xl mx-auto w-full">
+        <div className="flex items-center gap-2">
+          <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground border-none bg-transparent cursor-pointer py-1 hover:text-foreground">
+            {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            <FileDiff size={13} />
+            <span>
+              {changes ? `Review changes: ${changes.files.length} ${changes.files.length === 1 ? 'file' : 'files'} changed since session start` : 'Review changes since session start'}
+            </span>
+          </CollapsibleTrigger>
+          {isOpen && hunkKeys.length > 0 && (
+            <span className="text-xs text-muted-foreground">{reviewedCount}/{hunkKeys.length} hunks accepted</span>
+          )}
+          {isOpen && (
+            <button
+              onClick={loadChanges}
+              disabled={isLoading}
+              className="w-5 h-5 border-none bg-transparent text-muted-foreground cursor-pointer flex items-center justify-center p-0 hover:text-foreground disabled:opacity-50"
+              aria-label="Refresh changes"
+            >
+              <RefreshCw size={12} className={isLoading ? 'animate-spin' : ''} />
+            </button>
+          )}
+        </div>
+        <CollapsibleContent>
+          {error && <p className="text-xs text-red-600 dark:text-red-400 pb-2">{error}</p>}
+          {changes && changes.files.length === 0 && !error && (
+            <p className="text-xs text-muted-foreground pb-2">No files changed.</p>
+          )}
+          {changes && changes.files.length > 0 && (
+            <ul className="list-none m-0 p-0 pb-2 max-h-[32rem] overflow-y-auto" aria-label="Changed files">
+              {changes.files.map(file => {
+                const fileDiff = fileDiffs.get(file.path);
+                const language = detectLanguageFromPath(file.path);
+                return (
+                  <li key={file.path}>
+                    <button
+                      onClick={() => setExpandedFile(expandedFile === file.path ? null : file.path)}
+                      className="w-full flex items-center gap-2 py-1 px-2 text-left text-sm rounded-md border-none bg-transparent text-foreground cursor-pointer hover:bg-secondary"
+                      aria-expanded={expandedFile === file.path}
+                    >
+                      <span className={`w-3 font-mono text-xs flex-shrink-0 ${STATUS_LABELS[file.status].className}`}>
+                        {STATUS_LABELS[file.status].label}
+                      </span>
+                      <span className="truncate font-mono text-xs">{file.path}</span>
+                      {fileDiff && fileDiff.hunks.length > 0 && (
+                        <span className="ml-auto text-xs text-muted-foreground flex-shrink-0">
+                          {fileDiff.hunks.length} {fileDiff.hunks.length === 1 ? 'hunk' : 'hunks'}
+                        </span>
+                      )}
+                    </button>
+                    {expandedFile === file.path && fileDiff && (
+                      <div className="pl-7 pr-2 pb-2">
+                        {fileDiff.binary && <p className="text-xs text-muted-foreground m-0">Binary file</p>}
+                        {fileDiff.hunks.map(hunk => {
+                          const key = getHunkKey(file.path, hunk);
+                          return (
+                            <HunkReview
+                              key={key}
+                              hunk={hunk}
+                              language={language}
+                              accepted={acceptedHunks.has(key)}
+                              busy={busyHunk !== null}
+                              onAccept={() => acceptHunk(key)}
+                              onDiscard={() => discardHunk(file, hunk)}
+                            />
+                          );
+                        })}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
@@ -9,6 +9,22 @@ import React, { createContext, useContext, useState, useEffect, useCallback, Rea
 import { kanbanTasksService } from '../../services/kanbanTasks';
 import { api } from '../services/api';
 import type { Task } from '../../services/supabase';
+import type { WorktreeAction } from '../types';
+
+// Higher priority tasks start first when the server queues conversations
+const QUEUE_PRIORITY: Record<Task['priority'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+const QUEUE_POLL_INTERVAL_MS = 5000;
+
+// Set by CreateTaskDialog, the agent of the task then works in its own git worktree
+function usesWorktree(task: Task): boolean {
+  return (task.custom_fields as { use_worktree?: boolean } | null)?.use_worktree === true;
+}
 
 /**
  * Deduplicate tasks array by ID, keeping the first occurrence of each task
@@ -32,8 +48,8 @@ interface KanbanContextValue {
 
   // Task operations
   createTask: (request: Omit<Task, 'id' | 'created_at' | 'updated_at'>) => Promise<Task>;
-  assignTaskToAgent: (taskId: string) => Promise<string>; // Returns sessionId
-  markTaskAsDone: (taskId: string) => Promise<void>;
+  assignTaskToAgent: (taskId: string, options?: { agentProfile?: string }) => Promise<string>; // Returns sessionId, empty while the task is queued
+  markTaskAsDone: (taskId: string, worktreeAction?: WorktreeAction) => Promise<void>; // Worktree tasks merge their branch by default
   moveTask: (taskId: string, targetColumn: 'todo' | 'in_progress' | 'done') => Promise<void>;
   updateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
   deleteTask: (taskId: string) => Promise<void>;
@@ -112,7 +128,7 @@ export function KanbanProvider({ children }: { children: ReactNode }) {
 
   
   // Assign task to agent (uses existing conversation API)
-  const assignTaskToAgent = useCallback(async (taskId: string): Promise<string> => {
+  const assignTaskToAgent = useCallback(async (taskId: string, options: { agentProfile?: string } = {}): Promise<string> => {
     console.log('🎯 [KanbanContext] assignTaskToAgent called with task ID:', taskId);
 
     const task = tasks.find(t => t.id === taskId);
@@ -135,6 +151,9 @@ export function KanbanProvider({ children }: { children: ReactNode }) {
       workingDirectory: task.working_directory || process.cwd(),
       initialPrompt: `${task.title}\n\n${task.description}`,
       systemPrompt: task.system_prompt,
+      priority: QUEUE_PRIORITY[task.priority] ?? 0,
+      worktree: usesWorktree(task),
+      agentProfile: options.agentProfile,
     };
 
     try {
@@ -146,11 +165,24 @@ export function KanbanProvider({ children }: { children: ReactNode }) {
 
       const duration = Date.now() - startTime;
       console.log('⏱️ [KanbanContext] API call completed in', duration, 'ms');
+
+      if ('queued' in response) {
+        // agent_id holds the queue entry until the conversation starts
+        const queuedTask = await kanbanTasksService.updateTask(taskId, {
+          agent_id: response.queueId,
+          agent_status: 'queued',
+          agent_response: `Position ${response.queuePosition} in queue`,
+          assigned_to: 'agent',
+          assigned_at: new Date().toISOString(),
+          column_name: 'in_progress',
+        });
+        setTasks(prev => prev.map(t => t.id === taskId ? queuedTask : t));
+        return '';
+      }
+
       console.log('✅ [KanbanContext] API response received:', {
         sessionId: response.sessionId,
-        streamingId: response.streamingId,
-        status: response.status,
-        hasSystemInit: !!response.systemInit
+        streamingId: response.streamingId
       });
 
       console.log('💾 [KanbanContext] Updating task in Supabase...');
@@ -189,7 +221,7 @@ export function KanbanProvider({ children }: { children: ReactNode }) {
   }, [tasks]);
 
   // Mark task as done
-  const markTaskAsDone = useCallback(async (taskId: string) => {
+  const markTaskAsDone = useCallback(async (taskId: string, worktreeAction: WorktreeAction = 'merge') => {
     console.log('🎯 [KanbanContext] markTaskAsDone called with task ID:', taskId);
 
     const task = tasks.find(t => t.id === taskId);
@@ -206,6 +238,11 @@ export function KanbanProvider({ children }: { children: ReactNode }) {
     });
 
     try {
+      // Merge or discard the agent's worktree first, a failed merge keeps the task open
+      if (usesWorktree(task) && task.agent_conversation_id) {
+        await api.finishWorktree(task.agent_conversation_id, worktreeAction);
+      }
+
       // Update task in Supabase with done status
       const updatedTask = await kanbanTasksService.moveTaskColumn(taskId, 'done');
 
@@ -215,6 +252,7 @@ export function KanbanProvider({ children }: { children: ReactNode }) {
       console.log('✅ [KanbanContext] Task marked as done successfully');
     } catch (err: any) {
       console.error('❌ [KanbanContext] Failed to mark task as done:', err);
+      setError(err.message || 'Failed to mark task as done');
       throw err;
     }
   }, [tasks]);
@@ -267,6 +305,51 @@ export function KanbanProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Follow queued tasks until the server starts their conversation
+  const queuedTaskKey = tasks
+    .filter(t => t.agent_status === 'queued' && t.agent_id)
+    .map(t => `${t.id}:${t.agent_id}`)
+    .join(',');
+
+  useEffect(() => {
+    if (!queuedTaskKey) return;
+
+    const pollQueue = async () => {
+      for (const entry of queuedTaskKey.split(',')) {
+        const [taskId, queueId] = entry.split(':');
+        try {
+          const queueStatus = await api.getQueuedConversationStatus(queueId);
+          let updates: Partial<Task> | null = null;
+
+          if (queueStatus.status === 'queued') {
+            updates = { agent_response: `Position ${queueStatus.position} in queue` };
+          } else if (queueStatus.status === 'started') {
+            updates = {
+              agent_id: queueStatus.streamingId,
+              agent_conversation_id: queueStatus.sessionId,
+              agent_status: 'working',
+              agent_response: '',
+              started_at: new Date().toISOString(),
+              completion_percentage: 10,
+            };
+          } else if (queueStatus.status === 'failed') {
+            updates = { agent_status: 'error', error_message: `Error: ${queueStatus.error}` };
+          } else {
+            updates = { agent_id: '', agent_status: 'idle', agent_response: '', column_name: 'todo' };
+          }
+
+          const updatedTask = await kanbanTasksService.updateTask(taskId, updates);
+          setTasks(prev => prev.map(t => t.id === taskId ? updatedTask : t));
+        } catch (err) {
+          console.error('❌ [KanbanContext] Failed to check queued task:', err);
+        }
+      }
+    };
+
+    const interval = setInterval(pollQueue, QUEUE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [queuedTaskKey]);
+
   // Get tasks by column
   const getTasksByColumn = useCallback((columnName: 'todo' | 'in_progress' | 'done'): Task[] => {
     return tasks.filter(t => t.column_name === columnName);
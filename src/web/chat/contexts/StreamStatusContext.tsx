@@ -13,13 +13,31 @@ interface StreamStatusContextType {
 
 const StreamStatusContext = createContext<StreamStatusContextType | undefined>(undefined);
 
+// The server publishes the status of every session on this stream
+const STATUS_FEED_STREAM_IDS = ['all'];
+
 export function StreamStatusProvider({ children }: { children: ReactNode }) {
   const [streamStatuses, setStreamStatuses] = useState<Map<string, StreamStatus>>(new Map());
-  const [subscribedStreamIds, setSubscribedStreamIds] = useState<string[]>([]);
   const streamStatusesRef = useRef<Map<string, StreamStatus>>(new Map());
+  const isFeedConnectedRef = useRef(false);
 
-  // Handle stream messages
-  const handleStreamMessage = useCallback((streamingId: string, event: StreamEvent) => {
+  const updateStatuses = useCallback((update: (status: StreamStatus) => StreamStatus | undefined) => {
+    streamStatusesRef.current.forEach((status, streamingId) => {
+      const updatedStatus = update(status);
+      if (updatedStatus) {
+        streamStatusesRef.current.set(streamingId, updatedStatus);
+      }
+    });
+    setStreamStatuses(new Map(streamStatusesRef.current));
+  }, []);
+
+  // Handle status feed messages, each one is about a single session
+  const handleStreamMessage = useCallback((_feedId: string, event: StreamEvent) => {
+    if (event.type !== 'session_status') {
+      return;
+    }
+
+    const streamingId = event.streamingId;
     const currentStatus = streamStatusesRef.current.get(streamingId) || {
       connectionState: 'connected' as const,
       currentStatus: 'Running',
@@ -38,77 +56,60 @@ export function StreamStatusProvider({ children }: { children: ReactNode }) {
     setStreamStatuses(new Map(streamStatusesRef.current));
   }, []);
 
-  // Handle stream errors
-  const handleStreamError = useCallback((streamingId: string, error: Error) => {
-    const currentStatus = streamStatusesRef.current.get(streamingId) || {
-      connectionState: 'error' as const,
-      currentStatus: 'Error',
-    };
-
-    const updatedStatus: StreamStatus = {
-      ...currentStatus,
+  // Handle feed errors, the status of every running session is unknown
+  const handleStreamError = useCallback((_feedId: string, error: Error) => {
+    updateStatuses(status => status.connectionState === 'disconnected' ? undefined : {
+      ...status,
       connectionState: 'error',
       currentStatus: `Error: ${error.message}`,
       lastEventTime: new Date().toISOString(),
-    };
-
-    streamStatusesRef.current.set(streamingId, updatedStatus);
-    setStreamStatuses(new Map(streamStatusesRef.current));
-  }, []);
+    });
+  }, [updateStatuses]);
 
-  // Handle stream connect
-  const handleStreamConnect = useCallback((streamingId: string) => {
-    const updatedStatus: StreamStatus = {
+  // Handle feed connect
+  const handleStreamConnect = useCallback(() => {
+    isFeedConnectedRef.current = true;
+    updateStatuses(status => status.connectionState !== 'connecting' ? undefined : {
+      ...status,
       connectionState: 'connected',
       currentStatus: 'Running',
       lastEventTime: new Date().toISOString(),
-    };
-
-    streamStatusesRef.current.set(streamingId, updatedStatus);
-    setStreamStatuses(new Map(streamStatusesRef.current));
-  }, []);
-
-  // Handle stream disconnect
-  const handleStreamDisconnect = useCallback((streamingId: string) => {
-    const currentStatus = streamStatusesRef.current.get(streamingId);
-    if (currentStatus && currentStatus.connectionState !== 'disconnected') {
-      const updatedStatus: StreamStatus = {
-        ...currentStatus,
-        connectionState: 'disconnected',
-        lastEventTime: new Date().toISOString(),
-      };
-
-      streamStatusesRef.current.set(streamingId, updatedStatus);
-      setStreamStatuses(new Map(streamStatusesRef.current));
-    }
-  }, []);
+    });
+  }, [updateStatuses]);
+
+  // Handle feed disconnect
+  const handleStreamDisconnect = useCallback(() => {
+    isFeedConnectedRef.current = false;
+    updateStatuses(status => status.connectionState === 'disconnected' ? undefined : {
+      ...status,
+      connectionState: 'disconnected',
+      lastEventTime: new Date().toISOString(),
+    });
+  }, [updateStatuses]);
 
-  // Use the multiple streams hook
-  const { activeConnectionCount } = useMultipleStreams(subscribedStreamIds, {
+  // A single subscription covers all sessions
+  useMultipleStreams(STATUS_FEED_STREAM_IDS, {
     onStreamMessage: handleStreamMessage,
     onStreamError: handleStreamError,
     onStreamConnect: handleStreamConnect,
     onStreamDisconnect: handleStreamDisconnect,
-    maxConcurrentConnections: 5,
     maxRetries: 3,
     initialRetryDelay: 1000,
   });
 
-  // Subscribe to streams
+  // Track the status of streams
   const subscribeToStreams = useCallback((streamingIds: string[]) => {
     // Filter out any null or undefined values
     const validStreamIds = streamingIds.filter(id => id && id.length > 0);
-    
-    // Update subscribed streams
-    setSubscribedStreamIds(current => {
-      const newSet = new Set([...current, ...validStreamIds]);
-      return Array.from(newSet);
-    });
 
     // Initialize status for new streams
     validStreamIds.forEach(streamingId => {
       if (!streamStatusesRef.current.has(streamingId)) {
-        const initialStatus: StreamStatus = {
+        const initialStatus: StreamStatus = isFeedConnectedRef.current ? {
+          connectionState: 'connected',
+          currentStatus: 'Running',
+          lastEventTime: new Date().toISOString(),
+        } : {
           connectionState: 'connecting',
           currentStatus: 'Connecting...',
           lastEventTime: new Date().toISOString(),
@@ -120,10 +121,8 @@ export function StreamStatusProvider({ children }: { children: ReactNode }) {
     setStreamStatuses(new Map(streamStatusesRef.current));
   }, []);
 
-  // Unsubscribe from a stream
+  // Stop tracking a stream
   const unsubscribeFromStream = useCallback((streamingId: string) => {
-    setSubscribedStreamIds(current => current.filter(id => id !== streamingId));
-    
     // Remove status
     streamStatusesRef.current.delete(streamingId);
     setStreamStatuses(new Map(streamStatusesRef.current));
@@ -141,7 +140,7 @@ export function StreamStatusProvider({ children }: { children: ReactNode }) {
         subscribeToStreams,
         unsubscribeFromStream,
         getStreamStatus,
-        activeStreamCount: activeConnectionCount,
+        activeStreamCount: Array.from(streamStatuses.values()).filter(status => status.connectionState === 'connected').length,
       }}
     >
       {children}
@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import type { ChatMessage, StreamEvent, ToolResult } from '../types';
+import type { ChatMessage, FollowUpMessage, StreamEvent, ToolResult } from '../types';
 import type { ContentBlock, ContentBlockParam } from '@anthropic-ai/sdk/resources/messages/messages';
 import type { PermissionRequest } from '@/types';
 
@@ -9,6 +9,7 @@ interface UseConversationMessagesOptions {
   onResult?: (sessionId: string) => void;
   onError?: (error: string) => void;
   onClosed?: () => void;
+  onInterrupted?: () => void;
   onPermissionRequest?: (permission: PermissionRequest) => void;
 }
 
@@ -23,6 +24,8 @@ export function useConversationMessages(options: UseConversationMessagesOptions
   const [currentPermissionRequest, setCurrentPermissionRequest] = useState<PermissionRequest | null>(null);
   const [childrenMessages, setChildrenMessages] = useState<Record<string, ChatMessage[]>>({});
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
+  // Follow-up messages Claude has not read yet, they join the messages once sent
+  const [pendingFollowUps, setPendingFollowUps] = useState<FollowUpMessage[]>([]);
 
   // Clear messages
   const clearMessages = useCallback(() => {
@@ -34,6 +37,7 @@ export function useConversationMessages(options: UseConversationMessagesOptions
     setCurrentPermissionRequest(null);
     setChildrenMessages({});
     setExpandedTasks(new Set());
+    setPendingFollowUps([]);
   }, []);
 
   // Add a message
@@ -194,13 +198,70 @@ export function useConversationMessages(options: UseConversationMessagesOptions
         options.onClosed?.();
         // Clear permission request when stream closes
         setCurrentPermissionRequest(null);
+        // Messages still queued died with the process
+        setPendingFollowUps([]);
         break;
 
+      case 'interrupted': {
+        const noticeId = `interrupted-${Date.now()}`;
+        addMessage({
+          id: noticeId,
+          messageId: noticeId,
+          type: 'system',
+          content: 'Interrupted. Tell Claude what to do instead.',
+          timestamp: event.timestamp,
+        });
+        options.onInterrupted?.();
+        break;
+      }
+
+      case 'follow_up_queued': {
+        const followUp = event.data;
+        setPendingFollowUps(prev => prev.some(pending => pending.id === followUp.id) ? prev : [...prev, followUp]);
+        break;
+      }
+
+      case 'follow_up_sent': {
+        const followUp = event.data;
+        setPendingFollowUps(prev => prev.filter(pending => pending.id !== followUp.id));
+        const userMessage: ChatMessage = {
+          id: '',
+          messageId: `follow-up-${followUp.id}`,
+          type: 'user',
+          content: followUp.message,
+          timestamp: event.timestamp,
+          workingDirectory: currentWorkingDirectory,
+        };
+        addMessage(userMessage);
+        options.onUserMessage?.(userMessage);
+        break;
+      }
+
       case 'permission_request':
         // Handle permission request
         setCurrentPermissionRequest(event.data);
         options.onPermissionRequest?.(event.data);
         break;
+
+      case 'permission_auto_decided': {
+        // Show which rule or session grant decided the request instead of prompting
+        const noticeId = `permission-${event.data.id}`;
+        const decision = event.data.status === 'approved' ? 'Auto-approved' : 'Auto-denied';
+        const reason = event.data.matchedRule
+          ? `by rule "${event.data.matchedRule}"`
+          : event.data.grantScope === 'command'
+            ? 'for this session (command allowed)'
+            : 'for this session';
+        const noticeMessage: ChatMessage = {
+          id: noticeId,
+          messageId: noticeId,
+          type: 'system',
+          content: `${decision} ${event.data.toolName} ${reason}`,
+          timestamp: event.timestamp,
+        };
+        addMessage(noticeMessage);
+        break;
+      }
     }
   }, [addMessage, options, currentWorkingDirectory]);
 
@@ -308,6 +369,7 @@ export function useConversationMessages(options: UseConversationMessagesOptions
     messages,
     toolResults,
     currentPermissionRequest,
+    pendingFollowUps,
     childrenMessages,
     expandedTasks,
     addMessage,
@@ -1,5 +1,5 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
-import type { StreamEvent } from '../types';
+import type { StreamEvent, WebSocketClientMessage, WebSocketServerMessage } from '../types';
 import { getAuthToken } from '../../hooks/useAuth';
 
 interface StreamConnection {
@@ -7,10 +7,10 @@ interface StreamConnection {
   connectionState: 'connecting' | 'connected' | 'disconnected' | 'error';
   lastEvent?: StreamEvent;
   lastEventTime?: Date;
-  reader: ReadableStreamDefaultReader<Uint8Array> | null;
-  abortController: AbortController | null;
-  retryCount: number;
-  retryTimeout?: NodeJS.Timeout;
+  // Id of the last event received, replayed from on resubscribe
+  lastEventId?: number;
+  // The session ended, nothing to resubscribe to
+  streamClosed?: boolean;
 }
 
 interface UseMultipleStreamsOptions {
@@ -18,15 +18,24 @@ interface UseMultipleStreamsOptions {
   onStreamError?: (streamingId: string, error: Error) => void;
   onStreamConnect?: (streamingId: string) => void;
   onStreamDisconnect?: (streamingId: string) => void;
-  maxConcurrentConnections?: number;
   maxRetries?: number;
   initialRetryDelay?: number;
 }
 
-const DEFAULT_MAX_CONNECTIONS = 5;
 const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_INITIAL_RETRY_DELAY = 1000;
 
+// WebSocket connections cannot carry an Authorization header
+function getWebSocketUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const authToken = getAuthToken();
+  return `${protocol}//${window.location.host}/api/ws${authToken ? `?token=${encodeURIComponent(authToken)}` : ''}`;
+}
+
+/**
+ * Subscribe to any number of streams over a single WebSocket, so the number of
+ * watched sessions is not bound by the browser's per-origin connection limit
+ */
 export function useMultipleStreams(
   streamingIds: string[],
   options: UseMultipleStreamsOptions
@@ -34,8 +43,10 @@ export function useMultipleStreams(
   const [connections, setConnections] = useState<Map<string, StreamConnection>>(new Map());
   const connectionsRef = useRef<Map<string, StreamConnection>>(new Map());
   const optionsRef = useRef(options);
-  const pendingQueue = useRef<string[]>([]);
-  
+  const socketRef = useRef<WebSocket | null>(null);
+  const retryCountRef = useRef(0);
+  const retryTimeoutRef = useRef<NodeJS.Timeout>();
+
   // Keep options ref up to date
   useEffect(() => {
     optionsRef.current = options;
@@ -52,208 +63,163 @@ export function useMultipleStreams(
     return count;
   }, []);
 
-  // Disconnect a specific stream
-  const disconnectStream = useCallback((streamingId: string) => {
-    const connection = connectionsRef.current.get(streamingId);
-    if (!connection) return;
-
-    // Clear retry timeout if exists
-    if (connection.retryTimeout) {
-      clearTimeout(connection.retryTimeout);
-    }
-
-    // Cancel reader and abort connection
-    if (connection.reader) {
-      connection.reader.cancel().catch(() => {});
-    }
-    if (connection.abortController) {
-      connection.abortController.abort();
-    }
-
-    // Update connection state
-    connection.connectionState = 'disconnected';
-    connection.reader = null;
-    connection.abortController = null;
-    
-    connectionsRef.current.set(streamingId, connection);
+  const updateConnection = useCallback((streamingId: string, update: Partial<StreamConnection>) => {
+    const existing = connectionsRef.current.get(streamingId) || { streamingId, connectionState: 'connecting' as const };
+    connectionsRef.current.set(streamingId, { ...existing, ...update });
     setConnections(new Map(connectionsRef.current));
-
-    // Notify disconnect
-    optionsRef.current.onStreamDisconnect?.(streamingId);
-    
-    // Process pending queue
-    processPendingConnections();
   }, []);
 
-  // Process pending connections when slots are available
-  const processPendingConnections = useCallback(() => {
-    const maxConnections = optionsRef.current.maxConcurrentConnections || DEFAULT_MAX_CONNECTIONS;
-    const activeCount = getActiveConnectionCount();
-    
-    while (pendingQueue.current.length > 0 && activeCount < maxConnections) {
-      const nextStreamingId = pendingQueue.current.shift();
-      if (nextStreamingId) {
-        connectToStream(nextStreamingId);
-      }
+  const sendMessage = useCallback((message: WebSocketClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
     }
   }, []);
 
-  // Connect to a single stream
-  const connectToStream = useCallback(async (streamingId: string) => {
-    // Check if already connecting/connected
-    const existingConnection = connectionsRef.current.get(streamingId);
-    if (existingConnection && 
-        (existingConnection.connectionState === 'connecting' || 
-         existingConnection.connectionState === 'connected')) {
-      return;
+  const subscribe = useCallback((streamingId: string) => {
+    const connection = connectionsRef.current.get(streamingId);
+    updateConnection(streamingId, { connectionState: 'connecting' });
+    sendMessage({ type: 'subscribe', streamingId, lastEventId: connection?.lastEventId });
+  }, [updateConnection, sendMessage]);
+
+  const handleServerMessage = useCallback((message: WebSocketServerMessage) => {
+    switch (message.type) {
+      case 'subscribed':
+        updateConnection(message.streamingId, { connectionState: 'connected' });
+        optionsRef.current.onStreamConnect?.(message.streamingId);
+        break;
+
+      case 'event': {
+        if (!connectionsRef.current.has(message.streamingId)) {
+          return;
+        }
+        const isClosed = message.event.type === 'closed';
+        updateConnection(message.streamingId, {
+          lastEvent: message.event,
+          lastEventTime: new Date(),
+          lastEventId: message.id,
+          ...(isClosed ? { connectionState: 'disconnected', streamClosed: true } : {})
+        });
+        optionsRef.current.onStreamMessage(message.streamingId, message.event);
+        if (isClosed) {
+          sendMessage({ type: 'unsubscribe', streamingId: message.streamingId });
+          optionsRef.current.onStreamDisconnect?.(message.streamingId);
+        }
+        break;
+      }
+
+      case 'error':
+        console.error('Stream socket error:', message.code, message.error);
+        break;
     }
+  }, [updateConnection, sendMessage]);
 
-    // Check connection limit
-    const maxConnections = optionsRef.current.maxConcurrentConnections || DEFAULT_MAX_CONNECTIONS;
-    if (getActiveConnectionCount() >= maxConnections) {
-      // Add to pending queue if not already there
-      if (!pendingQueue.current.includes(streamingId)) {
-        pendingQueue.current.push(streamingId);
-      }
+  // Open the shared socket, subscriptions are (re)sent once it is open
+  const openSocket = useCallback(() => {
+    if (socketRef.current) {
       return;
     }
 
-    // Create or update connection object
-    const connection: StreamConnection = existingConnection || {
-      streamingId,
-      connectionState: 'connecting',
-      reader: null,
-      abortController: null,
-      retryCount: 0,
-    };
-
-    connection.connectionState = 'connecting';
-    connection.abortController = new AbortController();
-    
-    connectionsRef.current.set(streamingId, connection);
-    setConnections(new Map(connectionsRef.current));
+    const socket = new WebSocket(getWebSocketUrl());
+    socketRef.current = socket;
 
-    try {
-      // Get auth token for Bearer authorization
-      const authToken = getAuthToken();
-      const headers: Record<string, string> = {};
-      
-      // Add Bearer token if available
-      if (authToken) {
-        headers.Authorization = `Bearer ${authToken}`;
-      }
-      
-      const response = await fetch(`/api/stream/${streamingId}`, {
-        signal: connection.abortController.signal,
-        headers,
+    socket.onopen = () => {
+      retryCountRef.current = 0;
+      connectionsRef.current.forEach((connection, streamingId) => {
+        if (!connection.streamClosed) {
+          subscribe(streamingId);
+        }
       });
+    };
 
-      if (!response.ok) {
-        throw new Error(`Stream connection failed: ${response.status}`);
+    socket.onmessage = (messageEvent: MessageEvent<string>) => {
+      try {
+        handleServerMessage(JSON.parse(messageEvent.data) as WebSocketServerMessage);
+      } catch (err) {
+        console.error('Failed to parse stream message:', messageEvent.data, err);
       }
+    };
 
-      if (!response.body) {
-        throw new Error('No response body');
+    socket.onclose = () => {
+      if (socketRef.current !== socket) {
+        return;
       }
+      socketRef.current = null;
 
-      const reader = response.body.getReader();
-      connection.reader = reader;
-      connection.connectionState = 'connected';
-      connection.retryCount = 0; // Reset retry count on successful connection
-      
-      connectionsRef.current.set(streamingId, connection);
-      setConnections(new Map(connectionsRef.current));
-      
-      optionsRef.current.onStreamConnect?.(streamingId);
-
-      // Read stream
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const decoded = decoder.decode(value, { stream: true });
-        buffer += decoded;
-        
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              // Handle SSE format: remove "data: " prefix
-              let jsonLine = line;
-              if (line.startsWith('data: ')) {
-                jsonLine = line.substring(6);
-              }
-              
-              // Skip SSE comments (lines starting with :)
-              if (line.startsWith(':')) {
-                continue;
-              }
-              
-              const event = JSON.parse(jsonLine) as StreamEvent;
-              connection.lastEvent = event;
-              connection.lastEventTime = new Date();
-              
-              connectionsRef.current.set(streamingId, connection);
-              setConnections(new Map(connectionsRef.current));
-              
-              optionsRef.current.onStreamMessage(streamingId, event);
-            } catch (err) {
-              console.error('Failed to parse stream message:', line, err);
-            }
-          }
-        }
+      const openStreamIds = Array.from(connectionsRef.current.values())
+        .filter(connection => !connection.streamClosed)
+        .map(connection => connection.streamingId);
+      if (openStreamIds.length === 0) {
+        return;
       }
-    } catch (error: any) {
-      if (error.name !== 'AbortError') {
-        console.error(`Stream error for ${streamingId}:`, error);
-        
-        connection.connectionState = 'error';
-        connectionsRef.current.set(streamingId, connection);
-        setConnections(new Map(connectionsRef.current));
-        
-        optionsRef.current.onStreamError?.(streamingId, error);
-        
-        // Retry logic
-        const maxRetries = optionsRef.current.maxRetries || DEFAULT_MAX_RETRIES;
-        if (connection.retryCount < maxRetries) {
-          connection.retryCount++;
-          const retryDelay = (optionsRef.current.initialRetryDelay || DEFAULT_INITIAL_RETRY_DELAY) * 
-                            Math.pow(2, connection.retryCount - 1); // Exponential backoff
-          
-          connection.retryTimeout = setTimeout(() => {
-            connectToStream(streamingId);
-          }, retryDelay);
+
+      // Every subscription drops with the socket
+      const maxRetries = optionsRef.current.maxRetries ?? DEFAULT_MAX_RETRIES;
+      const canRetry = retryCountRef.current < maxRetries;
+      openStreamIds.forEach(streamingId => {
+        updateConnection(streamingId, { connectionState: canRetry ? 'disconnected' : 'error' });
+        optionsRef.current.onStreamDisconnect?.(streamingId);
+        if (!canRetry) {
+          optionsRef.current.onStreamError?.(streamingId, new Error('Stream connection lost'));
         }
+      });
+
+      if (canRetry) {
+        retryCountRef.current++;
+        const retryDelay = (optionsRef.current.initialRetryDelay || DEFAULT_INITIAL_RETRY_DELAY) *
+                          Math.pow(2, retryCountRef.current - 1); // Exponential backoff
+        retryTimeoutRef.current = setTimeout(openSocket, retryDelay);
       }
-    } finally {
-      // Clean up if still in connecting/connected state
-      const currentConnection = connectionsRef.current.get(streamingId);
-      if (currentConnection && 
-          (currentConnection.connectionState === 'connecting' || 
-           currentConnection.connectionState === 'connected')) {
-        disconnectStream(streamingId);
-      }
+    };
+  }, [subscribe, handleServerMessage, updateConnection]);
+
+  const closeSocket = useCallback(() => {
+    clearTimeout(retryTimeoutRef.current);
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+  }, []);
+
+  // Connect to a single stream
+  const connectToStream = useCallback((streamingId: string) => {
+    updateConnection(streamingId, { connectionState: 'connecting', streamClosed: false });
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      subscribe(streamingId);
+    } else {
+      openSocket();
+    }
+  }, [updateConnection, subscribe, openSocket]);
+
+  // Disconnect a specific stream
+  const disconnectStream = useCallback((streamingId: string) => {
+    const connection = connectionsRef.current.get(streamingId);
+    if (!connection) return;
+
+    sendMessage({ type: 'unsubscribe', streamingId });
+    connectionsRef.current.delete(streamingId);
+    setConnections(new Map(connectionsRef.current));
+
+    if (connection.connectionState !== 'disconnected') {
+      optionsRef.current.onStreamDisconnect?.(streamingId);
     }
-  }, [disconnectStream, getActiveConnectionCount]);
 
-  // Manage connections based on streamingIds
+    // No reason to keep the socket without subscriptions
+    if (connectionsRef.current.size === 0) {
+      closeSocket();
+    }
+  }, [sendMessage, closeSocket]);
+
+  // Manage subscriptions based on streamingIds
   useEffect(() => {
-    // Determine which streams to connect/disconnect
     const currentStreamIds = new Set(Array.from(connectionsRef.current.keys()));
     const targetStreamIds = new Set(streamingIds);
-    
+
     // Disconnect streams no longer in the list
     currentStreamIds.forEach(streamingId => {
       if (!targetStreamIds.has(streamingId)) {
         disconnectStream(streamingId);
       }
     });
-    
+
     // Connect to new streams
     streamingIds.forEach(streamingId => {
       if (!currentStreamIds.has(streamingId)) {
@@ -265,13 +231,10 @@ export function useMultipleStreams(
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      // Disconnect all streams
-      connectionsRef.current.forEach((_, streamingId) => {
-        disconnectStream(streamingId);
-      });
-      pendingQueue.current = [];
+      connectionsRef.current.clear();
+      closeSocket();
     };
-  }, [disconnectStream]);
+  }, [closeSocket]);
 
   return {
     connections,
@@ -280,4 +243,4 @@ export function useMultipleStreams(
     disconnect: disconnectStream,
     activeConnectionCount: getActiveConnectionCount(),
   };
-}
\ No newline at end of file
+}
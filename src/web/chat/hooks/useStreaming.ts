@@ -19,6 +19,8 @@ export function useStreaming(
   const abortControllerRef = useRef<AbortController | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const optionsRef = useRef(options);
+  // Id of the last event received, the server replays newer ones on reconnect
+  const lastEventIdRef = useRef<string | null>(null);
   
   // Keep options ref up to date
   useEffect(() => {
@@ -65,6 +67,10 @@ export function useStreaming(
       if (authToken) {
         headers.Authorization = `Bearer ${authToken}`;
       }
+
+      if (lastEventIdRef.current) {
+        headers['Last-Event-ID'] = lastEventIdRef.current;
+      }
       
       const response = await fetch(`/api/stream/${streamingId}`, {
         signal: abortControllerRef.current.signal,
@@ -110,6 +116,11 @@ export function useStreaming(
               if (line.startsWith(':')) {
                 continue;
               }
+
+              if (line.startsWith('id: ')) {
+                lastEventIdRef.current = line.substring(4);
+                continue;
+              }
               
               const event = JSON.parse(jsonLine) as StreamEvent;
               optionsRef.current.onMessage(event);
@@ -139,6 +150,9 @@ export function useStreaming(
   }, [streamingId, disconnect]);
 
   useEffect(() => {
+    // Event ids only apply to the stream they came from
+    lastEventIdRef.current = null;
+
     if (streamingId) {
       connect();
     } else {
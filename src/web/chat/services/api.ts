@@ -2,7 +2,27 @@ import type {
   ConversationSummary,
   StartConversationRequest,
   StartConversationResponse,
+  QueuedConversationResponse,
+  QueuedConversationStatus,
+  ForkConversationRequest,
+  ConversationForkTreeResponse,
   ConversationDetailsResponse,
+  ConversationSearchResponse,
+  ConversationExportFormat,
+  ConversationImportRequest,
+  ConversationImportResponse,
+  UsageQuery,
+  UsageResponse,
+  BudgetStatusResponse,
+  ScheduledJob,
+  ScheduledJobRun,
+  ScheduledJobRequest,
+  ScheduledJobUpdateRequest,
+  ScheduledJobsResponse,
+  ScheduledJobRunsResponse,
+  PromptTemplatesResponse,
+  RenderPromptRequest,
+  RenderPromptResponse,
   ApiError,
   WorkingDirectoriesResponse,
   PermissionRequest,
@@ -10,7 +30,19 @@ import type {
   PermissionDecisionResponse,
   FileSystemListQuery,
   FileSystemListResponse,
+  Command,
+  CommandScope,
   CommandsResponse,
+  SaveCommandRequest,
+  FollowUpMessage,
+  MCPServerStatusResponse,
+  FileSystemReadResponse,
+  CheckpointsResponse,
+  SessionChangesResponse,
+  DiscardHunkRequest,
+  RevertCheckpointResponse,
+  WorktreeAction,
+  FinishWorktreeResponse,
 } from '../types';
 import { getAuthToken } from '../../hooks/useAuth';
 type GeminiHealthResponse = { status: 'healthy' | 'unhealthy'; message: string; apiKeyValid: boolean };
@@ -88,7 +120,69 @@ class ApiService {
     return this.apiCall(`/api/conversations/${sessionId}`);
   }
 
-  async startConversation(request: StartConversationRequest): Promise<StartConversationResponse> {
+  async searchConversations(params: {
+    q: string;
+    projectPath?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<ConversationSearchResponse> {
+    const searchParams = new URLSearchParams({ q: params.q });
+    if (params.projectPath) searchParams.append('projectPath', params.projectPath);
+    if (params.limit) searchParams.append('limit', params.limit.toString());
+    if (params.offset) searchParams.append('offset', params.offset.toString());
+
+    return this.apiCall(`/api/conversations/search?${searchParams.toString()}`);
+  }
+
+  async getUsage(query: UsageQuery = {}): Promise<UsageResponse> {
+    const searchParams = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value) searchParams.append(key, value);
+    });
+
+    return this.apiCall(`/api/usage?${searchParams.toString()}`);
+  }
+
+  async getBudgets(): Promise<BudgetStatusResponse> {
+    return this.apiCall('/api/usage/budgets');
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJobsResponse> {
+    return this.apiCall('/api/scheduled-jobs');
+  }
+
+  async createScheduledJob(request: ScheduledJobRequest): Promise<ScheduledJob> {
+    return this.apiCall('/api/scheduled-jobs', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async updateScheduledJob(jobId: string, updates: ScheduledJobUpdateRequest): Promise<ScheduledJob> {
+    return this.apiCall(`/api/scheduled-jobs/${jobId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteScheduledJob(jobId: string): Promise<{ success: boolean }> {
+    return this.apiCall(`/api/scheduled-jobs/${jobId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async runScheduledJob(jobId: string): Promise<ScheduledJobRun> {
+    return this.apiCall(`/api/scheduled-jobs/${jobId}/run`, {
+      method: 'POST',
+    });
+  }
+
+  async getScheduledJobRuns(jobId: string): Promise<ScheduledJobRunsResponse> {
+    return this.apiCall(`/api/scheduled-jobs/${jobId}/runs`);
+  }
+
+  // Resolves with a QueuedConversationResponse when the server is at its process limit
+  async startConversation(request: StartConversationRequest): Promise<StartConversationResponse | QueuedConversationResponse> {
     console.log('🌐 [API] startConversation called with request:', {
       workingDirectory: request.workingDirectory,
       initialPromptLength: request.initialPrompt?.length || 0,
@@ -117,12 +211,111 @@ class ApiService {
   }
 
 
+  async forkConversation(sessionId: string, request: ForkConversationRequest): Promise<StartConversationResponse | QueuedConversationResponse> {
+    return this.apiCall(`/api/conversations/${sessionId}/fork`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async getConversationForks(sessionId: string): Promise<ConversationForkTreeResponse> {
+    return this.apiCall(`/api/conversations/${sessionId}/forks`);
+  }
+
   async stopConversation(streamingId: string): Promise<{ success: boolean }> {
     return this.apiCall(`/api/conversations/${streamingId}/stop`, {
       method: 'POST',
     });
   }
 
+  async interruptConversation(streamingId: string): Promise<{ success: boolean }> {
+    return this.apiCall(`/api/conversations/${streamingId}/interrupt`, {
+      method: 'POST',
+    });
+  }
+
+  async exportConversation(sessionId: string, format: ConversationExportFormat): Promise<{ blob: Blob; filename: string }> {
+    const response = await this.fetchWithAuth(`${this.baseUrl}/api/conversations/${sessionId}/export?format=${format}`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error((data as ApiError).error || `HTTP ${response.status}`);
+    }
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `conversation-${sessionId}.${format}`;
+    return { blob: await response.blob(), filename };
+  }
+
+  async importConversation(request: ConversationImportRequest): Promise<ConversationImportResponse> {
+    return this.apiCall('/api/conversations/import', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async finishWorktree(sessionId: string, action: WorktreeAction): Promise<FinishWorktreeResponse> {
+    return this.apiCall(`/api/conversations/${sessionId}/worktree/finish`, {
+      method: 'POST',
+      body: JSON.stringify({ action }),
+    });
+  }
+
+  async sendFollowUpMessage(streamingId: string, message: string): Promise<FollowUpMessage> {
+    return this.apiCall(`/api/conversations/${streamingId}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    });
+  }
+
+  async getMCPServerStatus(streamingId: string): Promise<MCPServerStatusResponse> {
+    return this.apiCall(`/api/conversations/${streamingId}/mcp-servers`);
+  }
+
+  async getQueuedConversationStatus(queueId: string): Promise<QueuedConversationStatus> {
+    return this.apiCall(`/api/conversations/queue/${queueId}`);
+  }
+
+  async cancelQueuedConversation(queueId: string): Promise<{ success: boolean }> {
+    return this.apiCall(`/api/conversations/queue/${queueId}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  async resumeInterruptedSession(sessionId: string): Promise<StartConversationResponse | QueuedConversationResponse> {
+    return this.apiCall(`/api/conversations/interrupted/${sessionId}/resume`, {
+      method: 'POST',
+    });
+  }
+
+  async dismissInterruptedSession(sessionId: string): Promise<{ success: boolean }> {
+    return this.apiCall(`/api/conversations/interrupted/${sessionId}/dismiss`, {
+      method: 'POST',
+    });
+  }
+
+  async getCheckpoints(sessionId: string): Promise<CheckpointsResponse> {
+    return this.apiCall(`/api/checkpoints?${new URLSearchParams({ sessionId }).toString()}`);
+  }
+
+  async getSessionChanges(sessionId: string, workingDirectory?: string): Promise<SessionChangesResponse> {
+    const searchParams = new URLSearchParams({ sessionId });
+    if (workingDirectory) searchParams.append('workingDirectory', workingDirectory);
+
+    return this.apiCall(`/api/checkpoints/changes?${searchParams.toString()}`);
+  }
+
+  async discardHunk(request: DiscardHunkRequest): Promise<SessionChangesResponse> {
+    return this.apiCall('/api/checkpoints/changes/discard', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async revertToCheckpoint(checkpointId: string): Promise<RevertCheckpointResponse> {
+    return this.apiCall(`/api/checkpoints/${checkpointId}/revert`, {
+      method: 'POST',
+    });
+  }
+
   getStreamUrl(streamingId: string): string {
     return `/api/stream/${streamingId}`;
   }
@@ -186,6 +379,45 @@ class ApiService {
     return this.apiCall(`/api/system/commands?${searchParams}`);
   }
 
+  async createCommand(request: SaveCommandRequest): Promise<Command> {
+    return this.apiCall('/api/system/commands', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async updateCommand(name: string, request: SaveCommandRequest): Promise<Command> {
+    return this.apiCall(`/api/system/commands/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async deleteCommand(name: string, scope: CommandScope, workingDirectory?: string): Promise<{ success: boolean }> {
+    const searchParams = new URLSearchParams({ scope });
+    if (workingDirectory) searchParams.append('workingDirectory', workingDirectory);
+
+    return this.apiCall(`/api/system/commands/${encodeURIComponent(name)}?${searchParams}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getPromptTemplates(workingDirectory?: string): Promise<PromptTemplatesResponse> {
+    const searchParams = new URLSearchParams();
+    if (workingDirectory) {
+      searchParams.append('workingDirectory', workingDirectory);
+    }
+
+    return this.apiCall(`/api/prompt-templates?${searchParams}`);
+  }
+
+  async renderPrompt(request: RenderPromptRequest): Promise<RenderPromptResponse> {
+    return this.apiCall('/api/prompt-templates/render', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
   async getSystemStatus(): Promise<any> {
     return this.apiCall('/api/system/status');
   }
@@ -200,7 +432,7 @@ class ApiService {
     return '/api/logs/stream';
   }
 
-  async readFile(path: string): Promise<{ content: string }> {
+  async readFile(path: string): Promise<FileSystemReadResponse> {
     const searchParams = new URLSearchParams();
     searchParams.append('path', path);
     return this.apiCall(`/api/filesystem/read?${searchParams}`);
@@ -4,8 +4,57 @@ import type {
   ConversationMessage,
   StartConversationRequest,
   StartConversationResponse,
+  QueuedConversationResponse,
+  QueuedConversationStatus,
+  InterruptedSession,
+  InterruptedSessionsResponse,
+  FollowUpMessage,
+  FollowUpMessageRequest,
+  MCPServerStatusResponse,
+  ForkConversationRequest,
+  ConversationForkNode,
+  ConversationForkTreeResponse,
+  Checkpoint,
+  CheckpointsResponse,
+  CheckpointFileChange,
+  SessionChangesResponse,
+  DiscardHunkRequest,
+  RevertCheckpointResponse,
+  WorktreeAction,
+  FinishWorktreeRequest,
+  FinishWorktreeResponse,
   ConversationDetailsResponse,
+  ConversationSearchResponse,
+  ConversationExportFormat,
+  ConversationExportBundle,
+  ConversationImportRequest,
+  ConversationImportResponse,
+  ConversationSearchResult,
+  ConversationSearchMatch,
+  SearchSnippetSegment,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+  UsageBucket,
+  UsageResponse,
+  BudgetStatus,
+  BudgetStatusResponse,
+  ScheduledJob,
+  ScheduledJobRun,
+  ScheduledJobRequest,
+  ScheduledJobUpdateRequest,
+  ScheduledJobsResponse,
+  ScheduledJobRunsResponse,
+  AgentProfile,
+  PromptTemplate,
+  PromptTemplateInfo,
+  PromptTemplatesResponse,
+  RenderPromptRequest,
+  RenderPromptResponse,
   StreamEvent,
+  SessionStatusEvent,
+  WebSocketClientMessage,
+  WebSocketServerMessage,
   AssistantStreamMessage,
   UserStreamMessage,
   ResultStreamMessage,
@@ -13,10 +62,15 @@ import type {
   PermissionRequest,
   PermissionDecisionRequest,
   PermissionDecisionResponse,
+  PermissionGrantScope,
   FileSystemEntry,
   FileSystemListQuery,
   FileSystemListResponse,
+  FileSystemReadResponse,
   CommandsResponse,
+  Command,
+  CommandScope,
+  SaveCommandRequest,
   GeminiHealthResponse,
 } from '@/types';
 
@@ -28,8 +82,57 @@ export type {
   ConversationMessage,
   StartConversationRequest,
   StartConversationResponse,
+  QueuedConversationResponse,
+  QueuedConversationStatus,
+  InterruptedSession,
+  InterruptedSessionsResponse,
+  FollowUpMessage,
+  FollowUpMessageRequest,
+  MCPServerStatusResponse,
+  ForkConversationRequest,
+  ConversationForkNode,
+  ConversationForkTreeResponse,
+  Checkpoint,
+  CheckpointsResponse,
+  CheckpointFileChange,
+  SessionChangesResponse,
+  DiscardHunkRequest,
+  RevertCheckpointResponse,
+  WorktreeAction,
+  FinishWorktreeRequest,
+  FinishWorktreeResponse,
   ConversationDetailsResponse,
+  ConversationSearchResponse,
+  ConversationExportFormat,
+  ConversationExportBundle,
+  ConversationImportRequest,
+  ConversationImportResponse,
+  ConversationSearchResult,
+  ConversationSearchMatch,
+  SearchSnippetSegment,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+  UsageBucket,
+  UsageResponse,
+  BudgetStatus,
+  BudgetStatusResponse,
+  ScheduledJob,
+  ScheduledJobRun,
+  ScheduledJobRequest,
+  ScheduledJobUpdateRequest,
+  ScheduledJobsResponse,
+  ScheduledJobRunsResponse,
+  AgentProfile,
+  PromptTemplate,
+  PromptTemplateInfo,
+  PromptTemplatesResponse,
+  RenderPromptRequest,
+  RenderPromptResponse,
   StreamEvent,
+  SessionStatusEvent,
+  WebSocketClientMessage,
+  WebSocketServerMessage,
   AssistantStreamMessage,
   UserStreamMessage,
   ResultStreamMessage,
@@ -37,22 +140,23 @@ export type {
   PermissionRequest,
   PermissionDecisionRequest,
   PermissionDecisionResponse,
+  PermissionGrantScope,
   FileSystemEntry,
   FileSystemListQuery,
   FileSystemListResponse,
+  FileSystemReadResponse,
   CommandsResponse,
+  Command,
+  CommandScope,
+  SaveCommandRequest,
   GeminiHealthResponse,
 };
 
 // Chat-specific types
-export interface Command {
-  name: string;
-  type: 'builtin' | 'custom';
-  description?: string;
-}
 export interface ChatMessage {
   id: string; // Backend message ID (may not be unique, empty for pending user messages)
   messageId: string; // Client-side unique ID for React rendering
+  parentId?: string; // Backend ID of the parent message, known for historical messages
   type: 'user' | 'assistant' | 'system' | 'error';
   content: string | ContentBlock[];
   timestamp: string;
@@ -107,6 +211,7 @@ export interface StreamStatus {
   lastEvent?: StreamEvent;
   lastEventTime?: string;
   currentStatus: string;
+  costUsd?: number;
   toolMetrics?: {
     linesAdded: number;
     linesRemoved: number;
@@ -0,0 +1,63 @@
+/**
+ * Parsing of unified git diffs into files and hunks
+ */
+
+export interface DiffHunk {
+  header: string;     // The @@ line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];    // Hunk body, prefixed with ' ', '+', '-' or '\'
+}
+
+export interface DiffFile {
+  path: string;       // Path of the file after the change, deleted files keep their old path
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function parseFilePath(section: string): string | undefined {
+  const newPath = /^\+\+\+ b\/(.+)$/m.exec(section);
+  if (newPath) return newPath[1];
+  const oldPath = /^--- a\/(.+)$/m.exec(section);
+  if (oldPath) return oldPath[1];
+  return /^diff --git a\/(.+?) b\//.exec(section)?.[1];
+}
+
+/**
+ * Split a unified diff into its files and their hunks
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+
+  for (const section of diff.split(/^(?=diff --git )/m)) {
+    const path = section.startsWith('diff --git ') ? parseFilePath(section) : undefined;
+    if (!path) continue;
+
+    const file: DiffFile = { path, binary: /^Binary files /m.test(section), hunks: [] };
+    let hunk: DiffHunk | null = null;
+
+    for (const line of section.split('\n')) {
+      const header = HUNK_HEADER.exec(line);
+      if (header) {
+        hunk = {
+          header: line,
+          oldStart: Number(header[1]),
+          oldLines: header[2] === undefined ? 1 : Number(header[2]),
+          newStart: Number(header[3]),
+          newLines: header[4] === undefined ? 1 : Number(header[4]),
+          lines: [],
+        };
+        file.hunks.push(hunk);
+      } else if (hunk && /^[ +\-\\]/.test(line)) {
+        hunk.lines.push(line);
+      }
+    }
+    files.push(file);
+  }
+
+  return files;
+}
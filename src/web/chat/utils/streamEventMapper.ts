@@ -59,11 +59,46 @@ export function mapStreamEventToStatus(event: StreamEvent, currentStatus?: Strea
         ...updates,
         currentStatus: `Awaiting approval...`,
       };
+
+    case 'session_status':
+      return mapSessionStatus(event, updates);
   }
 
   return updates;
 }
 
+/**
+ * Maps events of the all sessions status feed to status updates
+ */
+function mapSessionStatus(event: Extract<StreamEvent, { type: 'session_status' }>, updates: Partial<StreamStatus>): Partial<StreamStatus> {
+  const result: Partial<StreamStatus> = { ...updates, costUsd: event.costUsd };
+
+  switch (event.status) {
+    case 'started':
+      result.currentStatus = 'Running';
+      result.connectionState = 'connected';
+      break;
+    case 'assistant':
+      result.currentStatus = event.toolName ? getToolStatusMessage(event.toolName) : 'Thinking...';
+      result.connectionState = 'connected';
+      break;
+    case 'permission_requested':
+      result.currentStatus = 'Awaiting approval...';
+      break;
+    case 'result':
+      result.currentStatus = event.resultSubtype === 'success' ? 'Completed'
+        : event.resultSubtype === 'error_max_turns' ? 'Max turns reached' : 'Finished';
+      result.connectionState = 'disconnected';
+      break;
+    case 'closed':
+      result.currentStatus = 'Closed';
+      result.connectionState = 'disconnected';
+      break;
+  }
+
+  return result;
+}
+
 /**
  * Maps assistant messages to status updates
  */
@@ -322,7 +322,7 @@ function InspectorApp() {
       const data = await api.startConversation(body);
       showJson('startResult', data);
 
-      if (data.streamingId) {
+      if ('streamingId' in data) {
         setStreamingId(data.streamingId);
         setStopStreamingId(data.streamingId);
         startStream(data.streamingId);
@@ -556,6 +556,114 @@ describe('ClaudeHistoryReader', () => {
     });
   });
 
+  describe('createForkSeed', () => {
+    const sessionId = 'source-session';
+    let projectDir: string;
+
+    const entry = (uuid: string, parentUuid: string | null, type: 'user' | 'assistant', content: unknown, second: number) =>
+      JSON.stringify({
+        parentUuid,
+        type,
+        message: { role: type, content },
+        uuid,
+        timestamp: `2024-01-01T00:00:0${second}Z`,
+        sessionId,
+        cwd: '/Users/username/test'
+      });
+
+    beforeEach(async () => {
+      projectDir = path.join(tempDir, 'projects', '-Users-username-test');
+      await fs.mkdir(projectDir, { recursive: true });
+      await fs.writeFile(path.join(projectDir, `${sessionId}.jsonl`), [
+        entry('msg1', null, 'user', 'Read the file', 0),
+        entry('msg2', 'msg1', 'assistant', [{ type: 'tool_use', id: 'tool-1', name: 'Read', input: { file_path: 'a.ts' } }], 1),
+        entry('msg3', 'msg2', 'user', [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'file contents' }], 2),
+        entry('msg4', 'msg3', 'assistant', [{ type: 'text', text: 'Done reading' }], 3),
+        entry('msg5', 'msg4', 'user', 'Now edit it', 4),
+        entry('msg6', 'msg5', 'assistant', [{ type: 'text', text: 'Edited' }], 5)
+      ].join('\n'));
+
+      reader = new ClaudeHistoryReader();
+      (reader as any).claudeHomePath = tempDir;
+    });
+
+    it('should write a new session with the history up to the message', async () => {
+      const seed = await reader.createForkSeed(sessionId, 'msg4');
+
+      expect(seed.sessionId).not.toBe(sessionId);
+      expect(seed.projectPath).toBe('/Users/username/test');
+      expect(seed.messages.map(message => message.uuid)).toEqual(['msg1', 'msg2', 'msg3', 'msg4']);
+      expect(seed.messages.every(message => message.sessionId === seed.sessionId)).toBe(true);
+
+      const written = (await fs.readFile(path.join(projectDir, `${seed.sessionId}.jsonl`), 'utf-8'))
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line));
+      expect(written.map(line => line.uuid)).toEqual(['msg1', 'msg2', 'msg3', 'msg4']);
+      expect(written.every(line => line.sessionId === seed.sessionId)).toBe(true);
+
+      // The fork is readable as a conversation of its own and the source is untouched
+      const forked = await reader.fetchConversation(seed.sessionId);
+      expect(forked).toHaveLength(4);
+      const source = await reader.fetchConversation(sessionId);
+      expect(source).toHaveLength(6);
+    });
+
+    it('should include tool results when forking from a tool use', async () => {
+      const seed = await reader.createForkSeed(sessionId, 'msg2');
+
+      expect(seed.messages.map(message => message.uuid)).toEqual(['msg1', 'msg2', 'msg3']);
+    });
+
+    it('should throw when the message is not part of the conversation', async () => {
+      await expect(reader.createForkSeed(sessionId, 'missing')).rejects.toMatchObject({
+        code: 'MESSAGE_NOT_FOUND',
+        statusCode: 404
+      });
+    });
+
+    it('should remove the seed and keep the source', async () => {
+      const seed = await reader.createForkSeed(sessionId, 'msg4');
+
+      await reader.removeForkSeed(seed.sessionId);
+
+      expect(await fs.readdir(projectDir)).toEqual([`${sessionId}.jsonl`]);
+      await expect(reader.fetchConversation(seed.sessionId)).rejects.toThrow();
+    });
+  });
+
+  describe('writeSession', () => {
+    const entries = [
+      { type: 'user', uuid: 'msg1', sessionId: 'imported-session', timestamp: '2024-01-01T00:00:00Z', cwd: '/Users/username/my.app', message: { role: 'user', content: 'Hello' } },
+      { type: 'assistant', uuid: 'msg2', parentUuid: 'msg1', sessionId: 'imported-session', timestamp: '2024-01-01T00:00:01Z', cwd: '/Users/username/my.app', message: { role: 'assistant', content: [{ type: 'text', text: 'Hi' }] } }
+    ] as any[];
+
+    beforeEach(() => {
+      reader = new ClaudeHistoryReader();
+      (reader as any).claudeHomePath = tempDir;
+    });
+
+    it('should write the session into the directory of its project', async () => {
+      const sessionFile = await reader.writeSession('imported-session', '/Users/username/my.app', entries);
+
+      expect(sessionFile).toBe(path.join(tempDir, 'projects', '-Users-username-my-app', 'imported-session.jsonl'));
+      const messages = await reader.fetchConversation('imported-session');
+      expect(messages.map(message => message.uuid)).toEqual(['msg1', 'msg2']);
+    });
+
+    it('should only replace an existing session when asked to', async () => {
+      const previousFile = await reader.writeSession('imported-session', '/Users/username/old', entries);
+
+      await expect(reader.writeSession('imported-session', '/Users/username/my.app', entries)).rejects.toMatchObject({
+        code: 'CONVERSATION_EXISTS',
+        statusCode: 409
+      });
+
+      await reader.writeSession('imported-session', '/Users/username/my.app', entries, true);
+      await expect(fs.access(previousFile)).rejects.toThrow();
+    });
+  });
+
   describe('getConversationMetadata', () => {
     it('should extract metadata from conversation file', async () => {
       const projectDir = path.join(path.join(tempDir, 'projects'), '-Users-username-metadata-test');
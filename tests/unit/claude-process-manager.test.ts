@@ -2,7 +2,8 @@ import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi }
 import { ClaudeProcessManager } from '@/services/claude-process-manager';
 import { ClaudeHistoryReader } from '@/services/claude-history-reader';
 import { ConversationStatusManager } from '@/services/conversation-status-manager';
-import { ConversationConfig } from '@/types';
+import { ConfigService } from '@/services/config-service';
+import { ConversationConfig, FollowUpMessage } from '@/types';
 import * as path from 'path';
 
 // Get mock Claude executable path
@@ -97,7 +98,40 @@ describe('ClaudeProcessManager', () => {
       expect(args).toContain('WebSearch');
       expect(args).toContain('--system-prompt');
       expect(args).toContain('You are helpful');
-      expect(args).toContain('Hello Claude');
+      // The prompt is written to stdin
+      expect(args).toContain('--input-format');
+      expect(args).not.toContain('Hello Claude');
+    });
+
+    it('should fill in settings from the agent profile that are not set explicitly', () => {
+      vi.spyOn(ConfigService, 'getInstance').mockReturnValue({
+        getConfig: () => ({
+          agents: {
+            profiles: [{
+              name: 'reviewer',
+              model: 'opus',
+              allowedTools: ['Read', 'Grep'],
+              systemPrompt: 'Review only, never edit files',
+              permissionMode: 'plan'
+            }]
+          }
+        })
+      } as any);
+
+      const args: string[] = (manager as any).buildStartArgs({
+        workingDirectory: '/test/dir',
+        initialPrompt: 'Review the diff',
+        model: 'sonnet',
+        agentProfile: 'reviewer'
+      });
+
+      expect(args[args.indexOf('--model') + 1]).toBe('sonnet');
+      expect(args[args.indexOf('--allowedTools') + 1]).toBe('Read,Grep');
+      expect(args[args.indexOf('--system-prompt') + 1]).toBe('Review only, never edit files');
+      expect(args[args.indexOf('--permission-mode') + 1]).toBe('plan');
+      expect(() => manager.getAgentProfile('missing')).toThrow(expect.objectContaining({ code: 'AGENT_PROFILE_NOT_FOUND', statusCode: 400 }));
+
+      vi.restoreAllMocks();
     });
   });
 
@@ -197,6 +231,74 @@ describe('ClaudeProcessManager', () => {
     }, 2000);
   });
 
+  describe('interruptConversation', () => {
+    it('should end the turn and report the process closed as interrupted', async () => {
+      const results: string[] = [];
+      manager.on('claude-message', ({ message }) => {
+        if (message.type === 'result') {
+          results.push(message.subtype);
+        }
+      });
+      const closed = new Promise<{ interrupted?: boolean }>(resolve => manager.once('process-closed', resolve));
+
+      // Interrupted on the system init message, before Claude answered
+      let interrupting: Promise<boolean> | undefined;
+      manager.once('claude-message', ({ streamingId }) => {
+        manager.sendFollowUpMessage(streamingId, 'dropped by the interrupt');
+        interrupting = manager.interruptConversation(streamingId);
+      });
+      const { streamingId } = await manager.startConversation({ workingDirectory: process.cwd(), initialPrompt: 'test' });
+
+      expect(await interrupting).toBe(true);
+      expect(await closed).toMatchObject({ streamingId, interrupted: true });
+      expect(results).toEqual(['error_during_execution']);
+      expect(manager.isSessionActive(streamingId)).toBe(false);
+    }, 3000);
+
+    it('should return false if session not found', async () => {
+      expect(await manager.interruptConversation('non-existent')).toBe(false);
+    });
+  });
+
+  describe('follow-up messages', () => {
+    it('should deliver queued messages after the current turn and exit after the last', async () => {
+      const results: string[] = [];
+      manager.on('claude-message', ({ message }) => {
+        if (message.type === 'result') {
+          results.push(message.result);
+        }
+      });
+      const turns: string[] = [];
+      const sent = vi.fn(() => turns.push('follow-up sent'));
+      manager.on('follow-up-sent', sent);
+      manager.setBeforeTurnHook(async ({ prompt }) => {
+        turns.push(`before ${prompt}`);
+      });
+      const closed = new Promise(resolve => manager.once('process-closed', resolve));
+
+      // Queued on the system init message, while the first turn is running
+      let followUp: FollowUpMessage | undefined;
+      manager.once('claude-message', ({ streamingId }) => {
+        followUp = manager.sendFollowUpMessage(streamingId, 'second');
+        expect(manager.getFollowUpMessages(streamingId)).toEqual([followUp]);
+      });
+
+      const { streamingId } = await manager.startConversation({ workingDirectory: process.cwd(), initialPrompt: 'first' });
+      expect(followUp).toMatchObject({ streamingId, message: 'second' });
+
+      await closed;
+      expect(results).toEqual(['You said: first', 'You said: second']);
+      expect(sent).toHaveBeenCalledWith(followUp);
+      expect(turns).toEqual(['before first', 'before second', 'follow-up sent']);
+    }, 3000);
+
+    it('should reject messages for conversations that are not running', () => {
+      expect(() => manager.sendFollowUpMessage('non-existent', 'hello')).toThrow(
+        expect.objectContaining({ code: 'CONVERSATION_NOT_RUNNING', statusCode: 409 })
+      );
+    });
+  });
+
   describe('environment variables', () => {
     it('should set PWD and INIT_CWD to match working directory', async () => {
       const testDir = path.join(process.cwd(), 'tests');
@@ -290,6 +392,151 @@ describe('ClaudeProcessManager', () => {
     }, 2000);
   });
 
+  describe('budgets', () => {
+    const exceeded = {
+      scope: 'day' as const,
+      key: '2025-03-01',
+      limit: { maxCostUsd: 10 },
+      costUsd: 12,
+      tokens: 0,
+      exceeded: true
+    };
+
+    it('should refuse to start a conversation over budget', async () => {
+      const budgetService = {
+        findExceededBudget: vi.fn().mockResolvedValue(exceeded),
+        describe: vi.fn().mockReturnValue('Daily budget exceeded: $12.00 of $10.00')
+      };
+      manager.setBudgetService(budgetService as any);
+
+      await expect(manager.startConversation({ workingDirectory: process.cwd(), initialPrompt: 'test' }))
+        .rejects.toMatchObject({ code: 'BUDGET_EXCEEDED', statusCode: 402 });
+      expect(budgetService.findExceededBudget).toHaveBeenCalledWith({ sessionId: undefined, workingDirectory: process.cwd() });
+      expect(manager.getActiveSessions()).toEqual([]);
+    });
+
+    it('should check the session budget when resuming', async () => {
+      const budgetService = {
+        findExceededBudget: vi.fn().mockResolvedValue({ ...exceeded, scope: 'session', key: 'session-1' }),
+        describe: vi.fn().mockReturnValue('Session budget exceeded')
+      };
+      manager.setBudgetService(budgetService as any);
+
+      await expect(manager.startConversation({ resumedSessionId: 'session-1', initialPrompt: 'continue' } as any))
+        .rejects.toThrow('Session budget exceeded');
+      expect(budgetService.findExceededBudget).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-1' }));
+    });
+
+    it('should stop a running conversation once it crosses a budget', async () => {
+      const budgetService = {
+        // Within budget at start, exceeded after the first response
+        findExceededBudget: vi.fn().mockResolvedValueOnce(undefined).mockResolvedValue(exceeded),
+        describe: vi.fn().mockReturnValue('Daily budget exceeded: $12.00 of $10.00')
+      };
+      manager.setBudgetService(budgetService as any);
+
+      const budgetExceeded = new Promise<{ streamingId: string; reason: string }>(resolve => {
+        manager.once('budget-exceeded', resolve);
+      });
+      const { streamingId } = await manager.startConversation({ workingDirectory: process.cwd(), initialPrompt: 'test' });
+
+      const event = await budgetExceeded;
+      expect(event).toMatchObject({ streamingId, reason: 'Daily budget exceeded: $12.00 of $10.00' });
+      expect(budgetService.findExceededBudget).toHaveBeenLastCalledWith(
+        expect.objectContaining({ workingDirectory: process.cwd() }),
+        { refresh: false }
+      );
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(manager.isSessionActive(streamingId)).toBe(false);
+    }, 3000);
+  });
+
+  describe('run queue', () => {
+    // Starts stay pending until resolved, holding their process slot
+    let pendingStarts: Array<() => void>;
+    let failingStarts: Array<(error: Error) => void>;
+    let startedPrompts: string[];
+
+    beforeEach(() => {
+      pendingStarts = [];
+      failingStarts = [];
+      startedPrompts = [];
+      vi.spyOn(manager as any, 'startConversationProcess').mockImplementation((config: any) => new Promise((resolve, reject) => {
+        startedPrompts.push(config.initialPrompt);
+        failingStarts.push(reject);
+        pendingStarts.push(() => resolve({
+          streamingId: `stream-${config.initialPrompt}`,
+          systemInit: { session_id: `session-${config.initialPrompt}` }
+        }));
+      }));
+    });
+
+    const queueConfig = (initialPrompt: string) => ({ workingDirectory: process.cwd(), initialPrompt });
+
+    it('should queue conversations over the limit and start them by priority', async () => {
+      manager.setMaxConcurrentProcesses(1);
+      const first = manager.startConversation(queueConfig('first'));
+      expect(manager.canStartConversation()).toBe(false);
+
+      const onStart = vi.fn();
+      const low = manager.enqueueConversation(queueConfig('low'), {}, onStart);
+      const high = manager.enqueueConversation(queueConfig('high'), { priority: 5 }, onStart);
+      const cancelled = manager.enqueueConversation(queueConfig('cancelled'), {}, onStart);
+
+      expect(manager.getQueuedConversations().map(queued => [queued.initialPrompt, queued.position]))
+        .toEqual([['high', 1], ['low', 2], ['cancelled', 3]]);
+      expect(manager.cancelQueuedConversation(cancelled.queueId)).toBe(true);
+      expect(manager.getQueuedConversationStatus(cancelled.queueId)).toEqual({ queueId: cancelled.queueId, status: 'cancelled' });
+      expect(manager.getQueuedConversationStatus(low.queueId)).toEqual({ queueId: low.queueId, status: 'queued', position: 2 });
+
+      pendingStarts[0]();
+      await first;
+      expect(startedPrompts).toEqual(['first', 'high']);
+
+      pendingStarts[1]();
+      await vi.waitFor(() => expect(onStart).toHaveBeenCalledTimes(1));
+      expect(onStart).toHaveBeenCalledWith(expect.objectContaining({ streamingId: 'stream-high' }));
+      expect(manager.getQueuedConversationStatus(high.queueId)).toMatchObject({ status: 'started', sessionId: 'session-high' });
+      expect(startedPrompts).toEqual(['first', 'high', 'low']);
+      expect(manager.getQueuedConversations()).toEqual([]);
+    });
+
+    it('should drop queued conversations that are cancelled or fail to start', async () => {
+      manager.setMaxConcurrentProcesses(1);
+      const first = manager.startConversation(queueConfig('first'));
+      const onDropped = vi.fn();
+      const cancelled = manager.enqueueConversation(queueConfig('cancelled'), {}, vi.fn(), onDropped);
+      manager.enqueueConversation(queueConfig('failing'), {}, vi.fn(), onDropped);
+      manager.enqueueConversation(queueConfig('started'), {}, vi.fn().mockRejectedValue(new Error('Bookkeeping failed')), onDropped);
+
+      manager.cancelQueuedConversation(cancelled.queueId);
+      await vi.waitFor(() => expect(onDropped).toHaveBeenCalledTimes(1));
+
+      pendingStarts[0]();
+      await first;
+      failingStarts[1](new Error('Spawn failed'));
+      await vi.waitFor(() => expect(onDropped).toHaveBeenCalledTimes(2));
+
+      await vi.waitFor(() => expect(startedPrompts).toEqual(['first', 'failing', 'started']));
+      pendingStarts[2]();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      // onStart failed after the conversation started, it keeps what was prepared for it
+      expect(onDropped).toHaveBeenCalledTimes(2);
+    });
+
+    it('should start queued conversations when the limit is raised', () => {
+      manager.setMaxConcurrentProcesses(1);
+      manager.startConversation(queueConfig('first'));
+      manager.enqueueConversation(queueConfig('second'), {}, vi.fn());
+      expect(startedPrompts).toEqual(['first']);
+
+      manager.setMaxConcurrentProcesses(2);
+
+      expect(startedPrompts).toEqual(['first', 'second']);
+      expect(manager.getQueuedConversations()).toEqual([]);
+    });
+  });
+
   describe('error handling', () => {
     it('should throw error for invalid working directory', async () => {
       const config: ConversationConfig = {
@@ -900,7 +900,8 @@ describe('CUIServer', () => {
 
         expect((server as any).streamManager.addClient).toHaveBeenCalledWith(
           'session-123',
-          expect.any(Object)
+          expect.any(Object),
+          undefined
         );
         
         // Verify headers were set correctly
@@ -964,5 +965,7 @@ describe('CUIServer', () => {
     vi.clearAllTimers();
     vi.useRealTimers();
     vi.restoreAllMocks();
+    // The ConfigService mock is registered with doMock and must not leak into later test files
+    vi.doUnmock('@/services/config-service.js');
   });
 });
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
 import { MCPConfigGenerator } from '@/services/mcp-config-generator';
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, statSync } from 'fs';
 
 describe('MCPConfigGenerator', () => {
   let generator: MCPConfigGenerator;
@@ -81,6 +81,44 @@ describe('MCPConfigGenerator', () => {
     });
   });
 
+  describe('user servers', () => {
+    it('should merge enabled user servers into the shared config', async () => {
+      generator.setUserServers([
+        { name: 'github', command: 'npx', args: ['-y', 'server-github'], env: { GITHUB_TOKEN: 'token' } },
+        { name: 'docs', url: 'https://example.com/mcp' },
+        { name: 'disabled', command: 'node', enabled: false }
+      ]);
+      const configPath = await generator.generateConfig(3001);
+
+      const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+      expect(Object.keys(config.mcpServers)).toEqual(['github', 'docs', 'cui-permissions']);
+      expect(config.mcpServers.github).toEqual({ command: 'npx', args: ['-y', 'server-github'], env: { GITHUB_TOKEN: 'token' } });
+      expect(config.mcpServers.docs).toEqual({ type: 'http', url: 'https://example.com/mcp' });
+      expect(statSync(configPath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should write a separate config for working directories with their own servers', async () => {
+      generator.setUserServers([
+        { name: 'db', command: 'db-global' },
+        { name: 'db', command: 'db-project', workingDirectory: '/projects/app' }
+      ]);
+      const sharedPath = await generator.generateConfig(3001);
+
+      expect(generator.getConfigPath('/projects/other')).toBe(sharedPath);
+      const projectPath = generator.getConfigPath('/projects/app/');
+      expect(projectPath).not.toBe(sharedPath);
+
+      const shared = JSON.parse(readFileSync(sharedPath, 'utf-8'));
+      const project = JSON.parse(readFileSync(projectPath, 'utf-8'));
+      expect(shared.mcpServers.db.command).toBe('db-global');
+      expect(project.mcpServers.db.command).toBe('db-project');
+      expect(project.mcpServers).toHaveProperty('cui-permissions');
+
+      generator.cleanup();
+      expect(existsSync(projectPath)).toBe(false);
+    });
+  });
+
   describe('cleanup', () => {
     it('should remove the generated config file', async () => {
       const configPath = await generator.generateConfig(3001);
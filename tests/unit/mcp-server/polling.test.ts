@@ -4,7 +4,7 @@ import fetch from 'node-fetch';
 vi.mock('node-fetch');
 vi.mock('@/services/logger.js');
 
-describe('MCP Server Permission Polling Logic', () => {
+describe('MCP Server Permission Long-Poll Logic', () => {
   const mockFetch = fetch as any<typeof fetch>;
 
   beforeEach(() => {
@@ -20,34 +20,28 @@ describe('MCP Server Permission Polling Logic', () => {
       json: async () => ({ success: true, id: permissionRequestId }),
     } as any);
 
-    // Mock first poll - still pending
+    // Mock first wait - long-poll window elapsed while still pending
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      status: 200,
       json: async () => ({
-        permissions: [{
+        permission: {
           id: permissionRequestId,
           status: 'pending',
-        }],
+        },
       }),
     } as any);
 
-    // Mock second poll - no longer pending
+    // Mock second wait - decision arrived
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      status: 200,
       json: async () => ({
-        permissions: [],
-      }),
-    } as any);
-
-    // Mock fetch all to get approved permission
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({
-        permissions: [{
+        permission: {
           id: permissionRequestId,
           status: 'approved',
           modifiedInput: { test: 'modified' },
-        }],
+        },
       }),
     } as any);
 
@@ -68,23 +62,16 @@ describe('MCP Server Permission Polling Logic', () => {
       json: async () => ({ success: true, id: permissionRequestId }),
     } as any);
 
-    // Mock poll - permission processed
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({
-        permissions: [],
-      }),
-    } as any);
-
-    // Mock fetch all to get denied permission
+    // Mock wait - decision arrived
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      status: 200,
       json: async () => ({
-        permissions: [{
+        permission: {
           id: permissionRequestId,
           status: 'denied',
           denyReason: denyReason,
-        }],
+        },
       }),
     } as any);
 
@@ -101,14 +88,15 @@ describe('MCP Server Permission Polling Logic', () => {
       json: async () => ({ success: true, id: permissionRequestId }),
     } as any);
 
-    // Mock polls - always pending
+    // Mock waits - always pending
     mockFetch.mockResolvedValue({
       ok: true,
+      status: 200,
       json: async () => ({
-        permissions: [{
+        permission: {
           id: permissionRequestId,
           status: 'pending',
-        }],
+        },
       }),
     } as any);
 
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
 import { PermissionTracker } from '@/services/permission-tracker';
 import { PermissionRequest } from '@/types';
+import { PermissionRuleEvaluator } from '@/services/permission-rule-evaluator';
 
 describe('PermissionTracker', () => {
   let tracker: PermissionTracker;
@@ -44,6 +45,97 @@ describe('PermissionTracker', () => {
     });
   });
 
+  describe('permission rules', () => {
+    it('should auto-approve requests matched by an allow rule', () => {
+      const evaluator = { evaluate: vi.fn().mockReturnValue({ name: 'reads', action: 'allow' }) };
+      tracker.setRuleEvaluator(evaluator as unknown as PermissionRuleEvaluator);
+      const onRequest = vi.fn();
+      const onAutoDecided = vi.fn();
+      tracker.on('permission_request', onRequest);
+      tracker.on('permission_auto_decided', onAutoDecided);
+
+      const request = tracker.addPermissionRequest('Read', { file_path: '/tmp/a.txt' }, 'stream-1');
+
+      expect(request.status).toBe('approved');
+      expect(request.matchedRule).toBe('reads');
+      expect(request.decidedBy).toBe('rule:reads');
+      expect(onRequest).not.toHaveBeenCalled();
+      expect(onAutoDecided).toHaveBeenCalledWith(request);
+    });
+
+    it('should auto-deny requests matched by a deny rule', () => {
+      const evaluator = { evaluate: vi.fn().mockReturnValue({ name: 'no-rm', action: 'deny', denyReason: 'No rm' }) };
+      tracker.setRuleEvaluator(evaluator as unknown as PermissionRuleEvaluator);
+
+      const request = tracker.addPermissionRequest('Bash', { command: 'rm -rf /' }, 'stream-1');
+
+      expect(request.status).toBe('denied');
+      expect(request.denyReason).toBe('No rm');
+    });
+
+    it('should leave requests pending when no rule matches', () => {
+      const evaluator = { evaluate: vi.fn().mockReturnValue(undefined) };
+      tracker.setRuleEvaluator(evaluator as unknown as PermissionRuleEvaluator);
+
+      const request = tracker.addPermissionRequest('Bash', { command: 'ls' }, 'stream-1');
+
+      expect(request.status).toBe('pending');
+      expect(evaluator.evaluate).toHaveBeenCalledWith('Bash', { command: 'ls' }, { sessionId: undefined, workingDirectory: undefined });
+    });
+  });
+
+  describe('session grants', () => {
+    it('should auto-approve later requests for a granted tool in the same session', () => {
+      const first = tracker.addPermissionRequest('Edit', { file_path: '/tmp/a.txt' }, 'stream-1');
+      tracker.updatePermissionStatus(first.id, 'approved');
+      tracker.addSessionGrant(first, 'tool');
+
+      const second = tracker.addPermissionRequest('Edit', { file_path: '/tmp/b.txt' }, 'stream-1');
+      const otherTool = tracker.addPermissionRequest('Write', { file_path: '/tmp/c.txt' }, 'stream-1');
+      const otherSession = tracker.addPermissionRequest('Edit', { file_path: '/tmp/d.txt' }, 'stream-2');
+
+      expect(second.status).toBe('approved');
+      expect(second.grantScope).toBe('tool');
+      expect(second.decidedBy).toBe('session-grant');
+      expect(otherTool.status).toBe('pending');
+      expect(otherSession.status).toBe('pending');
+    });
+
+    it('should only auto-approve the exact granted command', () => {
+      const first = tracker.addPermissionRequest('Bash', { command: 'npm test' }, 'stream-1');
+      tracker.updatePermissionStatus(first.id, 'approved');
+      tracker.addSessionGrant(first, 'command');
+
+      expect(tracker.addPermissionRequest('Bash', { command: ' npm test ' }, 'stream-1').status).toBe('approved');
+      expect(tracker.addPermissionRequest('Bash', { command: 'npm test && rm -rf /' }, 'stream-1').status).toBe('pending');
+    });
+
+    it('should approve already pending requests covered by a new grant', () => {
+      const first = tracker.addPermissionRequest('Read', { file_path: '/tmp/a.txt' }, 'stream-1');
+      const second = tracker.addPermissionRequest('Read', { file_path: '/tmp/b.txt' }, 'stream-1');
+      tracker.updatePermissionStatus(first.id, 'approved');
+
+      tracker.addSessionGrant(first, 'tool');
+
+      expect(tracker.getPermissionRequest(second.id)?.status).toBe('approved');
+    });
+
+    it('should reject command grants for tools without a command', () => {
+      const request = tracker.addPermissionRequest('Read', { file_path: '/tmp/a.txt' }, 'stream-1');
+      expect(() => tracker.addSessionGrant(request, 'command')).toThrow('has no command');
+    });
+
+    it('should drop grants when the session is cleaned up', () => {
+      const first = tracker.addPermissionRequest('Edit', { file_path: '/tmp/a.txt' }, 'stream-1');
+      tracker.addSessionGrant(first, 'tool');
+
+      tracker.removePermissionsByStreamingId('stream-1');
+
+      expect(tracker.getSessionGrants('stream-1')).toEqual([]);
+      expect(tracker.addPermissionRequest('Edit', { file_path: '/tmp/b.txt' }, 'stream-1').status).toBe('pending');
+    });
+  });
+
   describe('getAllPermissionRequests', () => {
     it('should return all permission requests', () => {
       tracker.addPermissionRequest('Bash', { command: 'pwd' });
@@ -181,6 +273,48 @@ describe('PermissionTracker', () => {
     });
   });
 
+  describe('waitForDecision', () => {
+    it('should resolve when the request is decided', async () => {
+      const request = tracker.addPermissionRequest('Bash', { command: 'ls' }, 'stream-1');
+
+      const waiting = tracker.waitForDecision(request.id, 5000);
+      tracker.updatePermissionStatus(request.id, 'denied', { denyReason: 'No' });
+
+      const result = await waiting;
+      expect(result?.status).toBe('denied');
+      expect(result?.denyReason).toBe('No');
+    });
+
+    it('should resolve immediately for an already decided request', async () => {
+      const request = tracker.addPermissionRequest('Bash', { command: 'ls' });
+      tracker.updatePermissionStatus(request.id, 'approved');
+
+      const result = await tracker.waitForDecision(request.id, 5000);
+      expect(result?.status).toBe('approved');
+    });
+
+    it('should resolve with the pending request after the timeout', async () => {
+      const request = tracker.addPermissionRequest('Bash', { command: 'ls' });
+
+      const result = await tracker.waitForDecision(request.id, 10);
+      expect(result?.status).toBe('pending');
+      expect(tracker.listenerCount('permission_updated')).toBe(0);
+    });
+
+    it('should resolve with undefined when the request is removed', async () => {
+      const request = tracker.addPermissionRequest('Bash', { command: 'ls' }, 'stream-1');
+
+      const waiting = tracker.waitForDecision(request.id, 5000);
+      tracker.removePermissionsByStreamingId('stream-1');
+
+      expect(await waiting).toBeUndefined();
+    });
+
+    it('should return undefined for non-existent request', async () => {
+      expect(await tracker.waitForDecision('non-existent', 10)).toBeUndefined();
+    });
+  });
+
   describe('clear', () => {
     it('should clear all permission requests', () => {
       tracker.addPermissionRequest('Bash', { command: 'ls' });
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { createCheckpointRoutes } from '@/routes/checkpoint.routes';
+import { CheckpointService } from '@/services/checkpoint-service';
+import { CUIError } from '@/types';
+import { queryParser } from '@/middleware/query-parser';
+
+vi.mock('@/services/logger.js');
+
+describe('Checkpoint Routes', () => {
+  let app: express.Application;
+  let checkpointService: vi.Mocked<CheckpointService>;
+
+  const checkpoint = {
+    id: 'checkpoint-1',
+    sessionId: 'session-1',
+    streamingId: 'stream-1',
+    commit: 'a'.repeat(40),
+    prompt: 'Rewrite the parser',
+    createdAt: '2025-03-01T10:00:00.000Z'
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use(queryParser);
+
+    checkpointService = {
+      getCheckpoints: vi.fn().mockReturnValue([checkpoint]),
+      getChangesSinceStart: vi.fn().mockResolvedValue({ base: checkpoint.commit, repository: '/work/app', files: [{ path: 'parser.ts', status: 'modified' }], diff: 'diff --git' }),
+      discardHunk: vi.fn().mockResolvedValue({ base: checkpoint.commit, repository: '/work/app', files: [], diff: '' }),
+      revert: vi.fn().mockResolvedValue({ checkpoint, backup: { ...checkpoint, id: 'checkpoint-2' }, files: [] })
+    } as any;
+
+    app.use('/api/checkpoints', createCheckpointRoutes(checkpointService));
+    app.use((err: any, req: any, res: any, next: any) => {
+      res.status(err.statusCode || 500).json({ error: err.message, code: err.code });
+    });
+  });
+
+  it('should list checkpoints of a session', async () => {
+    const response = await request(app).get('/api/checkpoints?sessionId=session-1');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ checkpoints: [checkpoint] });
+    expect(checkpointService.getCheckpoints).toHaveBeenCalledWith('session-1');
+  });
+
+  it('should require a session id', async () => {
+    const response = await request(app).get('/api/checkpoints/changes');
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('MISSING_SESSION_ID');
+  });
+
+  it('should return changes since the session started', async () => {
+    const response = await request(app).get('/api/checkpoints/changes?sessionId=session-1&workingDirectory=/work/app');
+
+    expect(response.status).toBe(200);
+    expect(response.body.files).toEqual([{ path: 'parser.ts', status: 'modified' }]);
+    expect(checkpointService.getChangesSinceStart).toHaveBeenCalledWith('session-1', '/work/app');
+  });
+
+  it('should discard a hunk and return the remaining changes', async () => {
+    const body = { sessionId: 'session-1', path: 'parser.ts', hunk: ['@@ -1 +1 @@', '-a', '+b'] };
+    const response = await request(app).post('/api/checkpoints/changes/discard').send(body);
+
+    expect(response.status).toBe(200);
+    expect(response.body.files).toEqual([]);
+    expect(checkpointService.discardHunk).toHaveBeenCalledWith(body);
+  });
+
+  it('should surface revert conflicts', async () => {
+    checkpointService.revert.mockRejectedValue(new CUIError('CONVERSATION_RUNNING', 'Stop the conversations running in this repository before reverting', 409));
+
+    const response = await request(app).post('/api/checkpoints/checkpoint-1/revert');
+
+    expect(response.status).toBe(409);
+    expect(response.body.code).toBe('CONVERSATION_RUNNING');
+  });
+});
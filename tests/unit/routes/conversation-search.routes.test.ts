@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { createConversationSearchRoutes } from '@/routes/conversation-search.routes';
+import { ConversationSearchService } from '@/services/conversation-search-service';
+import { queryParser } from '@/middleware/query-parser';
+
+vi.mock('@/services/logger.js');
+
+describe('Conversation Search Routes', () => {
+  let app: express.Application;
+  let searchService: vi.Mocked<ConversationSearchService>;
+
+  const result = {
+    sessionId: 'session-1',
+    projectPath: '/work/app',
+    summary: 'Fix the webhook retry bug',
+    customName: '',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    matchCount: 1,
+    matches: [{
+      messageUuid: 'msg-1',
+      kind: 'message' as const,
+      role: 'user' as const,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      snippet: [{ text: 'Fix the ', highlight: false }, { text: 'webhook', highlight: true }]
+    }]
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(queryParser);
+
+    searchService = {
+      search: vi.fn().mockResolvedValue({ results: [result], total: 1 }),
+    } as any;
+
+    app.use('/api/conversations/search', createConversationSearchRoutes(searchService));
+    app.use((err: any, req: any, res: any, next: any) => {
+      res.status(err.statusCode || 500).json({ error: err.message });
+    });
+  });
+
+  it('should return search results with default pagination', async () => {
+    const response = await request(app).get('/api/conversations/search?q=webhook');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ results: [result], total: 1 });
+    expect(searchService.search).toHaveBeenCalledWith({
+      q: 'webhook',
+      projectPath: undefined,
+      limit: 20,
+      offset: 0
+    });
+  });
+
+  it('should pass filters and keep numeric queries as text', async () => {
+    await request(app).get('/api/conversations/search?q=404&projectPath=/work/app&limit=5&offset=10');
+
+    expect(searchService.search).toHaveBeenCalledWith({
+      q: '404',
+      projectPath: '/work/app',
+      limit: 5,
+      offset: 10
+    });
+  });
+
+  it('should require a query', async () => {
+    const response = await request(app).get('/api/conversations/search?q=%20');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('q is required');
+    expect(searchService.search).not.toHaveBeenCalled();
+  });
+
+  it('should validate the limit', async () => {
+    const response = await request(app).get('/api/conversations/search?q=webhook&limit=500');
+
+    expect(response.status).toBe(400);
+    expect(searchService.search).not.toHaveBeenCalled();
+  });
+});
@@ -7,6 +7,12 @@ import { ClaudeHistoryReader } from '@/services/claude-history-reader';
 import { SessionInfoService } from '@/services/session-info-service';
 import { ConversationStatusManager } from '@/services/conversation-status-manager';
 import { ToolMetricsService } from '@/services/ToolMetricsService';
+import { ConversationForkService } from '@/services/conversation-fork-service';
+import { SessionRecoveryService } from '@/services/session-recovery-service';
+import { WorktreeService } from '@/services/worktree-service';
+import { ConversationExportService } from '@/services/conversation-export-service';
+import { ConversationImportService } from '@/services/conversation-import-service';
+import { CUIError } from '@/types';
 
 vi.mock('@/services/logger.js');
 
@@ -16,6 +22,11 @@ describe('Conversation Routes - Unified Start/Resume Endpoint', () => {
   let sessionInfoService: vi.Mocked<SessionInfoService>;
   let historyReader: vi.Mocked<ClaudeHistoryReader>;
   let conversationStatusManager: vi.Mocked<ConversationStatusManager>;
+  let forkService: vi.Mocked<ConversationForkService>;
+  let sessionRecoveryService: vi.Mocked<SessionRecoveryService>;
+  let worktreeService: vi.Mocked<WorktreeService>;
+  let exportService: vi.Mocked<ConversationExportService>;
+  let importService: vi.Mocked<ConversationImportService>;
 
   beforeEach(() => {
     app = express();
@@ -23,22 +34,59 @@ describe('Conversation Routes - Unified Start/Resume Endpoint', () => {
 
     processManager = {
       startConversation: vi.fn(),
+      canStartConversation: vi.fn().mockReturnValue(true),
+      enqueueConversation: vi.fn(),
+      getQueuedConversations: vi.fn().mockReturnValue([]),
+      getQueuedConversationStatus: vi.fn(),
+      cancelQueuedConversation: vi.fn(),
+      getMaxConcurrentProcesses: vi.fn().mockReturnValue(2),
+      getActiveSessions: vi.fn().mockReturnValue(['stream-1', 'stream-2']),
+      sendFollowUpMessage: vi.fn(),
+      interruptConversation: vi.fn(),
     } as any;
 
     sessionInfoService = {
       updateSessionInfo: vi.fn(),
       getSessionInfo: vi.fn(),
       syncMissingSessions: vi.fn(),
+      deleteSession: vi.fn(),
     } as any;
 
     historyReader = {
       fetchConversation: vi.fn(),
+      createForkSeed: vi.fn(),
+      removeForkSeed: vi.fn(),
     } as any;
 
     conversationStatusManager = {
       registerActiveSession: vi.fn(),
     } as any;
 
+    forkService = {
+      getForkTree: vi.fn(),
+    } as any;
+
+    sessionRecoveryService = {
+      getInterruptedSessions: vi.fn().mockReturnValue([]),
+      getInterruptedSessionIds: vi.fn().mockReturnValue(new Set()),
+      resume: vi.fn(),
+      dismiss: vi.fn(),
+    } as any;
+
+    worktreeService = {
+      createWorktree: vi.fn(),
+      removeWorktree: vi.fn(),
+      finishWorktree: vi.fn(),
+    } as any;
+
+    exportService = {
+      exportConversation: vi.fn(),
+    } as any;
+
+    importService = {
+      importConversation: vi.fn(),
+    } as any;
+
     const mockServices = {
       statusTracker: {} as any,
       toolMetricsService: {} as any,
@@ -50,7 +98,12 @@ describe('Conversation Routes - Unified Start/Resume Endpoint', () => {
       mockServices.statusTracker,
       sessionInfoService,
       conversationStatusManager,
-      mockServices.toolMetricsService
+      mockServices.toolMetricsService,
+      forkService,
+      sessionRecoveryService,
+      worktreeService,
+      exportService,
+      importService
     ));
     
     app.use((err: any, req: any, res: any, next: any) => {
@@ -290,4 +343,432 @@ describe('Conversation Routes - Unified Start/Resume Endpoint', () => {
       expect(sessionInfoService.archiveAllSessions).toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('POST /api/conversations/:sessionId/fork', () => {
+    const mockSystemInit = {
+      type: 'system' as const,
+      subtype: 'init' as const,
+      session_id: 'fork-live-789',
+      cwd: '/path/to/project',
+      tools: [],
+      mcp_servers: [],
+      model: 'claude-3',
+      permissionMode: 'default',
+      apiKeySource: 'env'
+    };
+
+    it('should seed a new session and resume it with the new prompt', async () => {
+      const seedMessages = [
+        { uuid: 'msg-1', type: 'user' as const, message: 'First' },
+        { uuid: 'msg-2', type: 'assistant' as const, message: 'Reply' }
+      ];
+      historyReader.createForkSeed.mockResolvedValue({
+        sessionId: 'seed-456',
+        projectPath: '/path/to/project',
+        messages: seedMessages as any
+      });
+      sessionInfoService.getSessionInfo.mockResolvedValue({ permission_mode: 'acceptEdits', initial_commit_head: 'abc123' } as any);
+      sessionInfoService.updateSessionInfo.mockResolvedValue({} as any);
+      processManager.startConversation.mockResolvedValue({
+        streamingId: 'stream-789',
+        systemInit: mockSystemInit
+      });
+
+      const response = await request(app)
+        .post('/api/conversations/source-123/fork')
+        .send({ messageUuid: 'msg-2', initialPrompt: 'Try another approach' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.sessionId).toBe('fork-live-789');
+      expect(response.body.streamingId).toBe('stream-789');
+      expect(historyReader.createForkSeed).toHaveBeenCalledWith('source-123', 'msg-2');
+
+      expect(sessionInfoService.updateSessionInfo).toHaveBeenCalledWith('seed-456', {
+        forked_from_session_id: 'source-123',
+        forked_from_message_uuid: 'msg-2',
+        initial_commit_head: 'abc123',
+        permission_mode: 'acceptEdits'
+      });
+      expect(sessionInfoService.updateSessionInfo).toHaveBeenCalledWith('seed-456', {
+        continuation_session_id: 'fork-live-789'
+      });
+
+      expect(processManager.startConversation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          workingDirectory: '/path/to/project',
+          initialPrompt: 'Try another approach',
+          resumedSessionId: 'seed-456',
+          previousMessages: seedMessages,
+          permissionMode: 'acceptEdits'
+        })
+      );
+      expect(conversationStatusManager.registerActiveSession).toHaveBeenCalledWith(
+        'stream-789',
+        'fork-live-789',
+        expect.objectContaining({ inheritedMessages: seedMessages })
+      );
+    });
+
+    it('should require messageUuid and initialPrompt', async () => {
+      const missingMessage = await request(app)
+        .post('/api/conversations/source-123/fork')
+        .send({ initialPrompt: 'Hello' });
+      expect(missingMessage.status).toBe(400);
+      expect(missingMessage.body.error).toContain('messageUuid is required');
+
+      const missingPrompt = await request(app)
+        .post('/api/conversations/source-123/fork')
+        .send({ messageUuid: 'msg-2' });
+      expect(missingPrompt.status).toBe(400);
+      expect(missingPrompt.body.error).toContain('initialPrompt is required');
+
+      expect(historyReader.createForkSeed).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the message does not exist', async () => {
+      historyReader.createForkSeed.mockRejectedValue(
+        new CUIError('MESSAGE_NOT_FOUND', 'Message msg-x not found in conversation source-123', 404)
+      );
+
+      const response = await request(app)
+        .post('/api/conversations/source-123/fork')
+        .send({ messageUuid: 'msg-x', initialPrompt: 'Hello' });
+
+      expect(response.status).toBe(404);
+      expect(processManager.startConversation).not.toHaveBeenCalled();
+    });
+    describe('when the fork does not start', () => {
+      beforeEach(() => {
+        historyReader.createForkSeed.mockResolvedValue({ sessionId: 'seed-456', projectPath: '/path/to/project', messages: [] });
+        historyReader.removeForkSeed.mockResolvedValue();
+        sessionInfoService.getSessionInfo.mockResolvedValue({ permission_mode: 'default' } as any);
+        sessionInfoService.updateSessionInfo.mockResolvedValue({} as any);
+        sessionInfoService.deleteSession.mockResolvedValue();
+      });
+
+      it('should remove the seed session when the fork fails to start', async () => {
+        processManager.startConversation.mockRejectedValue(new CUIError('PROCESS_START_FAILED', 'Claude failed to start', 500));
+
+        const response = await request(app)
+          .post('/api/conversations/source-123/fork')
+          .send({ messageUuid: 'msg-2', initialPrompt: 'Hello' });
+
+        expect(response.status).toBe(500);
+        expect(historyReader.removeForkSeed).toHaveBeenCalledWith('seed-456');
+        expect(sessionInfoService.deleteSession).toHaveBeenCalledWith('seed-456');
+      });
+
+      it('should remove the seed session when a queued fork is dropped', async () => {
+        processManager.canStartConversation.mockReturnValue(false);
+        processManager.enqueueConversation.mockReturnValue({ queueId: 'queue-1', position: 1 } as any);
+
+        const response = await request(app)
+          .post('/api/conversations/source-123/fork')
+          .send({ messageUuid: 'msg-2', initialPrompt: 'Hello' });
+
+        expect(response.status).toBe(202);
+        expect(historyReader.removeForkSeed).not.toHaveBeenCalled();
+        const onDropped = processManager.enqueueConversation.mock.calls[0][3];
+        await onDropped!();
+        expect(historyReader.removeForkSeed).toHaveBeenCalledWith('seed-456');
+        expect(sessionInfoService.deleteSession).toHaveBeenCalledWith('seed-456');
+      });
+    });
+  });
+
+  describe('GET /api/conversations/:sessionId/forks', () => {
+    it('should return the fork tree of the session', async () => {
+      const root = {
+        sessionId: 'source-123',
+        sessionIds: ['source-123'],
+        title: 'Root',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        children: []
+      };
+      forkService.getForkTree.mockResolvedValue(root);
+
+      const response = await request(app).get('/api/conversations/source-123/forks');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ root, currentSessionId: 'source-123' });
+      expect(forkService.getForkTree).toHaveBeenCalledWith('source-123');
+    });
+  });
+
+  describe('conversation queue', () => {
+    const queued = {
+      queueId: 'queue-1',
+      position: 1,
+      priority: 2,
+      enqueuedAt: '2025-03-01T00:00:00.000Z',
+      workingDirectory: '/path/to/project',
+      initialPrompt: 'Queued task'
+    };
+
+    it('should queue the conversation when no process slot is free', async () => {
+      processManager.canStartConversation.mockReturnValue(false);
+      processManager.enqueueConversation.mockReturnValue(queued);
+
+      const response = await request(app)
+        .post('/api/conversations/start')
+        .send({ workingDirectory: '/path/to/project', initialPrompt: 'Queued task', priority: 2 });
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({ queued: true, queueId: 'queue-1', queuePosition: 1 });
+      expect(processManager.startConversation).not.toHaveBeenCalled();
+      expect(processManager.enqueueConversation).toHaveBeenCalledWith(
+        expect.objectContaining({ initialPrompt: 'Queued task' }),
+        { priority: 2 },
+        expect.any(Function),
+        expect.any(Function)
+      );
+
+      // Session bookkeeping runs once the queue starts the conversation
+      sessionInfoService.updateSessionInfo.mockResolvedValue({} as any);
+      const onStarted = processManager.enqueueConversation.mock.calls[0][2];
+      await onStarted({ streamingId: 'stream-1', systemInit: { session_id: 'session-1' } as any });
+      expect(sessionInfoService.updateSessionInfo).not.toHaveBeenCalled();
+    });
+
+    it('should reject a non-numeric priority', async () => {
+      const response = await request(app)
+        .post('/api/conversations/start')
+        .send({ workingDirectory: '/path/to/project', initialPrompt: 'Hello', priority: 'high' });
+
+      expect(response.status).toBe(400);
+      expect(processManager.enqueueConversation).not.toHaveBeenCalled();
+    });
+
+    it('should list queued conversations and their status', async () => {
+      processManager.getQueuedConversations.mockReturnValue([queued]);
+      processManager.getQueuedConversationStatus.mockReturnValue({ queueId: 'queue-1', status: 'queued', position: 1 });
+
+      const list = await request(app).get('/api/conversations/queue');
+      expect(list.status).toBe(200);
+      expect(list.body).toEqual({ queue: [queued], maxConcurrent: 2, running: 2 });
+
+      const status = await request(app).get('/api/conversations/queue/queue-1');
+      expect(status.body).toEqual({ queueId: 'queue-1', status: 'queued', position: 1 });
+
+      processManager.getQueuedConversationStatus.mockReturnValue(undefined);
+      expect((await request(app).get('/api/conversations/queue/unknown')).status).toBe(404);
+    });
+
+    it('should cancel a queued conversation', async () => {
+      processManager.cancelQueuedConversation.mockReturnValue(true);
+
+      const response = await request(app).post('/api/conversations/queue/queue-1/cancel');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true });
+      expect(processManager.cancelQueuedConversation).toHaveBeenCalledWith('queue-1');
+    });
+  });
+
+  describe('interrupted sessions', () => {
+    it('should resume an interrupted session', async () => {
+      sessionRecoveryService.resume.mockResolvedValue({
+        streamingId: 'stream-2',
+        systemInit: { session_id: 'session-2', cwd: '/path/to/project', tools: [], mcp_servers: [], model: 'claude-3', permissionMode: 'default', apiKeySource: 'env' } as any
+      });
+
+      const response = await request(app).post('/api/conversations/interrupted/session-1/resume');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ streamingId: 'stream-2', sessionId: 'session-2', streamUrl: '/api/stream/stream-2' });
+      expect(sessionRecoveryService.resume).toHaveBeenCalledWith('session-1');
+    });
+
+    it('should report a queued resume and unknown sessions', async () => {
+      sessionRecoveryService.resume.mockResolvedValueOnce({ queued: { queueId: 'queue-1', position: 3 } as any });
+      const queued = await request(app).post('/api/conversations/interrupted/session-1/resume');
+      expect(queued.status).toBe(202);
+      expect(queued.body).toEqual({ queued: true, queueId: 'queue-1', queuePosition: 3 });
+
+      sessionRecoveryService.resume.mockRejectedValueOnce(new CUIError('INTERRUPTED_SESSION_NOT_FOUND', 'No interrupted session', 404));
+      expect((await request(app).post('/api/conversations/interrupted/unknown/resume')).status).toBe(404);
+    });
+
+    it('should dismiss an interrupted session', async () => {
+      sessionRecoveryService.dismiss.mockReturnValue(true);
+
+      const response = await request(app).post('/api/conversations/interrupted/session-1/dismiss');
+
+      expect(response.body).toEqual({ success: true });
+      expect(sessionRecoveryService.dismiss).toHaveBeenCalledWith('session-1');
+    });
+  });
+
+  describe('POST /api/conversations/:streamingId/interrupt', () => {
+    it('should interrupt a running conversation', async () => {
+      processManager.interruptConversation.mockResolvedValue(true);
+
+      const response = await request(app).post('/api/conversations/stream-1/interrupt');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true });
+      expect(processManager.interruptConversation).toHaveBeenCalledWith('stream-1');
+    });
+  });
+
+  describe('POST /api/conversations/:streamingId/messages', () => {
+    it('should queue a follow-up message for a running conversation', async () => {
+      const followUp = { id: 'follow-up-1', streamingId: 'stream-1', message: 'Also add tests', queuedAt: '2024-01-01T00:00:00.000Z' };
+      processManager.sendFollowUpMessage.mockReturnValue(followUp);
+
+      const response = await request(app)
+        .post('/api/conversations/stream-1/messages')
+        .send({ message: 'Also add tests' });
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual(followUp);
+      expect(processManager.sendFollowUpMessage).toHaveBeenCalledWith('stream-1', 'Also add tests');
+    });
+
+    it('should reject empty messages and conversations that are not running', async () => {
+      const empty = await request(app).post('/api/conversations/stream-1/messages').send({ message: '  ' });
+      expect(empty.status).toBe(400);
+
+      processManager.sendFollowUpMessage.mockImplementation(() => {
+        throw new CUIError('CONVERSATION_NOT_RUNNING', 'Conversation stream-1 is not running', 409);
+      });
+      const notRunning = await request(app).post('/api/conversations/stream-1/messages').send({ message: 'hello' });
+      expect(notRunning.status).toBe(409);
+    });
+  });
+
+  describe('worktrees', () => {
+    const worktree = {
+      path: '/home/user/.cui/worktrees/project/add-tests-1234abcd',
+      branch: 'cui/add-tests-1234abcd',
+      workingDirectory: '/home/user/.cui/worktrees/project/add-tests-1234abcd'
+    };
+
+    it('should start the conversation in a new worktree and record it on the session', async () => {
+      worktreeService.createWorktree.mockResolvedValue(worktree);
+      processManager.startConversation.mockResolvedValue({
+        streamingId: 'stream-1',
+        systemInit: { session_id: 'session-1', cwd: worktree.path } as any
+      });
+      sessionInfoService.updateSessionInfo.mockResolvedValue({} as any);
+
+      const response = await request(app)
+        .post('/api/conversations/start')
+        .send({ workingDirectory: '/path/to/project', initialPrompt: 'Add tests', worktree: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.worktreeBranch).toBe(worktree.branch);
+      expect(worktreeService.createWorktree).toHaveBeenCalledWith('/path/to/project', 'Add tests');
+      expect(processManager.startConversation).toHaveBeenCalledWith(
+        expect.objectContaining({ workingDirectory: worktree.workingDirectory })
+      );
+      expect(sessionInfoService.updateSessionInfo).toHaveBeenCalledWith('session-1', {
+        worktree_path: worktree.path,
+        worktree_branch: worktree.branch
+      });
+    });
+
+    it('should remove the worktree when the conversation fails to start', async () => {
+      worktreeService.createWorktree.mockResolvedValue(worktree);
+      worktreeService.removeWorktree.mockResolvedValue();
+      processManager.startConversation.mockRejectedValue(new Error('spawn failed'));
+
+      const response = await request(app)
+        .post('/api/conversations/start')
+        .send({ workingDirectory: '/path/to/project', initialPrompt: 'Add tests', worktree: true });
+
+      expect(response.status).toBe(500);
+      expect(worktreeService.removeWorktree).toHaveBeenCalledWith(worktree);
+    });
+
+    it('should remove the worktree when a queued conversation is dropped', async () => {
+      worktreeService.createWorktree.mockResolvedValue(worktree);
+      worktreeService.removeWorktree.mockResolvedValue();
+      processManager.canStartConversation.mockReturnValue(false);
+      processManager.enqueueConversation.mockReturnValue({ queueId: 'queue-1', position: 1 } as any);
+
+      const response = await request(app)
+        .post('/api/conversations/start')
+        .send({ workingDirectory: '/path/to/project', initialPrompt: 'Add tests', worktree: true });
+
+      expect(response.status).toBe(202);
+      expect(worktreeService.removeWorktree).not.toHaveBeenCalled();
+      const onDropped = processManager.enqueueConversation.mock.calls[0][3];
+      await onDropped!();
+      expect(worktreeService.removeWorktree).toHaveBeenCalledWith(worktree);
+    });
+
+    it('should finish the worktree of a session', async () => {
+      const result = { action: 'merge', branch: worktree.branch, worktreePath: worktree.path, mergedInto: 'main' };
+      worktreeService.finishWorktree.mockResolvedValue(result as any);
+
+      const response = await request(app)
+        .post('/api/conversations/session-1/worktree/finish')
+        .send({ action: 'merge' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(result);
+      expect(worktreeService.finishWorktree).toHaveBeenCalledWith('session-1', 'merge');
+    });
+
+    it('should reject unknown finish actions', async () => {
+      const response = await request(app)
+        .post('/api/conversations/session-1/worktree/finish')
+        .send({ action: 'rebase' });
+
+      expect(response.status).toBe(400);
+      expect(worktreeService.finishWorktree).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/conversations/:sessionId/export', () => {
+    it('should download the conversation in the requested format', async () => {
+      exportService.exportConversation.mockResolvedValue({
+        filename: 'fix-title-session-.html',
+        contentType: 'text/html; charset=utf-8',
+        content: '<!DOCTYPE html>'
+      });
+
+      const response = await request(app).get('/api/conversations/session-1/export?format=html');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="fix-title-session-.html"');
+      expect(response.text).toBe('<!DOCTYPE html>');
+      expect(exportService.exportConversation).toHaveBeenCalledWith('session-1', 'html');
+    });
+
+    it('should reject unknown formats', async () => {
+      const response = await request(app).get('/api/conversations/session-1/export?format=pdf');
+
+      expect(response.status).toBe(400);
+      expect(exportService.exportConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/conversations/import', () => {
+    it('should import the uploaded conversation', async () => {
+      importService.importConversation.mockResolvedValue({
+        sessionId: 'session-1',
+        projectPath: '/home/user/app',
+        messageCount: 2
+      });
+
+      const response = await request(app)
+        .post('/api/conversations/import')
+        .send({ content: '{"type":"user"}', projectPath: '/home/user/app' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ sessionId: 'session-1', projectPath: '/home/user/app', messageCount: 2 });
+      expect(importService.importConversation).toHaveBeenCalledWith({ content: '{"type":"user"}', projectPath: '/home/user/app' });
+    });
+
+    it('should require content', async () => {
+      const response = await request(app).post('/api/conversations/import').send({});
+
+      expect(response.status).toBe(400);
+      expect(importService.importConversation).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { createPermissionHistoryRoutes } from '@/routes/permission-history.routes';
+import { PermissionAuditService } from '@/services/permission-audit-service';
+import { queryParser } from '@/middleware/query-parser';
+
+vi.mock('@/services/logger.js');
+
+describe('Permission History Routes', () => {
+  let app: express.Application;
+  let auditService: vi.Mocked<PermissionAuditService>;
+
+  const entry = {
+    id: 'perm-1',
+    streamingId: 'stream-1',
+    sessionId: 'session-1',
+    toolName: 'Bash',
+    toolInput: { command: 'ls' },
+    status: 'approved' as const,
+    decidedBy: 'user',
+    requestedAt: '2025-01-01T00:00:00.000Z',
+    decidedAt: '2025-01-01T00:00:01.000Z',
+    latencyMs: 1000
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(queryParser);
+
+    auditService = {
+      getHistory: vi.fn().mockReturnValue({ entries: [entry], total: 1 }),
+      toCsv: vi.fn().mockReturnValue('id\nperm-1\n'),
+    } as any;
+
+    app.use('/api/permissions/history', createPermissionHistoryRoutes(auditService));
+    app.use((err: any, req: any, res: any, next: any) => {
+      res.status(err.statusCode || 500).json({ error: err.message });
+    });
+  });
+
+  it('should return filtered history with a default limit', async () => {
+    const response = await request(app)
+      .get('/api/permissions/history?toolName=Bash&status=approved');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ entries: [entry], total: 1 });
+    expect(auditService.getHistory).toHaveBeenCalledWith(expect.objectContaining({
+      toolName: 'Bash',
+      status: 'approved',
+      limit: 100,
+      offset: 0
+    }));
+  });
+
+  it('should export all matching entries as CSV', async () => {
+    const response = await request(app)
+      .get('/api/permissions/history?format=csv');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/csv');
+    expect(response.headers['content-disposition']).toContain('permission-history.csv');
+    expect(response.text).toBe('id\nperm-1\n');
+    expect(auditService.getHistory).toHaveBeenCalledWith(expect.objectContaining({ limit: undefined }));
+  });
+
+  it('should export JSON as an attachment', async () => {
+    const response = await request(app)
+      .get('/api/permissions/history?format=json');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-disposition']).toContain('permission-history.json');
+    expect(response.body.entries).toHaveLength(1);
+  });
+
+  it('should reject an unknown format', async () => {
+    const response = await request(app)
+      .get('/api/permissions/history?format=xml');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('format must be');
+  });
+});
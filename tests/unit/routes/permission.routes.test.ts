@@ -19,6 +19,8 @@ describe('Permission Routes', () => {
       addPermissionRequest: vi.fn(),
       getPermissionRequests: vi.fn(),
       updatePermissionStatus: vi.fn(),
+      waitForDecision: vi.fn(),
+      addSessionGrant: vi.fn(),
       clearExpiredRequests: vi.fn(),
     } as any;
 
@@ -113,6 +115,91 @@ describe('Permission Routes', () => {
       );
     });
 
+    it('should not take who decided from the request', async () => {
+      permissionTracker.getPermissionRequests.mockReturnValue([{
+        id: 'test-request-id',
+        toolName: 'test-tool',
+        toolInput: {},
+        streamingId: 'test-streaming-id',
+        timestamp: new Date().toISOString(),
+        status: 'pending' as const,
+      }]);
+      permissionTracker.updatePermissionStatus.mockReturnValue(true);
+
+      const response = await request(app)
+        .post('/api/permissions/test-request-id/decision')
+        .send({ action: 'approve', decidedBy: 'admin' });
+
+      expect(response.status).toBe(200);
+      expect(permissionTracker.updatePermissionStatus.mock.calls[0][2]).not.toHaveProperty('decidedBy');
+    });
+
+    it('should remember a session grant when approving with a scope', async () => {
+      const pendingRequest = {
+        id: 'test-request-id',
+        toolName: 'Bash',
+        toolInput: { command: 'npm test' },
+        streamingId: 'test-streaming-id',
+        timestamp: new Date().toISOString(),
+        status: 'pending' as const,
+      };
+
+      permissionTracker.getPermissionRequests.mockReturnValue([pendingRequest]);
+      permissionTracker.updatePermissionStatus.mockReturnValue(true);
+
+      const response = await request(app)
+        .post('/api/permissions/test-request-id/decision')
+        .send({ action: 'approve', scope: 'command' });
+
+      expect(response.status).toBe(200);
+      expect(permissionTracker.addSessionGrant).toHaveBeenCalledWith(pendingRequest, 'command');
+    });
+
+    it('should not add a session grant for single approvals', async () => {
+      permissionTracker.getPermissionRequests.mockReturnValue([{
+        id: 'test-request-id',
+        toolName: 'Edit',
+        toolInput: {},
+        streamingId: 'test-streaming-id',
+        timestamp: new Date().toISOString(),
+        status: 'pending' as const,
+      }]);
+      permissionTracker.updatePermissionStatus.mockReturnValue(true);
+
+      await request(app)
+        .post('/api/permissions/test-request-id/decision')
+        .send({ action: 'approve' });
+
+      expect(permissionTracker.addSessionGrant).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a command scope on a tool without a command', async () => {
+      permissionTracker.getPermissionRequests.mockReturnValue([{
+        id: 'test-request-id',
+        toolName: 'Edit',
+        toolInput: { file_path: '/tmp/a.txt' },
+        streamingId: 'test-streaming-id',
+        timestamp: new Date().toISOString(),
+        status: 'pending' as const,
+      }]);
+
+      const response = await request(app)
+        .post('/api/permissions/test-request-id/decision')
+        .send({ action: 'approve', scope: 'command' });
+
+      expect(response.status).toBe(400);
+      expect(permissionTracker.updatePermissionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a scoped denial', async () => {
+      const response = await request(app)
+        .post('/api/permissions/test-id/decision')
+        .send({ action: 'deny', scope: 'tool' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Only approvals');
+    });
+
     it('should return 400 for invalid action', async () => {
       const response = await request(app)
         .post('/api/permissions/test-id/decision')
@@ -161,6 +248,57 @@ describe('Permission Routes', () => {
     });
   });
 
+  describe('GET /api/permissions/:requestId/wait', () => {
+    it('should return the decided permission', async () => {
+      const approvedRequest = {
+        id: 'test-request-id',
+        toolName: 'test-tool',
+        toolInput: { test: 'input' },
+        streamingId: 'test-streaming-id',
+        timestamp: new Date().toISOString(),
+        status: 'approved' as const,
+      };
+
+      permissionTracker.waitForDecision.mockResolvedValue(approvedRequest);
+
+      const response = await request(app)
+        .get('/api/permissions/test-request-id/wait?timeout=1000');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ permission: approvedRequest });
+      expect(permissionTracker.waitForDecision).toHaveBeenCalledWith(
+        'test-request-id',
+        1000,
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should cap the requested timeout', async () => {
+      permissionTracker.waitForDecision.mockResolvedValue({
+        id: 'test-request-id',
+        status: 'pending',
+      } as any);
+
+      await request(app).get('/api/permissions/test-request-id/wait?timeout=999999');
+
+      expect(permissionTracker.waitForDecision).toHaveBeenCalledWith(
+        'test-request-id',
+        60000,
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should return 404 when the permission request does not exist', async () => {
+      permissionTracker.waitForDecision.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/api/permissions/missing-id/wait');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toContain('Permission request not found');
+    });
+  });
+
   describe('POST /api/permissions/notify', () => {
     it('should create a new permission request', async () => {
       const permissionRequest = {
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { createUsageRoutes } from '@/routes/usage.routes';
+import { UsageService } from '@/services/usage-service';
+import { BudgetService } from '@/services/budget-service';
+import { queryParser } from '@/middleware/query-parser';
+
+vi.mock('@/services/logger.js');
+
+describe('Usage Routes', () => {
+  let app: express.Application;
+  let usageService: vi.Mocked<UsageService>;
+  let budgetService: vi.Mocked<BudgetService>;
+
+  const totals = {
+    inputTokens: 1000,
+    outputTokens: 200,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0.006,
+    messageCount: 1
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(queryParser);
+
+    usageService = {
+      getUsage: vi.fn().mockResolvedValue({ groupBy: 'day', buckets: [{ key: '2025-03-01', ...totals }], totals }),
+      getPrices: vi.fn().mockReturnValue({ sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 } }),
+    } as any;
+
+    budgetService = {
+      getBudgetStatus: vi.fn().mockResolvedValue([
+        { scope: 'day', key: '2025-03-01', limit: { maxCostUsd: 10 }, costUsd: 12, tokens: 0, exceeded: true }
+      ]),
+    } as any;
+
+    app.use('/api/usage', createUsageRoutes(usageService, budgetService));
+    app.use((err: any, req: any, res: any, next: any) => {
+      res.status(err.statusCode || 500).json({ error: err.message });
+    });
+  });
+
+  it('should return aggregated usage', async () => {
+    const response = await request(app).get('/api/usage?groupBy=day&from=2025-03-01&to=2025-03-31');
+
+    expect(response.status).toBe(200);
+    expect(response.body.totals).toEqual(totals);
+    expect(usageService.getUsage).toHaveBeenCalledWith({
+      groupBy: 'day',
+      from: '2025-03-01',
+      to: '2025-03-31',
+      projectPath: undefined,
+      sessionId: undefined
+    });
+  });
+
+  it('should keep numeric session ids as strings', async () => {
+    await request(app).get('/api/usage?groupBy=model&sessionId=12345');
+
+    expect(usageService.getUsage).toHaveBeenCalledWith(expect.objectContaining({ groupBy: 'model', sessionId: '12345' }));
+  });
+
+  it('should reject invalid groupBy and dates', async () => {
+    expect((await request(app).get('/api/usage?groupBy=hour')).status).toBe(400);
+    expect((await request(app).get('/api/usage?from=March')).status).toBe(400);
+    expect(usageService.getUsage).not.toHaveBeenCalled();
+  });
+
+  it('should return the price table', async () => {
+    const response = await request(app).get('/api/usage/prices');
+
+    expect(response.status).toBe(200);
+    expect(response.body.prices.sonnet.output).toBe(15);
+  });
+
+  it('should return budget status', async () => {
+    const response = await request(app).get('/api/usage/budgets');
+
+    expect(response.status).toBe(200);
+    expect(response.body.budgets).toHaveLength(1);
+    expect(response.body.budgets[0]).toMatchObject({ scope: 'day', exceeded: true });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { createWebSocketServer, closeWebSocketServer } from '@/routes/websocket.routes';
+import { StreamManager } from '@/services/stream-manager';
+import type { WebSocketServerMessage } from '@/types';
+
+vi.mock('@/services/logger.js');
+
+describe('WebSocket Routes', () => {
+  let server: http.Server;
+  let wss: ReturnType<typeof createWebSocketServer>;
+  let streamManager: StreamManager;
+  let processManager: any;
+  let permissionTracker: any;
+  let socket: WebSocket;
+  let received: WebSocketServerMessage[];
+
+  const assistantEvent = (text: string) => ({
+    type: 'assistant' as const,
+    session_id: 'session-1',
+    message: { role: 'assistant', content: [{ type: 'text', text }] } as any
+  });
+
+  const waitFor = async (predicate: () => boolean): Promise<void> => {
+    for (let i = 0; i < 100 && !predicate(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(predicate()).toBe(true);
+  };
+
+  const connect = async (): Promise<WebSocket> => {
+    const { port } = server.address() as AddressInfo;
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/api/ws`);
+    ws.on('message', data => received.push(JSON.parse(data.toString())));
+    await new Promise(resolve => ws.once('open', resolve));
+    return ws;
+  };
+
+  beforeEach(async () => {
+    received = [];
+    streamManager = new StreamManager();
+    processManager = {
+      stopConversation: vi.fn().mockResolvedValue(true),
+      canStartConversation: vi.fn().mockReturnValue(false),
+      enqueueConversation: vi.fn().mockReturnValue({ queueId: 'queue-1', position: 1 })
+    };
+    permissionTracker = {
+      getPermissionRequests: vi.fn().mockReturnValue([
+        { id: 'perm-1', toolName: 'Bash', toolInput: { command: 'ls' }, streamingId: 'stream-1', timestamp: '', status: 'pending' }
+      ]),
+      updatePermissionStatus: vi.fn().mockReturnValue(true),
+      addSessionGrant: vi.fn()
+    };
+
+    server = http.createServer();
+    wss = createWebSocketServer(server, {
+      streamManager,
+      processManager,
+      permissionTracker,
+      historyReader: { fetchConversation: vi.fn().mockResolvedValue([]) } as any,
+      sessionInfoService: { getSessionInfo: vi.fn(), updateSessionInfo: vi.fn() } as any,
+      conversationStatusManager: { registerActiveSession: vi.fn() } as any,
+      worktreeService: {} as any
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    socket = await connect();
+  });
+
+  afterEach(async () => {
+    closeWebSocketServer(wss);
+    streamManager.disconnectAll();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should multiplex events of subscribed streams', async () => {
+    socket.send(JSON.stringify({ type: 'subscribe', streamingId: 'stream-1' }));
+    socket.send(JSON.stringify({ type: 'subscribe', streamingId: 'stream-2' }));
+    await waitFor(() => received.filter(message => message.type === 'subscribed').length === 2);
+
+    streamManager.broadcast('stream-1', assistantEvent('one'));
+    streamManager.broadcast('stream-2', assistantEvent('two'));
+    streamManager.broadcast('stream-3', assistantEvent('not subscribed'));
+    await waitFor(() => received.filter(message => message.type === 'event').length === 2);
+
+    expect(received.filter(message => message.type === 'event')).toEqual([
+      { type: 'event', streamingId: 'stream-1', id: 1, event: assistantEvent('one') },
+      { type: 'event', streamingId: 'stream-2', id: 2, event: assistantEvent('two') }
+    ]);
+  });
+
+  it('should replay buffered events after lastEventId on subscribe', async () => {
+    streamManager.broadcast('stream-1', assistantEvent('seen'));
+    streamManager.broadcast('stream-1', assistantEvent('missed'));
+
+    socket.send(JSON.stringify({ type: 'subscribe', streamingId: 'stream-1', lastEventId: 1 }));
+    await waitFor(() => received.some(message => message.type === 'event'));
+
+    expect(received).toEqual([
+      { type: 'subscribed', streamingId: 'stream-1' },
+      { type: 'event', streamingId: 'stream-1', id: 2, event: assistantEvent('missed') }
+    ]);
+  });
+
+  it('should stop conversations and apply permission decisions', async () => {
+    socket.send(JSON.stringify({ type: 'stop', requestId: 'r1', streamingId: 'stream-1' }));
+    socket.send(JSON.stringify({
+      type: 'permission_decision',
+      requestId: 'r2',
+      permissionRequestId: 'perm-1',
+      decision: { action: 'approve', scope: 'command' }
+    }));
+    await waitFor(() => received.length === 2);
+
+    expect(processManager.stopConversation).toHaveBeenCalledWith('stream-1');
+    expect(permissionTracker.updatePermissionStatus).toHaveBeenCalledWith('perm-1', 'approved', expect.any(Object));
+    expect(permissionTracker.addSessionGrant).toHaveBeenCalledWith(expect.objectContaining({ id: 'perm-1' }), 'command');
+    expect(received).toContainEqual({ type: 'result', requestId: 'r1', result: { success: true } });
+    expect(received).toContainEqual(expect.objectContaining({ type: 'result', requestId: 'r2', result: expect.objectContaining({ success: true }) }));
+  });
+
+  it('should send messages through the start flow and report validation errors', async () => {
+    socket.send(JSON.stringify({
+      type: 'send_message',
+      requestId: 'r1',
+      request: { workingDirectory: '/work/app', initialPrompt: 'Next step', resumedSessionId: 'session-1', permissionMode: 'plan' }
+    }));
+    socket.send(JSON.stringify({ type: 'send_message', requestId: 'r2', request: { workingDirectory: '/work/app' } }));
+    socket.send('not json');
+    await waitFor(() => received.length === 3);
+
+    expect(received).toContainEqual({ type: 'result', requestId: 'r1', result: { queued: true, queueId: 'queue-1', queuePosition: 1 } });
+    expect(received).toContainEqual({ type: 'error', requestId: 'r2', code: 'MISSING_INITIAL_PROMPT', error: 'initialPrompt is required' });
+    expect(received).toContainEqual(expect.objectContaining({ type: 'error', code: 'INVALID_MESSAGE' }));
+    expect(processManager.enqueueConversation).toHaveBeenCalledWith(
+      expect.objectContaining({ initialPrompt: 'Next step', resumedSessionId: 'session-1' }),
+      { priority: undefined },
+      expect.any(Function),
+      expect.any(Function)
+    );
+  });
+
+  it('should reject upgrades without a valid token when auth is enabled', async () => {
+    process.env.ENABLE_AUTH_IN_TESTS = 'true';
+    const authServer = http.createServer();
+    const authWss = createWebSocketServer(authServer, { streamManager } as any, { tokenOverride: 'secret' });
+    await new Promise<void>(resolve => authServer.listen(0, '127.0.0.1', resolve));
+    const { port } = authServer.address() as AddressInfo;
+
+    try {
+      const rejected = new WebSocket(`ws://127.0.0.1:${port}/api/ws?token=wrong`);
+      const status = await new Promise(resolve => rejected.once('unexpected-response', (_req, res) => resolve(res.statusCode)));
+      expect(status).toBe(401);
+
+      const accepted = new WebSocket(`ws://127.0.0.1:${port}/api/ws?token=secret`);
+      await new Promise(resolve => accepted.once('open', resolve));
+      accepted.close();
+    } finally {
+      delete process.env.ENABLE_AUTH_IN_TESTS;
+      closeWebSocketServer(authWss);
+      await new Promise(resolve => authServer.close(resolve));
+    }
+  });
+});
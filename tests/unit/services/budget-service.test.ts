@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BudgetService } from '@/services/budget-service';
+import { UsageService } from '@/services/usage-service';
+import { ConfigService } from '@/services/config-service';
+import type { BudgetsConfig, SessionInfo, UsageQuery } from '@/types';
+
+vi.mock('@/services/logger.js');
+
+describe('BudgetService', () => {
+  let budgets: BudgetsConfig;
+  let usageService: vi.Mocked<UsageService>;
+  let service: BudgetService;
+  let sessionInfos: Record<string, Partial<SessionInfo>>;
+  const today = new Date().toISOString().substring(0, 10);
+
+  const totals = (costUsd: number, tokens = 0) => ({
+    inputTokens: tokens,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 1_000_000, // Cache reads don't count towards token limits
+    costUsd,
+    messageCount: 1
+  });
+
+  beforeEach(() => {
+    budgets = {};
+    vi.spyOn(ConfigService, 'getInstance').mockReturnValue({
+      getConfig: () => ({ usage: { budgets } })
+    } as any);
+
+    usageService = {
+      getUsage: vi.fn(async (query: UsageQuery) => {
+        if (query.sessionIds) return { groupBy: 'day', buckets: [], totals: totals(2, 500) };
+        if (query.projectPath) return { groupBy: 'day', buckets: [], totals: totals(4) };
+        return { groupBy: 'day', buckets: [], totals: totals(9) };
+      })
+    } as any;
+
+    sessionInfos = {};
+    const sessionInfoService = { getAllSessionInfo: vi.fn(async () => sessionInfos) } as any;
+
+    service = new BudgetService(usageService, sessionInfoService);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report no budgets when none are configured', async () => {
+    expect(await service.getBudgetStatus({ sessionId: 'session-1', workingDirectory: '/work/app' })).toEqual([]);
+    expect(await service.findExceededBudget({ sessionId: 'session-1' })).toBeUndefined();
+  });
+
+  it('should check the budgets that apply to a session and working directory', async () => {
+    budgets = {
+      session: { maxTokens: 1000 },
+      day: { maxCostUsd: 10 },
+      workingDirectories: { '/work/app': { maxCostUsd: 5 }, '/work/other': { maxCostUsd: 1 } }
+    };
+
+    const statuses = await service.getBudgetStatus({ sessionId: 'session-1', workingDirectory: '/work/app/' });
+
+    expect(statuses).toEqual([
+      { scope: 'session', key: 'session-1', limit: { maxTokens: 1000 }, costUsd: 2, tokens: 500, exceeded: false },
+      { scope: 'workingDirectory', key: '/work/app', limit: { maxCostUsd: 5 }, costUsd: 4, tokens: 0, exceeded: false },
+      { scope: 'day', key: today, limit: { maxCostUsd: 10 }, costUsd: 9, tokens: 0, exceeded: false }
+    ]);
+    expect(usageService.getUsage).toHaveBeenCalledWith({ projectPath: '/work/app', from: today, to: today }, {});
+  });
+
+  it('should add up the sessions of a resumed conversation', async () => {
+    budgets = { session: { maxTokens: 1000 } };
+    sessionInfos = {
+      'session-1': { continuation_session_id: 'session-2' },
+      'session-2': { continuation_session_id: 'session-3' },
+      'session-3': { continuation_session_id: '' },
+      'session-4': { continuation_session_id: '' }
+    };
+
+    const [status] = await service.getBudgetStatus({ sessionId: 'session-2' });
+
+    expect(status.key).toBe('session-1');
+    expect(usageService.getUsage).toHaveBeenCalledWith({ sessionIds: ['session-1', 'session-2', 'session-3'] }, {});
+  });
+
+  it('should list every working directory budget without a context', async () => {
+    budgets = { workingDirectories: { '/work/app': { maxCostUsd: 5 }, '/work/other': { maxCostUsd: 1 } } };
+
+    const statuses = await service.getBudgetStatus();
+
+    expect(statuses.map(status => [status.key, status.exceeded])).toEqual([['/work/app', false], ['/work/other', true]]);
+  });
+
+  it('should find the first exceeded budget and describe it', async () => {
+    budgets = { session: { maxCostUsd: 5 }, day: { maxCostUsd: 9, maxTokens: 100 } };
+
+    const exceeded = await service.findExceededBudget({ sessionId: 'session-1' }, { refresh: false });
+
+    expect(exceeded?.scope).toBe('day');
+    expect(usageService.getUsage).toHaveBeenCalledWith({ from: today, to: today }, { refresh: false });
+    expect(service.describe(exceeded!)).toBe('Daily budget exceeded: $9.00 of $9.00, 0 of 100 tokens');
+  });
+});
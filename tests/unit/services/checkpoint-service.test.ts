@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CheckpointService } from '@/services/checkpoint-service';
+import { SessionInfoService } from '@/services/session-info-service';
+import { parseUnifiedDiff } from '@/web/chat/utils/diff-hunks';
+
+vi.mock('@/services/logger.js');
+
+describe('CheckpointService', () => {
+  let sessionInfoService: SessionInfoService;
+  let processManager: EventEmitter;
+  let service: CheckpointService;
+  let repo: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+
+  const checkpoint = (prompt: string, sessionId = 'session-1') => service.createCheckpoint({
+    sessionId,
+    streamingId: 'stream-1',
+    workingDirectory: repo,
+    prompt
+  });
+
+  beforeEach(async () => {
+    repo = mkdtempSync(path.join(os.tmpdir(), 'cui-checkpoint-test-'));
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    writeFileSync(path.join(repo, 'app.ts'), 'export const version = 1;\n');
+    git('add', 'app.ts');
+    git('commit', '-q', '-m', 'initial');
+
+    SessionInfoService.resetInstance();
+    sessionInfoService = new SessionInfoService(':memory:');
+    await sessionInfoService.initialize();
+
+    processManager = new EventEmitter();
+    service = new CheckpointService(sessionInfoService, processManager as any);
+    await service.initialize();
+    service.listenToProcessManager();
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should snapshot the working tree without touching the index or HEAD', async () => {
+    writeFileSync(path.join(repo, 'app.ts'), 'export const version = 2;\n');
+    writeFileSync(path.join(repo, 'notes.md'), 'untracked\n');
+    const head = git('rev-parse', 'HEAD');
+
+    const created = await checkpoint('Bump the version');
+
+    expect(created).toEqual(expect.objectContaining({ sessionId: 'session-1', prompt: 'Bump the version' }));
+    expect(git('show', `${created!.commit}:app.ts`)).toBe('export const version = 2;');
+    expect(git('show', `${created!.commit}:notes.md`)).toBe('untracked');
+    expect(git('rev-parse', `refs/cui/checkpoints/${created!.id}`)).toBe(created!.commit);
+    expect(git('rev-parse', 'HEAD')).toBe(head);
+    expect(git('status', '--porcelain')).toBe('M app.ts\n?? notes.md');
+  });
+
+  it('should report changes since the first checkpoint of a session', async () => {
+    await checkpoint('Add a feature');
+    writeFileSync(path.join(repo, 'app.ts'), 'export const version = 2;\n');
+    await checkpoint('Add another feature');
+    writeFileSync(path.join(repo, 'feature.ts'), 'export {};\n');
+
+    const changes = await service.getChangesSinceStart('session-1');
+
+    expect(changes.repository).toBe(repo);
+    expect(changes.files).toEqual([
+      { path: 'app.ts', status: 'modified' },
+      { path: 'feature.ts', status: 'added' }
+    ]);
+    expect(changes.diff).toContain('+export const version = 2;');
+  });
+
+  describe('discarding hunks', () => {
+    const hunksOf = (diff: string, file: string) => parseUnifiedDiff(diff).find(entry => entry.path === file)!.hunks
+      .map(hunk => [hunk.header, ...hunk.lines]);
+
+    beforeEach(() => {
+      writeFileSync(path.join(repo, 'app.ts'), Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+      git('commit', '-q', '-am', 'longer app');
+    });
+
+    it('should discard one hunk and keep the others', async () => {
+      await checkpoint('Edit both ends');
+      const lines = readFileSync(path.join(repo, 'app.ts'), 'utf-8').split('\n');
+      lines[1] = 'changed 2';
+      lines[18] = 'changed 19';
+      writeFileSync(path.join(repo, 'app.ts'), lines.join('\n'));
+
+      const [first, second] = hunksOf((await service.getChangesSinceStart('session-1')).diff, 'app.ts');
+      const changes = await service.discardHunk({ sessionId: 'session-1', path: 'app.ts', hunk: first });
+
+      const content = readFileSync(path.join(repo, 'app.ts'), 'utf-8');
+      expect(content).toContain('line 2\n');
+      expect(content).toContain('changed 19\n');
+      expect(hunksOf(changes.diff, 'app.ts')).toEqual([second]);
+    });
+
+    it('should delete added files and recreate deleted ones in dot directories', async () => {
+      await checkpoint('Move the workflow');
+      mkdirSync(path.join(repo, '.github'));
+      writeFileSync(path.join(repo, '.github', 'ci.yml'), 'on: push');
+      rmSync(path.join(repo, 'app.ts'));
+
+      const { diff } = await service.getChangesSinceStart('session-1');
+      await service.discardHunk({ sessionId: 'session-1', path: '.github/ci.yml', hunk: hunksOf(diff, '.github/ci.yml')[0] });
+      const changes = await service.discardHunk({ sessionId: 'session-1', path: 'app.ts', hunk: hunksOf(diff, 'app.ts')[0] });
+
+      expect(existsSync(path.join(repo, '.github', 'ci.yml'))).toBe(false);
+      expect(readFileSync(path.join(repo, 'app.ts'), 'utf-8')).toContain('line 20\n');
+      expect(changes.files).toEqual([]);
+    });
+
+    it('should discard removals and changes to files without a final newline', async () => {
+      await checkpoint('Trim the file');
+      const lines = readFileSync(path.join(repo, 'app.ts'), 'utf-8').split('\n');
+      writeFileSync(path.join(repo, 'app.ts'), [...lines.slice(0, 2), ...lines.slice(3, 19), 'changed 20'].join('\n'));
+
+      const { diff } = await service.getChangesSinceStart('session-1');
+      const hunks = hunksOf(diff, 'app.ts');
+      expect(hunks[1]).toContain('\\ No newline at end of file');
+      await service.discardHunk({ sessionId: 'session-1', path: 'app.ts', hunk: hunks[1] });
+      await service.discardHunk({ sessionId: 'session-1', path: 'app.ts', hunk: hunks[0] });
+
+      expect(readFileSync(path.join(repo, 'app.ts'), 'utf-8')).toBe(lines.join('\n'));
+    });
+
+    it('should refuse hunks of content that changed after the diff was taken', async () => {
+      await checkpoint('Edit the start');
+      writeFileSync(path.join(repo, 'app.ts'), readFileSync(path.join(repo, 'app.ts'), 'utf-8').replace('line 2\n', 'changed 2\n'));
+      const [hunk] = hunksOf((await service.getChangesSinceStart('session-1')).diff, 'app.ts');
+      writeFileSync(path.join(repo, 'app.ts'), readFileSync(path.join(repo, 'app.ts'), 'utf-8').replace('changed 2\n', 'changed again\n'));
+
+      await expect(service.discardHunk({ sessionId: 'session-1', path: 'app.ts', hunk })).rejects.toMatchObject({ code: 'HUNK_CONFLICT', statusCode: 409 });
+      expect(readFileSync(path.join(repo, 'app.ts'), 'utf-8')).toContain('changed again\n');
+      await expect(service.discardHunk({ sessionId: 'session-1', path: '../app.ts', hunk })).rejects.toMatchObject({ code: 'INVALID_PATH' });
+    });
+  });
+
+  it('should snapshot each turn before its prompt reaches Claude', async () => {
+    await service.beforeTurn({ streamingId: 'stream-2', workingDirectory: repo, prompt: 'Bump the version' });
+    // Claude edits the tree right after the prompt is written, before the session id is known
+    writeFileSync(path.join(repo, 'app.ts'), 'export const version = 2;\n');
+    processManager.emit('conversation-started', {
+      streamingId: 'stream-2',
+      sessionId: 'session-2',
+      cwd: repo,
+      config: { workingDirectory: repo, initialPrompt: 'Bump the version' }
+    });
+    await vi.waitFor(() => expect(service.getCheckpoints('session-2')).toHaveLength(1));
+
+    await service.beforeTurn({ streamingId: 'stream-2', workingDirectory: repo, prompt: 'Bump it again' });
+    writeFileSync(path.join(repo, 'app.ts'), 'export const version = 3;\n');
+
+    const [first, followUp] = service.getCheckpoints('session-2');
+    expect(first.prompt).toBe('Bump the version');
+    expect(git('show', `${first.commit}:app.ts`)).toBe('export const version = 1;');
+    expect(followUp.prompt).toBe('Bump it again');
+    expect(git('show', `${followUp.commit}:app.ts`)).toBe('export const version = 2;');
+  });
+
+  it('should revert the working tree to a checkpoint and keep a backup of the current state', async () => {
+    const before = await checkpoint('Rewrite the app');
+    writeFileSync(path.join(repo, 'app.ts'), 'export const version = 2;\n');
+    writeFileSync(path.join(repo, 'feature.ts'), 'export {};\n');
+
+    const result = await service.revert(before!.id);
+
+    expect(readFileSync(path.join(repo, 'app.ts'), 'utf-8')).toBe('export const version = 1;\n');
+    expect(existsSync(path.join(repo, 'feature.ts'))).toBe(false);
+    expect(git('show', `${result.backup.commit}:feature.ts`)).toBe('export {};');
+    expect(service.getCheckpoints('session-1').map(c => c.id)).toEqual([before!.id, result.backup.id]);
+  });
+
+  it('should refuse to revert while a conversation runs in the repository', async () => {
+    processManager.emit('conversation-started', {
+      streamingId: 'stream-2',
+      sessionId: 'session-2',
+      cwd: repo,
+      config: { workingDirectory: repo, initialPrompt: 'Keep going' }
+    });
+    const before = await checkpoint('Rewrite the app');
+
+    await expect(service.revert(before!.id)).rejects.toMatchObject({ code: 'CONVERSATION_RUNNING', statusCode: 409 });
+
+    processManager.emit('process-closed', { streamingId: 'stream-2', code: 0 });
+    await expect(service.revert(before!.id)).resolves.toEqual(expect.objectContaining({ files: [] }));
+  });
+
+  it('should include checkpoints of resumed sessions', async () => {
+    await checkpoint('First run');
+    await service.createCheckpoint({
+      sessionId: 'session-2',
+      streamingId: 'stream-2',
+      resumedSessionId: 'session-1',
+      workingDirectory: repo,
+      prompt: 'Continue'
+    });
+
+    expect(service.getCheckpoints('session-2').map(c => c.prompt)).toEqual(['First run', 'Continue']);
+  });
+
+  it('should skip directories outside git repositories', async () => {
+    const plain = mkdtempSync(path.join(os.tmpdir(), 'cui-checkpoint-plain-'));
+    try {
+      await expect(service.createCheckpoint({
+        sessionId: 'session-1',
+        streamingId: 'stream-1',
+        workingDirectory: plain,
+        prompt: 'Hello'
+      })).resolves.toBeUndefined();
+    } finally {
+      rmSync(plain, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { deleteCustomCommand, getCustomCommands, parseCommandFile, saveCustomCommand } from '@/services/commands-service';
+import { expandCommandArguments } from '@/utils/prompt-template';
+
+vi.mock('@/services/logger.js');
+
+describe('commands-service', () => {
+  let project: string;
+  let commandsDir: string;
+
+  const projectCommands = () => getCustomCommands(project).filter(command => command.scope === 'project');
+
+  beforeEach(() => {
+    project = mkdtempSync(path.join(os.tmpdir(), 'cui-commands-test-'));
+    commandsDir = path.join(project, '.claude', 'commands');
+    mkdirSync(path.join(commandsDir, 'frontend'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  it('parses frontmatter fields and lists', () => {
+    const { frontmatter, content } = parseCommandFile([
+      '---',
+      'description: "Review: the diff"',
+      'argument-hint: [file]',
+      'allowed-tools:',
+      '  - Read',
+      '  - Bash(git diff:*)',
+      '---',
+      'Review $ARGUMENTS'
+    ].join('\n'));
+
+    expect(frontmatter.description).toBe('Review: the diff');
+    expect(frontmatter['argument-hint']).toBe('[file]');
+    expect(frontmatter['allowed-tools']).toEqual(['Read', 'Bash(git diff:*)']);
+    expect(content).toBe('Review $ARGUMENTS');
+    expect(parseCommandFile('No frontmatter').content).toBe('No frontmatter');
+  });
+
+  it('reads details of namespaced commands', () => {
+    writeFileSync(path.join(commandsDir, 'frontend', 'component.md'), [
+      '---',
+      'description: Create a component',
+      "argument-hint: '<name>'",
+      'allowed-tools: [Read, Write]',
+      '---',
+      'Create $ARGUMENTS'
+    ].join('\n'));
+    writeFileSync(path.join(commandsDir, 'plain.md'), '# Plain command\n\nDo it');
+
+    const commands = projectCommands();
+    expect(commands.find(command => command.name === '/frontend:component')).toMatchObject({
+      type: 'custom',
+      namespace: 'frontend',
+      description: 'Create a component',
+      argumentHint: '<name>',
+      allowedTools: ['Read', 'Write'],
+      content: 'Create $ARGUMENTS'
+    });
+    expect(commands.find(command => command.name === '/plain')?.description).toBe('Plain command');
+  });
+
+  it('creates, renames and deletes project commands', () => {
+    const created = saveCustomCommand({
+      name: 'frontend:page',
+      scope: 'project',
+      workingDirectory: project,
+      description: 'Create a page',
+      allowedTools: ['Read'],
+      content: 'Create the page $ARGUMENTS'
+    });
+    expect(created).toMatchObject({ name: '/frontend:page', description: 'Create a page', allowedTools: ['Read'] });
+    expect(readFileSync(path.join(commandsDir, 'frontend', 'page.md'), 'utf-8')).toContain('description: "Create a page"');
+
+    expect(() => saveCustomCommand({ name: 'frontend:page', scope: 'project', workingDirectory: project, content: 'Again' }))
+      .toThrow('already exists');
+
+    saveCustomCommand({ name: 'frontend:screen', scope: 'project', workingDirectory: project, content: 'Create the screen' }, 'frontend:page');
+    expect(existsSync(path.join(commandsDir, 'frontend', 'page.md'))).toBe(false);
+    expect(projectCommands().map(command => command.name)).toEqual(['/frontend:screen']);
+
+    deleteCustomCommand('frontend:screen', 'project', project);
+    expect(projectCommands()).toEqual([]);
+  });
+
+  it('rejects names outside the commands directory', () => {
+    expect(() => saveCustomCommand({ name: '..:escape', scope: 'project', workingDirectory: project, content: 'x' }))
+      .toThrow('Command names may only contain');
+    expect(() => deleteCustomCommand('missing', 'project', project)).toThrow('not found');
+    expect(() => saveCustomCommand({ name: 'x', scope: 'project', workingDirectory: path.join(project, 'missing'), content: 'x' }))
+      .toThrow('workingDirectory must be an existing absolute directory');
+  });
+
+  it('expands $ARGUMENTS', () => {
+    expect(expandCommandArguments('Fix issue $ARGUMENTS', '123')).toBe('Fix issue 123');
+    expect(expandCommandArguments('Fix $ARGUMENTS and close $ARGUMENTS', '#7')).toBe('Fix #7 and close #7');
+    expect(expandCommandArguments('Fix the bug', '123')).toBe('Fix the bug\n\nARGUMENTS: 123');
+    expect(expandCommandArguments('Fix $ARGUMENTS', '')).toBe('Fix $ARGUMENTS');
+  });
+});
@@ -61,4 +61,88 @@ describe('ConfigService interface', () => {
     expect(prev.interface).toBeDefined();
     expect(source).toBe('internal');
   });
+
+  it('stores permission rules and rejects invalid ones', async () => {
+    const service = ConfigService.getInstance();
+    await service.initialize();
+    await service.updateConfig({ permissions: { rules: [{ name: 'reads', action: 'allow', tools: ['Read'] }] } });
+    expect(service.getConfig().permissions?.rules?.[0].name).toBe('reads');
+
+    await expect(service.updateConfig({
+      permissions: { rules: [{ name: 'bad', action: 'allow', commandPattern: '(' }] }
+    })).rejects.toThrow('commandPattern is not a valid regular expression');
+    expect(service.getConfig().permissions?.rules?.[0].name).toBe('reads');
+  });
+
+  it('stores model prices and rejects invalid ones', async () => {
+    const service = ConfigService.getInstance();
+    await service.initialize();
+    await service.updateConfig({ usage: { prices: { sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 } } } });
+    expect(service.getConfig().usage?.prices?.sonnet.output).toBe(15);
+
+    await expect(service.updateConfig({
+      usage: { prices: { opus: { input: 15, output: -1, cacheWrite: 0, cacheRead: 0 } } }
+    })).rejects.toThrow("usage.prices['opus'].output must be a non-negative number");
+    expect(service.getConfig().usage?.prices?.opus).toBeUndefined();
+  });
+
+  it('stores budgets and rejects invalid limits', async () => {
+    const service = ConfigService.getInstance();
+    await service.initialize();
+    await service.updateConfig({ usage: { budgets: { day: { maxCostUsd: 20 }, workingDirectories: { '/work/app': { maxTokens: 1000 } } } } });
+    expect(service.getConfig().usage?.budgets?.day?.maxCostUsd).toBe(20);
+
+    await expect(service.updateConfig({
+      usage: { budgets: { session: { maxCostUsd: '5' as unknown as number } } }
+    })).rejects.toThrow('usage.budgets.session.maxCostUsd must be a non-negative number');
+  });
+
+  it('stores the process limit and rejects invalid values', async () => {
+    const service = ConfigService.getInstance();
+    await service.initialize();
+    await service.updateConfig({ processes: { maxConcurrent: 3 } });
+    expect(service.getConfig().processes?.maxConcurrent).toBe(3);
+
+    await expect(service.updateConfig({ processes: { maxConcurrent: 1.5 } }))
+      .rejects.toThrow('processes.maxConcurrent must be a non-negative integer');
+    await expect(service.updateConfig({ processes: { autoResumeInterrupted: 'yes' as unknown as boolean } }))
+      .rejects.toThrow('processes.autoResumeInterrupted must be a boolean');
+  });
+
+  it('stores prompt templates and rejects names that look like slash commands', async () => {
+    const service = ConfigService.getInstance();
+    await service.initialize();
+    await service.updateConfig({ prompts: { templates: [{ name: 'review', template: 'Review {{file}}' }] } });
+    expect(service.getConfig().prompts?.templates?.[0].name).toBe('review');
+
+    await expect(service.updateConfig({ prompts: { templates: [{ name: '/review', template: 'Review' }] } }))
+      .rejects.toThrow('prompts.templates[].name must be a non-empty string not starting with /');
+    expect(service.getConfig().prompts?.templates?.[0].name).toBe('review');
+  });
+
+  it('stores agent profiles and rejects invalid permission modes', async () => {
+    const service = ConfigService.getInstance();
+    await service.initialize();
+    await service.updateConfig({ agents: { profiles: [{ name: 'reviewer', allowedTools: ['Read'], permissionMode: 'plan' }] } });
+    expect(service.getConfig().agents?.profiles?.[0].name).toBe('reviewer');
+
+    await expect(service.updateConfig({ agents: { profiles: [{ name: 'fixer', permissionMode: 'yolo' }] } }))
+      .rejects.toThrow("agents.profiles['fixer'].permissionMode must be");
+    await expect(service.updateConfig({ agents: { profiles: [{ name: 'a' }, { name: 'a' }] } }))
+      .rejects.toThrow("agents.profiles['a'] is defined more than once");
+  });
+
+  it('stores MCP servers and rejects servers without a command or url', async () => {
+    const service = ConfigService.getInstance();
+    await service.initialize();
+    await service.updateConfig({ mcp: { servers: [{ name: 'github', command: 'npx', args: ['-y', 'server-github'] }] } });
+    expect(service.getConfig().mcp?.servers?.[0].name).toBe('github');
+
+    await expect(service.updateConfig({ mcp: { servers: [{ name: 'docs', type: 'http' }] } }))
+      .rejects.toThrow("mcp.servers['docs'] needs a url");
+    await expect(service.updateConfig({ mcp: { servers: [{ name: 'cui-permissions', command: 'node' }] } }))
+      .rejects.toThrow('mcp.servers[].name must be a non-empty string other than cui-permissions');
+    await expect(service.updateConfig({ mcp: { servers: [{ name: 'db', command: 'a' }, { name: 'db', command: 'b' }] } }))
+      .rejects.toThrow("mcp.servers['db'] is defined more than once");
+  });
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConversationExportService } from '@/services/conversation-export-service';
+import type { ConversationExportBundle, ConversationMessage } from '@/types';
+
+vi.mock('@/services/logger.js');
+
+function message(uuid: string, type: 'user' | 'assistant', content: any, extra: Partial<ConversationMessage> = {}): ConversationMessage {
+  return {
+    uuid,
+    type,
+    message: { role: type, content } as any,
+    timestamp: '2025-01-01T00:00:00.000Z',
+    sessionId: 'session-12345678',
+    ...extra
+  };
+}
+
+describe('ConversationExportService', () => {
+  let historyReader: { fetchConversation: ReturnType<typeof vi.fn>; getConversationMetadata: ReturnType<typeof vi.fn> };
+  let sessionInfoService: { getSessionInfo: ReturnType<typeof vi.fn> };
+  let service: ConversationExportService;
+
+  const messages = [
+    message('1', 'user', 'Fix the <title> tag'),
+    message('2', 'assistant', [
+      { type: 'text', text: 'Updating the template.' },
+      { type: 'tool_use', id: 'tool-1', name: 'Edit', input: { file_path: '/work/app/index.html', old_string: '<title>Old</title>', new_string: '<title>New</title>' } },
+      { type: 'tool_use', id: 'tool-2', name: 'Bash', input: { command: 'npm test' } }
+    ]),
+    message('3', 'user', [
+      { type: 'tool_result', tool_use_id: 'tool-1', content: 'Updated' },
+      { type: 'tool_result', tool_use_id: 'tool-2', content: [{ type: 'text', text: 'Tests failed' }], is_error: true }
+    ]),
+    message('4', 'assistant', [{ type: 'text', text: 'Sub-agent work' }], { isSidechain: true })
+  ];
+
+  beforeEach(() => {
+    historyReader = {
+      fetchConversation: vi.fn().mockResolvedValue(messages),
+      getConversationMetadata: vi.fn().mockResolvedValue({ summary: 'Fix title', projectPath: '/work/app', model: 'claude-sonnet', totalDuration: 0 })
+    };
+    sessionInfoService = {
+      getSessionInfo: vi.fn().mockResolvedValue({ custom_name: '', pinned: true })
+    };
+    service = new ConversationExportService(historyReader as any, sessionInfoService as any);
+  });
+
+  it('should render messages and tool uses as Markdown', async () => {
+    const exported = await service.exportConversation('session-12345678', 'md');
+
+    expect(exported.filename).toBe('fix-title-session-.md');
+    expect(exported.contentType).toContain('text/markdown');
+    expect(exported.content).toContain('# Fix title');
+    expect(exported.content).toContain('## User\n\nFix the <title> tag');
+    expect(exported.content).toContain('**Update**(./index.html)');
+    expect(exported.content).toContain('```diff\n-<title>Old</title>\n+<title>New</title>\n```');
+    expect(exported.content).toContain('**Bash**(npm test)\n\n> Error: Tests failed');
+    expect(exported.content).not.toContain('Sub-agent work');
+    // The message carrying only tool results is not rendered as a user message
+    expect(exported.content.match(/## User/g)).toHaveLength(1);
+  });
+
+  it('should render a standalone HTML page with escaped content', async () => {
+    const exported = await service.exportConversation('session-12345678', 'html');
+
+    expect(exported.contentType).toContain('text/html');
+    expect(exported.content).toMatch(/^<!DOCTYPE html>/);
+    expect(exported.content).toContain('<style>');
+    expect(exported.content).not.toMatch(/<link|<script/);
+    expect(exported.content).toContain('Fix the &lt;title&gt; tag');
+    expect(exported.content).toContain('<div class="del">-&lt;title&gt;Old&lt;/title&gt;</div><div class="add">+&lt;title&gt;New&lt;/title&gt;</div>');
+  });
+
+  it('should bundle raw messages and session info as JSON', async () => {
+    const exported = await service.exportConversation('session-12345678', 'json');
+    const bundle: ConversationExportBundle = JSON.parse(exported.content);
+
+    expect(bundle).toMatchObject({
+      format: 'cui-conversation',
+      version: 1,
+      sessionId: 'session-12345678',
+      projectPath: '/work/app',
+      sessionInfo: { pinned: true }
+    });
+    expect(bundle.messages).toEqual(messages);
+  });
+
+  it('should report unknown conversations', async () => {
+    historyReader.getConversationMetadata.mockResolvedValue(null);
+
+    await expect(service.exportConversation('missing', 'md')).rejects.toMatchObject({ code: 'CONVERSATION_NOT_FOUND', statusCode: 404 });
+  });
+});
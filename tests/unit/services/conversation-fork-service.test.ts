@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConversationForkService } from '@/services/conversation-fork-service';
+import { SessionInfoService } from '@/services/session-info-service';
+import { ClaudeHistoryReader } from '@/services/claude-history-reader';
+
+vi.mock('@/services/logger.js');
+
+describe('ConversationForkService', () => {
+  let sessionInfoService: SessionInfoService;
+  let historyReader: { listConversations: ReturnType<typeof vi.fn> };
+  let service: ConversationForkService;
+
+  const summary = (sessionId: string, text: string, createdAt: string) => ({
+    sessionId,
+    summary: text,
+    createdAt,
+    updatedAt: createdAt
+  });
+
+  beforeEach(async () => {
+    SessionInfoService.resetInstance();
+    sessionInfoService = new SessionInfoService(':memory:');
+    await sessionInfoService.initialize();
+
+    historyReader = {
+      listConversations: vi.fn().mockResolvedValue({
+        conversations: [
+          summary('root-1', 'Root conversation', '2024-01-01T00:00:00Z'),
+          summary('root-2', 'Root continued', '2024-01-01T01:00:00Z'),
+          summary('seed-a', 'Root conversation', '2024-01-02T00:00:00Z'),
+          summary('fork-a', 'Fork A', '2024-01-02T00:01:00Z'),
+          summary('seed-b', 'Root conversation', '2024-01-03T00:00:00Z'),
+          summary('fork-b', 'Fork B', '2024-01-03T00:01:00Z')
+        ],
+        total: 6
+      })
+    };
+    service = new ConversationForkService(historyReader as unknown as ClaudeHistoryReader, sessionInfoService);
+
+    // root-1 was resumed as root-2, then forked twice from root-1
+    await sessionInfoService.updateSessionInfo('root-1', { continuation_session_id: 'root-2' });
+    await sessionInfoService.updateSessionInfo('root-2', {});
+    await sessionInfoService.updateSessionInfo('seed-a', {
+      forked_from_session_id: 'root-1',
+      forked_from_message_uuid: 'msg-2',
+      continuation_session_id: 'fork-a'
+    });
+    await sessionInfoService.updateSessionInfo('fork-a', { custom_name: 'Named fork' });
+    await sessionInfoService.updateSessionInfo('seed-b', {
+      forked_from_session_id: 'root-2',
+      forked_from_message_uuid: 'msg-4',
+      continuation_session_id: 'fork-b'
+    });
+    await sessionInfoService.updateSessionInfo('fork-b', {});
+  });
+
+  it('should build the tree from the root branch', async () => {
+    const root = await service.getForkTree('fork-a');
+
+    expect(root.sessionId).toBe('root-2');
+    expect(root.sessionIds).toEqual(['root-1', 'root-2']);
+    expect(root.title).toBe('Root continued');
+    expect(root.forkedFromSessionId).toBeUndefined();
+
+    expect(root.children.map(child => child.sessionId)).toEqual(['fork-a', 'fork-b']);
+    expect(root.children[0]).toMatchObject({
+      sessionIds: ['seed-a', 'fork-a'],
+      forkedFromSessionId: 'root-1',
+      forkedFromMessageUuid: 'msg-2',
+      title: 'Named fork',
+      children: []
+    });
+    expect(root.children[1].title).toBe('Fork B');
+  });
+
+  it('should return a single branch for a conversation without forks', async () => {
+    const root = await service.getForkTree('standalone');
+
+    expect(root.sessionId).toBe('standalone');
+    expect(root.sessionIds).toEqual(['standalone']);
+    expect(root.children).toEqual([]);
+  });
+
+  it('should not loop on cyclic fork records', async () => {
+    await sessionInfoService.updateSessionInfo('root-1', { forked_from_session_id: 'fork-a' });
+
+    const root = await service.getForkTree('root-2');
+
+    expect(root.sessionIds.length).toBeGreaterThan(0);
+  });
+});
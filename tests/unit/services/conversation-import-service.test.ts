@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConversationImportService } from '@/services/conversation-import-service';
+import { ClaudeHistoryReader } from '@/services/claude-history-reader';
+import type { ConversationExportBundle, ConversationMessage } from '@/types';
+
+vi.mock('@/services/logger.js');
+
+function message(uuid: string, parentUuid: string | undefined, type: 'user' | 'assistant', content: any, cwd: string): ConversationMessage {
+  return {
+    uuid,
+    parentUuid,
+    type,
+    message: { role: type, content } as any,
+    timestamp: `2025-01-01T00:00:0${uuid}.000Z`,
+    sessionId: 'session-1',
+    cwd
+  };
+}
+
+describe('ConversationImportService', () => {
+  let tempDir: string;
+  let historyReader: ClaudeHistoryReader;
+  let sessionInfoService: { getSessionInfo: ReturnType<typeof vi.fn>; updateSessionInfo: ReturnType<typeof vi.fn> };
+  let service: ConversationImportService;
+
+  const bundle: ConversationExportBundle = {
+    format: 'cui-conversation',
+    version: 1,
+    exportedAt: '2025-01-02T00:00:00.000Z',
+    sessionId: 'session-1',
+    summary: 'Fix the build',
+    projectPath: '/home/alice/app',
+    model: 'claude-sonnet',
+    sessionInfo: {
+      custom_name: 'Build fix',
+      created_at: '2025-01-01T00:00:00.000Z',
+      updated_at: '2025-01-01T00:00:00.000Z',
+      version: 4,
+      pinned: true,
+      archived: false,
+      continuation_session_id: '',
+      initial_commit_head: 'abc123',
+      permission_mode: 'acceptEdits',
+      forked_from_session_id: '',
+      forked_from_message_uuid: '',
+      worktree_path: '/home/alice/.cui/worktrees/session-1',
+      worktree_branch: 'cui/session-1'
+    },
+    messages: [
+      message('1', undefined, 'user', 'Fix the build', '/home/alice/app'),
+      message('2', '1', 'assistant', [{ type: 'text', text: 'Fixed' }], '/home/alice/app/packages/web')
+    ]
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cui-import-test-'));
+    historyReader = new ClaudeHistoryReader({ getSessionInfo: vi.fn() } as any);
+    (historyReader as any).claudeHomePath = tempDir;
+    sessionInfoService = {
+      getSessionInfo: vi.fn(),
+      updateSessionInfo: vi.fn().mockResolvedValue({})
+    };
+    service = new ConversationImportService(historyReader, sessionInfoService as any);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should import an export bundle into a remapped project', async () => {
+    const imported = await service.importConversation({
+      content: JSON.stringify(bundle, null, 2),
+      projectPath: '/Users/bob/code/app'
+    });
+
+    expect(imported).toEqual({ sessionId: 'session-1', projectPath: '/Users/bob/code/app', messageCount: 2 });
+
+    const messages = await historyReader.fetchConversation('session-1');
+    expect(messages.map(entry => entry.cwd)).toEqual(['/Users/bob/code/app', '/Users/bob/code/app/packages/web']);
+    const metadata = await historyReader.getConversationMetadata('session-1');
+    expect(metadata).toMatchObject({ summary: 'Fix the build', projectPath: '/Users/bob/code/app' });
+    await expect(fs.access(path.join(tempDir, 'projects', '-Users-bob-code-app', 'session-1.jsonl'))).resolves.toBeUndefined();
+
+    const restored = sessionInfoService.updateSessionInfo.mock.calls[0];
+    expect(restored[0]).toBe('session-1');
+    expect(restored[1]).toMatchObject({ custom_name: 'Build fix', pinned: true, initial_commit_head: 'abc123', permission_mode: 'acceptEdits' });
+    expect(restored[1]).not.toHaveProperty('worktree_path');
+    expect(restored[1]).not.toHaveProperty('created_at');
+  });
+
+  it('should import a Claude session file as is', async () => {
+    const content = bundle.messages.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+
+    const imported = await service.importConversation({ content });
+
+    expect(imported).toEqual({ sessionId: 'session-1', projectPath: '/home/alice/app', messageCount: 2 });
+    const written = await fs.readFile(path.join(tempDir, 'projects', '-home-alice-app', 'session-1.jsonl'), 'utf-8');
+    expect(written).toBe(content);
+    expect(sessionInfoService.updateSessionInfo).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to replace an existing conversation unless asked to', async () => {
+    const content = JSON.stringify(bundle);
+    await service.importConversation({ content });
+
+    await expect(service.importConversation({ content })).rejects.toMatchObject({ code: 'CONVERSATION_EXISTS', statusCode: 409 });
+    await expect(service.importConversation({ content, overwrite: true })).resolves.toMatchObject({ sessionId: 'session-1' });
+  });
+
+  it('should reject invalid content', async () => {
+    await expect(service.importConversation({ content: '{"type":"user"}\nnot json' })).rejects.toMatchObject({ code: 'INVALID_IMPORT', statusCode: 400 });
+    await expect(service.importConversation({ content: JSON.stringify({ ...bundle, sessionId: '../escape' }) })).rejects.toMatchObject({ code: 'INVALID_IMPORT' });
+    await expect(service.importConversation({ content: JSON.stringify(bundle), projectPath: 'relative/app' })).rejects.toMatchObject({ code: 'INVALID_PROJECT_PATH' });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ConversationSearchService } from '@/services/conversation-search-service';
+import { ClaudeHistoryReader } from '@/services/claude-history-reader';
+import { SessionInfoService } from '@/services/session-info-service';
+
+vi.mock('@/services/logger.js');
+
+describe('ConversationSearchService', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let sessionInfoService: SessionInfoService;
+  let historyReader: ClaudeHistoryReader;
+  let service: ConversationSearchService;
+
+  const writeSession = async (sessionId: string, lines: object[], mtime?: Date) => {
+    const filePath = path.join(projectDir, `${sessionId}.jsonl`);
+    await fs.writeFile(filePath, lines.map(line => JSON.stringify({ sessionId, cwd: '/work/app', ...line })).join('\n'));
+    if (mtime) {
+      await fs.utimes(filePath, mtime, mtime);
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'search-test-'));
+    projectDir = path.join(tempDir, 'projects', '-work-app');
+    await fs.mkdir(projectDir, { recursive: true });
+
+    SessionInfoService.resetInstance();
+    sessionInfoService = new SessionInfoService(':memory:');
+    await sessionInfoService.initialize();
+    historyReader = new ClaudeHistoryReader(sessionInfoService);
+    (historyReader as any).claudeHomePath = tempDir;
+
+    service = new ConversationSearchService(sessionInfoService, historyReader);
+    await service.initialize();
+
+    await writeSession('webhook-session', [
+      { type: 'user', uuid: 'w1', parentUuid: null, timestamp: '2024-01-01T00:00:00Z', message: { role: 'user', content: 'Fix the webhook retry bug' } },
+      { type: 'assistant', uuid: 'w2', parentUuid: 'w1', timestamp: '2024-01-01T00:00:01Z', message: { role: 'assistant', content: [{ type: 'tool_use', id: 'tool-1', name: 'Grep', input: { pattern: 'retryDelay' } }] } },
+      { type: 'user', uuid: 'w3', parentUuid: 'w2', timestamp: '2024-01-01T00:00:02Z', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'src/hooks.ts: const retryDelay = exponentialBackoff()' }] } }
+    ]);
+    await writeSession('other-session', [
+      { type: 'user', uuid: 'o1', parentUuid: null, timestamp: '2024-01-02T00:00:00Z', message: { role: 'user', content: 'Update the README' } }
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find sessions by message text with highlighted snippets', async () => {
+    const { results, total } = await service.search({ q: 'webhook retry' });
+
+    expect(total).toBe(1);
+    expect(results[0].sessionId).toBe('webhook-session');
+    expect(results[0].projectPath).toBe('/work/app');
+    const match = results[0].matches[0];
+    expect(match).toMatchObject({ messageUuid: 'w1', kind: 'message', role: 'user' });
+    expect(match.snippet.filter(segment => segment.highlight).map(segment => segment.text)).toEqual(['webhook', 'retry']);
+    expect(match.snippet.map(segment => segment.text).join('')).toBe('Fix the webhook retry bug');
+  });
+
+  it('should search tool inputs and outputs', async () => {
+    const input = await service.search({ q: 'retryDelay' });
+    expect(input.results[0].matchCount).toBe(2);
+    expect(input.results[0].matches.map(match => match.kind).sort()).toEqual(['tool_input', 'tool_output']);
+    expect(input.results[0].matches.every(match => match.toolName === 'Grep')).toBe(true);
+
+    const output = await service.search({ q: 'exponentialBackoff' });
+    expect(output.results[0].matches[0].kind).toBe('tool_output');
+  });
+
+  it('should match the last word as a prefix and treat syntax literally', async () => {
+    expect((await service.search({ q: 'READ' })).results.map(result => result.sessionId)).toEqual(['other-session']);
+    expect((await service.search({ q: 'webhook "OR' })).total).toBe(0);
+    expect((await service.search({ q: '   ' })).total).toBe(0);
+  });
+
+  it('should reindex files that changed and drop deleted files', async () => {
+    expect((await service.search({ q: 'deployment' })).total).toBe(0);
+
+    await writeSession('other-session', [
+      { type: 'user', uuid: 'o1', parentUuid: null, timestamp: '2024-01-02T00:00:00Z', message: { role: 'user', content: 'Update the README' } },
+      { type: 'assistant', uuid: 'o2', parentUuid: 'o1', timestamp: '2024-01-02T00:00:01Z', message: { role: 'assistant', content: [{ type: 'text', text: 'Added deployment notes' }] } }
+    ], new Date(Date.now() + 5000));
+    expect((await service.search({ q: 'deployment' })).results[0].sessionId).toBe('other-session');
+
+    await fs.rm(path.join(projectDir, 'webhook-session.jsonl'));
+    expect((await service.search({ q: 'webhook' })).total).toBe(0);
+  });
+
+  it('should only return the latest session of a resumed conversation', async () => {
+    await writeSession('webhook-continued', [
+      { type: 'user', uuid: 'w1', parentUuid: null, timestamp: '2024-01-01T00:00:00Z', message: { role: 'user', content: 'Fix the webhook retry bug' } }
+    ]);
+    await sessionInfoService.updateSessionInfo('webhook-session', { continuation_session_id: 'webhook-continued' });
+
+    const { results } = await service.search({ q: 'webhook' });
+
+    expect(results.map(result => result.sessionId)).toEqual(['webhook-continued']);
+  });
+
+  it('should filter by project path and paginate', async () => {
+    expect((await service.search({ q: 'the', projectPath: '/elsewhere' })).total).toBe(0);
+
+    const firstPage = await service.search({ q: 'the', limit: 1 });
+    expect(firstPage.total).toBe(2);
+    expect(firstPage.results).toHaveLength(1);
+    const secondPage = await service.search({ q: 'the', limit: 1, offset: 1 });
+    expect(secondPage.results[0].sessionId).not.toBe(firstPage.results[0].sessionId);
+  });
+});
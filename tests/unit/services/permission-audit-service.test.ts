@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SessionInfoService } from '@/services/session-info-service';
+import { PermissionAuditService } from '@/services/permission-audit-service';
+import { PermissionRequest } from '@/types';
+
+function decidedRequest(overrides: Partial<PermissionRequest> = {}): PermissionRequest {
+  return {
+    id: 'perm-1',
+    streamingId: 'stream-1',
+    toolName: 'Bash',
+    toolInput: { command: 'ls' },
+    timestamp: '2025-01-01T00:00:00.000Z',
+    status: 'approved',
+    decidedBy: 'user',
+    decidedAt: '2025-01-01T00:00:02.500Z',
+    ...overrides
+  };
+}
+
+describe('PermissionAuditService', () => {
+  let sessionInfoService: SessionInfoService;
+  let service: PermissionAuditService;
+
+  beforeEach(async () => {
+    SessionInfoService.resetInstance();
+    sessionInfoService = new SessionInfoService(':memory:');
+    await sessionInfoService.initialize();
+    service = new PermissionAuditService(sessionInfoService);
+    await service.initialize();
+  });
+
+  it('should record a decision with latency', () => {
+    const entry = service.recordDecision(decidedRequest(), 'session-1');
+
+    expect(entry?.latencyMs).toBe(2500);
+    const { entries, total } = service.getHistory();
+    expect(total).toBe(1);
+    expect(entries[0]).toMatchObject({
+      id: 'perm-1',
+      sessionId: 'session-1',
+      toolInput: { command: 'ls' },
+      status: 'approved',
+      decidedBy: 'user'
+    });
+  });
+
+  it('should keep original and modified input plus deny reason', () => {
+    service.recordDecision(decidedRequest({ id: 'a', modifiedInput: { command: 'ls -la' } }));
+    service.recordDecision(decidedRequest({ id: 'b', status: 'denied', denyReason: 'Too risky' }));
+
+    const approved = service.getHistory({ status: 'approved' }).entries[0];
+    expect(approved.toolInput).toEqual({ command: 'ls' });
+    expect(approved.modifiedInput).toEqual({ command: 'ls -la' });
+
+    const denied = service.getHistory({ status: 'denied' }).entries[0];
+    expect(denied.denyReason).toBe('Too risky');
+  });
+
+  it('should not record pending requests', () => {
+    service.recordDecision(decidedRequest({ status: 'pending' }));
+    expect(service.getHistory().total).toBe(0);
+  });
+
+  it('should filter by tool, session and date range with pagination', () => {
+    service.recordDecision(decidedRequest({ id: 'a', decidedAt: '2025-01-01T00:00:01.000Z' }), 's1');
+    service.recordDecision(decidedRequest({ id: 'b', toolName: 'Edit', decidedAt: '2025-01-02T00:00:00.000Z' }), 's1');
+    service.recordDecision(decidedRequest({ id: 'c', decidedAt: '2025-01-03T00:00:00.000Z' }), 's2');
+
+    expect(service.getHistory({ toolName: 'Edit' }).entries.map(e => e.id)).toEqual(['b']);
+    expect(service.getHistory({ sessionId: 's1' }).entries.map(e => e.id)).toEqual(['b', 'a']);
+    expect(service.getHistory({ from: '2025-01-02T00:00:00.000Z' }).entries.map(e => e.id)).toEqual(['c', 'b']);
+
+    const page = service.getHistory({ limit: 1, offset: 1 });
+    expect(page.total).toBe(3);
+    expect(page.entries.map(e => e.id)).toEqual(['b']);
+  });
+
+  it('should export entries as CSV', () => {
+    service.recordDecision(decidedRequest({ status: 'denied', denyReason: 'No, "never"' }), 's1');
+
+    const csv = service.toCsv(service.getHistory().entries);
+    const [header, row] = csv.trim().split('\n');
+
+    expect(header).toBe('id,decided_at,requested_at,latency_ms,session_id,streaming_id,tool_name,status,decided_by,deny_reason,tool_input,modified_input');
+    expect(row).toContain('"No, ""never"""');
+    expect(row).toContain('"{""command"":""ls""}"');
+  });
+});
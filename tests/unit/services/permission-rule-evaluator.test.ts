@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PermissionRuleEvaluator } from '@/services/permission-rule-evaluator';
+import type { PermissionRule } from '@/types/config';
+
+vi.mock('@/services/logger.js');
+
+describe('PermissionRuleEvaluator', () => {
+  let evaluator: PermissionRuleEvaluator;
+  const context = { workingDirectory: '/work/project', sessionId: 'session-1' };
+
+  beforeEach(() => {
+    evaluator = new PermissionRuleEvaluator();
+  });
+
+  it('should match rules by tool name', () => {
+    const rules: PermissionRule[] = [{ name: 'reads', action: 'allow', tools: ['Read', 'Grep'] }];
+
+    expect(evaluator.evaluate('Read', { file_path: '/etc/hosts' }, context, rules)?.name).toBe('reads');
+    expect(evaluator.evaluate('Write', { file_path: '/work/project/a.ts' }, context, rules)).toBeUndefined();
+  });
+
+  it('should match path globs only inside the working directory', () => {
+    const rules: PermissionRule[] = [{ name: 'src-edits', action: 'allow', tools: ['Edit'], paths: ['src/**/*.ts'] }];
+
+    expect(evaluator.evaluate('Edit', { file_path: '/work/project/src/a/b.ts' }, context, rules)?.name).toBe('src-edits');
+    expect(evaluator.evaluate('Edit', { file_path: 'src/c.ts' }, context, rules)?.name).toBe('src-edits');
+    expect(evaluator.evaluate('Edit', { file_path: '/work/project/docs/a.md' }, context, rules)).toBeUndefined();
+    expect(evaluator.evaluate('Edit', { file_path: '/work/project/../other/src/a.ts' }, context, rules)).toBeUndefined();
+    expect(evaluator.evaluate('Edit', { file_path: '/work/project/src/a.ts' }, {}, rules)).toBeUndefined();
+  });
+
+  it('should match Bash command prefixes and patterns', () => {
+    const rules: PermissionRule[] = [
+      { name: 'npm-test', action: 'allow', tools: ['Bash'], commandPrefixes: ['npm test', 'npm run lint'] },
+      { name: 'git-read', action: 'allow', tools: ['Bash'], commandPattern: '^git (status|diff|log)\\b' }
+    ];
+
+    expect(evaluator.evaluate('Bash', { command: 'npm test -- --watch=false' }, context, rules)?.name).toBe('npm-test');
+    expect(evaluator.evaluate('Bash', { command: 'npm testing' }, context, rules)).toBeUndefined();
+    expect(evaluator.evaluate('Bash', { command: 'git diff HEAD' }, context, rules)?.name).toBe('git-read');
+    expect(evaluator.evaluate('Bash', { command: 'git push' }, context, rules)).toBeUndefined();
+  });
+
+  it('should not allow chained commands through a prefix rule', () => {
+    const rules: PermissionRule[] = [{ name: 'npm-test', action: 'allow', commandPrefixes: ['npm test'] }];
+
+    expect(evaluator.evaluate('Bash', { command: 'npm test && rm -rf /' }, context, rules)).toBeUndefined();
+    expect(evaluator.evaluate('Bash', { command: 'npm test $(curl evil)' }, context, rules)).toBeUndefined();
+  });
+
+  it('should give deny rules precedence over allow rules', () => {
+    const rules: PermissionRule[] = [
+      { name: 'all-bash', action: 'allow', tools: ['Bash'] },
+      { name: 'no-rm', action: 'deny', tools: ['Bash'], commandPattern: '\\brm\\b' }
+    ];
+
+    expect(evaluator.evaluate('Bash', { command: 'rm -rf build' }, context, rules)?.name).toBe('no-rm');
+    expect(evaluator.evaluate('Bash', { command: 'ls' }, context, rules)?.name).toBe('all-bash');
+  });
+
+  it('should respect working directory and session scopes', () => {
+    const rules: PermissionRule[] = [
+      { name: 'project-only', action: 'allow', tools: ['Write'], workingDirectory: '/work/project/' },
+      { name: 'session-only', action: 'allow', tools: ['Edit'], sessionId: 'session-2' }
+    ];
+
+    expect(evaluator.evaluate('Write', {}, context, rules)?.name).toBe('project-only');
+    expect(evaluator.evaluate('Write', {}, { workingDirectory: '/work/other' }, rules)).toBeUndefined();
+    expect(evaluator.evaluate('Edit', {}, context, rules)).toBeUndefined();
+    expect(evaluator.evaluate('Edit', {}, { sessionId: 'session-2' }, rules)?.name).toBe('session-only');
+  });
+});
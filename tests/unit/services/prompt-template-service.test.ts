@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PromptTemplateService } from '@/services/prompt-template-service';
+import { ConfigService } from '@/services/config-service';
+import type { PromptTemplate } from '@/types';
+import * as git from '@/utils/git';
+
+vi.mock('@/services/logger.js');
+
+describe('PromptTemplateService', () => {
+  let templates: PromptTemplate[];
+  let service: PromptTemplateService;
+
+  beforeEach(() => {
+    templates = [
+      { name: 'review', template: 'Review {{file}} on {{branch}}' },
+      { name: 'ticket', description: 'Work on a ticket', template: 'Fix {{ticket}} in {{ workingDirectory }}' },
+      { name: 'review', template: 'Review {{file}} against the app style guide', workingDirectory: '/work/app' },
+      { name: 'deploy', template: 'Deploy', workingDirectory: '/work/other' }
+    ];
+    vi.spyOn(ConfigService, 'getInstance').mockReturnValue({
+      getConfig: () => ({ prompts: { templates } })
+    } as any);
+
+    service = new PromptTemplateService();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should list global templates with the user variables they need', () => {
+    expect(service.getTemplates()).toEqual([
+      { name: 'review', template: 'Review {{file}} on {{branch}}', variables: ['file'] },
+      { name: 'ticket', description: 'Work on a ticket', template: 'Fix {{ticket}} in {{ workingDirectory }}', variables: ['ticket'] }
+    ]);
+  });
+
+  it('should let working directory templates override global ones', () => {
+    const names = service.getTemplates('/work/app/').map(template => [template.name, template.template]);
+
+    expect(names).toEqual([
+      ['review', 'Review {{file}} against the app style guide'],
+      ['ticket', 'Fix {{ticket}} in {{ workingDirectory }}']
+    ]);
+  });
+
+  it('should render built-in and user variables', async () => {
+    const runGit = vi.spyOn(git, 'runGit').mockResolvedValue({ stdout: 'feature/login\n', stderr: '' });
+
+    await expect(service.renderPrompt('Review {{file}} on {{branch}} in {{workingDirectory}}', '/work/app', { file: 'src/app.ts' }))
+      .resolves.toBe('Review src/app.ts on feature/login in /work/app');
+    expect(runGit).toHaveBeenCalledWith('/work/app', ['rev-parse', '--abbrev-ref', 'HEAD']);
+  });
+
+  it('should reject prompts with variables that have no value', async () => {
+    vi.spyOn(git, 'runGit').mockRejectedValue(new Error('not a git repository'));
+
+    await expect(service.renderPrompt('Fix {{ticket}} on {{branch}}', '/tmp')).rejects.toMatchObject({
+      code: 'MISSING_TEMPLATE_VARIABLES',
+      statusCode: 400,
+      message: 'Missing values for ticket, branch'
+    });
+  });
+
+  it('should only require the given variables and keep other placeholders', async () => {
+    await expect(service.renderPrompt('Fix {{ticket}} in <p>{{count}}</p>', undefined, { ticket: 'CUI-12' }, ['ticket']))
+      .resolves.toBe('Fix CUI-12 in <p>{{count}}</p>');
+    await expect(service.renderPrompt('Fix {{ticket}}', undefined, {}, ['ticket'])).rejects.toMatchObject({ code: 'MISSING_TEMPLATE_VARIABLES' });
+  });
+});
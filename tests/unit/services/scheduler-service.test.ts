@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { SchedulerService } from '@/services/scheduler-service';
+import { SessionInfoService } from '@/services/session-info-service';
+import { getNextCronDate } from '@/utils/cron';
+
+vi.mock('@/services/logger.js');
+
+describe('SchedulerService', () => {
+  let sessionInfoService: SessionInfoService;
+  let processManager: EventEmitter & Record<string, any>;
+  let notificationService: { sendScheduledRunNotification: ReturnType<typeof vi.fn> };
+  let service: SchedulerService;
+
+  const jobRequest = {
+    name: 'Nightly dependencies',
+    cron: '0 2 * * *',
+    prompt: 'Update dependencies on {{date}} for {{job}}',
+    workingDirectory: '/work/app',
+    permissionMode: 'acceptEdits'
+  };
+
+  beforeEach(async () => {
+    SessionInfoService.resetInstance();
+    sessionInfoService = new SessionInfoService(':memory:');
+    await sessionInfoService.initialize();
+
+    processManager = Object.assign(new EventEmitter(), {
+      canStartConversation: vi.fn().mockReturnValue(true),
+      startConversation: vi.fn().mockResolvedValue({
+        streamingId: 'stream-1',
+        systemInit: { session_id: 'session-1', cwd: '/work/app' }
+      }),
+      enqueueConversation: vi.fn().mockReturnValue({ queueId: 'queue-1', position: 1 })
+    });
+    notificationService = { sendScheduledRunNotification: vi.fn().mockResolvedValue(undefined) };
+
+    service = new SchedulerService(sessionInfoService, processManager as any, notificationService as any);
+    await service.initialize();
+    service.listenToProcessManager();
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should store jobs with their next run', () => {
+    const job = service.createJob(jobRequest);
+
+    expect(job).toMatchObject({ name: 'Nightly dependencies', enabled: true, maxRetries: 0 });
+    expect(new Date(job.nextRunAt!).getHours()).toBe(2);
+    expect(service.listJobs()).toEqual([job]);
+
+    const disabled = service.updateJob(job.id, { enabled: false });
+    expect(disabled.nextRunAt).toBeUndefined();
+  });
+
+  it('should reject invalid jobs', () => {
+    expect(() => service.createJob({ ...jobRequest, cron: '0 25 * * *' })).toThrow(expect.objectContaining({ code: 'INVALID_CRON', statusCode: 400 }));
+    expect(() => service.createJob({ ...jobRequest, prompt: '' })).toThrow(expect.objectContaining({ code: 'MISSING_PROMPT' }));
+    expect(() => service.getJob('missing')).toThrow(expect.objectContaining({ code: 'SCHEDULED_JOB_NOT_FOUND', statusCode: 404 }));
+  });
+
+  it('should start due jobs with the rendered prompt and record how they finish', async () => {
+    const job = service.createJob(jobRequest);
+    const dueAt = new Date(job.nextRunAt!);
+
+    await service.runDueJobs(new Date(dueAt.getTime() - 1000));
+    expect(processManager.startConversation).not.toHaveBeenCalled();
+
+    await service.runDueJobs(dueAt);
+    const day = `${dueAt.getFullYear()}-${String(dueAt.getMonth() + 1).padStart(2, '0')}-${String(dueAt.getDate()).padStart(2, '0')}`;
+    expect(processManager.startConversation).toHaveBeenCalledWith({
+      workingDirectory: '/work/app',
+      initialPrompt: `Update dependencies on ${day} for Nightly dependencies`,
+      model: undefined,
+      permissionMode: 'acceptEdits'
+    });
+    expect(service.getJob(job.id).nextRunAt).toBe(getNextCronDate(job.cron, dueAt).toISOString());
+    expect(service.getRuns(job.id)).toEqual([
+      expect.objectContaining({ status: 'running', trigger: 'schedule', attempt: 1, sessionId: 'session-1', streamingId: 'stream-1' })
+    ]);
+    expect((await sessionInfoService.getSessionInfo('session-1')).permission_mode).toBe('acceptEdits');
+
+    processManager.emit('process-closed', { streamingId: 'stream-1', code: 0 });
+
+    const [run] = service.getRuns(job.id);
+    expect(run.status).toBe('succeeded');
+    expect(run.finishedAt).toBeDefined();
+    expect(notificationService.sendScheduledRunNotification).toHaveBeenCalledWith('Nightly dependencies', run);
+  });
+
+  it('should retry failed runs until the retries are used up', async () => {
+    vi.useFakeTimers();
+    const job = service.createJob({ ...jobRequest, maxRetries: 1 });
+
+    await service.runJob(job.id);
+    processManager.emit('process-closed', { streamingId: 'stream-1', code: 1 });
+    expect(notificationService.sendScheduledRunNotification).not.toHaveBeenCalled();
+
+    processManager.startConversation.mockResolvedValue({ streamingId: 'stream-2', systemInit: { session_id: 'session-2', cwd: '/work/app' } });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(processManager.startConversation).toHaveBeenCalledTimes(2);
+
+    processManager.emit('process-closed', { streamingId: 'stream-2', code: 1 });
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(processManager.startConversation).toHaveBeenCalledTimes(2);
+    expect(service.getRuns(job.id).map(run => [run.attempt, run.trigger, run.status])).toEqual([
+      [2, 'retry', 'failed'],
+      [1, 'manual', 'failed']
+    ]);
+    expect(notificationService.sendScheduledRunNotification).toHaveBeenCalledTimes(1);
+    expect(notificationService.sendScheduledRunNotification.mock.calls[0][1]).toMatchObject({ attempt: 2, error: 'Claude exited with code 1' });
+  });
+
+  it('should queue runs when no process slot is free', async () => {
+    processManager.canStartConversation.mockReturnValue(false);
+    const job = service.createJob(jobRequest);
+
+    const run = await service.runJob(job.id);
+    expect(run).toMatchObject({ status: 'queued', queueId: 'queue-1' });
+
+    processManager.emit('queued-conversation-failed', { queueId: 'queue-1', error: 'spawn failed' });
+    expect(service.getRuns(job.id)[0]).toMatchObject({ status: 'failed', error: 'spawn failed' });
+  });
+
+  it('should fail runs left unfinished by the previous server run', async () => {
+    const job = service.createJob(jobRequest);
+    await service.runJob(job.id);
+
+    const restarted = new SchedulerService(sessionInfoService, processManager as any);
+    await restarted.initialize();
+
+    expect(restarted.getRuns(job.id)[0]).toMatchObject({ status: 'failed', error: 'The server stopped before the run finished' });
+  });
+});
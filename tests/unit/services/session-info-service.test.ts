@@ -1,4 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
 import { SessionInfoService } from '@/services/session-info-service';
 
 describe('SessionInfoService with SQLite', () => {
@@ -61,5 +65,55 @@ describe('SessionInfoService with SQLite', () => {
     expect(stats.sessionCount).toBe(1);
     expect(stats.lastUpdated).toBeTypeOf('string');
   });
-});
 
+  it('should store fork relationships', async () => {
+    await service.updateSessionInfo('fork', {
+      forked_from_session_id: 'source',
+      forked_from_message_uuid: 'msg-2'
+    });
+    const info = await service.getSessionInfo('fork');
+    expect(info.forked_from_session_id).toBe('source');
+    expect(info.forked_from_message_uuid).toBe('msg-2');
+
+    const fresh = await service.getSessionInfo('other');
+    expect(fresh.forked_from_session_id).toBe('');
+  });
+
+  it('should add fork columns to an existing database', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-info-'));
+    try {
+      fs.mkdirSync(path.join(tempDir, '.cui'));
+      const legacy = new Database(path.join(tempDir, '.cui', 'session-info.db'));
+      legacy.exec(`
+        CREATE TABLE sessions (
+          session_id TEXT PRIMARY KEY,
+          custom_name TEXT NOT NULL DEFAULT '',
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          pinned INTEGER NOT NULL DEFAULT 0,
+          archived INTEGER NOT NULL DEFAULT 0,
+          continuation_session_id TEXT NOT NULL DEFAULT '',
+          initial_commit_head TEXT NOT NULL DEFAULT '',
+          permission_mode TEXT NOT NULL DEFAULT 'default'
+        );
+        INSERT INTO sessions (session_id, custom_name, created_at, updated_at, version)
+        VALUES ('legacy', 'Old', '2024-01-01T00:00:00Z', '2024-01-01T00:00:00Z', 3);
+      `);
+      legacy.close();
+
+      const migrated = new SessionInfoService(tempDir);
+      await migrated.initialize();
+      const info = await migrated.getSessionInfo('legacy');
+      expect(info.custom_name).toBe('Old');
+      expect(info.forked_from_session_id).toBe('');
+      expect(info.worktree_path).toBe('');
+
+      await migrated.updateSessionInfo('legacy', { forked_from_session_id: 'parent' });
+      expect((await migrated.getSessionInfo('legacy')).forked_from_session_id).toBe('parent');
+      migrated.getDatabase().close();
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
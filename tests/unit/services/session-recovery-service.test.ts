@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { SessionRecoveryService } from '@/services/session-recovery-service';
+import { SessionInfoService } from '@/services/session-info-service';
+import { ClaudeHistoryReader } from '@/services/claude-history-reader';
+
+vi.mock('@/services/logger.js');
+
+describe('SessionRecoveryService', () => {
+  let sessionInfoService: SessionInfoService;
+  let historyReader: vi.Mocked<ClaudeHistoryReader>;
+  let processManager: EventEmitter & Record<string, any>;
+  let service: SessionRecoveryService;
+
+  const config = {
+    workingDirectory: '/work/app',
+    initialPrompt: 'Refactor the parser',
+    model: 'claude-sonnet-4',
+    permissionMode: 'acceptEdits',
+    previousMessages: [{ uuid: 'm1' }] as any
+  };
+
+  const createService = async () => {
+    const created = new SessionRecoveryService(sessionInfoService, historyReader, processManager as any);
+    await created.initialize();
+    created.listenToProcessManager();
+    return created;
+  };
+
+  beforeEach(async () => {
+    SessionInfoService.resetInstance();
+    sessionInfoService = new SessionInfoService(':memory:');
+    await sessionInfoService.initialize();
+
+    historyReader = {
+      fetchConversation: vi.fn().mockResolvedValue([{ uuid: 'm1' }, { uuid: 'm2' }])
+    } as any;
+
+    processManager = Object.assign(new EventEmitter(), {
+      canStartConversation: vi.fn().mockReturnValue(true),
+      startConversation: vi.fn().mockResolvedValue({
+        streamingId: 'stream-2',
+        systemInit: { session_id: 'session-2', cwd: '/work/app' }
+      }),
+      enqueueConversation: vi.fn().mockReturnValue({ queueId: 'queue-1', position: 1 })
+    });
+
+    service = await createService();
+    processManager.emit('conversation-started', { streamingId: 'stream-1', sessionId: 'session-1', cwd: '/work/app', config });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should forget conversations that end normally', () => {
+    processManager.emit('process-closed', { streamingId: 'stream-1', code: 0 });
+    service.suspend();
+
+    expect(service.getInterruptedSessions()).toEqual([]);
+  });
+
+  it('should keep conversations stopped by a shutdown as interrupted', () => {
+    service.suspend();
+    processManager.emit('process-closed', { streamingId: 'stream-1', code: null });
+
+    expect(service.getInterruptedSessions()).toEqual([
+      expect.objectContaining({
+        sessionId: 'session-1',
+        streamingId: 'stream-1',
+        workingDirectory: '/work/app',
+        model: 'claude-sonnet-4',
+        permissionMode: 'acceptEdits',
+        lastUserMessage: 'Refactor the parser'
+      })
+    ]);
+  });
+
+  it('should show conversations interrupted by the user as interrupted without offering to recover them', async () => {
+    processManager.emit('process-closed', { streamingId: 'stream-1', code: 0, interrupted: true });
+    processManager.emit('process-closed', { streamingId: 'stream-1', code: 0, interrupted: false });
+
+    expect(service.getInterruptedSessionIds()).toEqual(new Set(['session-1']));
+    expect(service.getInterruptedSessions()).toEqual([]);
+
+    // A restart does not turn the user's interrupt into one to resume
+    service.suspend();
+    const restarted = await createService();
+    await restarted.resumeAll();
+    expect(restarted.getInterruptedSessions()).toEqual([]);
+    expect(processManager.startConversation).not.toHaveBeenCalled();
+  });
+
+  it('should record the last follow-up message sent to a conversation', () => {
+    processManager.emit('follow-up-sent', { id: 'f1', streamingId: 'stream-1', message: 'Also cover the lexer', queuedAt: '' });
+    service.suspend();
+
+    expect(service.getInterruptedSessions()[0].lastUserMessage).toBe('Also cover the lexer');
+  });
+
+  it('should mark sessions left running by a crash interrupted on startup', async () => {
+    expect(service.getInterruptedSessionIds().size).toBe(0);
+
+    // A new server run on the same database, without a shutdown of the old one
+    const restarted = await createService();
+
+    expect(restarted.getInterruptedSessionIds()).toEqual(new Set(['session-1']));
+  });
+
+  it('should resume an interrupted session with its settings', async () => {
+    service.suspend();
+
+    const result = await service.resume('session-1');
+
+    expect(result).toMatchObject({ streamingId: 'stream-2' });
+    expect(processManager.startConversation).toHaveBeenCalledWith(expect.objectContaining({
+      resumedSessionId: 'session-1',
+      workingDirectory: '/work/app',
+      model: 'claude-sonnet-4',
+      permissionMode: 'acceptEdits',
+      previousMessages: [{ uuid: 'm1' }, { uuid: 'm2' }]
+    }));
+    expect((await sessionInfoService.getSessionInfo('session-1')).continuation_session_id).toBe('session-2');
+
+    // The process manager reports the resumed run, which supersedes the interrupted one
+    processManager.emit('conversation-started', {
+      streamingId: 'stream-2',
+      sessionId: 'session-2',
+      cwd: '/work/app',
+      config: { ...config, resumedSessionId: 'session-1' }
+    });
+    expect(service.getInterruptedSessions()).toEqual([]);
+    await expect(service.resume('session-1')).rejects.toMatchObject({ code: 'INTERRUPTED_SESSION_NOT_FOUND' });
+  });
+
+  it('should queue the resume when no process slot is free and allow dismissing', async () => {
+    service.suspend();
+    processManager.canStartConversation.mockReturnValue(false);
+
+    expect(await service.resume('session-1')).toEqual({ queued: { queueId: 'queue-1', position: 1 } });
+    expect(processManager.startConversation).not.toHaveBeenCalled();
+    expect(service.getInterruptedSessions()).toEqual([]);
+    expect(service.dismiss('session-1')).toBe(false);
+  });
+});
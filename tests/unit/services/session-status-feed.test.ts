@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { SessionStatusFeed, ALL_SESSIONS_STREAM_ID } from '@/services/session-status-feed';
+import { StreamManager } from '@/services/stream-manager';
+import { ConversationStatusManager } from '@/services/conversation-status-manager';
+import { PermissionTracker } from '@/services/permission-tracker';
+
+vi.mock('@/services/logger.js');
+
+describe('SessionStatusFeed', () => {
+  let streamManager: StreamManager;
+  let processManager: EventEmitter;
+  let statusManager: ConversationStatusManager;
+  let permissionTracker: PermissionTracker;
+  let usageService: { calculateMessageCost: ReturnType<typeof vi.fn> };
+
+  const assistantMessage = (id: string, content: any[]) => ({
+    type: 'assistant',
+    session_id: 'session-1',
+    message: { id, model: 'claude-sonnet-4', role: 'assistant', content, usage: { input_tokens: 10, output_tokens: 5 } }
+  });
+
+  const published = () => streamManager.getEventsSince(ALL_SESSIONS_STREAM_ID, 0).map(({ event }) => event);
+
+  beforeEach(() => {
+    streamManager = new StreamManager();
+    processManager = new EventEmitter();
+    statusManager = new ConversationStatusManager();
+    permissionTracker = new PermissionTracker();
+    usageService = { calculateMessageCost: vi.fn().mockReturnValue(0.25) };
+
+    const feed = new SessionStatusFeed(streamManager, usageService as any);
+    feed.listen(processManager, statusManager, permissionTracker);
+  });
+
+  it('should publish the lifecycle of a session with its cost so far', () => {
+    statusManager.registerActiveSession('stream-1', 'session-1');
+    processManager.emit('claude-message', { streamingId: 'stream-1', message: assistantMessage('msg-1', [{ type: 'text', text: 'Looking' }]) });
+    // Same API response, split over two stream messages
+    processManager.emit('claude-message', { streamingId: 'stream-1', message: assistantMessage('msg-1', [{ type: 'tool_use', id: 't1', name: 'Bash', input: {} }]) });
+    processManager.emit('claude-message', { streamingId: 'stream-1', message: assistantMessage('msg-2', [{ type: 'text', text: 'Done' }]) });
+    processManager.emit('claude-message', { streamingId: 'stream-1', message: { type: 'result', subtype: 'success', is_error: false, session_id: 'session-1' } });
+    statusManager.unregisterActiveSession('stream-1');
+
+    expect(published()).toEqual([
+      expect.objectContaining({ type: 'session_status', status: 'started', streamingId: 'stream-1', sessionId: 'session-1', costUsd: 0 }),
+      expect.objectContaining({ status: 'assistant', costUsd: 0.25, toolName: undefined }),
+      expect.objectContaining({ status: 'assistant', costUsd: 0.25, toolName: 'Bash' }),
+      expect.objectContaining({ status: 'assistant', costUsd: 0.5 }),
+      expect.objectContaining({ status: 'result', costUsd: 0.5, resultSubtype: 'success', isError: false }),
+      expect.objectContaining({ status: 'closed', sessionId: 'session-1', costUsd: 0.5 })
+    ]);
+  });
+
+  it('should publish a started event once for sessions registered twice', () => {
+    statusManager.registerActiveSession('stream-1', 'session-1');
+    statusManager.registerActiveSession('stream-1', 'session-1');
+
+    expect(published()).toHaveLength(1);
+  });
+
+  it('should publish permission requests of a session', () => {
+    statusManager.registerActiveSession('stream-1', 'session-1');
+    const request = permissionTracker.addPermissionRequest('Write', { file_path: '/tmp/a' }, 'stream-1');
+
+    expect(published()[1]).toMatchObject({
+      status: 'permission_requested',
+      streamingId: 'stream-1',
+      sessionId: 'session-1',
+      toolName: 'Write',
+      permissionRequestId: request.id
+    });
+  });
+});
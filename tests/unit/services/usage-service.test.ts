@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { EventEmitter } from 'events';
+import { UsageService } from '@/services/usage-service';
+import { ClaudeHistoryReader } from '@/services/claude-history-reader';
+import { SessionInfoService } from '@/services/session-info-service';
+import { ConfigService } from '@/services/config-service';
+
+vi.mock('@/services/logger.js');
+
+describe('UsageService', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let sessionInfoService: SessionInfoService;
+  let historyReader: ClaudeHistoryReader;
+  let service: UsageService;
+  let configuredPrices: Record<string, { input: number; output: number; cacheWrite: number; cacheRead: number }> | undefined;
+
+  const assistantEntry = (sessionId: string, messageId: string, model: string, timestamp: string, usage: Record<string, number>) => ({
+    type: 'assistant',
+    uuid: `${messageId}-entry`,
+    sessionId,
+    cwd: '/work/app',
+    timestamp,
+    message: { id: messageId, role: 'assistant', model, content: [{ type: 'text', text: 'Done' }], usage }
+  });
+
+  const writeSession = async (sessionId: string, lines: object[], mtime?: Date) => {
+    const filePath = path.join(projectDir, `${sessionId}.jsonl`);
+    await fs.writeFile(filePath, lines.map(line => JSON.stringify(line)).join('\n'));
+    if (mtime) {
+      await fs.utimes(filePath, mtime, mtime);
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-test-'));
+    projectDir = path.join(tempDir, 'projects', '-work-app');
+    await fs.mkdir(projectDir, { recursive: true });
+
+    configuredPrices = undefined;
+    vi.spyOn(ConfigService, 'getInstance').mockReturnValue({
+      getConfig: () => ({ usage: { prices: configuredPrices } })
+    } as any);
+
+    SessionInfoService.resetInstance();
+    sessionInfoService = new SessionInfoService(':memory:');
+    await sessionInfoService.initialize();
+    historyReader = new ClaudeHistoryReader(sessionInfoService);
+    (historyReader as any).claudeHomePath = tempDir;
+
+    service = new UsageService(sessionInfoService, historyReader);
+    await service.initialize();
+
+    await writeSession('session-1', [
+      { type: 'user', uuid: 'u1', sessionId: 'session-1', cwd: '/work/app', timestamp: '2025-03-01T09:00:00Z', message: { role: 'user', content: 'Hello' } },
+      // Claude CLI writes one entry per content block of the same response
+      assistantEntry('session-1', 'msg-1', 'claude-sonnet-4-20250514', '2025-03-01T09:00:01Z', { input_tokens: 1000, output_tokens: 100, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 }),
+      assistantEntry('session-1', 'msg-1', 'claude-sonnet-4-20250514', '2025-03-01T09:00:02Z', { input_tokens: 1000, output_tokens: 200, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 }),
+      assistantEntry('session-1', 'msg-2', 'claude-opus-4-20250514', '2025-03-02T10:00:00Z', { input_tokens: 2000, output_tokens: 1000, cache_creation_input_tokens: 1000, cache_read_input_tokens: 10000 }),
+      assistantEntry('session-1', 'msg-3', '<synthetic>', '2025-03-02T10:00:01Z', { input_tokens: 0, output_tokens: 0 })
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should aggregate history usage per day with costs from the default prices', async () => {
+    const usage = await service.getUsage({ groupBy: 'day' });
+
+    expect(usage.buckets.map(bucket => bucket.key)).toEqual(['2025-03-01', '2025-03-02']);
+    expect(usage.buckets[0]).toMatchObject({ inputTokens: 1000, outputTokens: 200, messageCount: 1 });
+    // sonnet: 1000 * $3/M + 200 * $15/M
+    expect(usage.buckets[0].costUsd).toBeCloseTo(0.006);
+    // opus: 2000 * $15/M + 1000 * $75/M + 1000 * $18.75/M + 10000 * $1.5/M
+    expect(usage.buckets[1].costUsd).toBeCloseTo(0.13875);
+    expect(usage.totals.messageCount).toBe(2);
+    expect(usage.totals.costUsd).toBeCloseTo(0.14475);
+  });
+
+  it('should group by model, session and project and filter by day range', async () => {
+    const byModel = await service.getUsage({ groupBy: 'model' });
+    expect(byModel.buckets.map(bucket => bucket.key)).toEqual(['claude-opus-4-20250514', 'claude-sonnet-4-20250514']);
+
+    const bySession = await service.getUsage({ groupBy: 'session' });
+    expect(bySession.buckets).toHaveLength(1);
+    expect(bySession.buckets[0].key).toBe('session-1');
+
+    const byProject = await service.getUsage({ groupBy: 'project', from: '2025-03-02', to: '2025-03-02' });
+    expect(byProject.buckets).toEqual([expect.objectContaining({ key: '/work/app', inputTokens: 2000 })]);
+  });
+
+  it('should apply configured prices over the defaults', async () => {
+    configuredPrices = { 'claude-sonnet-4-20250514': { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 } };
+
+    const usage = await service.getUsage({ groupBy: 'model' });
+
+    expect(usage.buckets.find(bucket => bucket.key.includes('sonnet'))?.costUsd).toBe(0);
+    expect(usage.buckets.find(bucket => bucket.key.includes('opus'))?.costUsd).toBeCloseTo(0.13875);
+    expect(service.calculateCost('unknown-model', { inputTokens: 1000, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 })).toBe(0);
+  });
+
+  it('should record live stream usage and count it once when the history file catches up', async () => {
+    const processManager = new EventEmitter();
+    service.listenToClaudeMessages(processManager);
+
+    processManager.emit('claude-message', {
+      streamingId: 'stream-1',
+      message: { type: 'system', subtype: 'init', session_id: 'session-2', cwd: '/work/api', model: 'claude-sonnet-4-20250514' }
+    });
+    processManager.emit('claude-message', {
+      streamingId: 'stream-1',
+      message: {
+        type: 'assistant',
+        session_id: 'session-2',
+        message: { id: 'msg-live', model: 'claude-sonnet-4-20250514', content: [], usage: { input_tokens: 500, output_tokens: 50 } }
+      }
+    });
+
+    const live = await service.getUsage({ groupBy: 'project', sessionId: 'session-2' });
+    expect(live.buckets).toEqual([expect.objectContaining({ key: '/work/api', inputTokens: 500, outputTokens: 50 })]);
+
+    await writeSession('session-2', [
+      { ...assistantEntry('session-2', 'msg-live', 'claude-sonnet-4-20250514', '2025-03-03T08:00:00Z', { input_tokens: 500, output_tokens: 80 }), cwd: '/work/api' }
+    ], new Date(Date.now() + 5000));
+
+    const synced = await service.getUsage({ groupBy: 'day', sessionId: 'session-2' });
+    expect(synced.totals.messageCount).toBe(1);
+    expect(synced.buckets).toEqual([expect.objectContaining({ key: '2025-03-03', outputTokens: 80 })]);
+    expect((await service.getUsage({ sessionIds: ['session-1', 'session-2'] })).totals.messageCount).toBe(3);
+  });
+
+  it('should drop usage of deleted history files', async () => {
+    expect((await service.getUsage()).totals.messageCount).toBe(2);
+
+    await fs.rm(path.join(projectDir, 'session-1.jsonl'));
+
+    expect((await service.getUsage()).totals.messageCount).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { WorktreeService } from '@/services/worktree-service';
+import { SessionInfoService } from '@/services/session-info-service';
+
+vi.mock('@/services/logger.js');
+
+describe('WorktreeService', () => {
+  let sessionInfoService: SessionInfoService;
+  let conversationStatusManager: { getActiveSessionIds: ReturnType<typeof vi.fn>; getConversationContext: ReturnType<typeof vi.fn> };
+  let service: WorktreeService;
+  let tempDir: string;
+  let repo: string;
+
+  const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+
+  const startInWorktree = async (sessionId: string) => {
+    const worktree = await service.createWorktree(repo, 'Add a feature');
+    await sessionInfoService.updateSessionInfo(sessionId, { worktree_path: worktree.path, worktree_branch: worktree.branch });
+    return worktree;
+  };
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'cui-worktree-test-'));
+    repo = path.join(tempDir, 'app');
+    mkdirSync(repo);
+    git(repo, 'init', '-q', '-b', 'main');
+    git(repo, 'config', 'user.email', 'test@example.com');
+    git(repo, 'config', 'user.name', 'Test');
+    writeFileSync(path.join(repo, 'app.ts'), 'export const version = 1;\n');
+    git(repo, 'add', 'app.ts');
+    git(repo, 'commit', '-q', '-m', 'initial');
+
+    SessionInfoService.resetInstance();
+    sessionInfoService = new SessionInfoService(':memory:');
+    await sessionInfoService.initialize();
+
+    conversationStatusManager = {
+      getActiveSessionIds: vi.fn().mockReturnValue([]),
+      getConversationContext: vi.fn()
+    };
+    service = new WorktreeService(sessionInfoService, conversationStatusManager as any, path.join(tempDir, 'worktrees'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should create a worktree on its own branch', async () => {
+    mkdirSync(path.join(repo, 'src'));
+    const worktree = await service.createWorktree(path.join(repo, 'src'), 'Fix the login form!');
+
+    expect(worktree.branch).toMatch(/^cui\/fix-the-login-form-[0-9a-f]{8}$/);
+    expect(worktree.path).toBe(path.join(tempDir, 'worktrees', 'app', worktree.branch.slice('cui/'.length)));
+    expect(worktree.workingDirectory).toBe(path.join(worktree.path, 'src'));
+    expect(git(worktree.path, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe(worktree.branch);
+    expect(readFileSync(path.join(worktree.path, 'app.ts'), 'utf-8')).toBe('export const version = 1;\n');
+  });
+
+  it('should reject directories outside git repositories', async () => {
+    await expect(service.createWorktree(tempDir, 'Task')).rejects.toMatchObject({ code: 'NOT_A_GIT_REPOSITORY', statusCode: 400 });
+  });
+
+  it('should commit pending changes and merge them into the main checkout', async () => {
+    const worktree = await startInWorktree('session-1');
+    writeFileSync(path.join(worktree.path, 'app.ts'), 'export const version = 2;\n');
+
+    const result = await service.finishWorktree('session-1', 'merge');
+
+    expect(result).toEqual({ action: 'merge', branch: worktree.branch, worktreePath: worktree.path, mergedInto: 'main' });
+    expect(readFileSync(path.join(repo, 'app.ts'), 'utf-8')).toBe('export const version = 2;\n');
+    expect(existsSync(worktree.path)).toBe(false);
+    expect(git(repo, 'branch', '--list', worktree.branch)).toBe('');
+    expect((await sessionInfoService.getSessionInfo('session-1')).worktree_path).toBe('');
+  });
+
+  it('should discard the worktree without touching the main checkout', async () => {
+    const worktree = await startInWorktree('session-1');
+    writeFileSync(path.join(worktree.path, 'app.ts'), 'export const version = 2;\n');
+
+    await service.finishWorktree('session-1', 'discard');
+
+    expect(readFileSync(path.join(repo, 'app.ts'), 'utf-8')).toBe('export const version = 1;\n');
+    expect(existsSync(worktree.path)).toBe(false);
+    expect(git(repo, 'branch', '--list', worktree.branch)).toBe('');
+  });
+
+  it('should keep the worktree when the merge conflicts', async () => {
+    const worktree = await startInWorktree('session-1');
+    writeFileSync(path.join(worktree.path, 'app.ts'), 'export const version = 2;\n');
+    writeFileSync(path.join(repo, 'app.ts'), 'export const version = 3;\n');
+    git(repo, 'commit', '-q', '-am', 'conflicting change');
+
+    await expect(service.finishWorktree('session-1', 'merge')).rejects.toMatchObject({ code: 'MERGE_FAILED', statusCode: 409 });
+
+    expect(existsSync(worktree.path)).toBe(true);
+    expect(git(repo, 'status', '--porcelain')).toBe('');
+    expect((await sessionInfoService.getSessionInfo('session-1')).worktree_branch).toBe(worktree.branch);
+  });
+
+  it('should refuse to finish a worktree a conversation is running in', async () => {
+    const worktree = await startInWorktree('session-1');
+    conversationStatusManager.getActiveSessionIds.mockReturnValue(['session-2']);
+    conversationStatusManager.getConversationContext.mockReturnValue({ workingDirectory: worktree.path });
+
+    await expect(service.finishWorktree('session-1', 'discard')).rejects.toMatchObject({ code: 'CONVERSATION_RUNNING', statusCode: 409 });
+  });
+
+  describe('refusing to merge into the main checkout', () => {
+    it('should refuse while a conversation is running in it', async () => {
+      const worktree = await startInWorktree('session-1');
+      conversationStatusManager.getActiveSessionIds.mockReturnValue(['session-2']);
+      conversationStatusManager.getConversationContext.mockReturnValue({ workingDirectory: path.join(repo, 'src') });
+
+      await expect(service.finishWorktree('session-1', 'merge')).rejects.toMatchObject({ code: 'CONVERSATION_RUNNING', statusCode: 409 });
+      expect(existsSync(worktree.path)).toBe(true);
+    });
+
+    it('should refuse when it has uncommitted changes', async () => {
+      const worktree = await startInWorktree('session-1');
+      writeFileSync(path.join(worktree.path, 'feature.ts'), 'export {};\n');
+      writeFileSync(path.join(repo, 'app.ts'), 'export const version = 3;\n');
+
+      await expect(service.finishWorktree('session-1', 'merge')).rejects.toMatchObject({ code: 'UNCOMMITTED_CHANGES', statusCode: 409 });
+      expect(readFileSync(path.join(repo, 'app.ts'), 'utf-8')).toBe('export const version = 3;\n');
+      expect(git(worktree.path, 'status', '--porcelain')).toBe('?? feature.ts');
+    });
+
+    it('should refuse when its HEAD is detached', async () => {
+      const worktree = await startInWorktree('session-1');
+      git(repo, 'checkout', '-q', '--detach', 'HEAD');
+
+      await expect(service.finishWorktree('session-1', 'merge')).rejects.toMatchObject({ code: 'DETACHED_HEAD', statusCode: 409 });
+      expect(existsSync(worktree.path)).toBe(true);
+    });
+  });
+
+  it('should report sessions without a worktree', async () => {
+    await expect(service.finishWorktree('session-1', 'merge')).rejects.toMatchObject({ code: 'NO_WORKTREE', statusCode: 404 });
+  });
+});
@@ -151,7 +151,7 @@ describe('StreamManager', () => {
       
       manager.broadcast(streamingId, streamMessage);
       
-      const expectedData = `data: ${JSON.stringify(streamMessage)}\n\n`;
+      const expectedData = `id: 1\ndata: ${JSON.stringify(streamMessage)}\n\n`;
       expect(mockResponse.write).toHaveBeenCalledWith(expectedData);
       expect(mockResponse2.write).toHaveBeenCalledWith(expectedData);
     });
@@ -225,10 +225,10 @@ describe('StreamManager', () => {
       manager.closeSession(streamingId);
       
       expect(mockResponse.write).toHaveBeenCalledWith(
-        expect.stringMatching(/^data: .*"type":"closed".*\n\n$/)
+        expect.stringMatching(/^id: \d+\ndata: .*"type":"closed".*\n\n$/)
       );
       expect(mockResponse2.write).toHaveBeenCalledWith(
-        expect.stringMatching(/^data: .*"type":"closed".*\n\n$/)
+        expect.stringMatching(/^id: \d+\ndata: .*"type":"closed".*\n\n$/)
       );
     });
 
@@ -270,6 +270,87 @@ describe('StreamManager', () => {
     });
   });
 
+  describe('event replay', () => {
+    const assistantMessage = (text: string): AssistantStreamMessage => ({
+      type: 'assistant',
+      session_id: 'claude-session-456',
+      message: { role: 'assistant', content: [{ type: 'text', text }] } as any
+    });
+
+    const writtenEvents = (res: vi.Mocked<Response>) =>
+      res.write.mock.calls.map(([data]: [string]) => data);
+
+    it('should replay events missed since Last-Event-ID', () => {
+      const streamingId = 'test-streaming-123';
+
+      manager.addClient(streamingId, mockResponse);
+      manager.broadcast(streamingId, assistantMessage('first'));
+      mockResponse.emit('close');
+
+      // Emitted while no client is connected
+      manager.broadcast(streamingId, assistantMessage('second'));
+      manager.broadcast(streamingId, assistantMessage('third'));
+
+      const reconnected = createMockResponse();
+      manager.addClient(streamingId, reconnected, 1);
+
+      const written = writtenEvents(reconnected);
+      expect(written).toHaveLength(3);
+      expect(written[0]).toMatch(/^data: .*"type":"connected".*\n\n$/);
+      expect(written[0]).not.toContain('replay_incomplete');
+      expect(written[1]).toBe(`id: 2\ndata: ${JSON.stringify(assistantMessage('second'))}\n\n`);
+      expect(written[2]).toBe(`id: 3\ndata: ${JSON.stringify(assistantMessage('third'))}\n\n`);
+    });
+
+    it('should not replay events to clients without Last-Event-ID', () => {
+      const streamingId = 'test-streaming-123';
+      manager.broadcast(streamingId, assistantMessage('before'));
+
+      manager.addClient(streamingId, mockResponse);
+
+      expect(writtenEvents(mockResponse)).toHaveLength(1);
+    });
+
+    it('should keep ids increasing across sessions', () => {
+      const otherResponse = createMockResponse();
+      manager.addClient('stream-a', mockResponse);
+      manager.addClient('stream-b', otherResponse);
+
+      manager.broadcast('stream-a', assistantMessage('a'));
+      manager.broadcast('stream-b', assistantMessage('b'));
+
+      expect(writtenEvents(mockResponse)[1]).toMatch(/^id: 1\n/);
+      expect(writtenEvents(otherResponse)[1]).toMatch(/^id: 2\n/);
+    });
+
+    it('should flag the replay incomplete once missed events were dropped from the buffer', () => {
+      const streamingId = 'test-streaming-123';
+      for (let i = 0; i < 501; i++) {
+        manager.broadcast(streamingId, assistantMessage(`message ${i}`));
+      }
+
+      manager.addClient(streamingId, mockResponse, 0);
+
+      const written = writtenEvents(mockResponse);
+      expect(written[0]).toContain('"replay_incomplete":true');
+      expect(written).toHaveLength(501);
+      expect(written[1]).toMatch(/^id: 2\n/);
+    });
+
+    it('should replay the close event and end the connection of a finished session', () => {
+      const streamingId = 'test-streaming-123';
+      manager.broadcast(streamingId, assistantMessage('last'));
+      manager.closeSession(streamingId);
+
+      manager.addClient(streamingId, mockResponse, 1);
+
+      const written = writtenEvents(mockResponse);
+      expect(written[written.length - 1]).toMatch(/^id: 2\ndata: .*"type":"closed".*\n\n$/);
+      expect(mockResponse.end).toHaveBeenCalled();
+      expect(manager.getClientCount(streamingId)).toBe(0);
+    });
+  });
+
   describe('getActiveSessions', () => {
     it('should return empty array when no sessions', () => {
       expect(manager.getActiveSessions()).toEqual([]);
@@ -344,7 +425,7 @@ describe('StreamManager', () => {
       manager.broadcast(streamingId, largeStreamMessage);
       
       expect(mockResponse.write).toHaveBeenCalledWith(
-        expect.stringMatching(new RegExp(`^data: .*${largeContent.substring(0, 50).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}.*\\n\\n$`))
+        expect.stringMatching(new RegExp(`^id: 1\\ndata: .*${largeContent.substring(0, 50).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}.*\\n\\n$`))
       );
     });
   });
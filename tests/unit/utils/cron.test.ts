@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getNextCronDate, parseCron } from '@/utils/cron';
+
+// Local time, like the expressions
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe('cron', () => {
+  it('should parse lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-17 * jan,jul mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.months]).toEqual([1, 7]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('Expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('out of range');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step');
+    expect(() => parseCron('0 0 * * someday')).toThrow('Invalid value');
+  });
+
+  it('should find the next matching minute', () => {
+    expect(getNextCronDate('30 2 * * *', at(2025, 3, 10, 1, 59))).toEqual(at(2025, 3, 10, 2, 30));
+    expect(getNextCronDate('30 2 * * *', at(2025, 3, 10, 2, 30))).toEqual(at(2025, 3, 11, 2, 30));
+    expect(getNextCronDate('@monthly', at(2025, 12, 15))).toEqual(at(2026, 1, 1));
+    // 2025-03-10 is a Monday
+    expect(getNextCronDate('0 9 * * fri', at(2025, 3, 10))).toEqual(at(2025, 3, 14, 9));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    expect(getNextCronDate('0 0 1 * mon', at(2025, 3, 10, 12))).toEqual(at(2025, 3, 17));
+    expect(getNextCronDate('0 0 1 * mon', at(2025, 3, 31, 12))).toEqual(at(2025, 4, 1));
+  });
+
+  it('should give up on expressions that never match', () => {
+    expect(() => getNextCronDate('0 0 30 2 *', at(2025, 1, 1))).toThrow('never matches');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnifiedDiff } from '@/web/chat/utils/diff-hunks';
+
+const diff = (...lines: string[]) => lines.join('\n') + '\n';
+
+describe('diff-hunks', () => {
+  it('should parse hunks that only add lines', () => {
+    const [file] = parseUnifiedDiff(diff(
+      'diff --git a/feature.ts b/feature.ts',
+      'new file mode 100644',
+      'index 0000000..8b13789',
+      '--- /dev/null',
+      '+++ b/feature.ts',
+      '@@ -0,0 +1,2 @@',
+      '+export const a = 1;',
+      '+export const b = 2;'
+    ));
+
+    expect(file).toEqual({
+      path: 'feature.ts',
+      binary: false,
+      hunks: [{
+        header: '@@ -0,0 +1,2 @@',
+        oldStart: 0,
+        oldLines: 0,
+        newStart: 1,
+        newLines: 2,
+        lines: ['+export const a = 1;', '+export const b = 2;']
+      }]
+    });
+  });
+
+  it('should parse hunks that only remove lines and keep the path of deleted files', () => {
+    const files = parseUnifiedDiff(diff(
+      'diff --git a/app.ts b/app.ts',
+      'index 1111111..2222222 100644',
+      '--- a/app.ts',
+      '+++ b/app.ts',
+      '@@ -3 +2,0 @@ import',
+      '-const unused = true;',
+      'diff --git a/old.ts b/old.ts',
+      'deleted file mode 100644',
+      'index 3333333..0000000',
+      '--- a/old.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export {};'
+    ));
+
+    expect(files.map(file => file.path)).toEqual(['app.ts', 'old.ts']);
+    expect(files[0].hunks[0]).toMatchObject({ oldStart: 3, oldLines: 1, newStart: 2, newLines: 0, lines: ['-const unused = true;'] });
+    expect(files[1].hunks[0]).toMatchObject({ oldStart: 1, oldLines: 1, newStart: 0, newLines: 0, lines: ['-export {};'] });
+  });
+
+  it('should split multiple hunks of one file', () => {
+    const [file] = parseUnifiedDiff(diff(
+      'diff --git a/app.ts b/app.ts',
+      'index 1111111..2222222 100644',
+      '--- a/app.ts',
+      '+++ b/app.ts',
+      '@@ -1,3 +1,3 @@',
+      ' line 1',
+      '-line 2',
+      '+changed 2',
+      ' line 3',
+      '@@ -17,3 +17,3 @@ function end() {',
+      ' line 17',
+      '-line 18',
+      '+changed 18',
+      ' line 19'
+    ));
+
+    expect(file.hunks.map(hunk => hunk.header)).toEqual(['@@ -1,3 +1,3 @@', '@@ -17,3 +17,3 @@ function end() {']);
+    expect(file.hunks[1].lines).toEqual([' line 17', '-line 18', '+changed 18', ' line 19']);
+  });
+
+  it('should keep no newline at end of file markers in the hunk', () => {
+    const [file] = parseUnifiedDiff(diff(
+      'diff --git a/app.ts b/app.ts',
+      'index 1111111..2222222 100644',
+      '--- a/app.ts',
+      '+++ b/app.ts',
+      '@@ -1 +1 @@',
+      '-export const version = 1;',
+      '\\ No newline at end of file',
+      '+export const version = 2;'
+    ));
+
+    expect(file.hunks[0].lines).toEqual([
+      '-export const version = 1;',
+      '\\ No newline at end of file',
+      '+export const version = 2;'
+    ]);
+  });
+
+  it('should mark binary files without hunks', () => {
+    const [file] = parseUnifiedDiff(diff(
+      'diff --git a/logo.png b/logo.png',
+      'index 1111111..2222222 100644',
+      'Binary files a/logo.png and b/logo.png differ'
+    ));
+
+    expect(file).toEqual({ path: 'logo.png', binary: true, hunks: [] });
+  });
+});
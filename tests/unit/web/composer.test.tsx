@@ -0,0 +1,30 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { Composer } from '@/web/chat/components/Composer';
+
+describe('Composer', () => {
+  afterEach(() => {
+    cleanup();
+    localStorage.clear();
+  });
+
+  it('should send text with literal braces as written when no template was inserted', async () => {
+    const onSubmit = vi.fn();
+    const onRenderPrompt = vi.fn();
+    render(
+      <Composer
+        value="Why does <span>{{count}}</span> not update?"
+        onSubmit={onSubmit}
+        onRenderPrompt={onRenderPrompt}
+      />
+    );
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Enter', ctrlKey: true });
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+    expect(onSubmit.mock.calls[0][0]).toBe('Why does <span>{{count}}</span> not update?');
+    expect(onRenderPrompt).not.toHaveBeenCalled();
+  });
+});